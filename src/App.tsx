@@ -13,7 +13,23 @@ import UsersPage from "./pages/UsersPage";
 import CustomersPage from "./pages/CustomersPage";
 import SalesPage from "./pages/SalesPage";
 import CustomerDetailsPage from "./pages/CustomerDetailsPage";
+import CustomerDuplicatesPage from "./pages/CustomerDuplicatesPage";
 import SaleDetailsPage from "./pages/SaleDetailsPage";
+import QuotesPage from "./pages/QuotesPage";
+import QuoteDetailsPage from "./pages/QuoteDetailsPage";
+import PaymentsPage from "./pages/PaymentsPage";
+import ArAgingPage from "./pages/ArAgingPage";
+import ProductsPage from "./pages/ProductsPage";
+import ProductDetailsPage from "./pages/ProductDetailsPage";
+import EmployeesPage from "./pages/EmployeesPage";
+import EmployeeDetailsPage from "./pages/EmployeeDetailsPage";
+import DepartmentsPage from "./pages/DepartmentsPage";
+import JobsPage from "./pages/JobsPage";
+import NumberingPage from "./pages/NumberingPage";
+import PaymentTermsPage from "./pages/PaymentTermsPage";
+import CustomerStatementPage from "./pages/CustomerStatementPage";
+import InvoicePage from "./pages/InvoicePage";
+import CommissionsPage from "./pages/CommissionsPage";
 import ActivityLogsPage from "./pages/ActivityLogsPage";
 import NotificationsPage from "./pages/NotificationsPage";
 import ProfilePage from "./pages/ProfilePage";
@@ -73,9 +89,25 @@ const AppWithLightMode = () => {
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/dashboard/users" element={<UsersPage />} />
                 <Route path="/dashboard/customers" element={<CustomersPage />} />
+                <Route path="/dashboard/customers/duplicates" element={<CustomerDuplicatesPage />} />
                 <Route path="/dashboard/customers/:custno" element={<CustomerDetailsPage />} />
+                <Route path="/dashboard/customers/:custno/statement" element={<CustomerStatementPage />} />
+                <Route path="/dashboard/payment-terms" element={<PaymentTermsPage />} />
                 <Route path="/dashboard/sales" element={<SalesPage />} />
                 <Route path="/dashboard/sales/:transno" element={<SaleDetailsPage />} />
+                <Route path="/dashboard/sales/:transno/invoice" element={<InvoicePage />} />
+                <Route path="/dashboard/quotes" element={<QuotesPage />} />
+                <Route path="/dashboard/quotes/:quoteno" element={<QuoteDetailsPage />} />
+                <Route path="/dashboard/payments" element={<PaymentsPage />} />
+                <Route path="/dashboard/ar-aging" element={<ArAgingPage />} />
+                <Route path="/dashboard/commissions" element={<CommissionsPage />} />
+                <Route path="/dashboard/products" element={<ProductsPage />} />
+                <Route path="/dashboard/products/:prodcode" element={<ProductDetailsPage />} />
+                <Route path="/dashboard/employees" element={<EmployeesPage />} />
+                <Route path="/dashboard/employees/:empno" element={<EmployeeDetailsPage />} />
+                <Route path="/dashboard/departments" element={<DepartmentsPage />} />
+                <Route path="/dashboard/jobs" element={<JobsPage />} />
+                <Route path="/dashboard/numbering" element={<NumberingPage />} />
                 <Route path="/dashboard/activity-logs" element={<ActivityLogsPage />} />
                 <Route path="/dashboard/notifications" element={<NotificationsPage />} />
                 <Route path="/dashboard/profile" element={<ProfilePage />} />
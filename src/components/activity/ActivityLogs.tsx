@@ -8,6 +8,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
 import { format } from "date-fns";
+import { ExportButton } from "@/components/export/ExportButton";
+import { ExportColumn } from "@/components/export/ExportService";
+import { ListPage, fetchAllPages, getPageRange } from "@/utils/listQuery";
 
 interface ActivityLog {
   id: string;
@@ -20,11 +23,62 @@ interface ActivityLog {
   user_name?: string;
 }
 
+const exportColumns: ExportColumn<ActivityLog>[] = [
+  { key: 'created_at', header: 'Date & Time', type: 'datetime', value: log => log.created_at },
+  { key: 'user_name', header: 'User', value: log => log.user_name },
+  { key: 'action', header: 'Action', value: log => log.action },
+  { key: 'table_name', header: 'Table', value: log => log.table_name },
+  { key: 'record_id', header: 'Record ID', value: log => log.record_id },
+  { key: 'details', header: 'Details', value: log => log.details ? JSON.stringify(log.details) : '' },
+];
+
+// One page of logs, newest first, with the name of the user behind each entry
+const fetchLogsPage = async (page: number, pageSize: number): Promise<ListPage<ActivityLog>> => {
+  const [from, to] = getPageRange(page, pageSize);
+  const { data, error, count } = await supabase
+    .from('activity_logs')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, to);
+  
+  if (error) throw error;
+
+  // Look up every user on the page in one query
+  const userIds = [...new Set((data || []).map(log => log.user_id).filter((id): id is string => !!id))];
+  const userNames = new Map<string, string>();
+
+  if (userIds.length > 0) {
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name, email')
+      .in('id', userIds);
+
+    if (profileError) {
+      console.error('Error fetching user profiles:', profileError);
+    }
+
+    (profiles || []).forEach(profile => {
+      userNames.set(profile.id, profile.first_name && profile.last_name
+        ? `${profile.first_name} ${profile.last_name}`.trim()
+        : profile.email || 'Unknown User');
+    });
+  }
+
+  return {
+    rows: (data || []).map(log => ({
+      ...log,
+      user_name: log.user_id ? userNames.get(log.user_id) || 'Unknown User' : 'System'
+    })),
+    count: count || 0
+  };
+};
+
 export function ActivityLogs() {
   const [logs, setLogs] = useState<ActivityLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
+  const [totalCount, setTotalCount] = useState(0);
   const pageSize = 10;
   const { toast } = useToast();
 
@@ -34,44 +88,11 @@ export function ActivityLogs() {
 
   const fetchLogs = async () => {
     try {
-      const { data, error, count } = await supabase
-        .from('activity_logs')
-        .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false })
-        .range((page - 1) * pageSize, page * pageSize - 1);
-      
-      if (error) throw error;
-      
-      // Fetch user profiles for each log to get their names
-      const logsWithUserInfo = await Promise.all(
-        (data || []).map(async (log) => {
-          if (!log.user_id) return { ...log, user_name: 'System' };
-          
-          try {
-            const { data: profileData, error: profileError } = await supabase
-              .from('profiles')
-              .select('first_name, last_name, email')
-              .eq('id', log.user_id)
-              .single();
-            
-            if (profileError || !profileData) {
-              return { ...log, user_name: 'Unknown User' };
-            }
-            
-            const userName = profileData.first_name && profileData.last_name 
-              ? `${profileData.first_name} ${profileData.last_name}`.trim()
-              : profileData.email || 'Unknown User';
-            
-            return { ...log, user_name: userName };
-          } catch (e) {
-            console.error('Error fetching user profile:', e);
-            return { ...log, user_name: 'Unknown User' };
-          }
-        })
-      );
-      
-      setLogs(logsWithUserInfo);
-      setHasMore(count !== null ? page * pageSize < count : false);
+      const { rows, count } = await fetchLogsPage(page, pageSize);
+
+      setLogs(rows);
+      setTotalCount(count);
+      setHasMore(page * pageSize < count);
       
     } catch (error) {
       console.error('Error fetching activity logs:', error);
@@ -99,6 +120,7 @@ export function ActivityLogs() {
       update: 'bg-blue-100 text-blue-800',
       delete: 'bg-red-100 text-red-800',
       restore: 'bg-purple-100 text-purple-800',
+      void: 'bg-orange-100 text-orange-800',
       default: 'bg-gray-100 text-gray-800'
     };
     
@@ -113,7 +135,17 @@ export function ActivityLogs() {
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-2xl font-bold mb-6">Activity Logs</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">Activity Logs</h2>
+        <ExportButton
+          title="Activity Logs"
+          fileName="activity-logs"
+          columns={exportColumns}
+          rows={logs}
+          fetchAllRows={() => fetchAllPages(fetchLogsPage)}
+          totalCount={totalCount}
+        />
+      </div>
       
       <Table>
         <TableCaption>{loading ? 'Loading activity logs...' : 'Activity logs showing user actions.'}</TableCaption>
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Calculator, CheckCircle, Lock, Printer } from "lucide-react";
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { useCommissionPeriod } from "./hooks/useCommissionPeriod";
+
+interface CommissionPayoutReportProps {
+  // The month as yyyy-MM
+  month: string;
+  onMonthChange: (month: string) => void;
+  // Calculating sets the figures; approving locks them for payout
+  canCalculate: boolean;
+  canApprove: boolean;
+}
+
+const linkClass = "text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+const rateSourceLabels = {
+  employee: "Employee rate",
+  job: "Job rate",
+};
+
+// Commission payout per employee for one month, with calculation and approval
+export function CommissionPayoutReport({ month, onMonthChange, canCalculate, canApprove }: CommissionPayoutReportProps) {
+  const { period, lines, loading, working, calculate, approve } = useCommissionPeriod(`${month}-01`);
+  const [confirmApprove, setConfirmApprove] = useState(false);
+  const isApproved = period?.status === 'approved';
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      sales: sum.sales + line.sales_count,
+      revenue: sum.revenue + line.paid_revenue,
+      commission: sum.commission + line.commission,
+    }),
+    { sales: 0, revenue: 0, commission: 0 }
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800 print:shadow-none">
+      <div className="flex flex-wrap justify-between items-end gap-4 p-4 border-b">
+        <div className="space-y-2 print:hidden">
+          <Label htmlFor="month">Month</Label>
+          <Input
+            id="month"
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && onMonthChange(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <div className="hidden print:block">
+          <h2 className="text-xl font-bold">Commission Payout</h2>
+          {period && <p>{formatDate(period.period_start)} – {formatDate(period.period_end)}</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {period && (
+            isApproved ? (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                <Lock size={12} className="mr-1" /> Approved {period.approved_at && formatDate(period.approved_at)}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Open</Badge>
+            )
+          )}
+          <div className="flex gap-2 print:hidden">
+            {canCalculate && (
+              <Button variant="outline" onClick={calculate} disabled={working || loading || isApproved}>
+                <Calculator className="mr-2 h-4 w-4" /> {period ? 'Recalculate' : 'Calculate'}
+              </Button>
+            )}
+            {canApprove && (
+              <Button
+                variant="outline"
+                onClick={() => setConfirmApprove(true)}
+                disabled={working || loading || !period?.calculated_at || isApproved}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" /> Approve
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => window.print()} disabled={lines.length === 0}>
+              <Printer className="mr-2 h-4 w-4" /> Print
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {period?.calculated_at && (
+        <p className="px-4 pt-4 text-sm text-muted-foreground">
+          Calculated {formatDate(period.calculated_at)} from sales fully paid between{' '}
+          {formatDate(period.period_start)} and {formatDate(period.period_end)}.
+        </p>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Job</TableHead>
+            <TableHead className="text-right">Paid Sales</TableHead>
+            <TableHead className="text-right">Paid Revenue</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+            <TableHead className="text-right">Commission</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : !period ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">
+                Commissions have not been calculated for this month yet.
+              </TableCell>
+            </TableRow>
+          ) : lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">No sales were fully paid in this month.</TableCell>
+            </TableRow>
+          ) : (
+            lines.map(line => (
+              <TableRow key={line.empno}>
+                <TableCell>
+                  <Link to={`/dashboard/employees/${line.empno}`} className={linkClass}>
+                    {line.employee_name}
+                  </Link>
+                </TableCell>
+                <TableCell>{line.jobcode || '-'}</TableCell>
+                <TableCell className="text-right">{line.sales_count}</TableCell>
+                <TableCell className="text-right">${line.paid_revenue.toFixed(2)}</TableCell>
+                <TableCell className="text-right">
+                  {line.rate_source ? (
+                    <span title={rateSourceLabels[line.rate_source]}>{line.rate}%</span>
+                  ) : (
+                    <span className="text-muted-foreground" title="No commission rate applies">-</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-medium">${line.commission.toFixed(2)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        {lines.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">{totals.sales}</TableCell>
+              <TableCell className="text-right">${totals.revenue.toFixed(2)}</TableCell>
+              <TableCell />
+              <TableCell className="text-right">${totals.commission.toFixed(2)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+
+      <AlertDialog open={confirmApprove} onOpenChange={setConfirmApprove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Approve Commissions</AlertDialogTitle>
+            <AlertDialogDescription>
+              Approve a payout of ${totals.commission.toFixed(2)} to {lines.length} employee(s)?
+              Once approved, this month can no longer be recalculated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={approve}>Approve</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
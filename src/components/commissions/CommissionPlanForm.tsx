@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useJobs } from "@/components/employees/hooks/useJobs";
+import { useEmployeesData } from "@/components/employees/hooks/useEmployeesData";
+import { getEmployeeName } from "@/components/employees/EmployeeService";
+
+const rate = z.coerce.number()
+  .min(0, "Rate cannot be negative")
+  .max(100, "Rate cannot be more than 100%");
+
+export const commissionPlanFormSchema = z.object({
+  target: z.enum(["job", "employee"]),
+  jobcode: z.string(),
+  empno: z.string(),
+  base_rate: rate,
+  description: z.string().max(100, "Description must be 100 characters or less"),
+  tiers: z.array(z.object({
+    min_revenue: z.coerce.number().positive("Threshold must be more than 0"),
+    rate,
+  })),
+}).superRefine((values, ctx) => {
+  if (values.target === "job" && !values.jobcode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["jobcode"], message: "Select a job code" });
+  }
+
+  if (values.target === "employee" && !values.empno) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["empno"], message: "Select an employee" });
+  }
+
+  const thresholds = values.tiers.map(tier => tier.min_revenue);
+  thresholds.forEach((threshold, index) => {
+    if (thresholds.indexOf(threshold) !== index) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["tiers", index, "min_revenue"],
+        message: "Each tier needs a different threshold",
+      });
+    }
+  });
+});
+
+export type CommissionPlanFormValues = z.infer<typeof commissionPlanFormSchema>;
+
+interface CommissionPlanFormProps {
+  defaultValues: CommissionPlanFormValues;
+  onSubmit: (values: CommissionPlanFormValues) => void;
+  onCancel: () => void;
+  isEditing: boolean;
+}
+
+export function CommissionPlanForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  isEditing
+}: CommissionPlanFormProps) {
+  const { jobs } = useJobs();
+  const { employees } = useEmployeesData(false);
+  const form = useForm<CommissionPlanFormValues>({
+    resolver: zodResolver(commissionPlanFormSchema),
+    defaultValues,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "tiers" });
+  const target = form.watch("target");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="target"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Applies To</FormLabel>
+              <FormControl>
+                <RadioGroup
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={isEditing}
+                  className="flex gap-6"
+                >
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <RadioGroupItem value="job" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Job code</FormLabel>
+                  </FormItem>
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <RadioGroupItem value="employee" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Employee</FormLabel>
+                  </FormItem>
+                </RadioGroup>
+              </FormControl>
+              <FormDescription>An employee's own rate is used instead of the rate of their job.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {target === "job" ? (
+          <FormField
+            control={form.control}
+            name="jobcode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Job Code</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select job code" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {jobs.map(job => (
+                      <SelectItem key={job.jobcode} value={job.jobcode}>
+                        {job.jobcode}
+                        {job.jobdesc && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{job.jobdesc}</span>}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            control={form.control}
+            name="empno"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Employee</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select employee" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {employees.map(employee => (
+                      <SelectItem key={employee.empno} value={employee.empno}>
+                        {getEmployeeName(employee)}
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{employee.empno}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="base_rate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Base Rate (%)</FormLabel>
+              <FormControl>
+                <Input {...field} type="number" min={0} max={100} step="0.01" />
+              </FormControl>
+              <FormDescription>Share of paid revenue earned as commission.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={100} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <FormLabel>Tiers</FormLabel>
+            <Button type="button" variant="outline" size="sm" onClick={() => append({ min_revenue: 0, rate: 0 })}>
+              <Plus size={14} className="mr-1" /> Add Tier
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Once an employee's paid revenue for the month reaches a tier's threshold, the tier's rate
+            applies to all of that month's revenue.
+          </p>
+          {fields.map((tierField, index) => (
+            <div key={tierField.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`tiers.${index}.min_revenue`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input {...field} type="number" min={0} step="0.01" placeholder="Monthly revenue from" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`tiers.${index}.rate`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input {...field} type="number" min={0} max={100} step="0.01" placeholder="Rate %" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                <Trash2 size={16} className="text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Add Commission Rate'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { CommissionPlanForm, CommissionPlanFormValues } from "./CommissionPlanForm";
+import { CommissionPlan, CommissionPlanFormData, describePlanTarget } from "./CommissionService";
+
+interface CommissionPlansTableProps {
+  plans: CommissionPlan[];
+  loading: boolean;
+  canManage: boolean;
+  onSave: (id: string | null, data: CommissionPlanFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const emptyPlan: CommissionPlanFormValues = {
+  target: "job",
+  jobcode: "",
+  empno: "",
+  base_rate: 0,
+  description: "",
+  tiers: [],
+};
+
+// Commission rates per job code and per employee, with the add/edit dialog
+export function CommissionPlansTable({ plans, loading, canManage, onSave, onDelete }: CommissionPlansTableProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<CommissionPlan | null>(null);
+
+  const openDialog = (plan?: CommissionPlan) => {
+    setSelectedPlan(plan || null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: CommissionPlanFormValues) => {
+    const data: CommissionPlanFormData = {
+      target: values.target,
+      jobcode: values.target === "job" ? values.jobcode : null,
+      empno: values.target === "employee" ? values.empno : null,
+      base_rate: values.base_rate,
+      description: values.description.trim(),
+      tiers: values.tiers.map(tier => ({ min_revenue: tier.min_revenue, rate: tier.rate })),
+    };
+
+    if (await onSave(selectedPlan?.id || null, data)) {
+      setDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+      <div className="flex justify-between items-center p-4 border-b">
+        <div>
+          <h2 className="text-xl font-bold">Commission Rates</h2>
+          <p className="text-gray-500 dark:text-gray-400">
+            Rates apply to sales in the month they are fully paid.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog()}>
+            <Plus size={16} className="mr-2" /> Add Commission Rate
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Applies To</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Base Rate</TableHead>
+            <TableHead>Tiers</TableHead>
+            {canManage && <TableHead className="w-[100px]">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={canManage ? 5 : 4} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : plans.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={canManage ? 5 : 4} className="text-center">No commission rates found.</TableCell>
+            </TableRow>
+          ) : (
+            plans.map((plan) => (
+              <TableRow key={plan.id}>
+                <TableCell className="font-medium">
+                  <Badge variant="outline" className="mr-2">{plan.empno ? 'Employee' : 'Job'}</Badge>
+                  {describePlanTarget(plan)}
+                </TableCell>
+                <TableCell>{plan.description || 'N/A'}</TableCell>
+                <TableCell className="text-right">{plan.base_rate}%</TableCell>
+                <TableCell>
+                  {plan.tiers.length === 0
+                    ? '-'
+                    : plan.tiers.map(tier => `${tier.rate}% from $${tier.min_revenue.toFixed(2)}`).join(', ')}
+                </TableCell>
+                {canManage && (
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(plan)}>
+                        <Edit size={16} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => onDelete(plan.id)}>
+                        <Trash2 size={16} className="text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedPlan ? 'Edit Commission Rate' : 'Add Commission Rate'}</DialogTitle>
+          </DialogHeader>
+          {dialogOpen && (
+            <CommissionPlanForm
+              defaultValues={selectedPlan ? {
+                target: selectedPlan.empno ? "employee" : "job",
+                jobcode: selectedPlan.jobcode || "",
+                empno: selectedPlan.empno || "",
+                base_rate: selectedPlan.base_rate,
+                description: selectedPlan.description || "",
+                tiers: selectedPlan.tiers,
+              } : emptyPlan}
+              onSubmit={handleSubmit}
+              onCancel={() => setDialogOpen(false)}
+              isEditing={!!selectedPlan}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { getEmployeeName } from "@/components/employees/EmployeeService";
+
+export interface CommissionTier {
+  min_revenue: number;
+  rate: number;
+}
+
+export interface CommissionPlan {
+  id: string;
+  jobcode: string | null;
+  empno: string | null;
+  base_rate: number;
+  description: string | null;
+  tiers: CommissionTier[];
+  job?: {
+    jobcode: string;
+    jobdesc: string | null;
+  } | null;
+  employee?: {
+    empno: string;
+    firstname: string | null;
+    lastname: string | null;
+  } | null;
+}
+
+export interface CommissionPlanFormData {
+  target: 'job' | 'employee';
+  jobcode: string | null;
+  empno: string | null;
+  base_rate: number;
+  description: string;
+  tiers: CommissionTier[];
+}
+
+export interface CommissionPeriod {
+  id: string;
+  period_start: string;
+  period_end: string;
+  status: 'open' | 'approved';
+  calculated_at: string | null;
+  approved_at: string | null;
+}
+
+export interface CommissionLine {
+  empno: string;
+  employee_name: string;
+  jobcode: string | null;
+  rate_source: 'employee' | 'job' | null;
+  sales_count: number;
+  paid_revenue: number;
+  rate: number;
+  commission: number;
+}
+
+interface CommissionResult {
+  success: boolean;
+  message: string;
+}
+
+// First day of the month containing the given date, as yyyy-MM-dd
+export const toMonthStart = (date: Date): string => format(new Date(date.getFullYear(), date.getMonth(), 1), 'yyyy-MM-dd');
+
+// Who a plan applies to, e.g. "Job SALES" or "Jane Doe"
+export const describePlanTarget = (plan: CommissionPlan): string => {
+  if (plan.empno) {
+    return plan.employee ? getEmployeeName(plan.employee) : plan.empno;
+  }
+  return plan.job?.jobdesc ? `${plan.job.jobdesc} (${plan.jobcode})` : `Job ${plan.jobcode}`;
+};
+
+// Fetch all commission plans with their tiers, job plans first
+export const fetchCommissionPlans = async (): Promise<CommissionPlan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('commission_plan')
+      .select(`
+        id, jobcode, empno, base_rate, description,
+        job:jobcode (jobcode, jobdesc),
+        employee:empno (empno, firstname, lastname),
+        commission_tier (min_revenue, rate)
+      `)
+      .order('jobcode', { ascending: true, nullsFirst: false })
+      .order('empno', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(({ commission_tier, ...plan }) => ({
+      ...plan,
+      tiers: [...(commission_tier || [])].sort((a, b) => a.min_revenue - b.min_revenue)
+    }));
+  } catch (error) {
+    console.error('Error fetching commission plans:', error);
+    throw error;
+  }
+};
+
+// Add or update a plan; its tiers are replaced by the ones submitted
+export const saveCommissionPlan = async (id: string | null, data: CommissionPlanFormData): Promise<CommissionResult> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const plan = {
+      jobcode: data.target === 'job' ? data.jobcode : null,
+      empno: data.target === 'employee' ? data.empno : null,
+      base_rate: data.base_rate,
+      description: data.description || null,
+    };
+
+    const { data: saved, error } = id
+      ? await supabase
+          .from('commission_plan')
+          .update({ ...plan, modified_by: userId, modified_at: new Date().toISOString() })
+          .eq('id', id)
+          .select('id')
+          .single()
+      : await supabase
+          .from('commission_plan')
+          .insert({ ...plan, created_by: userId, created_at: new Date().toISOString() })
+          .select('id')
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('commission_tier')
+      .delete()
+      .eq('plan_id', saved.id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (data.tiers.length > 0) {
+      const { error: tierError } = await supabase
+        .from('commission_tier')
+        .insert(data.tiers.map(tier => ({ plan_id: saved.id, min_revenue: tier.min_revenue, rate: tier.rate })));
+
+      if (tierError) {
+        throw tierError;
+      }
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: id ? 'update' : 'insert',
+      table_name: 'commission_plan',
+      record_id: saved.id,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: id ? "Commission rate updated successfully" : "Commission rate added successfully" };
+  } catch (error) {
+    console.error("Error saving commission plan:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return {
+        success: false,
+        message: data.target === 'job'
+          ? "This job code already has a commission rate."
+          : "This employee already has a commission rate."
+      };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to save commission rate" };
+  }
+};
+
+// Delete a plan and its tiers. Approved payouts keep the rates they were calculated with.
+export const deleteCommissionPlan = async (id: string): Promise<CommissionResult> => {
+  try {
+    const { error } = await supabase
+      .from('commission_plan')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'commission_plan',
+      record_id: id,
+      details: JSON.stringify({ id })
+    });
+
+    return { success: true, message: "Commission rate deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting commission plan:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete commission rate" };
+  }
+};
+
+// Fetch the period for a month, or null when it has never been calculated
+export const fetchCommissionPeriod = async (monthStart: string): Promise<CommissionPeriod | null> => {
+  const { data, error } = await supabase
+    .from('commission_period')
+    .select('id, period_start, period_end, status, calculated_at, approved_at')
+    .eq('period_start', monthStart)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as CommissionPeriod | null;
+};
+
+// Fetch the payout lines of a period, highest commission first
+export const fetchCommissionLines = async (periodId: string): Promise<CommissionLine[]> => {
+  const { data, error } = await supabase
+    .from('commission_line')
+    .select(`
+      empno, jobcode, rate_source, sales_count, paid_revenue, rate, commission,
+      employee:empno (empno, firstname, lastname)
+    `)
+    .eq('period_id', periodId)
+    .order('commission', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ employee, ...line }) => ({
+    ...line,
+    rate_source: line.rate_source as CommissionLine['rate_source'],
+    employee_name: employee ? getEmployeeName(employee) : line.empno
+  }));
+};
+
+// Recalculate a month from the sales that were fully paid in it
+export const calculateCommissions = async (monthStart: string): Promise<CommissionResult> => {
+  try {
+    const { data, error } = await supabase.rpc('calculate_commissions', { month_start: monthStart });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as unknown as CommissionResult;
+  } catch (error) {
+    console.error("Error calculating commissions:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to calculate commissions" };
+  }
+};
+
+// Approve a calculated month; its payouts can no longer be recalculated
+export const approveCommissionPeriod = async (monthStart: string): Promise<CommissionResult> => {
+  try {
+    const { data, error } = await supabase.rpc('approve_commission_period', { month_start: monthStart });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as unknown as CommissionResult;
+  } catch (error) {
+    console.error("Error approving commission period:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to approve commission period" };
+  }
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CommissionLine,
+  CommissionPeriod,
+  approveCommissionPeriod,
+  calculateCommissions,
+  fetchCommissionLines,
+  fetchCommissionPeriod
+} from "../CommissionService";
+
+// The commission period of one month with its payout lines
+export function useCommissionPeriod(monthStart: string) {
+  const [period, setPeriod] = useState<CommissionPeriod | null>(null);
+  const [lines, setLines] = useState<CommissionLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPeriod();
+  }, [monthStart]);
+
+  const loadPeriod = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchCommissionPeriod(monthStart);
+      setPeriod(data);
+      setLines(data ? await fetchCommissionLines(data.id) : []);
+    } catch (error) {
+      console.error('Error fetching commission period:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load commissions.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the actions below
+  const runAction = async (action: () => Promise<{ success: boolean; message: string }>, title: string) => {
+    setWorking(true);
+    try {
+      const result = await action();
+      toast({
+        title: result.success ? title : "Error",
+        description: result.message,
+        variant: result.success ? undefined : "destructive",
+      });
+
+      if (result.success) {
+        await loadPeriod();
+      }
+
+      return result.success;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const calculate = () => runAction(() => calculateCommissions(monthStart), "Commissions Calculated");
+
+  const approve = () => runAction(() => approveCommissionPeriod(monthStart), "Period Approved");
+
+  return {
+    period,
+    lines,
+    loading,
+    working,
+    calculate,
+    approve
+  };
+}
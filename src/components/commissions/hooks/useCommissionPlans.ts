@@ -0,0 +1,66 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CommissionPlan,
+  CommissionPlanFormData,
+  deleteCommissionPlan,
+  fetchCommissionPlans,
+  saveCommissionPlan
+} from "../CommissionService";
+
+export function useCommissionPlans() {
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  const loadPlans = async () => {
+    setLoading(true);
+    try {
+      setPlans(await fetchCommissionPlans());
+    } catch (error) {
+      console.error('Error fetching commission plans:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch commission rates.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadPlans();
+    }
+
+    return result.success;
+  };
+
+  const savePlan = async (id: string | null, data: CommissionPlanFormData) => {
+    return handleResult(await saveCommissionPlan(id, data), id ? "Commission Rate Updated" : "Commission Rate Added");
+  };
+
+  const removePlan = async (id: string) => {
+    return handleResult(await deleteCommissionPlan(id), "Commission Rate Deleted");
+  };
+
+  return {
+    plans,
+    loading,
+    loadPlans,
+    savePlan,
+    removePlan
+  };
+}
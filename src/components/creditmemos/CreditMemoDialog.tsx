@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { FieldPath, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { releaseDocumentNumber, reserveDocumentNumber } from "@/components/numbering/DocumentSequenceService";
+import { ReturnableLine, createCreditMemo, fetchReturnableLines } from "./CreditMemoService";
+
+const creditMemoFormSchema = z.object({
+  memono: z.string().min(1, "Credit memo number is required").max(20, "Credit memo number must be 20 characters or less"),
+  memodate: z.string().min(1, "Date is required"),
+  reason: z.string().max(200, "Reason must be 200 characters or less"),
+  lines: z.array(z.object({
+    prodcode: z.string(),
+    returnable: z.number(),
+    quantity: z.coerce.number().min(0, "Quantity cannot be negative"),
+  })),
+}).superRefine((values, ctx) => {
+  values.lines.forEach((line, index) => {
+    if (line.quantity > line.returnable) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["lines", index, "quantity"],
+        message: `Only ${line.returnable} can still be returned`,
+      });
+    }
+  });
+
+  if (!values.lines.some(line => line.quantity > 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["lines"],
+      message: "Enter a returned quantity for at least one product",
+    });
+  }
+});
+
+type CreditMemoFormValues = z.infer<typeof creditMemoFormSchema>;
+
+interface CreditMemoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transno: string;
+  saleDate: string | null;
+  onIssued: () => void;
+}
+
+// Issue a credit memo for goods returned from a sale, up to the quantity not yet returned
+export function CreditMemoDialog({ open, onOpenChange, transno, saleDate, onIssued }: CreditMemoDialogProps) {
+  const [returnableLines, setReturnableLines] = useState<ReturnableLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const reservedMemono = useRef<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<CreditMemoFormValues>({
+    resolver: zodResolver(creditMemoFormSchema),
+    defaultValues: { memono: "", memodate: format(new Date(), 'yyyy-MM-dd'), reason: "", lines: [] },
+  });
+
+  // Hand an unused number back when the dialog closes; ignored once the memo is saved
+  const releaseReservedNumber = () => {
+    if (reservedMemono.current) {
+      releaseDocumentNumber('credit_memo', reservedMemono.current);
+      reservedMemono.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (!open) {
+      releaseReservedNumber();
+      return;
+    }
+
+    const prepareForm = async () => {
+      setLoading(true);
+      try {
+        const [lines, memono] = await Promise.all([
+          fetchReturnableLines(transno),
+          reserveDocumentNumber('credit_memo')
+        ]);
+        reservedMemono.current = memono;
+        setReturnableLines(lines);
+        form.reset({
+          memono,
+          memodate: format(new Date(), 'yyyy-MM-dd'),
+          reason: "",
+          lines: lines.map(line => ({ prodcode: line.prodcode, returnable: line.returnable, quantity: 0 })),
+        });
+      } catch (error) {
+        console.error('Error preparing credit memo:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the sale for a credit memo.",
+          variant: "destructive",
+        });
+        onOpenChange(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    prepareForm();
+  }, [open, transno]);
+
+  useEffect(() => releaseReservedNumber, []);
+
+  const lines = form.watch("lines");
+  const creditTotal = lines.reduce(
+    (sum, line, index) => sum + (Number(line.quantity) || 0) * (returnableLines[index]?.unitprice || 0),
+    0
+  );
+
+  const handleSubmit = async (values: CreditMemoFormValues) => {
+    // Only lines with a quantity are sent; remember where each came from to place server errors
+    const sentIndexes = values.lines
+      .map((line, index) => (line.quantity > 0 ? index : -1))
+      .filter(index => index >= 0);
+
+    setIsSubmitting(true);
+    const result = await createCreditMemo({
+      memono: values.memono.trim(),
+      transno,
+      memodate: new Date(`${values.memodate}T00:00:00`),
+      reason: values.reason.trim(),
+      lines: sentIndexes.map(index => ({ prodcode: values.lines[index].prodcode, quantity: values.lines[index].quantity })),
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      result.errors.forEach(fieldError => {
+        const field = fieldError.field.replace(/^lines\.(\d+)\./, (_, index) => `lines.${sentIndexes[Number(index)]}.`);
+        form.setError(field as FieldPath<CreditMemoFormValues>, { type: "server", message: fieldError.message });
+      });
+
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    reservedMemono.current = null;
+    toast({ title: "Credit Memo Issued", description: result.message });
+    onOpenChange(false);
+    onIssued();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Credit Memo</DialogTitle>
+          <DialogDescription>
+            Record goods returned from sale #{transno}. The credit is taken off what the customer owes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div>Loading sale items...</div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="memono"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Memo Number</FormLabel>
+                      <FormControl>
+                        <Input {...field} maxLength={20} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="memodate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" min={saleDate ? saleDate.substring(0, 10) : undefined} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} maxLength={200} placeholder="Why are these goods being returned?" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="text-right">Returned</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="w-[120px]">Return Qty</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {returnableLines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center">This sale has no items.</TableCell>
+                      </TableRow>
+                    ) : (
+                      returnableLines.map((line, index) => (
+                        <TableRow key={line.prodcode}>
+                          <TableCell>
+                            <div className="font-medium">{line.prodcode}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{line.description || 'N/A'}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{line.sold}</TableCell>
+                          <TableCell className="text-right">{line.returned}</TableCell>
+                          <TableCell className="text-right">${line.unitprice.toFixed(2)}</TableCell>
+                          <TableCell>
+                            <FormField
+                              control={form.control}
+                              name={`lines.${index}.quantity`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Input
+                                      {...field}
+                                      type="number"
+                                      min={0}
+                                      max={line.returnable}
+                                      disabled={line.returnable === 0}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+                {form.formState.errors.lines?.root?.message || form.formState.errors.lines?.message ? (
+                  <p className="text-sm font-medium text-destructive">
+                    {form.formState.errors.lines?.root?.message || form.formState.errors.lines?.message}
+                  </p>
+                ) : null}
+                <div className="flex justify-end text-sm font-medium">
+                  Credit total: ${creditTotal.toFixed(2)}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSubmitting || returnableLines.length === 0}>
+                  {isSubmitting ? 'Issuing...' : 'Issue Credit Memo'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
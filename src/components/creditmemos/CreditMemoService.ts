@@ -0,0 +1,201 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { priceSaleLines } from "@/components/sales/PricingService";
+import { SaleFieldError } from "@/components/sales/SaleService";
+
+export interface CreditMemoLine {
+  prodcode: string;
+  quantity: number;
+  unitprice: number;
+  subtotal: number;
+  product?: {
+    prodcode: string;
+    description: string | null;
+    unit: string | null;
+  } | null;
+}
+
+export interface CreditMemo {
+  memono: string;
+  transno: string;
+  memodate: string;
+  reason: string | null;
+  created_at: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  lines: CreditMemoLine[];
+  total: number;
+}
+
+// A sold line with how much of it can still be returned
+export interface ReturnableLine {
+  prodcode: string;
+  description: string | null;
+  unit: string | null;
+  sold: number;
+  returned: number;
+  returnable: number;
+  unitprice: number;
+}
+
+export interface CreditMemoFormData {
+  memono: string;
+  transno: string;
+  memodate: Date;
+  reason: string;
+  lines: { prodcode: string; quantity: number }[];
+}
+
+interface CreateCreditMemoResponse {
+  success: boolean;
+  memono: string | null;
+  errors: SaleFieldError[];
+}
+
+// Total credited by the memos that have not been voided
+export const sumCredits = (memos: Pick<CreditMemo, 'total' | 'voided_at'>[]): number => {
+  return memos
+    .filter(memo => !memo.voided_at)
+    .reduce((sum, memo) => sum + memo.total, 0);
+};
+
+// Fetch the credit memos of a sale with their lines, newest first
+export const fetchCreditMemosForSale = async (transno: string): Promise<CreditMemo[]> => {
+  const { data, error } = await supabase
+    .from('credit_memo')
+    .select(`
+      memono, transno, memodate, reason, created_at, voided_at, void_reason,
+      credit_memo_line (
+        prodcode, quantity, unitprice,
+        product:prodcode (prodcode, description, unit)
+      )
+    `)
+    .eq('transno', transno)
+    .order('memodate', { ascending: false })
+    .order('memono', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ credit_memo_line, ...memo }) => {
+    const lines = (credit_memo_line || []).map(line => ({
+      ...line,
+      subtotal: Number(line.quantity) * Number(line.unitprice)
+    }));
+    return { ...memo, lines, total: lines.reduce((sum, line) => sum + line.subtotal, 0) };
+  });
+};
+
+// Amount credited on a sale so far
+export const fetchCreditedAmount = async (transno: string): Promise<number> => {
+  return sumCredits(await fetchCreditMemosForSale(transno));
+};
+
+// The lines of a sale with the quantity already returned on memos that have not been voided
+export const fetchReturnableLines = async (transno: string): Promise<ReturnableLine[]> => {
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select('salesdate')
+    .eq('transno', transno)
+    .single();
+
+  if (saleError) throw saleError;
+
+  const { data: details, error: detailsError } = await supabase
+    .from('salesdetail')
+    .select('prodcode, quantity, quoted_price, product:prodcode (description, unit)')
+    .eq('transno', transno)
+    .is('deleted_at', null)
+    .order('prodcode', { ascending: true });
+
+  if (detailsError) throw detailsError;
+
+  const memos = await fetchCreditMemosForSale(transno);
+  const returned = new Map<string, number>();
+  memos
+    .filter(memo => !memo.voided_at)
+    .forEach(memo => memo.lines.forEach(line => {
+      returned.set(line.prodcode, (returned.get(line.prodcode) || 0) + Number(line.quantity));
+    }));
+
+  const priced = await priceSaleLines(details || [], sale?.salesdate);
+
+  return (details || []).map((detail, index) => {
+    const sold = Number(detail.quantity) || 0;
+    const alreadyReturned = returned.get(detail.prodcode) || 0;
+    return {
+      prodcode: detail.prodcode,
+      description: detail.product?.description || null,
+      unit: detail.product?.unit || null,
+      sold,
+      returned: alreadyReturned,
+      returnable: Math.max(sold - alreadyReturned, 0),
+      unitprice: priced.lines[index].unitprice
+    };
+  });
+};
+
+// Issue a credit memo through the create_credit_memo RPC. Lines are priced by the database
+// at the price the sale was billed at. Validation errors come back keyed by form field path.
+export const createCreditMemo = async (
+  data: CreditMemoFormData
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[] }> => {
+  try {
+    const { data: response, error } = await supabase.rpc('create_credit_memo', {
+      memo: {
+        memono: data.memono,
+        transno: data.transno,
+        memodate: format(data.memodate, 'yyyy-MM-dd'),
+        reason: data.reason
+      },
+      lines: data.lines
+    });
+
+    if (error) throw error;
+
+    const result = response as unknown as CreateCreditMemoResponse;
+
+    if (!result.success) {
+      return { success: false, message: "Please correct the highlighted fields.", errors: result.errors || [] };
+    }
+
+    return { success: true, message: `Credit memo #${result.memono} has been issued.`, errors: [] };
+  } catch (error) {
+    console.error("Error creating credit memo:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to issue credit memo.", errors: [] };
+  }
+};
+
+// Void a credit memo; its quantities can be returned again and the credit no longer applies
+export const voidCreditMemo = async (memono: string, reason: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('credit_memo')
+      .update({
+        voided_at: new Date().toISOString(),
+        voided_by: userId,
+        void_reason: reason || null
+      })
+      .eq('memono', memono);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'void',
+      table_name: 'credit_memo',
+      record_id: memono,
+      details: JSON.stringify({ memono, voided_by: userId, reason })
+    });
+
+    return { success: true, message: "Credit memo voided successfully" };
+  } catch (error) {
+    console.error("Error voiding credit memo:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to void credit memo" };
+  }
+};
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Ban, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { CreditMemoDialog } from "./CreditMemoDialog";
+import { VoidCreditMemoDialog } from "./VoidCreditMemoDialog";
+import { CreditMemo, voidCreditMemo } from "./CreditMemoService";
+import { useCreditMemoPermissions } from "./hooks/useCreditMemoPermissions";
+
+interface SaleCreditMemosProps {
+  transno: string;
+  saleDate: string | null;
+  creditMemos: CreditMemo[];
+  amountCredited: number;
+  loading: boolean;
+  isSaleDeleted: boolean;
+  onCreditMemosChanged: () => void;
+}
+
+// The credit memos issued against a sale, each shown as its own document
+export function SaleCreditMemos({
+  transno,
+  saleDate,
+  creditMemos,
+  amountCredited,
+  loading,
+  isSaleDeleted,
+  onCreditMemosChanged
+}: SaleCreditMemosProps) {
+  const { canIssueCreditMemo, canVoidCreditMemo } = useCreditMemoPermissions();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [voidTarget, setVoidTarget] = useState<CreditMemo | null>(null);
+  const { toast } = useToast();
+
+  const handleVoid = async (reason: string) => {
+    if (!voidTarget) return;
+
+    const result = await voidCreditMemo(voidTarget.memono, reason);
+    toast({
+      title: result.success ? "Credit Memo Voided" : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      setVoidTarget(null);
+      onCreditMemosChanged();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="text-sm">
+          <span className="text-gray-500 dark:text-gray-400">Credited: </span>
+          <span className="font-medium">${amountCredited.toFixed(2)}</span>
+        </div>
+        {canIssueCreditMemo && !isSaleDeleted && (
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus size={16} className="mr-2" /> Issue Credit Memo
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div>Loading credit memos...</div>
+      ) : creditMemos.length === 0 ? (
+        <div className="text-center p-4">No goods have been returned from this sale.</div>
+      ) : (
+        creditMemos.map(memo => (
+          <div key={memo.memono} className={`border rounded-md ${memo.voided_at ? "opacity-60" : ""}`}>
+            <div className="flex flex-wrap justify-between items-start gap-4 p-4 border-b">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">Credit Memo #{memo.memono}</h3>
+                  {memo.voided_at && <Badge variant="destructive">Voided</Badge>}
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatDate(memo.memodate)}{memo.reason && ` · ${memo.reason}`}
+                </p>
+                {memo.voided_at && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Voided {formatDate(memo.voided_at)}{memo.void_reason && `: ${memo.void_reason}`}
+                  </p>
+                )}
+              </div>
+              {canVoidCreditMemo && !memo.voided_at && (
+                <Button variant="outline" size="sm" onClick={() => setVoidTarget(memo)}>
+                  <Ban size={14} className="mr-2" /> Void
+                </Button>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product Code</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {memo.lines.map(line => (
+                  <TableRow key={line.prodcode}>
+                    <TableCell>{line.prodcode}</TableCell>
+                    <TableCell>{line.product?.description || 'N/A'}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">${Number(line.unitprice).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${line.subtotal.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4} className="text-right">Total Credit:</TableCell>
+                  <TableCell className="text-right">${memo.total.toFixed(2)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        ))
+      )}
+
+      <CreditMemoDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        transno={transno}
+        saleDate={saleDate}
+        onIssued={onCreditMemosChanged}
+      />
+
+      <VoidCreditMemoDialog
+        open={!!voidTarget}
+        onOpenChange={(open) => !open && setVoidTarget(null)}
+        creditMemo={voidTarget}
+        onConfirm={handleVoid}
+      />
+    </div>
+  );
+}
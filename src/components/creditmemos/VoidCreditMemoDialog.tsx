@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CreditMemo } from "./CreditMemoService";
+
+interface VoidCreditMemoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  creditMemo: CreditMemo | null;
+  onConfirm: (reason: string) => void;
+}
+
+export function VoidCreditMemoDialog({
+  open,
+  onOpenChange,
+  creditMemo,
+  onConfirm
+}: VoidCreditMemoDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Void Credit Memo</DialogTitle>
+          <DialogDescription>
+            Credit memo #{creditMemo?.memono} for ${(creditMemo?.total || 0).toFixed(2)} will no longer be credited against sale #{creditMemo?.transno}, and its items can be returned again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="void-reason">Reason</Label>
+          <Textarea
+            id="void-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this credit memo being voided?"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" variant="destructive" disabled={!reason.trim()} onClick={() => onConfirm(reason.trim())}>
+            Void Credit Memo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,13 @@
+import { useAuth } from "@/contexts/AuthContext";
+
+export function useCreditMemoPermissions() {
+  const { can } = useAuth();
+
+  const canIssueCreditMemo = can('credit_memos', 'create');
+  const canVoidCreditMemo = can('credit_memos', 'void');
+
+  return {
+    canIssueCreditMemo,
+    canVoidCreditMemo
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { CreditMemo, fetchCreditMemosForSale, sumCredits } from "../CreditMemoService";
+
+export function useSaleCreditMemos(transno: string | undefined) {
+  const [creditMemos, setCreditMemos] = useState<CreditMemo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCreditMemos();
+  }, [transno]);
+
+  const loadCreditMemos = async () => {
+    if (!transno) return;
+
+    setLoading(true);
+    try {
+      setCreditMemos(await fetchCreditMemosForSale(transno));
+    } catch (error) {
+      console.error('Error fetching credit memos:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch credit memos for this sale.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    creditMemos,
+    amountCredited: sumCredits(creditMemos),
+    loading,
+    loadCreditMemos
+  };
+}
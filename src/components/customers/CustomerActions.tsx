@@ -13,7 +13,7 @@ interface CustomerActionsProps {
   onDelete: (customer: Customer) => void;
   onEdit: (customer: Customer) => void;
   showDeleted?: boolean;
-  isAdmin?: boolean;
+  canRestoreCustomer?: boolean;
   canEditCustomer?: boolean;
   canDeleteCustomer?: boolean;
   onRestore?: (customer: Customer) => void;
@@ -26,7 +26,7 @@ export function CustomerActions({
   onDelete,
   onEdit,
   showDeleted = false,
-  isAdmin = false,
+  canRestoreCustomer = false,
   canEditCustomer = false,
   canDeleteCustomer = false,
   onRestore,
@@ -36,7 +36,7 @@ export function CustomerActions({
   const { toast } = useToast();
 
   const handleDelete = () => {
-    if (!canDeleteCustomer && !isAdmin) {
+    if (!canDeleteCustomer) {
       toast({
         title: "Permission Denied",
         description: "You don't have permission to delete customers.",
@@ -49,7 +49,7 @@ export function CustomerActions({
   };
 
   const handleEdit = () => {
-    if (!canEditCustomer && !isAdmin) {
+    if (!canEditCustomer) {
       toast({
         title: "Permission Denied",
         description: "You don't have permission to edit customers.",
@@ -62,10 +62,10 @@ export function CustomerActions({
   };
 
   const handleRestore = () => {
-    if (!isAdmin || !onRestore) {
+    if (!canRestoreCustomer || !onRestore) {
       toast({
         title: "Permission Denied",
-        description: "Only admins can restore deleted customers.",
+        description: "You don't have permission to restore deleted customers.",
         variant: "destructive"
       });
       return;
@@ -80,9 +80,9 @@ export function CustomerActions({
     }
   };
 
-  // If showing deleted items, only admins can restore
+  // If showing deleted items, only those who may restore see an action
   if (showDeleted) {
-    if (!isAdmin) {
+    if (!canRestoreCustomer) {
       return null;
     }
     
@@ -100,7 +100,7 @@ export function CustomerActions({
   }
 
   // If user has no permissions, show just view button if available
-  if (!canEditCustomer && !canDeleteCustomer && !isAdmin) {
+  if (!canEditCustomer && !canDeleteCustomer) {
     return onView ? (
       <Button variant="outline" size="sm" onClick={handleView}>
         <Eye className="mr-2 h-4 w-4" /> View
@@ -123,12 +123,12 @@ export function CustomerActions({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          {(canEditCustomer || isAdmin) && (
+          {canEditCustomer && (
             <DropdownMenuItem onClick={handleEdit}>
               <Edit className="mr-2 h-4 w-4" /> Edit
             </DropdownMenuItem>
           )}
-          {(canDeleteCustomer || isAdmin) && (
+          {canDeleteCustomer && (
             <DropdownMenuItem 
               onClick={handleDelete}
               className="text-destructive focus:text-destructive"
@@ -0,0 +1,43 @@
+import { UseFormReturn } from "react-hook-form";
+import {
+  FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { AddressFormData, AddressKind } from "./CustomerService";
+import { CustomerFormValues } from "./CustomerForm";
+
+interface CustomerAddressFieldsProps {
+  form: UseFormReturn<CustomerFormValues>;
+  kind: AddressKind;
+}
+
+const ADDRESS_FIELDS: { field: keyof AddressFormData; label: string; maxLength: number; className?: string }[] = [
+  { field: 'street', label: 'Street', maxLength: 100, className: 'md:col-span-2' },
+  { field: 'city', label: 'City', maxLength: 50 },
+  { field: 'region', label: 'Region / Province', maxLength: 50 },
+  { field: 'postal_code', label: 'Postal Code', maxLength: 20 },
+  { field: 'country', label: 'Country', maxLength: 50 },
+];
+
+export function CustomerAddressFields({ form, kind }: CustomerAddressFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {ADDRESS_FIELDS.map(({ field: addressField, label, maxLength, className }) => (
+        <FormField
+          key={addressField}
+          control={form.control}
+          name={`${kind}.${addressField}`}
+          render={({ field }) => (
+            <FormItem className={className}>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={maxLength} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
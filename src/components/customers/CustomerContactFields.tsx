@@ -0,0 +1,130 @@
+import { UseFormReturn, useFieldArray } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CustomerFormValues } from "./CustomerForm";
+
+interface CustomerContactFieldsProps {
+  form: UseFormReturn<CustomerFormValues>;
+}
+
+// The people to deal with at a customer; exactly one of them is the primary contact
+export function CustomerContactFields({ form }: CustomerContactFieldsProps) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "contacts", keyName: "key" });
+
+  const setPrimary = (index: number) => {
+    fields.forEach((_, i) => form.setValue(`contacts.${i}.is_primary`, i === index));
+  };
+
+  const removeContact = (index: number) => {
+    const wasPrimary = form.getValues(`contacts.${index}.is_primary`);
+    remove(index);
+    // Hand the primary flag to the first remaining contact
+    if (wasPrimary && fields.length > 1) {
+      form.setValue('contacts.0.is_primary', true);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Contacts</h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: "", role: "", phone: "", email: "", is_primary: fields.length === 0 })}
+        >
+          <Plus size={14} className="mr-1" /> Add Contact
+        </Button>
+      </div>
+
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No contacts yet.</p>
+      )}
+
+      {fields.map((contactField, index) => (
+        <div key={contactField.key} className="rounded-md border p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name={`contacts.${index}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={50} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`contacts.${index}.role`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={50} placeholder="e.g. Purchasing" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`contacts.${index}.phone`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="tel" maxLength={30} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`contacts.${index}.email`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="email" maxLength={100} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <FormField
+              control={form.control}
+              name={`contacts.${index}.is_primary`}
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => checked === true && setPrimary(index)}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">Primary contact</FormLabel>
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => removeContact(index)}>
+              <Trash2 size={16} className="text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
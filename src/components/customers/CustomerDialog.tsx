@@ -1,6 +1,7 @@
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { CustomerForm, CustomerFormValues } from "./CustomerForm";
+import { EMPTY_ADDRESS } from "./CustomerService";
 
 interface CustomerDialogProps {
   open: boolean;
@@ -21,13 +22,16 @@ export function CustomerDialog({
   const defaultValues: CustomerFormValues = {
     custno: formDefaults?.custno || "",
     custname: formDefaults?.custname || "",
-    address: formDefaults?.address || "",
-    payterm: formDefaults?.payterm || "COD"
+    payterm: formDefaults?.payterm || "COD",
+    billing: formDefaults?.billing || EMPTY_ADDRESS,
+    shipping_same_as_billing: formDefaults?.shipping_same_as_billing ?? true,
+    shipping: formDefaults?.shipping || EMPTY_ADDRESS,
+    contacts: formDefaults?.contacts || []
   };
   
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditing ? 'Edit Customer' : 'Add New Customer'}</DialogTitle>
           <DialogDescription>
@@ -9,14 +9,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { CustomerSortField } from "./CustomerService";
 
 interface CustomerFiltersProps {
   searchQuery: string;
   setSearchQuery: (query: string) => void;
   statusFilter: string;
   setStatusFilter: (status: string) => void;
-  sortField: "custno" | "custname" | "payterm";
-  setSortField: (field: "custno" | "custname" | "payterm") => void;
+  sortField: CustomerSortField;
+  setSortField: (field: CustomerSortField) => void;
   showDeleted: boolean;
 }
 
@@ -33,28 +34,26 @@ export function CustomerFilters({
     <div className="grid grid-cols-3 gap-4 mb-6">
       <div className="relative">
         <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-        <Input 
-          placeholder="Search customers..." 
+        <Input
+          placeholder="Search customers..."
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
           className="pl-10"
         />
       </div>
-      
-      <Select value={statusFilter} onValueChange={setStatusFilter}>
+
+      <Select value={statusFilter} onValueChange={setStatusFilter} disabled={showDeleted}>
         <SelectTrigger>
           <SelectValue placeholder="Filter by Status" />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="All Status">All Status</SelectItem>
-          <SelectItem value="Added">Added</SelectItem>
-          <SelectItem value="Edited">Edited</SelectItem>
-          <SelectItem value="Restored">Restored</SelectItem>
-          {showDeleted && <SelectItem value="Deleted">Deleted</SelectItem>}
+          <SelectItem value="all">All Status</SelectItem>
+          <SelectItem value="added">Added</SelectItem>
+          <SelectItem value="edited">Edited</SelectItem>
         </SelectContent>
       </Select>
-      
-      <Select value={sortField} onValueChange={(value: any) => setSortField(value)}>
+
+      <Select value={sortField} onValueChange={(value: CustomerSortField) => setSortField(value)}>
         <SelectTrigger>
           <SelectValue placeholder="Sort by" />
         </SelectTrigger>
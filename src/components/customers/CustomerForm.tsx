@@ -8,13 +8,41 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
 import { DialogFooter } from "@/components/ui/dialog";
+import { usePaymentTerms } from "@/components/terms/hooks/usePaymentTerms";
+import { describePaymentTerm } from "@/components/terms/PaymentTermService";
+import { EMPTY_ADDRESS } from "./CustomerService";
+import { CustomerAddressFields } from "./CustomerAddressFields";
+import { CustomerContactFields } from "./CustomerContactFields";
+
+const addressSchema = z.object({
+  street: z.string().max(100, "Street must be 100 characters or less"),
+  city: z.string().max(50, "City must be 50 characters or less"),
+  region: z.string().max(50, "Region must be 50 characters or less"),
+  postal_code: z.string().max(20, "Postal code must be 20 characters or less"),
+  country: z.string().max(50, "Country must be 50 characters or less"),
+});
+
+const contactSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, "Contact name is required").max(50, "Name must be 50 characters or less"),
+  role: z.string().max(50, "Role must be 50 characters or less"),
+  phone: z.string().max(30, "Phone must be 30 characters or less"),
+  email: z.string().trim().email("Enter a valid email address").or(z.literal("")),
+  is_primary: z.boolean(),
+});
 
 export const customerFormSchema = z.object({
   custno: z.string().min(1, "Customer number is required"),
   custname: z.string().min(1, "Customer name is required").max(20, "Customer name must be 20 characters or less"),
-  address: z.string().optional().transform(val => val || "").pipe(z.string().max(50, "Address must be 50 characters or less")),
   payterm: z.string().optional(),
+  billing: addressSchema,
+  // When set, goods ship to the billing address and no shipping address is stored
+  shipping_same_as_billing: z.boolean(),
+  shipping: addressSchema,
+  contacts: z.array(contactSchema),
 });
 
 export type CustomerFormValues = z.infer<typeof customerFormSchema>;
@@ -36,8 +64,11 @@ export function CustomerForm({
   const formValues: CustomerFormValues = {
     custno: defaultValues?.custno || "",
     custname: defaultValues?.custname || "",
-    address: defaultValues?.address || "",
     payterm: defaultValues?.payterm || "COD",
+    billing: defaultValues?.billing || EMPTY_ADDRESS,
+    shipping_same_as_billing: defaultValues?.shipping_same_as_billing ?? true,
+    shipping: defaultValues?.shipping || EMPTY_ADDRESS,
+    contacts: defaultValues?.contacts || [],
   };
 
   const form = useForm<CustomerFormValues>({
@@ -45,6 +76,9 @@ export function CustomerForm({
     defaultValues: formValues,
   });
 
+  const { paymentTerms } = usePaymentTerms();
+  const shippingSameAsBilling = form.watch("shipping_same_as_billing");
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -76,20 +110,6 @@ export function CustomerForm({
           )}
         />
         
-        <FormField
-          control={form.control}
-          name="address"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Address</FormLabel>
-              <FormControl>
-                <Input {...field} maxLength={50} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        
         <FormField
           control={form.control}
           name="payterm"
@@ -101,14 +121,17 @@ export function CustomerForm({
                 defaultValue={field.value || "COD"}
               >
                 <FormControl>
-                  <SelectTrigger className="w-40">
+                  <SelectTrigger className="w-64">
                     <SelectValue placeholder="Select payment term" />
                   </SelectTrigger>
                 </FormControl>
-                <SelectContent className="w-40">
-                  <SelectItem value="COD">COD</SelectItem>
-                  <SelectItem value="30D">30D</SelectItem>
-                  <SelectItem value="45D">45D</SelectItem>
+                <SelectContent className="w-64">
+                  {paymentTerms.map(term => (
+                    <SelectItem key={term.code} value={term.code}>
+                      {term.code}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{describePaymentTerm(term)}</span>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -116,6 +139,34 @@ export function CustomerForm({
           )}
         />
         
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">Billing Address</h3>
+          <CustomerAddressFields form={form} kind="billing" />
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">Shipping Address</h3>
+          <FormField
+            control={form.control}
+            name="shipping_same_as_billing"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                </FormControl>
+                <FormLabel className="font-normal">Same as billing address</FormLabel>
+              </FormItem>
+            )}
+          />
+          {!shippingSameAsBilling && <CustomerAddressFields form={form} kind="shipping" />}
+        </div>
+
+        <Separator />
+
+        <CustomerContactFields form={form} />
+
         <DialogFooter>
           <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
           <Button type="submit">{isEditing ? 'Update' : 'Create'}</Button>
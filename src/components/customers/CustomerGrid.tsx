@@ -2,6 +2,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { Customer } from './CustomerService';
+import { CreditHoldBadge } from './credit/CreditHoldBadge';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,7 +11,7 @@ import { Edit, Trash, RefreshCw, Eye } from 'lucide-react';
 interface CustomerGridProps {
   customers: Customer[];
   showDeleted?: boolean;
-  isAdmin?: boolean;
+  canRestoreCustomer?: boolean;
   canEditCustomer?: boolean;
   canDeleteCustomer?: boolean;
   onEdit?: (customer: Customer) => void;
@@ -24,7 +25,7 @@ interface CustomerGridProps {
 export function CustomerGrid({
   customers,
   showDeleted = false,
-  isAdmin = false,
+  canRestoreCustomer = false,
   canEditCustomer = false,
   canDeleteCustomer = false,
   onEdit,
@@ -76,9 +77,12 @@ export function CustomerGrid({
                   <h3 className="customer-name text-lg font-semibold truncate">
                     {customer.custname}
                   </h3>
-                  <Badge className={`${statusClass}`}>
-                    {status}
-                  </Badge>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge className={`${statusClass}`}>
+                      {status}
+                    </Badge>
+                    {!showDeleted && <CreditHoldBadge onHold={customer.on_hold} />}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-2 pb-4">
@@ -0,0 +1,189 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { CalendarClock, CalendarPlus, DollarSign, ShoppingCart } from "lucide-react";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { ListPagination } from "@/components/layout/ListPagination";
+import { useCustomerSalesHistory } from "./hooks/useCustomerSalesHistory";
+
+interface CustomerSalesHistoryProps {
+  custno: string;
+}
+
+// Lifetime metrics, top products and the sales list shown on the customer details page
+export function CustomerSalesHistory({ custno }: CustomerSalesHistoryProps) {
+  const {
+    metrics,
+    topProducts,
+    sales,
+    totalCount,
+    page,
+    pageSize,
+    loading,
+    salesLoading,
+    setPage,
+    setPageSize
+  } = useCustomerSalesHistory(custno);
+
+  const metricCards = [
+    {
+      title: "Lifetime Value",
+      icon: <DollarSign className="h-4 w-4 text-muted-foreground" />,
+      value: `$${metrics.lifetimeValue.toFixed(2)}`,
+      note: `$${metrics.balance.toFixed(2)} outstanding`
+    },
+    {
+      title: "Average Order",
+      icon: <ShoppingCart className="h-4 w-4 text-muted-foreground" />,
+      value: `$${metrics.averageOrder.toFixed(2)}`,
+      note: `${metrics.orderCount} ${metrics.orderCount === 1 ? 'sale' : 'sales'}`
+    },
+    {
+      title: "First Purchase",
+      icon: <CalendarPlus className="h-4 w-4 text-muted-foreground" />,
+      value: metrics.firstPurchase ? formatDate(metrics.firstPurchase) : 'N/A',
+      note: "Earliest sale"
+    },
+    {
+      title: "Last Purchase",
+      icon: <CalendarClock className="h-4 w-4 text-muted-foreground" />,
+      value: metrics.lastPurchase ? formatDate(metrics.lastPurchase) : 'N/A',
+      note: "Most recent sale"
+    }
+  ];
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {metricCards.map(card => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+              {card.icon}
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{loading ? '...' : card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Products</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product Code</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Sales</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Last Purchased</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">Loading...</TableCell>
+                </TableRow>
+              ) : topProducts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">No products bought yet.</TableCell>
+                </TableRow>
+              ) : (
+                topProducts.map((product) => (
+                  <TableRow key={product.prodcode}>
+                    <TableCell>
+                      <Link
+                        to={`/dashboard/products/${product.prodcode}`}
+                        className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {product.prodcode}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{product.description || 'N/A'}</TableCell>
+                    <TableCell className="text-right">
+                      {product.totalQuantity} {product.unit || ''}
+                    </TableCell>
+                    <TableCell className="text-right">{product.orderCount}</TableCell>
+                    <TableCell className="text-right">${product.totalAmount.toFixed(2)}</TableCell>
+                    <TableCell>{formatDate(product.lastPurchased)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Transaction No</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead>Payment</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {salesLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">Loading sales...</TableCell>
+                </TableRow>
+              ) : sales.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">No sales found.</TableCell>
+                </TableRow>
+              ) : (
+                sales.map((sale) => (
+                  <TableRow key={sale.transno}>
+                    <TableCell>
+                      <Link
+                        to={`/dashboard/sales/${sale.transno}`}
+                        className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {sale.transno}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{formatDate(sale.salesdate)}</TableCell>
+                    <TableCell>{sale.due_date ? formatDate(sale.due_date) : '-'}</TableCell>
+                    <TableCell className="text-right">${sale.total_amount?.toFixed(2) || '0.00'}</TableCell>
+                    <TableCell className="text-right">${sale.amount_paid?.toFixed(2) || '0.00'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {sale.payment_status ? <StatusBadge status={sale.payment_status} /> : '-'}
+                        {sale.is_overdue && <StatusBadge status="Overdue" />}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          <ListPagination
+            page={page}
+            pageSize={pageSize}
+            totalCount={totalCount}
+            onPageChange={setPage}
+            onPageSizeChange={setPageSize}
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
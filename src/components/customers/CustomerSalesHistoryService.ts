@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SalesRecord } from "@/components/sales/types";
+import { toSalesRecord } from "@/components/sales/SalesSummaryService";
+import { ListPage, getPageRange } from "@/utils/listQuery";
+
+export interface CustomerSalesMetrics {
+  orderCount: number;
+  lifetimeValue: number;
+  averageOrder: number;
+  amountPaid: number;
+  balance: number;
+  firstPurchase: string | null;
+  lastPurchase: string | null;
+}
+
+export interface CustomerProductTotal {
+  prodcode: string;
+  description: string | null;
+  unit: string | null;
+  totalQuantity: number;
+  totalAmount: number;
+  orderCount: number;
+  lastPurchased: string | null;
+}
+
+export const emptyCustomerSalesMetrics: CustomerSalesMetrics = {
+  orderCount: 0,
+  lifetimeValue: 0,
+  averageOrder: 0,
+  amountPaid: 0,
+  balance: 0,
+  firstPurchase: null,
+  lastPurchase: null
+};
+
+// Lifetime value, average order and first/last purchase of one customer
+export const fetchCustomerSalesMetrics = async (custno: string): Promise<CustomerSalesMetrics> => {
+  const { data, error } = await supabase
+    .from('customer_sales_metrics')
+    .select('*')
+    .eq('custno', custno)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return emptyCustomerSalesMetrics;
+
+  return {
+    orderCount: data.order_count || 0,
+    lifetimeValue: Number(data.lifetime_value) || 0,
+    averageOrder: Number(data.average_order) || 0,
+    amountPaid: Number(data.amount_paid) || 0,
+    balance: Number(data.balance) || 0,
+    firstPurchase: data.first_purchase,
+    lastPurchase: data.last_purchase
+  };
+};
+
+// The products a customer has spent the most on
+export const fetchCustomerTopProducts = async (custno: string, limit = 5): Promise<CustomerProductTotal[]> => {
+  const { data, error } = await supabase
+    .from('customer_product_totals')
+    .select('*')
+    .eq('custno', custno)
+    .order('total_amount', { ascending: false })
+    .order('total_quantity', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    prodcode: row.prodcode || '',
+    description: row.description,
+    unit: row.unit,
+    totalQuantity: Number(row.total_quantity) || 0,
+    totalAmount: Number(row.total_amount) || 0,
+    orderCount: row.order_count || 0,
+    lastPurchased: row.last_purchased
+  }));
+};
+
+// One page of a customer's sales, newest first
+export const fetchCustomerSalesPage = async (
+  custno: string,
+  page: number,
+  pageSize: number
+): Promise<ListPage<SalesRecord>> => {
+  const [from, to] = getPageRange(page, pageSize);
+
+  const { data, error, count } = await supabase
+    .from('sales_summary')
+    .select('*', { count: 'exact' })
+    .eq('custno', custno)
+    .is('deleted_at', null)
+    .order('salesdate', { ascending: false, nullsFirst: false })
+    .order('transno', { ascending: false })
+    .range(from, to);
+
+  if (error) throw error;
+
+  return { rows: (data || []).map(toSalesRecord), count: count || 0 };
+};
@@ -1,6 +1,10 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
+import { ListPage, buildSearchFilter, getPageRange } from "@/utils/listQuery";
+import { reserveDocumentNumber } from "@/components/numbering/DocumentSequenceService";
+import { SaleFieldError } from "@/components/sales/SaleService";
+import { fetchCustomerCreditStatuses } from "./credit/CustomerCreditService";
 
 export interface Customer {
   custno: string;
@@ -8,16 +12,36 @@ export interface Customer {
   address: string | null;
   payterm: string | null;
   deleted_at: string | null;
+  // Set on a customer merged into another, to the custno it was merged into
+  merged_into?: string | null;
   modified_at?: string | null;
   modified_by?: string | null;
   created_at?: string | null;
   created_by?: string | null;
+  // Phone and email of the primary contact, filled in by fetchCustomersPage
   phone?: string | null;
   email?: string | null;
+  credit_limit?: number | null;
+  // Owes its credit limit or more, filled in by fetchCustomersPage
+  on_hold?: boolean;
   updatedAt?: string | null;
   action?: string; // Used to track restore action
 }
 
+export type CustomerSortField = 'custno' | 'custname' | 'payterm';
+
+export const CUSTOMER_SORT_FIELDS: CustomerSortField[] = ['custno', 'custname', 'payterm'];
+
+export interface CustomerListQuery {
+  deleted: boolean;
+  search: string;
+  status: string;
+  sort: CustomerSortField;
+  direction: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
 export interface CustomerFormData {
   custno: string;
   custname: string;
@@ -25,6 +49,91 @@ export interface CustomerFormData {
   payterm: string;
 }
 
+export type AddressKind = 'billing' | 'shipping';
+
+export interface AddressFormData {
+  street: string;
+  city: string;
+  region: string;
+  postal_code: string;
+  country: string;
+}
+
+export interface CustomerAddress {
+  kind: AddressKind;
+  street: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+export interface ContactFormData {
+  // Missing for a contact not saved yet
+  id?: string;
+  name: string;
+  role: string;
+  phone: string;
+  email: string;
+  is_primary: boolean;
+}
+
+export interface CustomerContact {
+  id: string;
+  custno: string;
+  name: string;
+  role: string | null;
+  phone: string | null;
+  email: string | null;
+  is_primary: boolean;
+}
+
+// Addresses and contacts of one customer. A customer saved before addresses were structured
+// has no billing row and only the free-text customer.address.
+export interface CustomerProfile {
+  billing: CustomerAddress | null;
+  // Null when goods ship to the billing address
+  shipping: CustomerAddress | null;
+  contacts: CustomerContact[];
+}
+
+export interface CustomerSaveData {
+  custno: string;
+  custname: string;
+  payterm: string;
+  billing: AddressFormData;
+  shipping: AddressFormData | null;
+  contacts: ContactFormData[];
+}
+
+interface SaveCustomerResponse {
+  success: boolean;
+  message: string;
+  errors: SaleFieldError[];
+}
+
+export const EMPTY_ADDRESS: AddressFormData = { street: "", city: "", region: "", postal_code: "", country: "" };
+
+// One line such as "12 Rizal Ave, Manila, Metro Manila 1000, Philippines"; matches
+// format_customer_address, which writes customer.address from the billing address
+export const formatAddress = (address: Partial<Record<keyof AddressFormData, string | null>> | null | undefined): string => {
+  if (!address) return "";
+
+  const regionLine = [address.region, address.postal_code].map(part => part?.trim()).filter(Boolean).join(" ");
+  return [address.street, address.city, regionLine, address.country]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+};
+
+export const toAddressFormData = (address: CustomerAddress | null): AddressFormData => ({
+  street: address?.street || "",
+  city: address?.city || "",
+  region: address?.region || "",
+  postal_code: address?.postal_code || "",
+  country: address?.country || "",
+});
+
 // Function to get customer status based on record attributes
 export const getCustomerStatus = (customer: Customer): 'Added' | 'Edited' | 'Deleted' | 'Restored' => {
   // If customer was explicitly deleted and then restored
@@ -82,33 +191,63 @@ export const fetchDeletedCustomers = async (): Promise<Customer[]> => {
   }
 };
 
-// Generate a new customer number
-export const generateNewCustomerNumber = async (): Promise<string> => {
+// Fetch one page of active or deleted customers with search, status filter and sort applied by the database.
+// A restore clears deleted_by, so restored customers are only told apart from edited ones on the client.
+export const fetchCustomersPage = async (listQuery: CustomerListQuery): Promise<ListPage<Customer>> => {
   try {
-    // Get the highest customer number
-    const { data, error } = await supabase
+    const [from, to] = getPageRange(listQuery.page, listQuery.pageSize);
+
+    let query = supabase
       .from('customer')
-      .select('custno')
-      .order('custno', { ascending: false })
-      .limit(1);
-    
-    if (error) throw error;
-    
-    if (data && data.length > 0) {
-      const lastCustNo = data[0].custno;
-      // If the customer number follows a pattern like 'C0001', extract the number and increment
-      if (/^C\d+$/.test(lastCustNo)) {
-        const numPart = parseInt(lastCustNo.substring(1), 10);
-        return `C${(numPart + 1).toString().padStart(4, '0')}`;
-      }
-      // If it's just a number
-      if (/^\d+$/.test(lastCustNo)) {
-        return (parseInt(lastCustNo, 10) + 1).toString().padStart(5, '0');
-      }
+      .select('*, customer_contact(phone, email, is_primary)', { count: 'exact' });
+
+    query = listQuery.deleted
+      ? query.not('deleted_at', 'is', null)
+      : query.is('deleted_at', null);
+
+    if (listQuery.status === 'added') {
+      query = query.is('modified_at', null);
+    } else if (listQuery.status === 'edited') {
+      query = query.not('modified_at', 'is', null);
     }
-    
-    // Default if no customers exist yet
-    return 'C0001';
+
+    const searchFilter = buildSearchFilter(['custno', 'custname', 'address'], listQuery.search);
+    if (searchFilter) {
+      query = query.or(searchFilter);
+    }
+
+    const { data, count, error } = await query
+      .order(listQuery.sort, { ascending: listQuery.direction === 'asc', nullsFirst: false })
+      .order('custno', { ascending: true })
+      .range(from, to);
+
+    if (error) throw error;
+
+    const creditStatuses = await fetchCustomerCreditStatuses(
+      (data || []).filter(customer => customer.credit_limit !== null).map(customer => customer.custno)
+    );
+
+    const rows = (data || []).map(({ customer_contact, ...customer }) => {
+      const primary = customer_contact.find(contact => contact.is_primary);
+      return {
+        ...customer,
+        phone: primary?.phone ?? null,
+        email: primary?.email ?? null,
+        on_hold: creditStatuses.get(customer.custno)?.on_hold ?? false
+      };
+    });
+
+    return { rows, count: count || 0 };
+  } catch (error) {
+    console.error('Error fetching customers page:', error);
+    throw error;
+  }
+};
+
+// Reserve a new customer number on the server so concurrent users never get the same one
+export const generateNewCustomerNumber = async (): Promise<string> => {
+  try {
+    return await reserveDocumentNumber('customer');
   } catch (error) {
     console.error('Error generating customer number:', error);
     throw error;
@@ -125,64 +264,75 @@ export const validateCustomerForm = (data: CustomerFormData): string[] => {
   
   if (!data.custname.trim()) {
     errors.push("Customer name is required");
+  } else if (data.custname.trim().length > 20) {
+    errors.push("Customer name must be 20 characters or less");
   }
-  
+
+  if (data.address.trim().length > 50) {
+    errors.push("Address must be 50 characters or less");
+  }
+
   return errors;
 };
 
-// Add a new customer to the database
-export const createCustomer = async (data: CustomerFormData): Promise<{ success: boolean; message: string; custno?: string }> => {
+// Addresses and contacts of a customer, primary contact first
+export const fetchCustomerProfile = async (custno: string): Promise<CustomerProfile> => {
   try {
-    const currentUser = (await supabase.auth.getUser()).data.user;
-    const userId = currentUser?.id || null;
-    
-    const { error } = await supabase
-      .from('customer')
-      .insert({
-        custno: data.custno,
-        custname: data.custname,
-        address: data.address,
-        payterm: data.payterm,
-        created_by: userId,
-        created_at: new Date().toISOString()
-      });
-    
-    if (error) {
-      throw error;
-    }
-    
-    return { success: true, message: "Customer added successfully", custno: data.custno };
-  } catch (error: any) {
-    console.error("Error adding customer:", error);
-    return { success: false, message: error.message || "Failed to add customer" };
+    const [addressResult, contactResult] = await Promise.all([
+      supabase
+        .from('customer_address')
+        .select('kind, street, city, region, postal_code, country')
+        .eq('custno', custno),
+      supabase
+        .from('customer_contact')
+        .select('id, custno, name, role, phone, email, is_primary')
+        .eq('custno', custno)
+        .order('is_primary', { ascending: false })
+        .order('name', { ascending: true })
+    ]);
+
+    if (addressResult.error) throw addressResult.error;
+    if (contactResult.error) throw contactResult.error;
+
+    const addresses = (addressResult.data || []) as CustomerAddress[];
+
+    return {
+      billing: addresses.find(address => address.kind === 'billing') || null,
+      shipping: addresses.find(address => address.kind === 'shipping') || null,
+      contacts: contactResult.data || [],
+    };
+  } catch (error) {
+    console.error('Error fetching customer addresses and contacts:', error);
+    throw error;
   }
 };
 
-// Update an existing customer
-export const updateCustomer = async (custno: string, data: Partial<CustomerFormData>): Promise<{ success: boolean; message: string; }> => {
+// Add or update a customer with its addresses and contacts in one transaction through the
+// save_customer RPC, which also writes customer.address from the billing address
+export const saveCustomer = async (
+  data: CustomerSaveData,
+  isNew: boolean
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[] }> => {
   try {
-    const currentUser = (await supabase.auth.getUser()).data.user;
-    const userId = currentUser?.id || null;
-    
-    const { error } = await supabase
-      .from('customer')
-      .update({
-        custname: data.custname,
-        address: data.address,
-        payterm: data.payterm,
-        modified_by: userId,
-        modified_at: new Date().toISOString()
-      })
-      .eq('custno', custno);
-    
-    if (error) {
-      throw error;
-    }
-    
-    return { success: true, message: "Customer updated successfully" };
+    const addresses = [
+      { kind: 'billing', ...data.billing },
+      ...(data.shipping ? [{ kind: 'shipping', ...data.shipping }] : []),
+    ];
+
+    const { data: response, error } = await supabase.rpc('save_customer', {
+      customer: { custno: data.custno, custname: data.custname, payterm: data.payterm },
+      addresses,
+      contacts: data.contacts.map(contact => ({ ...contact })),
+      is_new: isNew,
+    });
+
+    if (error) throw error;
+
+    const result = response as unknown as SaveCustomerResponse;
+    return { success: result.success, message: result.message, errors: result.errors || [] };
   } catch (error: any) {
-    console.error("Error updating customer:", error);
-    return { success: false, message: error.message || "Failed to update customer" };
+    console.error("Error saving customer:", error);
+    return { success: false, message: error.message || "Failed to save customer", errors: [] };
   }
 };
 
@@ -230,6 +380,8 @@ export const restoreCustomer = async (custno: string): Promise<{ success: boolea
       .update({
         deleted_at: null,
         deleted_by: null,
+        // A merged customer comes back on its own; its sales stay with the survivor
+        merged_into: null,
         modified_at: new Date().toISOString(),
         modified_by: userId
       })
@@ -1,15 +1,16 @@
 
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { ArrowUpDown, Plus } from "lucide-react";
+import { ArrowUpDown, Plus, Upload } from "lucide-react";
 
 interface CustomerTableActionsProps {
   toggleSort: (field: "custno") => void;
   showDeleted: boolean;
   setShowDeleted: (show: boolean) => void;
   prepareNewCustomerForm: () => void;
+  onImport: () => void;
   canAddCustomer: boolean;
-  isAdmin: boolean;
+  canRestoreCustomer: boolean;
 }
 
 export function CustomerTableActions({
@@ -17,8 +18,9 @@ export function CustomerTableActions({
   showDeleted,
   setShowDeleted,
   prepareNewCustomerForm,
+  onImport,
   canAddCustomer,
-  isAdmin
+  canRestoreCustomer
 }: CustomerTableActionsProps) {
   return (
     <div className="flex gap-2">
@@ -26,7 +28,7 @@ export function CustomerTableActions({
         <span className="mr-1">No</span>
         <ArrowUpDown size={16} />
       </Button>
-      {isAdmin && (
+      {canRestoreCustomer && (
         <Button
           variant="outline"
           onClick={() => setShowDeleted(!showDeleted)}
@@ -34,6 +36,11 @@ export function CustomerTableActions({
           {showDeleted ? "Show Active" : "Show Deleted"}
         </Button>
       )}
+      {canAddCustomer && (
+        <Button variant="outline" onClick={onImport}>
+          <Upload size={16} className="mr-2" /> Import
+        </Button>
+      )}
       {canAddCustomer && (
         <Button onClick={prepareNewCustomerForm}>
           <Plus size={16} className="mr-2" /> Add Customer
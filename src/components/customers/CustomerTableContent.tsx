@@ -3,28 +3,28 @@ import React from "react";
 import { Table, TableBody } from "@/components/ui/table";
 import { CustomerTableHeader } from "./CustomerTableHeader";
 import { CustomerTableRow } from "./CustomerTableRow";
-import { Customer } from "./CustomerService";
+import { Customer, CustomerSortField } from "./CustomerService";
 
 interface CustomerTableContentProps {
   loading: boolean;
   filteredCustomers: Customer[];
   showDeleted: boolean;
-  isAdmin: boolean;
+  canRestoreCustomer: boolean;
   canEditCustomer: boolean;
   canDeleteCustomer: boolean;
   onEdit: (customer: Customer) => void;
   onDelete: (customer: Customer) => void;
   onRestore: (customer: Customer) => void;
-  sortField: "custno" | "custname" | "payterm";
+  sortField: CustomerSortField;
   sortDirection: "asc" | "desc";
-  toggleSort: (field: "custno" | "custname" | "payterm") => void;
+  toggleSort: (field: CustomerSortField) => void;
 }
 
 export function CustomerTableContent({
   loading,
   filteredCustomers,
   showDeleted,
-  isAdmin,
+  canRestoreCustomer,
   canEditCustomer,
   canDeleteCustomer,
   onEdit,
@@ -45,13 +45,13 @@ export function CustomerTableContent({
           sortField={sortField} 
           sortDirection={sortDirection} 
           toggleSort={toggleSort}
-          isAdmin={isAdmin}
+          canRestoreCustomer={canRestoreCustomer}
         />
         
         <TableBody>
           {filteredCustomers.length === 0 ? (
             <tr>
-              <td colSpan={isAdmin ? 7 : 5} className="h-24 text-center text-muted-foreground">
+              <td colSpan={canRestoreCustomer ? 7 : 5} className="h-24 text-center text-muted-foreground">
                 No customers found.
               </td>
             </tr>
@@ -61,7 +61,7 @@ export function CustomerTableContent({
                 key={customer.custno}
                 customer={customer}
                 showDeleted={showDeleted}
-                isAdmin={isAdmin}
+                canRestoreCustomer={canRestoreCustomer}
                 canEditCustomer={canEditCustomer}
                 canDeleteCustomer={canDeleteCustomer}
                 onEdit={onEdit}
@@ -1,19 +1,20 @@
 
 import React from "react";
 import { TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CustomerSortField } from "./CustomerService";
 
 interface CustomerTableHeaderProps {
-  sortField: "custno" | "custname" | "payterm";
+  sortField: CustomerSortField;
   sortDirection: "asc" | "desc";
-  toggleSort: (field: "custno" | "custname" | "payterm") => void;
-  isAdmin: boolean;
+  toggleSort: (field: CustomerSortField) => void;
+  canRestoreCustomer: boolean;
 }
 
 export function CustomerTableHeader({
   sortField,
   sortDirection,
   toggleSort,
-  isAdmin
+  canRestoreCustomer
 }: CustomerTableHeaderProps) {
   return (
     <TableHeader>
@@ -29,9 +30,9 @@ export function CustomerTableHeader({
           Payment Term {sortField === "payterm" && (sortDirection === "asc" ? "↑" : "↓")}
         </TableHead>
         
-        {/* Only show Status and Stamp column headers for admin users */}
-        {isAdmin && <TableHead>Status</TableHead>}
-        {isAdmin && <TableHead>Stamp</TableHead>}
+        {/* Only show Status and Stamp column headers to users who can restore customers */}
+        {canRestoreCustomer && <TableHead>Status</TableHead>}
+        {canRestoreCustomer && <TableHead>Stamp</TableHead>}
         
         <TableHead className="w-[100px]">Actions</TableHead>
       </TableRow>
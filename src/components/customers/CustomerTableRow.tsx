@@ -2,6 +2,7 @@
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Link } from "react-router-dom";
 import { CustomerActions } from "./CustomerActions";
+import { CreditHoldBadge } from "./credit/CreditHoldBadge";
 import { StatusBadge } from "../sales/StatusBadge";
 import { getCustomerStatus } from "./CustomerService";
 import { format } from "date-fns";
@@ -18,13 +19,14 @@ interface Customer {
   modified_by?: string | null;
   created_at?: string | null;
   created_by?: string | null;
+  on_hold?: boolean;
   action?: string; // Used to track restore action
 }
 
 interface CustomerTableRowProps {
   customer: Customer;
   showDeleted: boolean;
-  isAdmin: boolean;
+  canRestoreCustomer: boolean;
   canEditCustomer: boolean;
   canDeleteCustomer: boolean;
   onEdit: (customer: Customer) => void;
@@ -35,7 +37,7 @@ interface CustomerTableRowProps {
 export function CustomerTableRow({
   customer,
   showDeleted,
-  isAdmin,
+  canRestoreCustomer,
   canEditCustomer,
   canDeleteCustomer,
   onEdit,
@@ -131,19 +133,20 @@ export function CustomerTableRow({
         ) : (
           customer.custname || 'N/A'
         )}
+        {!showDeleted && <CreditHoldBadge onHold={customer.on_hold} className="ml-2" />}
       </TableCell>
       <TableCell>{customer.address || 'N/A'}</TableCell>
       <TableCell>{customer.payterm || 'N/A'}</TableCell>
       
-      {/* Only show Status column for admin users */}
-      {isAdmin && (
+      {/* Only show Status column to users who can restore customers */}
+      {canRestoreCustomer && (
         <TableCell>
           <StatusBadge status={status} />
         </TableCell>
       )}
       
-      {/* Only show Stamp column for admin users */}
-      {isAdmin && (
+      {/* Only show Stamp column to users who can restore customers */}
+      {canRestoreCustomer && (
         <TableCell className="text-xs text-gray-500 dark:text-gray-300">
           {getStampInfo(customer)}
         </TableCell>
@@ -153,7 +156,7 @@ export function CustomerTableRow({
         <CustomerActions
           customer={customer}
           showDeleted={showDeleted}
-          isAdmin={isAdmin}
+          canRestoreCustomer={canRestoreCustomer}
           canEditCustomer={canEditCustomer}
           canDeleteCustomer={canDeleteCustomer}
           onEdit={onEdit}
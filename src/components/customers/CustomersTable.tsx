@@ -1,62 +1,91 @@
 
 import { useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import { useNavigate } from "react-router-dom";
 import { CustomerDialog } from "./CustomerDialog";
+import { CustomerImportDialog } from "./import/CustomerImportDialog";
 import { CustomerTableContent } from "./CustomerTableContent";
 import { CustomerGrid } from "./CustomerGrid";
 import { CustomerFilters } from "./CustomerFilters";
 import { CustomerTableActions } from "./CustomerTableActions";
 import { useCustomersData } from "./hooks/useCustomersData";
-import { useFilteredCustomers } from "./hooks/useFilteredCustomers";
+import { useCustomerListParams } from "./hooks/useCustomerListParams";
 import { useCustomerPermissions } from "./hooks/useCustomerPermissions";
 import { useCustomerActions } from "./hooks/useCustomerActions";
+import { Customer, fetchCustomersPage, getCustomerStatus } from "./CustomerService";
+import { ListPagination } from "@/components/layout/ListPagination";
+import { ExportButton } from "@/components/export/ExportButton";
+import { ExportColumn } from "@/components/export/ExportService";
+import { fetchAllPages } from "@/utils/listQuery";
 
 interface CustomersTableProps {
-  sortOrder?: "asc" | "desc";
   viewMode?: "table" | "grid";
 }
 
-export function CustomersTable({ sortOrder = "asc", viewMode = "table" }: CustomersTableProps) {
-  const [showDeleted, setShowDeleted] = useState(false);
-  const { isAdmin, user } = useAuth();
+export function CustomersTable({ viewMode = "table" }: CustomersTableProps) {
+  const navigate = useNavigate();
+  const [importOpen, setImportOpen] = useState(false);
+  
+  // Search, status filter, sort and paging live in the URL and are applied by the database
+  const {
+    params,
+    setSearch,
+    setStatus,
+    setSort,
+    toggleSort,
+    setPage,
+    setPageSize,
+    setShowDeleted,
+    sortField,
+    listQuery
+  } = useCustomerListParams();
+  const showDeleted = params.showDeleted;
+
+  // Custom hook for permissions
+  const {
+    canAddCustomer,
+    canEditCustomer,
+    canDeleteCustomer,
+    canRestoreCustomer
+  } = useCustomerPermissions();
   
   // Custom hooks for data management
   const { 
     customers, 
-    deletedCustomers, 
+    totalCount,
     loading, 
     addCustomer, 
     updateCustomer, 
     removeCustomerFromActive,
     removeCustomerFromDeleted,
     loadCustomersData 
-  } = useCustomersData(showDeleted, isAdmin);
+  } = useCustomersData(listQuery, canRestoreCustomer);
 
-  // Custom hook for permissions
-  const { 
-    canAddCustomer, 
-    canEditCustomer, 
-    canDeleteCustomer 
-  } = useCustomerPermissions(isAdmin, user?.id);
+  // Export the columns of the list; status and stamp only for users who see them
+  const exportColumns: ExportColumn<Customer>[] = [
+    { key: 'custno', header: 'Customer No', value: customer => customer.custno },
+    { key: 'custname', header: 'Name', value: customer => customer.custname },
+    { key: 'address', header: 'Address', value: customer => customer.address },
+    { key: 'payterm', header: 'Payment Term', value: customer => customer.payterm },
+    { key: 'phone', header: 'Primary Contact Phone', value: customer => customer.phone },
+    { key: 'email', header: 'Primary Contact Email', value: customer => customer.email },
+    { key: 'credit_limit', header: 'Credit Limit', type: 'currency', value: customer => customer.credit_limit },
+    { key: 'on_hold', header: 'Credit Hold', value: customer => customer.on_hold ? 'Yes' : 'No' },
+    ...(canRestoreCustomer ? [
+      { key: 'status', header: 'Status', value: (customer: Customer) => getCustomerStatus(customer) },
+      { key: 'stamp', header: 'Last Changed', type: 'datetime', value: (customer: Customer) => customer.modified_at || customer.created_at },
+    ] as ExportColumn<Customer>[] : []),
+  ];
 
-  // Custom hook for filtering and sorting
-  const {
-    searchQuery,
-    setSearchQuery,
-    statusFilter,
-    setStatusFilter,
-    sortField,
-    setSortField,
-    sortDirection,
-    setSortDirection,
-    filteredCustomers,
-    toggleSort
-  } = useFilteredCustomers(customers, deletedCustomers, showDeleted);
+  const fetchAllCustomers = () => fetchAllPages((page, pageSize) => fetchCustomersPage({
+    ...listQuery,
+    deleted: listQuery.deleted && canRestoreCustomer,
+    page,
+    pageSize
+  }));
 
-  // Apply the sort order from props when it changes
-  useState(() => {
-    setSortDirection(sortOrder);
-  });
+  const handleView = (customer: Customer) => {
+    navigate(`/dashboard/customers/${customer.custno}`);
+  };
 
   // Custom hook for customer actions
   const {
@@ -71,7 +100,7 @@ export function CustomersTable({ sortOrder = "asc", viewMode = "table" }: Custom
     handleRestore,
     handleSubmit
   } = useCustomerActions({
-    isAdmin,
+    canRestoreCustomer,
     canAddCustomer,
     canEditCustomer,
     canDeleteCustomer,
@@ -86,54 +115,77 @@ export function CustomersTable({ sortOrder = "asc", viewMode = "table" }: Custom
     <div className="bg-white rounded-lg shadow p-6 dark:bg-gray-800">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Customers</h2>
-        <CustomerTableActions
-          toggleSort={toggleSort}
-          showDeleted={showDeleted}
-          setShowDeleted={setShowDeleted}
-          prepareNewCustomerForm={prepareNewCustomerForm}
-          canAddCustomer={canAddCustomer}
-          isAdmin={isAdmin}
-        />
+        <div className="flex gap-2">
+          <ExportButton
+            title={showDeleted ? "Deleted Customers" : "Customers"}
+            fileName={showDeleted ? "deleted-customers" : "customers"}
+            columns={exportColumns}
+            rows={customers}
+            fetchAllRows={fetchAllCustomers}
+            totalCount={totalCount}
+          />
+          <CustomerTableActions
+            toggleSort={toggleSort}
+            showDeleted={showDeleted}
+            setShowDeleted={setShowDeleted}
+            prepareNewCustomerForm={prepareNewCustomerForm}
+            onImport={() => setImportOpen(true)}
+            canAddCustomer={canAddCustomer}
+            canRestoreCustomer={canRestoreCustomer}
+          />
+        </div>
       </div>
       
       <CustomerFilters
-        searchQuery={searchQuery}
-        setSearchQuery={setSearchQuery}
-        statusFilter={statusFilter}
-        setStatusFilter={setStatusFilter}
+        searchQuery={params.search}
+        setSearchQuery={setSearch}
+        statusFilter={params.status}
+        setStatusFilter={setStatus}
         sortField={sortField}
-        setSortField={setSortField}
+        setSortField={(field) => setSort(field, params.direction)}
         showDeleted={showDeleted}
       />
       
       {viewMode === "table" ? (
         <CustomerTableContent
           loading={loading}
-          filteredCustomers={filteredCustomers}
+          filteredCustomers={customers}
           showDeleted={showDeleted}
-          isAdmin={isAdmin}
+          canRestoreCustomer={canRestoreCustomer}
           canEditCustomer={canEditCustomer}
           canDeleteCustomer={canDeleteCustomer}
           onEdit={handleEdit}
           onDelete={handleDelete}
           onRestore={handleRestore}
           sortField={sortField}
-          sortDirection={sortDirection}
+          sortDirection={params.direction}
           toggleSort={toggleSort}
         />
+      ) : loading ? (
+        <div className="text-center p-6">Loading customers...</div>
       ) : (
         <CustomerGrid
-          customers={filteredCustomers}
+          customers={customers}
           showDeleted={showDeleted}
-          isAdmin={isAdmin}
+          canRestoreCustomer={canRestoreCustomer}
           canEditCustomer={canEditCustomer}
           canDeleteCustomer={canDeleteCustomer}
           onEdit={handleEdit}
           onDelete={handleDelete}
           onRestore={handleRestore}
+          onView={handleView}
+          getCustomerStatus={getCustomerStatus}
         />
       )}
       
+      <ListPagination
+        page={params.page}
+        pageSize={params.pageSize}
+        totalCount={totalCount}
+        onPageChange={setPage}
+        onPageSizeChange={setPageSize}
+      />
+      
       <CustomerDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
@@ -141,6 +193,12 @@ export function CustomersTable({ sortOrder = "asc", viewMode = "table" }: Custom
         formDefaults={formDefaults}
         onSubmit={handleSubmit}
       />
+
+      <CustomerImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={loadCustomersData}
+      />
     </div>
   );
 }
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+
+interface CreditHoldBadgeProps {
+  onHold?: boolean;
+  className?: string;
+}
+
+// Marks a customer that owes its credit limit or more; new sales need a manager override
+export function CreditHoldBadge({ onHold, className = "" }: CreditHoldBadgeProps) {
+  if (!onHold) return null;
+
+  return (
+    <Badge variant="destructive" className={`whitespace-nowrap ${className}`} title="Owes its credit limit or more">
+      Credit Hold
+    </Badge>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { setCustomerCreditLimit } from "./CustomerCreditService";
+
+interface CreditLimitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  custno: string;
+  creditLimit: number | null;
+  onSaved: () => void;
+}
+
+export function CreditLimitDialog({
+  open,
+  onOpenChange,
+  custno,
+  creditLimit,
+  onSaved
+}: CreditLimitDialogProps) {
+  const [value, setValue] = useState("");
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setValue(creditLimit === null ? "" : creditLimit.toFixed(2));
+      setError("");
+    }
+  }, [open, creditLimit]);
+
+  // A blank field removes the limit
+  const handleSave = async () => {
+    const limit = value.trim() === "" ? null : Number(value);
+
+    if (limit !== null && (isNaN(limit) || limit < 0)) {
+      setError("Enter an amount of zero or more, or leave it blank for no limit.");
+      return;
+    }
+
+    setSaving(true);
+    const result = await setCustomerCreditLimit(custno, limit);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.errors.find(fieldError => fieldError.field === 'credit_limit')?.message || result.message);
+      return;
+    }
+
+    toast({ title: "Credit Limit Saved", description: result.message });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Set Credit Limit</DialogTitle>
+          <DialogDescription>
+            The most customer {custno} may owe across its open sales. Sales that would take it over the limit need a manager override.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="credit-limit">Credit Limit ($)</Label>
+          <Input
+            id="credit-limit"
+            type="number"
+            min={0}
+            step="0.01"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="No limit"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" disabled={saving} onClick={handleSave}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useCustomerCredit } from "../hooks/useCustomerCredit";
+import { CREDIT_WARNING_PERCENT } from "./CustomerCreditService";
+import { CreditHoldBadge } from "./CreditHoldBadge";
+import { CreditLimitDialog } from "./CreditLimitDialog";
+
+interface CustomerCreditCardProps {
+  custno: string;
+  canSetCreditLimit: boolean;
+}
+
+export function CustomerCreditCard({ custno, canSetCreditLimit }: CustomerCreditCardProps) {
+  const { credit, loading, loadCredit } = useCustomerCredit(custno);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const creditLimit = credit?.credit_limit ?? null;
+  const percentUsed = credit?.percent_used ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <CardTitle>Credit</CardTitle>
+            <CreditHoldBadge onHold={credit?.on_hold} />
+          </div>
+          {canSetCreditLimit && (
+            <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+              Set Credit Limit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div>Loading credit...</div>
+        ) : (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-x-4 gap-y-6">
+              <div>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Credit Limit</dt>
+                <dd className="mt-1 text-lg">{creditLimit === null ? 'No limit' : `$${creditLimit.toFixed(2)}`}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Outstanding Balance</dt>
+                <dd className="mt-1 text-lg">${(credit?.balance || 0).toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Available Credit</dt>
+                <dd className="mt-1 text-lg">
+                  {credit?.available_credit == null ? 'N/A' : `$${Math.max(credit.available_credit, 0).toFixed(2)}`}
+                </dd>
+              </div>
+            </dl>
+
+            {percentUsed !== null && (
+              <div className="space-y-1">
+                <Progress value={Math.min(percentUsed, 100)} />
+                <p className={`text-sm ${percentUsed >= CREDIT_WARNING_PERCENT ? 'text-destructive' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {percentUsed}% of the credit limit used
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <CreditLimitDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        custno={custno}
+        creditLimit={creditLimit}
+        onSaved={loadCredit}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { SaleFieldError } from "@/components/sales/SaleService";
+
+// A customer's credit limit against what it owes across its open sales. A customer
+// without a limit is never on hold; one owing its limit or more is.
+export interface CustomerCreditStatus {
+  custno: string;
+  credit_limit: number | null;
+  balance: number;
+  available_credit: number | null;
+  percent_used: number | null;
+  on_hold: boolean;
+}
+
+// Administrators are notified when a customer's balance reaches this share of its limit
+export const CREDIT_WARNING_PERCENT = 80;
+
+interface SetCreditLimitResponse {
+  success: boolean;
+  message: string;
+  errors: SaleFieldError[];
+}
+
+const toCreditStatus = (row: {
+  custno: string | null;
+  credit_limit: number | null;
+  balance: number | null;
+  available_credit: number | null;
+  percent_used: number | null;
+  on_hold: boolean | null;
+}): CustomerCreditStatus => ({
+  custno: row.custno || "",
+  credit_limit: row.credit_limit,
+  balance: row.balance || 0,
+  available_credit: row.available_credit,
+  percent_used: row.percent_used,
+  on_hold: row.on_hold || false,
+});
+
+export const fetchCustomerCreditStatus = async (custno: string): Promise<CustomerCreditStatus | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('customer_credit_status')
+      .select('*')
+      .eq('custno', custno)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? toCreditStatus(data) : null;
+  } catch (error) {
+    console.error('Error fetching customer credit status:', error);
+    throw error;
+  }
+};
+
+// Credit status of a page of customers in one request, keyed by custno
+export const fetchCustomerCreditStatuses = async (custnos: string[]): Promise<Map<string, CustomerCreditStatus>> => {
+  if (custnos.length === 0) return new Map();
+
+  try {
+    const { data, error } = await supabase
+      .from('customer_credit_status')
+      .select('*')
+      .in('custno', custnos);
+
+    if (error) throw error;
+
+    return new Map((data || []).map(row => [row.custno || "", toCreditStatus(row)]));
+  } catch (error) {
+    console.error('Error fetching customer credit statuses:', error);
+    throw error;
+  }
+};
+
+// Set a customer's credit limit, or clear it with null
+export const setCustomerCreditLimit = async (
+  custno: string,
+  creditLimit: number | null
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[] }> => {
+  try {
+    const { data, error } = await supabase.rpc('set_customer_credit_limit', {
+      custno,
+      // Left out, the limit defaults to none
+      credit_limit: creditLimit ?? undefined,
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as SetCreditLimitResponse;
+    return { success: result.success, message: result.message, errors: result.errors || [] };
+  } catch (error) {
+    console.error('Error setting credit limit:', error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to set the credit limit.", errors: [] };
+  }
+};
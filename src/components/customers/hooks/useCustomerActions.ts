@@ -3,22 +3,30 @@ import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Customer, 
+  EMPTY_ADDRESS,
   generateNewCustomerNumber,
-  createCustomer, 
-  updateCustomer,
+  fetchCustomerProfile,
+  formatAddress,
+  saveCustomer,
+  toAddressFormData,
   deleteCustomer,
   restoreCustomer
 } from "../CustomerService";
+import { CustomerFormValues } from "../CustomerForm";
+import { releaseDocumentNumber } from "@/components/numbering/DocumentSequenceService";
 
-export interface CustomerFormValues {
-  custno: string;
-  custname: string;
-  address: string;
-  payterm: string;
-}
+const emptyFormValues = (custno: string): CustomerFormValues => ({
+  custno,
+  custname: "",
+  payterm: "COD",
+  billing: EMPTY_ADDRESS,
+  shipping_same_as_billing: true,
+  shipping: EMPTY_ADDRESS,
+  contacts: [],
+});
 
 interface UseCustomerActionsProps {
-  isAdmin: boolean;
+  canRestoreCustomer: boolean;
   canAddCustomer: boolean;
   canEditCustomer: boolean;
   canDeleteCustomer: boolean;
@@ -30,7 +38,7 @@ interface UseCustomerActionsProps {
 }
 
 export function useCustomerActions({
-  isAdmin,
+  canRestoreCustomer,
   canAddCustomer,
   canEditCustomer,
   canDeleteCustomer,
@@ -43,12 +51,7 @@ export function useCustomerActions({
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [formDefaults, setFormDefaults] = useState<CustomerFormValues>({
-    custno: "",
-    custname: "",
-    address: "",
-    payterm: "COD",
-  });
+  const [formDefaults, setFormDefaults] = useState<CustomerFormValues>(emptyFormValues(""));
 
   const { toast } = useToast();
 
@@ -64,12 +67,7 @@ export function useCustomerActions({
     
     try {
       const newCustNo = await generateNewCustomerNumber();
-      setFormDefaults({
-        custno: newCustNo,
-        custname: "",
-        address: "",
-        payterm: "COD",
-      });
+      setFormDefaults(emptyFormValues(newCustNo));
       setIsEditing(false);
       setSelectedCustomer(null);
       setDialogOpen(true);
@@ -83,7 +81,15 @@ export function useCustomerActions({
     }
   };
 
-  const handleEdit = (customer: Customer) => {
+  // Closing the add dialog without saving hands the reserved number back
+  const handleDialogOpenChange = (open: boolean) => {
+    if (!open && !isEditing) {
+      releaseDocumentNumber('customer', formDefaults.custno);
+    }
+    setDialogOpen(open);
+  };
+
+  const handleEdit = async (customer: Customer) => {
     if (!canEditCustomer) {
       toast({
         title: "Permission Denied",
@@ -93,15 +99,36 @@ export function useCustomerActions({
       return;
     }
     
-    setSelectedCustomer(customer);
-    setIsEditing(true);
-    setFormDefaults({
-      custno: customer.custno,
-      custname: customer.custname || "",
-      address: customer.address || "",
-      payterm: customer.payterm || "COD",
-    });
-    setDialogOpen(true);
+    try {
+      const profile = await fetchCustomerProfile(customer.custno);
+
+      setSelectedCustomer(customer);
+      setIsEditing(true);
+      setFormDefaults({
+        custno: customer.custno,
+        custname: customer.custname || "",
+        payterm: customer.payterm || "COD",
+        // Customers saved before addresses were structured only have the one-line address
+        billing: profile.billing ? toAddressFormData(profile.billing) : { ...EMPTY_ADDRESS, street: customer.address || "" },
+        shipping_same_as_billing: !profile.shipping,
+        shipping: toAddressFormData(profile.shipping),
+        contacts: profile.contacts.map(contact => ({
+          id: contact.id,
+          name: contact.name,
+          role: contact.role || "",
+          phone: contact.phone || "",
+          email: contact.email || "",
+          is_primary: contact.is_primary,
+        })),
+      });
+      setDialogOpen(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load the customer's addresses and contacts.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleDelete = async (customer: Customer) => {
@@ -138,10 +165,10 @@ export function useCustomerActions({
   };
 
   const handleRestore = async (customer: Customer) => {
-    if (!isAdmin) {
+    if (!canRestoreCustomer) {
       toast({
         title: "Permission Denied",
-        description: "Only administrators can restore deleted customers.",
+        description: "You don't have permission to restore deleted customers.",
         variant: "destructive",
       });
       return;
@@ -156,17 +183,7 @@ export function useCustomerActions({
           description: `Customer ${customer.custname} has been restored.`,
         });
         
-        // Create a restored customer object with the proper action flag
-        const restoredCustomer = {
-          ...customer,
-          deleted_at: null,
-          action: 'restore'  // This ensures the status shows as "Restored"
-        };
-        
-        // Add to active customers list with the 'restore' action flag
-        addCustomer(restoredCustomer);
-        
-        // Remove from deleted customers list
+        // Restores happen from the deleted list, which only holds the current page
         removeCustomerFromDeleted(customer.custno);
       } else {
         throw new Error(result.message);
@@ -182,100 +199,80 @@ export function useCustomerActions({
   };
 
   const handleSubmit = async (values: CustomerFormValues) => {
-    try {
-      if (isEditing && selectedCustomer) {
-        if (!canEditCustomer) {
-          toast({
-            title: "Permission Denied",
-            description: "You don't have permission to edit customers.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Update existing customer
-        const result = await updateCustomer(selectedCustomer.custno, {
-          custname: values.custname,
-          address: values.address,
-          payterm: values.payterm,
-        });
-        
-        if (result.success) {
-          // Update the customer in the state with 'Edited' status
-          const updatedCustomer = { 
-            ...selectedCustomer,
-            custname: values.custname, 
-            address: values.address, 
-            payterm: values.payterm, 
-            modified_at: new Date().toISOString() // Add modified timestamp for status tracking
-          };
-          
-          updateCustomerInList(updatedCustomer);
-          
-          toast({
-            title: "Customer Updated",
-            description: `Customer ${values.custname} has been updated successfully.`,
-          });
-          
-          setDialogOpen(false);
-        } else {
-          throw new Error(result.message);
-        }
-      } else {
-        if (!canAddCustomer) {
-          toast({
-            title: "Permission Denied",
-            description: "You don't have permission to add customers.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Create new customer
-        const result = await createCustomer(values);
-        
-        if (result.success) {
-          // Add the new customer to the state
-          const newCustomer = {
-            custno: values.custno,
-            custname: values.custname,
-            address: values.address,
-            payterm: values.payterm,
-            deleted_at: null,
-            created_at: new Date().toISOString(),
-            action: 'add' // Mark as newly added
-          };
-          
-          addCustomer(newCustomer);
-          
-          toast({
-            title: "Customer Created",
-            description: `Customer ${values.custname} has been created successfully.`,
-          });
-          
-          setDialogOpen(false);
-        } else {
-          throw new Error(result.message);
-        }
-      }
-    } catch (error: any) {
-      console.error('Error submitting customer:', error);
-      
-      if (error.code === '23505') {
-        toast({
-          title: "Error",
-          description: "Customer number already exists.",
-          variant: "destructive",
-        });
-        return;
-      }
-      
+    const isNew = !(isEditing && selectedCustomer);
+
+    if (isNew ? !canAddCustomer : !canEditCustomer) {
+      toast({
+        title: "Permission Denied",
+        description: `You don't have permission to ${isNew ? 'add' : 'edit'} customers.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = await saveCustomer({
+      custno: values.custno,
+      custname: values.custname,
+      payterm: values.payterm || "",
+      billing: { ...EMPTY_ADDRESS, ...values.billing },
+      shipping: values.shipping_same_as_billing ? null : { ...EMPTY_ADDRESS, ...values.shipping },
+      contacts: values.contacts.map(contact => ({
+        id: contact.id,
+        name: contact.name,
+        role: contact.role,
+        phone: contact.phone,
+        email: contact.email,
+        is_primary: contact.is_primary,
+      })),
+    }, isNew);
+
+    if (!result.success) {
       toast({
         title: "Error",
-        description: error.message || "Failed to save customer data.",
+        description: result.errors.length > 0 ? result.errors.map(error => error.message).join(' ') : result.message,
         variant: "destructive",
       });
+      return;
     }
+
+    const primary = values.contacts.find(contact => contact.is_primary) || values.contacts[0];
+    const savedFields = {
+      custname: values.custname,
+      address: formatAddress(values.billing) || null,
+      payterm: values.payterm || null,
+      phone: primary?.phone || null,
+      email: primary?.email || null,
+    };
+
+    if (!isNew && selectedCustomer) {
+      // Update the customer in the state with 'Edited' status
+      updateCustomerInList({
+        ...selectedCustomer,
+        ...savedFields,
+        modified_at: new Date().toISOString() // Add modified timestamp for status tracking
+      });
+
+      toast({
+        title: "Customer Updated",
+        description: `Customer ${values.custname} has been updated successfully.`,
+      });
+    } else {
+      addCustomer({
+        custno: values.custno,
+        ...savedFields,
+        deleted_at: null,
+        created_at: new Date().toISOString(),
+        action: 'add' // Mark as newly added
+      });
+
+      toast({
+        title: "Customer Created",
+        description: `Customer ${values.custname} has been created successfully.`,
+      });
+    }
+
+    // Close without handing back the number, which the customer now uses
+    setDialogOpen(false);
   };
 
   return {
@@ -283,7 +280,7 @@ export function useCustomerActions({
     isEditing,
     dialogOpen,
     formDefaults,
-    setDialogOpen,
+    setDialogOpen: handleDialogOpenChange,
     prepareNewCustomerForm,
     handleEdit,
     handleDelete,
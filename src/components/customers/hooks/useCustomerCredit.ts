@@ -0,0 +1,35 @@
+import { useState, useEffect, useRef } from "react";
+import { CustomerCreditStatus, fetchCustomerCreditStatus } from "../credit/CustomerCreditService";
+
+// Credit limit and balance of one customer; a failed lookup just leaves the status empty
+export function useCustomerCredit(custno: string | undefined) {
+  const [credit, setCredit] = useState<CustomerCreditStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Ignore a slow answer for a customer that is no longer selected
+  const latestRequest = useRef(0);
+
+  const loadCredit = async () => {
+    const request = ++latestRequest.current;
+
+    if (!custno) {
+      setCredit(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const status = await fetchCustomerCreditStatus(custno);
+      if (request === latestRequest.current) setCredit(status);
+    } catch (error) {
+      if (request === latestRequest.current) setCredit(null);
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCredit();
+  }, [custno]);
+
+  return { credit, loading, loadCredit };
+}
@@ -0,0 +1,28 @@
+import { useListParams } from "@/hooks/use-list-params";
+import { CUSTOMER_SORT_FIELDS, CustomerListQuery, CustomerSortField } from "../CustomerService";
+
+// Customer list state kept in the URL, with an unknown sort field falling back to custno
+export function useCustomerListParams() {
+  const listParams = useListParams({ sort: "custno", direction: "asc" });
+  const { params } = listParams;
+
+  const sortField: CustomerSortField = CUSTOMER_SORT_FIELDS.includes(params.sort as CustomerSortField)
+    ? params.sort as CustomerSortField
+    : "custno";
+
+  const listQuery: CustomerListQuery = {
+    deleted: params.showDeleted,
+    search: params.search,
+    status: params.status,
+    sort: sortField,
+    direction: params.direction,
+    page: params.page,
+    pageSize: params.pageSize
+  };
+
+  return {
+    ...listParams,
+    sortField,
+    listQuery
+  };
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { CustomerProfile, fetchCustomerProfile } from "../CustomerService";
+
+export function useCustomerProfile(custno: string | undefined) {
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!custno) {
+      setProfile(null);
+      return;
+    }
+
+    // Ignore a slow answer for a customer that is no longer selected
+    let current = true;
+
+    const loadProfile = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchCustomerProfile(custno);
+        if (current) setProfile(data);
+      } catch (error) {
+        if (current) {
+          setProfile(null);
+          toast({
+            title: "Error",
+            description: "Failed to load the customer's addresses and contacts.",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (current) setLoading(false);
+      }
+    };
+
+    loadProfile();
+    return () => {
+      current = false;
+    };
+  }, [custno]);
+
+  return { profile, loading };
+}
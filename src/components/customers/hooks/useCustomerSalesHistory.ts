@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { SalesRecord } from "@/components/sales/types";
+import {
+  CustomerProductTotal,
+  CustomerSalesMetrics,
+  emptyCustomerSalesMetrics,
+  fetchCustomerSalesMetrics,
+  fetchCustomerSalesPage,
+  fetchCustomerTopProducts
+} from "../CustomerSalesHistoryService";
+
+export function useCustomerSalesHistory(custno: string | undefined) {
+  const [metrics, setMetrics] = useState<CustomerSalesMetrics>(emptyCustomerSalesMetrics);
+  const [topProducts, setTopProducts] = useState<CustomerProductTotal[]>([]);
+  const [sales, setSales] = useState<SalesRecord[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [loading, setLoading] = useState(true);
+  const [salesLoading, setSalesLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      if (!custno) return;
+
+      setLoading(true);
+      try {
+        const [metricsData, productsData] = await Promise.all([
+          fetchCustomerSalesMetrics(custno),
+          fetchCustomerTopProducts(custno)
+        ]);
+        setMetrics(metricsData);
+        setTopProducts(productsData);
+      } catch (error) {
+        console.error('Error fetching customer sales metrics:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the customer's sales metrics.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [custno]);
+
+  useEffect(() => {
+    const loadSales = async () => {
+      if (!custno) return;
+
+      setSalesLoading(true);
+      try {
+        const { rows, count } = await fetchCustomerSalesPage(custno, page, pageSize);
+        setSales(rows);
+        setTotalCount(count);
+      } catch (error) {
+        console.error('Error fetching customer sales:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the customer's sales.",
+          variant: "destructive",
+        });
+      } finally {
+        setSalesLoading(false);
+      }
+    };
+
+    loadSales();
+  }, [custno, page, pageSize]);
+
+  const changePageSize = (size: number) => {
+    setPageSize(size);
+    setPage(1);
+  };
+
+  return {
+    metrics,
+    topProducts,
+    sales,
+    totalCount,
+    page,
+    pageSize,
+    loading,
+    salesLoading,
+    setPage,
+    setPageSize: changePageSize
+  };
+}
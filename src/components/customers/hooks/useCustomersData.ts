@@ -1,35 +1,42 @@
-
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { 
-  Customer, 
-  fetchCustomers, 
-  fetchDeletedCustomers,
-  getCustomerStatus
+import {
+  Customer,
+  CustomerListQuery,
+  fetchCustomersPage
 } from "../CustomerService";
 
-export function useCustomersData(showDeleted: boolean, isAdmin: boolean) {
+export function useCustomersData(listQuery: CustomerListQuery, canRestoreCustomer: boolean) {
   const [customers, setCustomers] = useState<Customer[]>([]);
-  const [deletedCustomers, setDeletedCustomers] = useState<Customer[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  // Wait for typing to pause before searching
   useEffect(() => {
-    loadCustomersData();
-  }, [showDeleted, isAdmin]);
+    const timeout = setTimeout(loadCustomersData, listQuery.search ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [
+    listQuery.deleted,
+    listQuery.search,
+    listQuery.status,
+    listQuery.sort,
+    listQuery.direction,
+    listQuery.page,
+    listQuery.pageSize,
+    canRestoreCustomer
+  ]);
 
   const loadCustomersData = async () => {
     setLoading(true);
     try {
-      // Fetch active customers
-      const activeCustomers = await fetchCustomers();
-      setCustomers(activeCustomers);
-      
-      // Fetch deleted customers if showing deleted
-      if (showDeleted && isAdmin) {
-        const deletedCustomersData = await fetchDeletedCustomers();
-        setDeletedCustomers(deletedCustomersData);
-      }
+      // Only users who can restore customers may list deleted ones
+      const { rows, count } = await fetchCustomersPage({
+        ...listQuery,
+        deleted: listQuery.deleted && canRestoreCustomer
+      });
+      setCustomers(rows);
+      setTotalCount(count);
     } catch (error) {
       console.error('Error fetching customers:', error);
       toast({
@@ -44,30 +51,29 @@ export function useCustomersData(showDeleted: boolean, isAdmin: boolean) {
 
   const addCustomer = (customer: Customer) => {
     setCustomers(prev => [customer, ...prev]);
+    setTotalCount(prev => prev + 1);
   };
 
   const updateCustomer = (updatedCustomer: Customer) => {
-    setCustomers(prev => prev.map(cust => 
+    setCustomers(prev => prev.map(cust =>
       cust.custno === updatedCustomer.custno ? updatedCustomer : cust
     ));
   };
 
-  const removeCustomerFromActive = (custno: string) => {
+  // The page holds either active or deleted customers, so both remove from the same list
+  const removeCustomer = (custno: string) => {
     setCustomers(prev => prev.filter(c => c.custno !== custno));
-  };
-
-  const removeCustomerFromDeleted = (custno: string) => {
-    setDeletedCustomers(prev => prev.filter(c => c.custno !== custno));
+    setTotalCount(prev => Math.max(prev - 1, 0));
   };
 
   return {
     customers,
-    deletedCustomers,
+    totalCount,
     loading,
     addCustomer,
     updateCustomer,
-    removeCustomerFromActive,
-    removeCustomerFromDeleted,
+    removeCustomerFromActive: removeCustomer,
+    removeCustomerFromDeleted: removeCustomer,
     loadCustomersData
   };
 }
@@ -0,0 +1,30 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { DuplicateCandidate, fetchDuplicateCandidates } from "../merge/CustomerMergeService";
+
+export function useDuplicateCandidates(minScore: number) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCandidates();
+  }, [minScore]);
+
+  const loadCandidates = async () => {
+    setLoading(true);
+    try {
+      setCandidates(await fetchDuplicateCandidates(minScore));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to find duplicate customers.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { candidates, loading, loadCandidates };
+}
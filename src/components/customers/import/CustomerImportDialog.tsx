@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { fetchPaymentTerms } from "@/components/terms/PaymentTermService";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportPreviewRow,
+  ImportSheet,
+  buildImportPreview,
+  downloadImportErrorReport,
+  fetchExistingCustomerKeys,
+  guessColumnMapping,
+  importCustomers,
+  parseImportFile
+} from "./CustomerImportService";
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+const NOT_IMPORTED = 'none';
+
+interface CustomerImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// Upload a file, match its columns to customer fields, check every row, then add the good ones
+export function CustomerImportDialog({ open, onOpenChange, onImported }: CustomerImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName("");
+      setSheet(null);
+      setMapping(null);
+      setPreview([]);
+      setImportedCount(0);
+    }
+  }, [open]);
+
+  const readyRows = preview.filter(row => row.errors.length === 0);
+  const rejectedRows = preview.filter(row => row.errors.length > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setWorking(true);
+    try {
+      const parsed = await parseImportFile(file);
+
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has column headers but no customers.');
+      }
+
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to read the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+      e.target.value = "";
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping(current => current && { ...current, [field]: value === NOT_IMPORTED ? null : Number(value) });
+  };
+
+  const handlePreview = async () => {
+    if (!sheet || !mapping) return;
+
+    setWorking(true);
+    try {
+      const [existing, paymentTerms] = await Promise.all([
+        fetchExistingCustomerKeys(),
+        fetchPaymentTerms()
+      ]);
+      setPreview(buildImportPreview(sheet, mapping, existing, paymentTerms.map(term => term.code)));
+      setStep('preview');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to check the rows against existing customers.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setWorking(true);
+    const result = await importCustomers(readyRows.map(row => row.data));
+    setWorking(false);
+
+    if (!result.success) {
+      // Errors are keyed by position among the rows sent, e.g. "rows.3.custno"
+      const serverErrors = new Map<number, string[]>();
+      result.errors.forEach(fieldError => {
+        const match = fieldError.field.match(/^rows\.(\d+)\./);
+        if (match) {
+          const line = readyRows[Number(match[1])].line;
+          serverErrors.set(line, [...(serverErrors.get(line) || []), fieldError.message]);
+        }
+      });
+
+      if (serverErrors.size > 0) {
+        setPreview(current => current.map(row =>
+          serverErrors.has(row.line) ? { ...row, errors: [...row.errors, ...serverErrors.get(row.line)!] } : row
+        ));
+      }
+
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setImportedCount(result.custnos.length);
+    setStep('done');
+    toast({ title: "Customers Imported", description: result.message });
+    onImported();
+  };
+
+  const sampleValue = (column: number | null) => {
+    if (column === null || !sheet) return '';
+    return sheet.rows.find(row => (row[column] ?? '').trim())?.[column] ?? '';
+  };
+
+  const errorReportButton = rejectedRows.length > 0 && (
+    <Button type="button" variant="outline" onClick={() => downloadImportErrorReport(rejectedRows, fileName)}>
+      <Download size={16} className="mr-2" /> Download Error Report
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Customers</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && "Choose a CSV or Excel (.xlsx) file with one customer per row and column headers in the first row."}
+            {step === 'map' && `Match the columns of ${fileName} to customer fields.`}
+            {step === 'preview' && `${readyRows.length} ready to import, ${rejectedRows.length} rejected.`}
+            {step === 'done' && `${importedCount} customer${importedCount === 1 ? '' : 's'} imported from ${fileName}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="customer-import-file">File</Label>
+            <Input
+              id="customer-import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={working}
+            />
+            {working && (
+              <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                <Loader2 className="h-4 w-4 animate-spin" /> Reading file...
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                <Label>{label}{required && ' *'}</Label>
+                <Select
+                  value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                  onValueChange={(value) => setColumn(field, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                    {sheet.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {mapping[field] !== null
+                    ? `e.g. ${sampleValue(mapping[field]) || '(empty)'}`
+                    : field === 'custno' ? 'Numbers will be assigned automatically' : ''}
+                </span>
+              </div>
+            ))}
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'} found. Rows without a customer number are numbered automatically.
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">Row</TableHead>
+                  <TableHead>Customer No</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Payment Term</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map(row => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>
+                      {row.data.custno || <span className="text-gray-500 dark:text-gray-400">Auto</span>}
+                    </TableCell>
+                    <TableCell>{row.data.custname}</TableCell>
+                    <TableCell>{row.data.address}</TableCell>
+                    <TableCell>{row.data.payterm}</TableCell>
+                    <TableCell>
+                      {row.errors.length === 0 ? (
+                        <Badge variant="secondary">Ready</Badge>
+                      ) : (
+                        <ul className="text-sm text-destructive space-y-1">
+                          {row.errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={handlePreview} disabled={working || mapping?.custname === null}>
+                {working ? 'Checking...' : 'Preview'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('map')} disabled={working}>Back</Button>
+              {errorReportButton}
+              <Button onClick={handleImport} disabled={working || readyRows.length === 0}>
+                {working ? 'Importing...' : `Import ${readyRows.length} Customer${readyRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              {errorReportButton}
+              <Button onClick={() => onOpenChange(false)}>Close</Button>
+            </>
+          )}
+          {step === 'upload' && (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,269 @@
+import Papa from "papaparse";
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { SaleFieldError } from "@/components/sales/SaleService";
+import { downloadBlob } from "@/components/export/ExportService";
+import { CustomerFormData, validateCustomerForm } from "../CustomerService";
+
+export type ImportField = keyof CustomerFormData;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'custno', label: 'Customer No', required: false },
+  { field: 'custname', label: 'Name', required: true },
+  { field: 'address', label: 'Address', required: false },
+  { field: 'payterm', label: 'Payment Term', required: false },
+];
+
+// Column index in the file for each customer field, or null when the field is not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+  // Row number in the file of each row, counting the header row and any blank rows above it
+  lines: number[];
+}
+
+export interface ImportPreviewRow {
+  // Row number in the file, so users can find it in their spreadsheet
+  line: number;
+  data: CustomerFormData;
+  errors: string[];
+}
+
+// Customer numbers and names already on file, lower-cased for comparison
+export interface ExistingCustomerKeys {
+  custnos: Set<string>;
+  names: Set<string>;
+}
+
+interface ImportCustomersResponse {
+  success: boolean;
+  custnos: string[];
+  errors: SaleFieldError[];
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  custno: ['custno', 'customerno', 'customernumber', 'customerid', 'code', 'no'],
+  custname: ['custname', 'customername', 'name', 'company'],
+  address: ['address', 'customeraddress', 'addr'],
+  payterm: ['payterm', 'paymentterm', 'paymentterms', 'terms', 'term'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBlankRow = (row: string[]) => row.every(cell => !cell.trim());
+
+const parseCsv = (file: File): Promise<string[][]> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      // Blank lines are kept so rows keep their position in the file
+      skipEmptyLines: false,
+      complete: (results) => resolve(results.data),
+      error: (error) => reject(error),
+    });
+  });
+
+// Only the first worksheet is read; cells are taken as the text Excel shows
+const parseXlsx = async (file: File): Promise<string[][]> => {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? '');
+    }
+    rows.push(cells);
+  });
+
+  return rows;
+};
+
+// Read a CSV or XLSX file; the first non-empty row holds the column headers
+export const parseImportFile = async (file: File): Promise<ImportSheet> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let rows: string[][];
+  if (extension === 'csv') {
+    rows = await parseCsv(file);
+  } else if (extension === 'xlsx') {
+    rows = await parseXlsx(file);
+  } else {
+    throw new Error('Choose a .csv or .xlsx file.');
+  }
+
+  const [headers, ...dataRows] = rows
+    .map((row, index) => ({ line: index + 1, cells: row.map(cell => String(cell ?? '')) }))
+    .filter(row => !isBlankRow(row.cells));
+
+  if (!headers) {
+    throw new Error('The file is empty.');
+  }
+
+  return {
+    headers: headers.cells.map((header, index) => header.trim() || `Column ${index + 1}`),
+    rows: dataRows.map(row => row.cells),
+    lines: dataRows.map(row => row.line),
+  };
+};
+
+// Match file columns to customer fields by their header, e.g. "Customer Name" to custname
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+
+  return IMPORT_FIELDS.reduce((mapping, { field }) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+// Validate every row as the customer form would, and flag numbers or names that already
+// exist or appear twice in the file. Rows without a number are numbered on import.
+export const buildImportPreview = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existing: ExistingCustomerKeys,
+  paymentTermCodes: string[]
+): ImportPreviewRow[] => {
+  const termsByKey = new Map(paymentTermCodes.map(code => [code.toLowerCase(), code]));
+  const custnosInFile = new Set<string>();
+  const namesInFile = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] ?? '').trim();
+    };
+
+    const data: CustomerFormData = {
+      custno: cell('custno'),
+      custname: cell('custname'),
+      address: cell('address'),
+      payterm: cell('payterm'),
+    };
+
+    // A placeholder number stands in for the one the generator will assign
+    const errors = validateCustomerForm({ ...data, custno: data.custno || 'auto' });
+
+    const custnoKey = data.custno.toLowerCase();
+    if (data.custno) {
+      if (existing.custnos.has(custnoKey)) {
+        errors.push(`Customer number ${data.custno} already exists`);
+      } else if (custnosInFile.has(custnoKey)) {
+        errors.push(`Customer number ${data.custno} appears more than once in the file`);
+      }
+      custnosInFile.add(custnoKey);
+    }
+
+    const nameKey = data.custname.toLowerCase();
+    if (data.custname) {
+      if (existing.names.has(nameKey)) {
+        errors.push(`A customer named ${data.custname} already exists`);
+      } else if (namesInFile.has(nameKey)) {
+        errors.push(`${data.custname} appears more than once in the file`);
+      }
+      namesInFile.add(nameKey);
+    }
+
+    if (data.payterm) {
+      const code = termsByKey.get(data.payterm.toLowerCase());
+      if (code) {
+        data.payterm = code;
+      } else {
+        errors.push(`Payment term ${data.payterm} does not exist`);
+      }
+    }
+
+    return { line: sheet.lines[index], data, errors };
+  });
+};
+
+// Customer numbers and names already on file, including deleted customers whose numbers stay taken
+export const fetchExistingCustomerKeys = async (): Promise<ExistingCustomerKeys> => {
+  const pageSize = 1000;
+  const keys: ExistingCustomerKeys = { custnos: new Set(), names: new Set() };
+
+  try {
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('customer')
+        .select('custno, custname')
+        .order('custno', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      (data || []).forEach(customer => {
+        keys.custnos.add(customer.custno.toLowerCase());
+        if (customer.custname) {
+          keys.names.add(customer.custname.trim().toLowerCase());
+        }
+      });
+
+      if (!data || data.length < pageSize) break;
+    }
+
+    return keys;
+  } catch (error) {
+    console.error('Error fetching existing customers:', error);
+    throw error;
+  }
+};
+
+// Add the accepted rows in one transaction. Nothing is saved if any row fails on the server.
+export const importCustomers = async (
+  rows: CustomerFormData[]
+): Promise<{ success: boolean; message: string; custnos: string[]; errors: SaleFieldError[] }> => {
+  try {
+    const { data: response, error } = await supabase.rpc('import_customers', {
+      customers: rows.map(row => ({
+        custno: row.custno,
+        custname: row.custname,
+        address: row.address,
+        payterm: row.payterm,
+      })),
+    });
+
+    if (error) throw error;
+
+    const result = response as unknown as ImportCustomersResponse;
+
+    if (!result.success) {
+      return { success: false, message: "Some rows were rejected by the server. Nothing was imported.", custnos: [], errors: result.errors || [] };
+    }
+
+    return {
+      success: true,
+      message: `${result.custnos.length} customer${result.custnos.length === 1 ? '' : 's'} imported.`,
+      custnos: result.custnos,
+      errors: []
+    };
+  } catch (error) {
+    console.error("Error importing customers:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to import customers.", custnos: [], errors: [] };
+  }
+};
+
+// Download the rejected rows with the reasons, as a CSV that can be fixed and imported again
+export const downloadImportErrorReport = (rows: ImportPreviewRow[], fileName: string) => {
+  const csv = Papa.unparse({
+    fields: ['Row', 'Customer No', 'Name', 'Address', 'Payment Term', 'Errors'],
+    data: rows.map(row => [
+      row.line,
+      row.data.custno,
+      row.data.custname,
+      row.data.address,
+      row.data.payterm,
+      row.errors.join('; '),
+    ]),
+  });
+
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`);
+};
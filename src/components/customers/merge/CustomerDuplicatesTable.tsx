@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Table, TableBody, TableCaption, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+import { useDuplicateCandidates } from "../hooks/useDuplicateCandidates";
+import { CustomerMergeDialog } from "./CustomerMergeDialog";
+import { DUPLICATE_SCORE_OPTIONS, DuplicateCandidate } from "./CustomerMergeService";
+
+const formatScore = (score: number | null) => score === null ? '-' : `${Math.round(score * 100)}%`;
+
+const customerCell = (custno: string, custname: string | null, address: string | null) => (
+  <div>
+    <Link
+      to={`/dashboard/customers/${custno}`}
+      className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+    >
+      {custname || custno}
+    </Link>
+    <div className="text-xs text-gray-500 dark:text-gray-400">{custno}</div>
+    {address && <div className="text-xs text-gray-500 dark:text-gray-400">{address}</div>}
+  </div>
+);
+
+// Pairs of customers that look like the same business, with a merge screen for each pair
+export function CustomerDuplicatesTable() {
+  const [minScore, setMinScore] = useState(0.6);
+  const [reviewing, setReviewing] = useState<DuplicateCandidate | null>(null);
+  const { candidates, loading, loadCandidates } = useDuplicateCandidates(minScore);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 dark:bg-gray-800">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Possible Duplicates</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Customers with similar names and addresses. The match weighs the name at 70% and the address at 30%.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Minimum match</Label>
+          <Select value={String(minScore)} onValueChange={(value) => setMinScore(Number(value))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DUPLICATE_SCORE_OPTIONS.map(score => (
+                <SelectItem key={score} value={String(score)}>{formatScore(score)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Table>
+        <TableCaption>{loading ? 'Looking for duplicates...' : `${candidates.length} possible duplicate${candidates.length === 1 ? '' : 's'}.`}</TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Customer</TableHead>
+            <TableHead>Possible Duplicate</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Address</TableHead>
+            <TableHead>Match</TableHead>
+            <TableHead className="w-[100px]">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {!loading && candidates.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">No possible duplicates found.</TableCell>
+            </TableRow>
+          ) : (
+            candidates.map(candidate => (
+              <TableRow key={`${candidate.custno_a}-${candidate.custno_b}`}>
+                <TableCell>{customerCell(candidate.custno_a, candidate.custname_a, candidate.address_a)}</TableCell>
+                <TableCell>{customerCell(candidate.custno_b, candidate.custname_b, candidate.address_b)}</TableCell>
+                <TableCell>{formatScore(candidate.name_score)}</TableCell>
+                <TableCell>{formatScore(candidate.address_score)}</TableCell>
+                <TableCell>
+                  <Badge variant={candidate.score >= 0.8 ? "destructive" : "secondary"}>
+                    {formatScore(candidate.score)}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <Button variant="outline" size="sm" onClick={() => setReviewing(candidate)}>
+                    <GitMerge size={16} className="mr-2" /> Merge
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <CustomerMergeDialog
+        candidate={reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onMerged={loadCandidates}
+      />
+    </div>
+  );
+}
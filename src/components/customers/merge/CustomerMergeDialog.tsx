@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { SaleFieldError } from "@/components/sales/SaleService";
+import {
+  DuplicateCandidate,
+  MERGE_FIELDS,
+  MergeField,
+  MergeSide,
+  MergeValues,
+  fetchMergeSide,
+  mergeCustomers
+} from "./CustomerMergeService";
+
+type Side = 'a' | 'b';
+
+interface CustomerMergeDialogProps {
+  candidate: DuplicateCandidate | null;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+const otherSide = (side: Side): Side => side === 'a' ? 'b' : 'a';
+
+// Side-by-side view of two customers: pick the number that survives and, for each field,
+// which customer's value it keeps. Merging moves the other customer's sales to the survivor.
+export function CustomerMergeDialog({ candidate, onOpenChange, onMerged }: CustomerMergeDialogProps) {
+  const [sides, setSides] = useState<Record<Side, MergeSide> | null>(null);
+  const [survivor, setSurvivor] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<MergeField, Side>>({ custname: 'a', address: 'a', payterm: 'a' });
+  const [errors, setErrors] = useState<SaleFieldError[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!candidate) return;
+
+    const loadSides = async () => {
+      setLoading(true);
+      setSides(null);
+      setErrors([]);
+      try {
+        const [a, b] = await Promise.all([
+          fetchMergeSide(candidate.custno_a),
+          fetchMergeSide(candidate.custno_b)
+        ]);
+
+        // Keep the customer with more sales by default, and its values where it has them
+        const keep: Side = b.salesCount > a.salesCount ? 'b' : 'a';
+        const loaded = { a, b };
+        setSides(loaded);
+        setSurvivor(keep);
+        setChoices(MERGE_FIELDS.reduce((current, { field }) => {
+          current[field] = loaded[keep].customer[field] ? keep : otherSide(keep);
+          return current;
+        }, {} as Record<MergeField, Side>));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load the customers to merge.",
+          variant: "destructive",
+        });
+        onOpenChange(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSides();
+  }, [candidate]);
+
+  const handleMerge = async () => {
+    if (!sides) return;
+
+    const duplicate = otherSide(survivor);
+    const kept = MERGE_FIELDS.reduce((values, { field }) => {
+      values[field] = sides[choices[field]].customer[field] || '';
+      return values;
+    }, {} as MergeValues);
+
+    setMerging(true);
+    const result = await mergeCustomers(
+      sides[survivor].customer.custno,
+      sides[duplicate].customer.custno,
+      kept,
+      sides[choices.address].customer.custno
+    );
+    setMerging(false);
+
+    if (!result.success) {
+      setErrors(result.errors);
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Customers Merged", description: result.message });
+    onOpenChange(false);
+    onMerged();
+  };
+
+  const fieldErrors = (field: string) => errors.filter(error => error.field === field);
+
+  const sideHeader = (side: Side) => sides && (
+    <label className="flex items-start gap-2 rounded-md border p-3 cursor-pointer">
+      <RadioGroupItem value={side} className="mt-1" />
+      <div>
+        <div className="font-semibold">{sides[side].customer.custno}</div>
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          {sides[side].salesCount} sale{sides[side].salesCount === 1 ? '' : 's'}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {survivor === side ? 'Keeps its number' : 'Will be deleted'}
+        </div>
+        {fieldErrors(survivor === side ? 'survivor' : 'duplicate').map(error => (
+          <p key={error.message} className="text-sm text-destructive">{error.message}</p>
+        ))}
+      </div>
+    </label>
+  );
+
+  return (
+    <Dialog open={candidate !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge Customers</DialogTitle>
+          <DialogDescription>
+            Choose the customer number to keep and, for each field, the value it should have.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !sides ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading customers...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup
+              value={survivor}
+              onValueChange={(value) => setSurvivor(value as Side)}
+              className="grid grid-cols-[140px_1fr_1fr] gap-4 items-start"
+            >
+              <span className="text-sm font-medium pt-3">Customer No</span>
+              {sideHeader('a')}
+              {sideHeader('b')}
+            </RadioGroup>
+
+            {MERGE_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <RadioGroup
+                  value={choices[field]}
+                  onValueChange={(value) => setChoices(current => ({ ...current, [field]: value as Side }))}
+                  className="grid grid-cols-[140px_1fr_1fr] gap-4 items-center"
+                >
+                  <span className="text-sm font-medium">{label}</span>
+                  {(['a', 'b'] as Side[]).map(side => (
+                    <label key={side} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <RadioGroupItem value={side} />
+                      {sides[side].customer[field] || <span className="text-gray-500 dark:text-gray-400">(blank)</span>}
+                    </label>
+                  ))}
+                </RadioGroup>
+                {fieldErrors(field).map(error => (
+                  <p key={error.message} className="text-sm text-destructive mt-1">{error.message}</p>
+                ))}
+              </div>
+            ))}
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {sides[otherSide(survivor)].salesCount} sale{sides[otherSide(survivor)].salesCount === 1 ? '' : 's'} and
+              any open quotes and contacts of {sides[otherSide(survivor)].customer.custno} will move to {sides[survivor].customer.custno}.
+              {' '}{sides[otherSide(survivor)].customer.custno} will be deleted and marked as merged.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={loading || merging || !sides}>
+            {merging ? 'Merging...' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
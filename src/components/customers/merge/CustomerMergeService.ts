@@ -0,0 +1,100 @@
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { SaleFieldError } from "@/components/sales/SaleService";
+import { Customer } from "../CustomerService";
+
+// A pair of active customers that may be the same business, scored from 0 to 1
+export interface DuplicateCandidate {
+  custno_a: string;
+  custname_a: string | null;
+  address_a: string | null;
+  custno_b: string;
+  custname_b: string | null;
+  address_b: string | null;
+  name_score: number;
+  // Null when either customer has no address, in which case only the name is scored
+  address_score: number | null;
+  score: number;
+}
+
+// The customer fields the survivor can take from either side of a merge
+export type MergeField = 'custname' | 'address' | 'payterm';
+
+export type MergeValues = Record<MergeField, string>;
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'custname', label: 'Name' },
+  { field: 'address', label: 'Address' },
+  { field: 'payterm', label: 'Payment Term' },
+];
+
+// One side of the merge screen: the customer and how much business hangs off it
+export interface MergeSide {
+  customer: Customer;
+  salesCount: number;
+}
+
+export const DUPLICATE_SCORE_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+interface MergeCustomersResponse {
+  success: boolean;
+  message: string;
+  errors: SaleFieldError[];
+}
+
+// Candidate pairs scoring at least minScore, best match first
+export const fetchDuplicateCandidates = async (minScore: number): Promise<DuplicateCandidate[]> => {
+  try {
+    const { data, error } = await supabase.rpc('find_duplicate_customers', { min_score: minScore });
+
+    if (error) throw error;
+
+    return (data || []) as DuplicateCandidate[];
+  } catch (error) {
+    console.error('Error finding duplicate customers:', error);
+    throw error;
+  }
+};
+
+export const fetchMergeSide = async (custno: string): Promise<MergeSide> => {
+  try {
+    const [{ data: customer, error }, { count, error: salesError }] = await Promise.all([
+      supabase.from('customer').select('*').eq('custno', custno).single(),
+      supabase.from('sales').select('transno', { count: 'exact', head: true }).eq('custno', custno)
+    ]);
+
+    if (error) throw error;
+    if (salesError) throw salesError;
+
+    return { customer, salesCount: count || 0 };
+  } catch (error) {
+    console.error('Error fetching customer to merge:', error);
+    throw error;
+  }
+};
+
+// Move the duplicate's sales to the survivor, give the survivor the chosen values and
+// soft-delete the duplicate, all in one transaction through the merge_customers RPC
+export const mergeCustomers = async (
+  survivor: string,
+  duplicate: string,
+  kept: MergeValues,
+  addressFrom: string
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[] }> => {
+  try {
+    const { data: response, error } = await supabase.rpc('merge_customers', {
+      survivor,
+      duplicate,
+      // The customer whose address is kept also hands over its billing and shipping addresses
+      kept: { ...kept, address_from: addressFrom },
+    });
+
+    if (error) throw error;
+
+    const result = response as unknown as MergeCustomersResponse;
+    return { success: result.success, message: result.message, errors: result.errors || [] };
+  } catch (error) {
+    console.error("Error merging customers:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to merge customers.", errors: [] };
+  }
+};
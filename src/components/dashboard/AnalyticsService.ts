@@ -0,0 +1,171 @@
+import { supabase } from "@/integrations/supabase/client";
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import { DashboardStats, SalesRecord } from "@/components/sales/types";
+import { toSalesRecord } from "@/components/sales/SalesSummaryService";
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month';
+
+export const ANALYTICS_PERIODS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface RevenuePoint {
+  period: string;
+  revenue: number;
+  salesCount: number;
+}
+
+export interface ProductRevenue {
+  prodcode: string;
+  description: string | null;
+  quantity: number;
+  revenue: number;
+}
+
+export interface SalespersonRevenue {
+  empno: string | null;
+  name: string | null;
+  revenue: number;
+  salesCount: number;
+}
+
+export interface CustomerRevenue {
+  custno: string;
+  custname: string | null;
+  revenue: number;
+  salesCount: number;
+}
+
+export interface SalesAnalytics {
+  revenue: number;
+  amountPaid: number;
+  salesCount: number;
+  averageOrder: number;
+  collectionRate: number;
+  series: RevenuePoint[];
+  byProduct: ProductRevenue[];
+  bySalesperson: SalespersonRevenue[];
+  topCustomers: CustomerRevenue[];
+}
+
+// Shape of the jsonb returned by the sales_analytics database function
+interface SalesAnalyticsResult {
+  totals: { revenue: number; amount_paid: number; sales_count: number };
+  series: { period: string; revenue: number; sales_count: number }[];
+  by_product: { prodcode: string; description: string | null; quantity: number; revenue: number }[];
+  by_salesperson: { empno: string | null; name: string | null; revenue: number; sales_count: number }[];
+  top_customers: { custno: string; custname: string | null; revenue: number; sales_count: number }[];
+}
+
+export const isAnalyticsPeriod = (value: string | null): value is AnalyticsPeriod =>
+  ANALYTICS_PERIODS.some(period => period.value === value);
+
+// The last 30 days up to today
+export const getDefaultAnalyticsRange = (): DateRange => {
+  const today = new Date();
+  return { from: format(subDays(today, 29), 'yyyy-MM-dd'), to: format(today, 'yyyy-MM-dd') };
+};
+
+// The range of the same length that ends the day before the given one starts
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const from = parseISO(range.from);
+  const length = differenceInCalendarDays(parseISO(range.to), from) + 1;
+  return {
+    from: format(subDays(from, length), 'yyyy-MM-dd'),
+    to: format(subDays(from, 1), 'yyyy-MM-dd')
+  };
+};
+
+// Percentage change from the previous to the current value; null when there is nothing to compare against
+export const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+// Revenue, sales count, collection rate and the breakdowns charted on the dashboard
+export const fetchSalesAnalytics = async (range: DateRange, period: AnalyticsPeriod): Promise<SalesAnalytics> => {
+  const { data, error } = await supabase.rpc('sales_analytics', {
+    from_date: range.from,
+    to_date: range.to,
+    period
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as SalesAnalyticsResult;
+  const revenue = Number(result.totals.revenue) || 0;
+  const amountPaid = Number(result.totals.amount_paid) || 0;
+  const salesCount = Number(result.totals.sales_count) || 0;
+
+  return {
+    revenue,
+    amountPaid,
+    salesCount,
+    averageOrder: salesCount > 0 ? revenue / salesCount : 0,
+    collectionRate: revenue > 0 ? (amountPaid / revenue) * 100 : 0,
+    series: result.series.map(point => ({
+      period: point.period,
+      revenue: Number(point.revenue) || 0,
+      salesCount: Number(point.sales_count) || 0
+    })),
+    byProduct: result.by_product.map(product => ({
+      prodcode: product.prodcode,
+      description: product.description,
+      quantity: Number(product.quantity) || 0,
+      revenue: Number(product.revenue) || 0
+    })),
+    bySalesperson: result.by_salesperson.map(salesperson => ({
+      empno: salesperson.empno,
+      name: salesperson.name,
+      revenue: Number(salesperson.revenue) || 0,
+      salesCount: Number(salesperson.sales_count) || 0
+    })),
+    topCustomers: result.top_customers.map(customer => ({
+      custno: customer.custno,
+      custname: customer.custname,
+      revenue: Number(customer.revenue) || 0,
+      salesCount: Number(customer.sales_count) || 0
+    }))
+  };
+};
+
+// The most recent sales in the range
+export const fetchRecentSales = async (range: DateRange, limit = 5): Promise<SalesRecord[]> => {
+  const { data, error } = await supabase
+    .from('sales_summary')
+    .select('*')
+    .is('deleted_at', null)
+    .gte('salesdate', range.from)
+    .lte('salesdate', range.to)
+    .order('salesdate', { ascending: false })
+    .order('transno', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map(toSalesRecord);
+};
+
+// Fill the DashboardStats summary from a period's analytics and its recent sales
+export const toDashboardStats = (analytics: SalesAnalytics, recentSales: SalesRecord[]): DashboardStats => ({
+  total_sales: analytics.salesCount,
+  total_revenue: analytics.revenue,
+  recent_sales: recentSales,
+  top_customers: analytics.topCustomers.map(customer => ({
+    customer: {
+      custno: customer.custno,
+      custname: customer.custname,
+      address: null,
+      payterm: null
+    },
+    total_purchases: customer.salesCount,
+    total_amount: customer.revenue
+  }))
+});
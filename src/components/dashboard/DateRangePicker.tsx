@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { format, parseISO, startOfMonth, startOfYear, subDays } from "date-fns";
+import { DateRange as DayPickerRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DateRange } from "./AnalyticsService";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const toRange = (from: Date, to: Date): DateRange => ({
+  from: format(from, 'yyyy-MM-dd'),
+  to: format(to, 'yyyy-MM-dd')
+});
+
+const presets: { label: string; range: () => DateRange }[] = [
+  { label: "Last 7 days", range: () => toRange(subDays(new Date(), 6), new Date()) },
+  { label: "Last 30 days", range: () => toRange(subDays(new Date(), 29), new Date()) },
+  { label: "Last 90 days", range: () => toRange(subDays(new Date(), 89), new Date()) },
+  { label: "This month", range: () => toRange(startOfMonth(new Date()), new Date()) },
+  { label: "This year", range: () => toRange(startOfYear(new Date()), new Date()) }
+];
+
+// Two-month calendar with quick presets; a range is only applied once both ends are picked
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const selected = draft || { from: parseISO(value.from), to: parseISO(value.to) };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setDraft(undefined);
+    setOpen(isOpen);
+  };
+
+  const handleSelect = (range: DayPickerRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange(toRange(range.from, range.to));
+      handleOpenChange(false);
+    }
+  };
+
+  const applyPreset = (range: DateRange) => {
+    onChange(range);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start text-left font-normal">
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {format(parseISO(value.from), "PP")} – {format(parseISO(value.to), "PP")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex flex-col gap-1 border-b p-3 sm:border-b-0 sm:border-r">
+            {presets.map(preset => (
+              <Button
+                key={preset.label}
+                variant="ghost"
+                size="sm"
+                className="justify-start"
+                onClick={() => applyPreset(preset.range())}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={selected.from}
+            selected={selected}
+            onSelect={handleSelect}
+            initialFocus
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
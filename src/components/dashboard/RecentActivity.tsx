@@ -98,6 +98,8 @@ export function RecentActivity() {
         return 'deleted';
       case 'restore':
         return 'restored';
+      case 'void':
+        return 'voided';
       default:
         return action;
     }
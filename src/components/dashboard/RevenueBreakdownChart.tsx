@@ -0,0 +1,36 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+export interface RevenueBreakdownItem {
+  key: string;
+  label: string;
+  revenue: number;
+}
+
+interface RevenueBreakdownChartProps {
+  items: RevenueBreakdownItem[];
+  color: string;
+}
+
+// Horizontal bars of revenue per product or salesperson, largest first
+export function RevenueBreakdownChart({ items, color }: RevenueBreakdownChartProps) {
+  const chartConfig = {
+    revenue: { label: "Revenue", color }
+  } satisfies ChartConfig;
+
+  if (items.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No sales in this period.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: Math.max(items.length * 36, 120) }}>
+      <BarChart data={items} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value: number) => `$${value.toLocaleString()}`} />
+        <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,73 @@
+import { Area, CartesianGrid, ComposedChart, Bar, Line, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig, ChartContainer, ChartLegend, ChartLegendContent,
+  ChartTooltip, ChartTooltipContent
+} from "@/components/ui/chart";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { RevenuePoint } from "./AnalyticsService";
+
+interface RevenueTrendChartProps {
+  current: RevenuePoint[];
+  previous: RevenuePoint[];
+}
+
+const chartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+  previousRevenue: { label: "Previous period", color: "hsl(var(--chart-3))" },
+  salesCount: { label: "Sales", color: "hsl(var(--chart-2))" }
+} satisfies ChartConfig;
+
+// Revenue and sales count per period, with the previous period's revenue lined up by position
+export function RevenueTrendChart({ current, previous }: RevenueTrendChartProps) {
+  const data = current.map((point, index) => ({
+    period: point.period,
+    revenue: point.revenue,
+    salesCount: point.salesCount,
+    previousRevenue: previous[index]?.revenue ?? 0
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+      <ComposedChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="period"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={(value: string) => formatDate(value)}
+        />
+        <YAxis
+          yAxisId="revenue"
+          tickLine={false}
+          axisLine={false}
+          width={70}
+          tickFormatter={(value: number) => `$${value.toLocaleString()}`}
+        />
+        <YAxis yAxisId="count" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(value: string) => formatDate(value)} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar yAxisId="count" dataKey="salesCount" fill="var(--color-salesCount)" radius={[4, 4, 0, 0]} opacity={0.5} />
+        <Area
+          yAxisId="revenue"
+          dataKey="revenue"
+          type="monotone"
+          fill="var(--color-revenue)"
+          fillOpacity={0.2}
+          stroke="var(--color-revenue)"
+          strokeWidth={2}
+        />
+        <Line
+          yAxisId="revenue"
+          dataKey="previousRevenue"
+          type="monotone"
+          stroke="var(--color-previousRevenue)"
+          strokeDasharray="4 4"
+          strokeWidth={2}
+          dot={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,292 @@
+import { ReactNode } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowDownRight, ArrowUpRight, DollarSign, Percent, Receipt, ShoppingCart } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { DateRangePicker } from "./DateRangePicker";
+import { RevenueTrendChart } from "./RevenueTrendChart";
+import { RevenueBreakdownChart } from "./RevenueBreakdownChart";
+import { useSalesAnalytics } from "./hooks/useSalesAnalytics";
+import {
+  ANALYTICS_PERIODS,
+  AnalyticsPeriod,
+  DateRange,
+  getDefaultAnalyticsRange,
+  getPreviousRange,
+  isAnalyticsPeriod,
+  percentChange
+} from "./AnalyticsService";
+
+interface MetricCardProps {
+  title: string;
+  icon: ReactNode;
+  value: string;
+  change: number | null;
+  previousLabel: string;
+}
+
+const linkClass = "text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+function MetricCard({ title, icon, value, change, previousLabel }: MetricCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {icon}
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          {change === null ? (
+            "No sales in the previous period"
+          ) : (
+            <>
+              <span className={`flex items-center ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {change >= 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
+                {Math.abs(change).toFixed(1)}%
+              </span>
+              vs {previousLabel}
+            </>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Revenue trends, breakdowns and collection rate for a chosen date range,
+// each compared with the period of the same length just before it
+export function SalesAnalytics() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The range and grouping live in the URL so a view of the dashboard can be shared
+  const defaultRange = getDefaultAnalyticsRange();
+  const range: DateRange = {
+    from: searchParams.get("from") || defaultRange.from,
+    to: searchParams.get("to") || defaultRange.to
+  };
+  const periodParam = searchParams.get("period");
+  const period: AnalyticsPeriod = isAnalyticsPeriod(periodParam) ? periodParam : "day";
+
+  const { current, previous, stats, loading } = useSalesAnalytics(range, period);
+  const previousRange = getPreviousRange(range);
+  const previousLabel = `${formatDate(previousRange.from)} – ${formatDate(previousRange.to)}`;
+
+  const updateParams = (values: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(values).forEach(([key, value]) => params.set(key, value));
+    setSearchParams(params, { replace: true });
+  };
+
+  const change = (select: (analytics: NonNullable<typeof current>) => number) =>
+    current && previous ? percentChange(select(current), select(previous)) : null;
+
+  return (
+    <div className="space-y-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold">Sales Analytics</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={period} onValueChange={(value) => updateParams({ period: value })}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_PERIODS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DateRangePicker value={range} onChange={(value) => updateParams({ from: value.from, to: value.to })} />
+        </div>
+      </div>
+
+      {loading && !current ? (
+        <div>Loading analytics...</div>
+      ) : current && stats ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <MetricCard
+              title="Revenue"
+              icon={<DollarSign className="h-4 w-4 text-muted-foreground" />}
+              value={`$${stats.total_revenue.toFixed(2)}`}
+              change={change(analytics => analytics.revenue)}
+              previousLabel={previousLabel}
+            />
+            <MetricCard
+              title="Sales"
+              icon={<ShoppingCart className="h-4 w-4 text-muted-foreground" />}
+              value={String(stats.total_sales)}
+              change={change(analytics => analytics.salesCount)}
+              previousLabel={previousLabel}
+            />
+            <MetricCard
+              title="Average Order"
+              icon={<Receipt className="h-4 w-4 text-muted-foreground" />}
+              value={`$${current.averageOrder.toFixed(2)}`}
+              change={change(analytics => analytics.averageOrder)}
+              previousLabel={previousLabel}
+            />
+            <MetricCard
+              title="Collection Rate"
+              icon={<Percent className="h-4 w-4 text-muted-foreground" />}
+              value={`${current.collectionRate.toFixed(1)}%`}
+              change={change(analytics => analytics.collectionRate)}
+              previousLabel={previousLabel}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Revenue and Sales Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RevenueTrendChart current={current.series} previous={previous?.series || []} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Revenue by Product</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RevenueBreakdownChart
+                  color="hsl(var(--chart-2))"
+                  items={current.byProduct.map(product => ({
+                    key: product.prodcode,
+                    label: product.description || product.prodcode,
+                    revenue: product.revenue
+                  }))}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Revenue by Salesperson</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RevenueBreakdownChart
+                  color="hsl(var(--chart-4))"
+                  items={current.bySalesperson.map(salesperson => ({
+                    key: salesperson.empno || 'none',
+                    label: salesperson.name || salesperson.empno || 'Unassigned',
+                    revenue: salesperson.revenue
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Collections</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-between text-sm">
+                  <span>Paid</span>
+                  <span className="font-medium">${current.amountPaid.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Billed</span>
+                  <span className="font-medium">${current.revenue.toFixed(2)}</span>
+                </div>
+                <Progress value={Math.min(current.collectionRate, 100)} />
+                <p className="text-xs text-muted-foreground">
+                  {current.collectionRate.toFixed(1)}% of this period's sales have been paid
+                  {previous && ` (${previous.collectionRate.toFixed(1)}% in the previous period)`}.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Customers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Sales</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.top_customers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center">No sales in this period.</TableCell>
+                      </TableRow>
+                    ) : (
+                      stats.top_customers.map(({ customer, total_purchases, total_amount }) => (
+                        <TableRow key={customer.custno}>
+                          <TableCell>
+                            <Link to={`/dashboard/customers/${customer.custno}`} className={linkClass}>
+                              {customer.custname || customer.custno}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{total_purchases}</TableCell>
+                          <TableCell className="text-right">${total_amount.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Sales</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Transaction</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Payment</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.recent_sales.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center">No sales in this period.</TableCell>
+                      </TableRow>
+                    ) : (
+                      stats.recent_sales.map(sale => (
+                        <TableRow key={sale.transno}>
+                          <TableCell>
+                            <Link to={`/dashboard/sales/${sale.transno}`} className={linkClass}>
+                              {sale.transno}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{formatDate(sale.salesdate)}</TableCell>
+                          <TableCell className="text-right">${sale.total_amount?.toFixed(2) || '0.00'}</TableCell>
+                          <TableCell>{sale.payment_status ? <StatusBadge status={sale.payment_status} /> : '-'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      ) : null}
+
+      {range.from > range.to && (
+        <p className="text-sm font-medium text-destructive">The start date must be on or before the end date.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { DashboardStats } from "@/components/sales/types";
+import {
+  AnalyticsPeriod,
+  DateRange,
+  SalesAnalytics,
+  fetchRecentSales,
+  fetchSalesAnalytics,
+  getPreviousRange,
+  toDashboardStats
+} from "../AnalyticsService";
+
+// Analytics for the chosen range alongside the same-length period before it
+export function useSalesAnalytics(range: DateRange, period: AnalyticsPeriod) {
+  const [current, setCurrent] = useState<SalesAnalytics | null>(null);
+  const [previous, setPrevious] = useState<SalesAnalytics | null>(null);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (range.from > range.to) {
+      setLoading(false);
+      return;
+    }
+
+    const loadAnalytics = async () => {
+      setLoading(true);
+      try {
+        const [currentData, previousData, recentSales] = await Promise.all([
+          fetchSalesAnalytics(range, period),
+          fetchSalesAnalytics(getPreviousRange(range), period),
+          fetchRecentSales(range)
+        ]);
+        setCurrent(currentData);
+        setPrevious(previousData);
+        setStats(toDashboardStats(currentData, recentSales));
+      } catch (error) {
+        console.error('Error fetching sales analytics:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load sales analytics.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalytics();
+  }, [range.from, range.to, period]);
+
+  return { current, previous, stats, loading };
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+export interface CodeListItem {
+  code: string;
+  name: string | null;
+}
+
+interface CodeListManagerProps {
+  title: string;
+  itemLabel: string;
+  codeLabel: string;
+  nameLabel: string;
+  items: CodeListItem[];
+  loading: boolean;
+  canAdd: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  onSave: (code: string, name: string, isEditing: boolean) => Promise<boolean>;
+  onDelete: (code: string) => Promise<boolean>;
+}
+
+// Table and add/edit dialog shared by the department and job code screens
+export function CodeListManager({
+  title,
+  itemLabel,
+  codeLabel,
+  nameLabel,
+  items,
+  loading,
+  canAdd,
+  canEdit,
+  canDelete,
+  onSave,
+  onDelete
+}: CodeListManagerProps) {
+  const hasActions = canEdit || canDelete;
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState("");
+
+  const openDialog = (item?: CodeListItem) => {
+    setIsEditing(!!item);
+    setCode(item?.code || "");
+    setName(item?.name || "");
+    setError("");
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!code.trim() || !name.trim()) {
+      setError(`${codeLabel} and ${nameLabel.toLowerCase()} are required`);
+      return;
+    }
+
+    if (await onSave(code.trim(), name.trim(), isEditing)) {
+      setDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+      <div className="flex justify-between items-center p-4 border-b">
+        <h1 className="text-2xl font-bold">{title}</h1>
+        {canAdd && (
+          <Button onClick={() => openDialog()}>
+            <Plus size={16} className="mr-2" /> Add {itemLabel}
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{codeLabel}</TableHead>
+            <TableHead>{nameLabel}</TableHead>
+            {hasActions && <TableHead className="w-[100px]">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={hasActions ? 3 : 2} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : items.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={hasActions ? 3 : 2} className="text-center">No {title.toLowerCase()} found.</TableCell>
+            </TableRow>
+          ) : (
+            items.map((item) => (
+              <TableRow key={item.code}>
+                <TableCell>{item.code}</TableCell>
+                <TableCell>{item.name || 'N/A'}</TableCell>
+                {hasActions && (
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(item)}>
+                          <Edit size={16} />
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => onDelete(item.code)}>
+                          <Trash2 size={16} className="text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{isEditing ? `Edit ${itemLabel}` : `Add ${itemLabel}`}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">{codeLabel}</Label>
+              <Input id="code" value={code} onChange={(e) => setCode(e.target.value)} disabled={isEditing} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="name">{nameLabel}</Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave}>{isEditing ? 'Update' : 'Save'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
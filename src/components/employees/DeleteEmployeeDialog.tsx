@@ -0,0 +1,37 @@
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Employee, getEmployeeName } from "./EmployeeService";
+
+interface DeleteEmployeeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employee: Employee | null;
+  onConfirm: () => void;
+}
+
+export function DeleteEmployeeDialog({
+  open,
+  onOpenChange,
+  employee,
+  onConfirm
+}: DeleteEmployeeDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Employee</AlertDialogTitle>
+          <AlertDialogDescription>
+            {employee && `Permanently delete ${getEmployeeName(employee)}? `}
+            Employees who have sales or job history cannot be deleted; set a separation date for them instead.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Delete</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
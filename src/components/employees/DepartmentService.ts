@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export interface Department {
+  deptcode: string;
+  deptname: string | null;
+}
+
+export interface DepartmentFormData {
+  deptcode: string;
+  deptname: string;
+}
+
+// Fetch all departments
+export const fetchDepartments = async (): Promise<Department[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('department')
+      .select('*')
+      .order('deptcode', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching departments:', error);
+    throw error;
+  }
+};
+
+// Add a new department
+export const createDepartment = async (data: DepartmentFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('department')
+      .insert({
+        deptcode: data.deptcode,
+        deptname: data.deptname
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'department',
+      record_id: data.deptcode,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Department added successfully" };
+  } catch (error) {
+    console.error("Error adding department:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "Department code already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add department" };
+  }
+};
+
+// Rename a department
+export const updateDepartment = async (deptcode: string, deptname: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('department')
+      .update({ deptname })
+      .eq('deptcode', deptcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'department',
+      record_id: deptcode,
+      details: JSON.stringify({ deptcode, deptname })
+    });
+
+    return { success: true, message: "Department updated successfully" };
+  } catch (error) {
+    console.error("Error updating department:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update department" };
+  }
+};
+
+// Delete a department that no job history refers to
+export const deleteDepartment = async (deptcode: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('department')
+      .delete()
+      .eq('deptcode', deptcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'department',
+      record_id: deptcode,
+      details: JSON.stringify({ deptcode })
+    });
+
+    return { success: true, message: "Department deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting department:", error);
+    if ((error as PostgrestError).code === '23503') {
+      return { success: false, message: "This department is used in employee job histories and cannot be deleted." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete department" };
+  }
+};
@@ -0,0 +1,45 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { EmployeeForm, EmployeeFormValues } from "./EmployeeForm";
+
+interface EmployeeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isEditing: boolean;
+  formDefaults: EmployeeFormValues;
+  onSubmit: (values: EmployeeFormValues) => void;
+}
+
+export function EmployeeDialog({
+  open,
+  onOpenChange,
+  isEditing,
+  formDefaults,
+  onSubmit
+}: EmployeeDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Employee' : 'Add Employee'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Update the employee details. Setting a separation date removes them from the salesperson list.'
+              : 'Enter the details of the new employee.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <ScrollArea className="max-h-[70vh] pr-4">
+            <EmployeeForm
+              defaultValues={formDefaults}
+              isEditing={isEditing}
+              onSubmit={onSubmit}
+              onCancel={() => onOpenChange(false)}
+            />
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
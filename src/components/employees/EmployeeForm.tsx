@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+
+export const employeeFormSchema = z.object({
+  empno: z.string().min(1, "Employee number is required"),
+  firstname: z.string().min(1, "First name is required"),
+  lastname: z.string().min(1, "Last name is required"),
+  gender: z.string(),
+  birthdate: z.date().nullable(),
+  hiredate: z.date({ required_error: "Hire date is required", invalid_type_error: "Hire date is required" }),
+  sepdate: z.date().nullable(),
+}).refine(values => !values.sepdate || !values.hiredate || values.sepdate >= values.hiredate, {
+  message: "Separation date cannot be before the hire date",
+  path: ["sepdate"],
+});
+
+export type EmployeeFormValues = z.infer<typeof employeeFormSchema>;
+
+type DateFieldName = "birthdate" | "hiredate" | "sepdate";
+
+interface EmployeeFormProps {
+  defaultValues: EmployeeFormValues;
+  onSubmit: (values: EmployeeFormValues) => void;
+  onCancel: () => void;
+  isEditing: boolean;
+}
+
+export function EmployeeForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  isEditing
+}: EmployeeFormProps) {
+  const form = useForm<EmployeeFormValues>({
+    resolver: zodResolver(employeeFormSchema),
+    defaultValues,
+  });
+
+  const renderDateField = (name: DateFieldName, label: string, clearable: boolean) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-col">
+          <FormLabel>{label}</FormLabel>
+          <div className="flex gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <FormControl>
+                  <Button
+                    variant={"outline"}
+                    className={`w-full pl-3 text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                  >
+                    {field.value ? (
+                      format(field.value, "PPP")
+                    ) : (
+                      <span>Pick a date</span>
+                    )}
+                    <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                  </Button>
+                </FormControl>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={field.value || undefined}
+                  onSelect={(date) => field.onChange(date || null)}
+                  defaultMonth={field.value || undefined}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            {clearable && field.value && (
+              <Button type="button" variant="ghost" onClick={() => field.onChange(null)}>
+                Clear
+              </Button>
+            )}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="empno"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Employee No</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={isEditing} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="firstname"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>First Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="lastname"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Last Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="gender"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Gender</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select gender" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="M">Male</SelectItem>
+                  <SelectItem value="F">Female</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {renderDateField("birthdate", "Birth Date", true)}
+        {renderDateField("hiredate", "Hire Date", false)}
+        {renderDateField("sepdate", "Separation Date", true)}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Add Employee'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
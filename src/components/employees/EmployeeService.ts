@@ -0,0 +1,315 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+
+export interface Employee {
+  empno: string;
+  firstname: string | null;
+  lastname: string | null;
+  gender: string | null;
+  birthdate: string | null;
+  hiredate: string | null;
+  sepdate: string | null;
+}
+
+export interface EmployeeFormData {
+  empno: string;
+  firstname: string;
+  lastname: string;
+  gender: string;
+  birthdate: Date | null;
+  hiredate: Date | null;
+  sepdate: Date | null;
+}
+
+export interface JobHistoryEntry {
+  empno: string;
+  jobcode: string;
+  deptcode: string | null;
+  effdate: string;
+  salary: number | null;
+  job?: {
+    jobcode: string;
+    jobdesc: string | null;
+  } | null;
+  department?: {
+    deptcode: string;
+    deptname: string | null;
+  } | null;
+}
+
+export interface JobHistoryFormData {
+  jobcode: string;
+  deptcode: string;
+  effdate: Date;
+  salary: number;
+}
+
+const toDateColumn = (date: Date | null): string | null => (date ? format(date, 'yyyy-MM-dd') : null);
+
+// Display name of an employee, falling back to the employee number
+export const getEmployeeName = (employee: Pick<Employee, 'empno' | 'firstname' | 'lastname'>): string => {
+  const name = `${employee.firstname || ''} ${employee.lastname || ''}`.trim();
+  return name || employee.empno;
+};
+
+// Fetch employees; separated employees (sepdate set) are only included on request
+export const fetchEmployees = async (includeSeparated: boolean): Promise<Employee[]> => {
+  try {
+    let query = supabase
+      .from('employee')
+      .select('*')
+      .order('lastname', { ascending: true });
+
+    if (!includeSeparated) {
+      query = query.is('sepdate', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching employees:', error);
+    throw error;
+  }
+};
+
+// Fetch a single employee
+export const fetchEmployee = async (empno: string): Promise<Employee | null> => {
+  const { data, error } = await supabase
+    .from('employee')
+    .select('*')
+    .eq('empno', empno)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Add a new employee
+export const createEmployee = async (data: EmployeeFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const record = {
+      empno: data.empno,
+      firstname: data.firstname,
+      lastname: data.lastname,
+      gender: data.gender || null,
+      birthdate: toDateColumn(data.birthdate),
+      hiredate: toDateColumn(data.hiredate),
+      sepdate: toDateColumn(data.sepdate)
+    };
+
+    const { error } = await supabase
+      .from('employee')
+      .insert(record);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'employee',
+      record_id: data.empno,
+      details: JSON.stringify(record)
+    });
+
+    return { success: true, message: "Employee added successfully" };
+  } catch (error) {
+    console.error("Error adding employee:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "Employee number already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add employee" };
+  }
+};
+
+// Update an existing employee
+export const updateEmployee = async (empno: string, data: Omit<EmployeeFormData, 'empno'>): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const record = {
+      firstname: data.firstname,
+      lastname: data.lastname,
+      gender: data.gender || null,
+      birthdate: toDateColumn(data.birthdate),
+      hiredate: toDateColumn(data.hiredate),
+      sepdate: toDateColumn(data.sepdate)
+    };
+
+    const { error } = await supabase
+      .from('employee')
+      .update(record)
+      .eq('empno', empno);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'employee',
+      record_id: empno,
+      details: JSON.stringify({ empno, ...record })
+    });
+
+    return { success: true, message: "Employee updated successfully" };
+  } catch (error) {
+    console.error("Error updating employee:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update employee" };
+  }
+};
+
+// Delete an employee. Employees with sales or job history must be separated instead.
+export const deleteEmployee = async (empno: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('employee')
+      .delete()
+      .eq('empno', empno);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'employee',
+      record_id: empno,
+      details: JSON.stringify({ empno })
+    });
+
+    return { success: true, message: "Employee deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting employee:", error);
+    if ((error as PostgrestError).code === '23503') {
+      return { success: false, message: "This employee has sales or job history. Set a separation date instead." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete employee" };
+  }
+};
+
+// Fetch the job history of an employee, newest first
+export const fetchJobHistory = async (empno: string): Promise<JobHistoryEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('jobhistory')
+      .select(`
+        *,
+        job:jobcode(jobcode, jobdesc),
+        department:deptcode(deptcode, deptname)
+      `)
+      .eq('empno', empno)
+      .order('effdate', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching job history:', error);
+    throw error;
+  }
+};
+
+// Record a new entry on an employee's job history
+export const createJobHistory = async (empno: string, data: JobHistoryFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const record = {
+      empno,
+      jobcode: data.jobcode,
+      deptcode: data.deptcode || null,
+      effdate: format(data.effdate, 'yyyy-MM-dd'),
+      salary: data.salary
+    };
+
+    const { error } = await supabase
+      .from('jobhistory')
+      .insert(record);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'jobhistory',
+      record_id: `${empno}:${record.jobcode}:${record.effdate}`,
+      details: JSON.stringify(record)
+    });
+
+    return { success: true, message: "Job history entry added successfully" };
+  } catch (error) {
+    console.error("Error adding job history:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "This job already has an entry on that date." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add job history entry" };
+  }
+};
+
+// Update the department and salary of a job history entry
+export const updateJobHistory = async (entry: JobHistoryEntry, data: JobHistoryFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('jobhistory')
+      .update({
+        deptcode: data.deptcode || null,
+        salary: data.salary
+      })
+      .eq('empno', entry.empno)
+      .eq('jobcode', entry.jobcode)
+      .eq('effdate', entry.effdate);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'jobhistory',
+      record_id: `${entry.empno}:${entry.jobcode}:${entry.effdate}`,
+      details: JSON.stringify({ deptcode: data.deptcode, salary: data.salary })
+    });
+
+    return { success: true, message: "Job history entry updated successfully" };
+  } catch (error) {
+    console.error("Error updating job history:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update job history entry" };
+  }
+};
+
+// Remove an entry from an employee's job history
+export const deleteJobHistory = async (entry: JobHistoryEntry): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('jobhistory')
+      .delete()
+      .eq('empno', entry.empno)
+      .eq('jobcode', entry.jobcode)
+      .eq('effdate', entry.effdate);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'jobhistory',
+      record_id: `${entry.empno}:${entry.jobcode}:${entry.effdate}`,
+      details: JSON.stringify({ empno: entry.empno, jobcode: entry.jobcode, effdate: entry.effdate })
+    });
+
+    return { success: true, message: "Job history entry removed successfully" };
+  } catch (error) {
+    console.error("Error removing job history:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to remove job history entry" };
+  }
+};
@@ -0,0 +1,108 @@
+import { Link } from "react-router-dom";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu, DropdownMenuContent,
+  DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Edit, MoreVertical, Trash2 } from "lucide-react";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { Employee, getEmployeeName } from "./EmployeeService";
+
+interface EmployeesTableProps {
+  employees: Employee[];
+  loading: boolean;
+  canEditEmployee: boolean;
+  canDeleteEmployee: boolean;
+  onEdit: (employee: Employee) => void;
+  onDelete: (employee: Employee) => void;
+}
+
+export function EmployeesTable({
+  employees,
+  loading,
+  canEditEmployee,
+  canDeleteEmployee,
+  onEdit,
+  onDelete
+}: EmployeesTableProps) {
+  const hasActions = canEditEmployee || canDeleteEmployee;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Employee No</TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead>Hire Date</TableHead>
+          <TableHead>Separation Date</TableHead>
+          <TableHead>Status</TableHead>
+          {hasActions && <TableHead className="w-[100px]">Actions</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={hasActions ? 6 : 5} className="text-center">Loading employees...</TableCell>
+          </TableRow>
+        ) : employees.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={hasActions ? 6 : 5} className="text-center">No employees found.</TableCell>
+          </TableRow>
+        ) : (
+          employees.map((employee) => (
+            <TableRow key={employee.empno} className={employee.sepdate ? "bg-gray-50 dark:bg-gray-700" : ""}>
+              <TableCell>
+                <Link
+                  to={`/dashboard/employees/${employee.empno}`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {employee.empno}
+                </Link>
+              </TableCell>
+              <TableCell>{getEmployeeName(employee)}</TableCell>
+              <TableCell>{formatDate(employee.hiredate)}</TableCell>
+              <TableCell>{employee.sepdate ? formatDate(employee.sepdate) : '—'}</TableCell>
+              <TableCell>
+                {employee.sepdate ? (
+                  <Badge variant="outline">Separated</Badge>
+                ) : (
+                  <Badge className="bg-green-500 text-white">Active</Badge>
+                )}
+              </TableCell>
+              {hasActions && (
+                <TableCell>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreVertical size={16} />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {canEditEmployee && (
+                        <DropdownMenuItem onClick={() => onEdit(employee)}>
+                          <Edit className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                      )}
+                      {canDeleteEmployee && (
+                        <DropdownMenuItem onClick={() => onDelete(employee)} className="text-destructive">
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              )}
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+import { Department } from "./DepartmentService";
+import { Job } from "./JobService";
+
+export const jobHistoryFormSchema = z.object({
+  effdate: z.date({ required_error: "Effective date is required" }),
+  jobcode: z.string().min(1, "Job is required"),
+  deptcode: z.string().min(1, "Department is required"),
+  salary: z.coerce.number().min(0, "Salary cannot be negative"),
+});
+
+export type JobHistoryFormValues = z.infer<typeof jobHistoryFormSchema>;
+
+interface JobHistoryFormProps {
+  defaultValues: JobHistoryFormValues;
+  jobs: Job[];
+  departments: Department[];
+  isEditing: boolean;
+  onSubmit: (values: JobHistoryFormValues) => void;
+  onCancel: () => void;
+}
+
+export function JobHistoryForm({
+  defaultValues,
+  jobs,
+  departments,
+  isEditing,
+  onSubmit,
+  onCancel
+}: JobHistoryFormProps) {
+  const form = useForm<JobHistoryFormValues>({
+    resolver: zodResolver(jobHistoryFormSchema),
+    defaultValues,
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="effdate"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Effective Date</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant={"outline"}
+                      disabled={isEditing}
+                      className={`w-full pl-3 text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                    >
+                      {field.value ? (
+                        format(field.value, "PPP")
+                      ) : (
+                        <span>Pick a date</span>
+                      )}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value || undefined}
+                    onSelect={field.onChange}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="jobcode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Job</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value || undefined} disabled={isEditing}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a job" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.jobcode} value={job.jobcode}>
+                      {job.jobdesc || job.jobcode} ({job.jobcode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="deptcode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Department</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a department" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {departments.map((department) => (
+                    <SelectItem key={department.deptcode} value={department.deptcode}>
+                      {department.deptname || department.deptcode} ({department.deptcode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="salary"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Salary</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Add Entry'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { JobHistoryForm, JobHistoryFormValues } from "./JobHistoryForm";
+import {
+  JobHistoryEntry,
+  createJobHistory,
+  deleteJobHistory,
+  updateJobHistory
+} from "./EmployeeService";
+import { Department } from "./DepartmentService";
+import { Job } from "./JobService";
+
+interface JobHistoryTimelineProps {
+  empno: string;
+  jobHistory: JobHistoryEntry[];
+  jobs: Job[];
+  departments: Department[];
+  loading: boolean;
+  canEdit: boolean;
+  onJobHistoryChanged: () => void;
+}
+
+export function JobHistoryTimeline({
+  empno,
+  jobHistory,
+  jobs,
+  departments,
+  loading,
+  canEdit,
+  onJobHistoryChanged
+}: JobHistoryTimelineProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<JobHistoryEntry | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<JobHistoryEntry | null>(null);
+  const [formDefaults, setFormDefaults] = useState<JobHistoryFormValues>({
+    effdate: new Date(),
+    jobcode: "",
+    deptcode: "",
+    salary: 0,
+  });
+  const { toast } = useToast();
+
+  const openNewEntryForm = () => {
+    const latest = jobHistory[0];
+    setEditingEntry(null);
+    setFormDefaults({
+      effdate: new Date(),
+      jobcode: latest?.jobcode || "",
+      deptcode: latest?.deptcode || "",
+      salary: Number(latest?.salary) || 0,
+    });
+    setDialogOpen(true);
+  };
+
+  const openEditEntryForm = (entry: JobHistoryEntry) => {
+    setEditingEntry(entry);
+    setFormDefaults({
+      effdate: new Date(`${entry.effdate}T00:00:00`),
+      jobcode: entry.jobcode,
+      deptcode: entry.deptcode || "",
+      salary: Number(entry.salary) || 0,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: JobHistoryFormValues) => {
+    const data = {
+      effdate: values.effdate,
+      jobcode: values.jobcode,
+      deptcode: values.deptcode,
+      salary: values.salary,
+    };
+
+    const result = editingEntry
+      ? await updateJobHistory(editingEntry, data)
+      : await createJobHistory(empno, data);
+
+    if (result.success) {
+      toast({
+        title: editingEntry ? "Job History Updated" : "Job History Added",
+        description: result.message,
+      });
+      setDialogOpen(false);
+      onJobHistoryChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget) return;
+
+    const result = await deleteJobHistory(removeTarget);
+
+    if (result.success) {
+      toast({
+        title: "Job History Removed",
+        description: result.message,
+      });
+      onJobHistoryChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+    setRemoveTarget(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button onClick={openNewEntryForm}>
+            <Plus size={16} className="mr-2" /> Add Entry
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center p-4">Loading job history...</div>
+      ) : jobHistory.length === 0 ? (
+        <div className="text-center p-4">No job history recorded for this employee.</div>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3">
+          {jobHistory.map((entry, index) => (
+            <li key={`${entry.jobcode}-${entry.effdate}`} className="mb-6 ml-6">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300 dark:border-gray-900 dark:bg-gray-600" />
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                  <time className="text-sm text-gray-500 dark:text-gray-400">{formatDate(entry.effdate)}</time>
+                  <h3 className="text-lg font-semibold flex items-center gap-2">
+                    {entry.job?.jobdesc || entry.jobcode}
+                    {index === 0 && <Badge className="bg-green-500 text-white">Current</Badge>}
+                  </h3>
+                  <p className="text-sm">
+                    {entry.department?.deptname || entry.deptcode || 'No department'}
+                    {' · '}
+                    ${Number(entry.salary || 0).toFixed(2)}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEditEntryForm(entry)}>
+                      <Edit size={16} />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setRemoveTarget(entry)}>
+                      <Trash2 size={16} className="text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEntry ? 'Edit Job History' : 'Add Job History'}</DialogTitle>
+            <DialogDescription>
+              Record a change of job, department or salary effective on the given date.
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialogOpen && (
+            <JobHistoryForm
+              defaultValues={formDefaults}
+              jobs={jobs}
+              departments={departments}
+              isEditing={!!editingEntry}
+              onSubmit={handleSubmit}
+              onCancel={() => setDialogOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removeTarget} onOpenChange={(open) => !open && setRemoveTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Job History</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removeTarget && `Remove the ${removeTarget.job?.jobdesc || removeTarget.jobcode} entry effective ${formatDate(removeTarget.effdate)}?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
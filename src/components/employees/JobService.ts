@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export interface Job {
+  jobcode: string;
+  jobdesc: string | null;
+}
+
+export interface JobFormData {
+  jobcode: string;
+  jobdesc: string;
+}
+
+// Fetch all job codes
+export const fetchJobs = async (): Promise<Job[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('job')
+      .select('*')
+      .order('jobcode', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    throw error;
+  }
+};
+
+// Add a new job code
+export const createJob = async (data: JobFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('job')
+      .insert({
+        jobcode: data.jobcode,
+        jobdesc: data.jobdesc
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'job',
+      record_id: data.jobcode,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Job code added successfully" };
+  } catch (error) {
+    console.error("Error adding job code:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "Job code already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add job code" };
+  }
+};
+
+// Update the description of a job code
+export const updateJob = async (jobcode: string, jobdesc: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('job')
+      .update({ jobdesc })
+      .eq('jobcode', jobcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'job',
+      record_id: jobcode,
+      details: JSON.stringify({ jobcode, jobdesc })
+    });
+
+    return { success: true, message: "Job code updated successfully" };
+  } catch (error) {
+    console.error("Error updating job code:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update job code" };
+  }
+};
+
+// Delete a job code that no job history refers to
+export const deleteJob = async (jobcode: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('job')
+      .delete()
+      .eq('jobcode', jobcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'job',
+      record_id: jobcode,
+      details: JSON.stringify({ jobcode })
+    });
+
+    return { success: true, message: "Job code deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting job code:", error);
+    if ((error as PostgrestError).code === '23503') {
+      return { success: false, message: "This job code is used in employee job histories and cannot be deleted." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete job code" };
+  }
+};
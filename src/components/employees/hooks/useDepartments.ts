@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Department,
+  createDepartment,
+  deleteDepartment,
+  fetchDepartments,
+  updateDepartment
+} from "../DepartmentService";
+
+export function useDepartments() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadDepartments();
+  }, []);
+
+  const loadDepartments = async () => {
+    setLoading(true);
+    try {
+      setDepartments(await fetchDepartments());
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch departments.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadDepartments();
+    }
+
+    return result.success;
+  };
+
+  const saveDepartment = async (code: string, name: string, isEditing: boolean) => {
+    const result = isEditing
+      ? await updateDepartment(code, name)
+      : await createDepartment({ deptcode: code, deptname: name });
+    return handleResult(result, isEditing ? "Department Updated" : "Department Added");
+  };
+
+  const removeDepartment = async (code: string) => {
+    return handleResult(await deleteDepartment(code), "Department Deleted");
+  };
+
+  return {
+    departments,
+    loading,
+    loadDepartments,
+    saveDepartment,
+    removeDepartment
+  };
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Employee,
+  createEmployee,
+  updateEmployee,
+  deleteEmployee,
+  getEmployeeName
+} from "../EmployeeService";
+import { EmployeeFormValues } from "../EmployeeForm";
+
+interface UseEmployeeActionsProps {
+  onEmployeesChanged: () => void;
+}
+
+const toDate = (value: string | null): Date | null => (value ? new Date(`${value}T00:00:00`) : null);
+
+export function useEmployeeActions({ onEmployeesChanged }: UseEmployeeActionsProps) {
+  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [formDefaults, setFormDefaults] = useState<EmployeeFormValues>({
+    empno: "",
+    firstname: "",
+    lastname: "",
+    gender: "",
+    birthdate: null,
+    hiredate: null,
+    sepdate: null,
+  });
+
+  const { toast } = useToast();
+
+  const prepareNewEmployeeForm = () => {
+    setFormDefaults({
+      empno: "",
+      firstname: "",
+      lastname: "",
+      gender: "",
+      birthdate: null,
+      hiredate: new Date(),
+      sepdate: null,
+    });
+    setIsEditing(false);
+    setSelectedEmployee(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (employee: Employee) => {
+    setSelectedEmployee(employee);
+    setIsEditing(true);
+    setFormDefaults({
+      empno: employee.empno,
+      firstname: employee.firstname || "",
+      lastname: employee.lastname || "",
+      gender: employee.gender || "",
+      birthdate: toDate(employee.birthdate),
+      hiredate: toDate(employee.hiredate),
+      sepdate: toDate(employee.sepdate),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleDeleteRequest = (employee: Employee) => {
+    setSelectedEmployee(employee);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedEmployee) return;
+
+    const result = await deleteEmployee(selectedEmployee.empno);
+    setDeleteDialogOpen(false);
+
+    if (result.success) {
+      toast({
+        title: "Employee Deleted",
+        description: `${getEmployeeName(selectedEmployee)} has been deleted.`,
+      });
+      onEmployeesChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (values: EmployeeFormValues) => {
+    const data = {
+      firstname: values.firstname,
+      lastname: values.lastname,
+      gender: values.gender,
+      birthdate: values.birthdate,
+      hiredate: values.hiredate,
+      sepdate: values.sepdate,
+    };
+
+    const result = isEditing && selectedEmployee
+      ? await updateEmployee(selectedEmployee.empno, data)
+      : await createEmployee({ empno: values.empno, ...data });
+
+    if (result.success) {
+      toast({
+        title: isEditing ? "Employee Updated" : "Employee Added",
+        description: `${values.firstname} ${values.lastname} has been saved.`,
+      });
+      setDialogOpen(false);
+      onEmployeesChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    selectedEmployee,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    deleteDialogOpen,
+    setDeleteDialogOpen,
+    formDefaults,
+    prepareNewEmployeeForm,
+    handleEdit,
+    handleDeleteRequest,
+    handleDelete,
+    handleSubmit
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Employee, fetchEmployees } from "../EmployeeService";
+
+export function useEmployeesData(showSeparated: boolean) {
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadEmployeesData();
+  }, [showSeparated]);
+
+  const loadEmployeesData = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchEmployees(showSeparated);
+      setEmployees(data);
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch employees data.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    employees,
+    loading,
+    loadEmployeesData
+  };
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { JobHistoryEntry, fetchJobHistory } from "../EmployeeService";
+
+export function useJobHistory(empno: string | undefined) {
+  const [jobHistory, setJobHistory] = useState<JobHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (empno) {
+      loadJobHistory();
+    }
+  }, [empno]);
+
+  const loadJobHistory = async () => {
+    if (!empno) return;
+
+    setLoading(true);
+    try {
+      setJobHistory(await fetchJobHistory(empno));
+    } catch (error) {
+      console.error('Error fetching job history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch job history.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    jobHistory,
+    loading,
+    loadJobHistory
+  };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Job,
+  createJob,
+  deleteJob,
+  fetchJobs,
+  updateJob
+} from "../JobService";
+
+export function useJobs() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const loadJobs = async () => {
+    setLoading(true);
+    try {
+      setJobs(await fetchJobs());
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch job codes.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadJobs();
+    }
+
+    return result.success;
+  };
+
+  const saveJob = async (code: string, name: string, isEditing: boolean) => {
+    const result = isEditing
+      ? await updateJob(code, name)
+      : await createJob({ jobcode: code, jobdesc: name });
+    return handleResult(result, isEditing ? "Job Code Updated" : "Job Code Added");
+  };
+
+  const removeJob = async (code: string) => {
+    return handleResult(await deleteJob(code), "Job Code Deleted");
+  };
+
+  return {
+    jobs,
+    loading,
+    loadJobs,
+    saveJob,
+    removeJob
+  };
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { EXPORT_FORMAT_LABELS, ExportColumn, ExportFormat, exportRows } from "./ExportService";
+
+type ExportScope = 'visible' | 'all';
+
+interface ExportButtonProps<T> {
+  // Used as the PDF heading, the Excel sheet name and, with fileName, the download name
+  title: string;
+  fileName: string;
+  columns: ExportColumn<T>[];
+  // The rows on screen, already filtered, sorted and paged
+  rows: T[];
+  // Every row matching the current filters and sort; omit when the list is not paged
+  fetchAllRows?: () => Promise<T[]>;
+  totalCount?: number;
+}
+
+// Export button for a list, with a dialog to pick the format, the rows and the columns
+export function ExportButton<T>({ title, fileName, columns, rows, fetchAllRows, totalCount }: ExportButtonProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>('visible');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setScope('visible');
+      setSelectedKeys(columns.map(column => column.key));
+    }
+  }, [open]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedKeys(current => checked ? [...current, key] : current.filter(k => k !== key));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exportedRows = scope === 'all' && fetchAllRows ? await fetchAllRows() : rows;
+
+      await exportRows({
+        title,
+        fileName,
+        // Keep the order of the list, not the order the boxes were ticked
+        columns: columns.filter(column => selectedKeys.includes(column.key)),
+        rows: exportedRows,
+        exportFormat
+      });
+
+      setOpen(false);
+    } catch (error) {
+      console.error('Error exporting list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the list.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Download size={16} className="mr-2" /> Export
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Export {title}</DialogTitle>
+            <DialogDescription>
+              Rows are exported with the filters and sort order shown on the list.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)} className="flex gap-4">
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(value => (
+                  <label key={value} className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value={value} />
+                    {EXPORT_FORMAT_LABELS[value]}
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            {fetchAllRows && (
+              <div className="space-y-2">
+                <Label>Rows</Label>
+                <RadioGroup value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+                  <label className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value="visible" />
+                    This page ({rows.length})
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value="all" />
+                    All matching rows{totalCount !== undefined && ` (${totalCount})`}
+                  </label>
+                </RadioGroup>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedKeys.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    {column.header}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleExport} disabled={isExporting || selectedKeys.length === 0}>
+              {isExporting ? 'Exporting...' : 'Export'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
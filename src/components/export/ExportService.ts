@@ -0,0 +1,144 @@
+import Papa from "papaparse";
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { formatDateByUserPreference, formatDateOnlyByUserPreference } from "@/utils/dateFormatter";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportColumnType = 'text' | 'number' | 'currency' | 'date' | 'datetime';
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  // Dates are written in the user's preferred date format; numbers stay numbers in Excel
+  type?: ExportColumnType;
+}
+
+export interface ExportRequest<T> {
+  title: string;
+  fileName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  exportFormat: ExportFormat;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  pdf: 'PDF',
+};
+
+// A cell as the user sees it on screen
+const formatCell = <T>(column: ExportColumn<T>, row: T): string => {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (column.type) {
+    case 'date':
+      return formatDateOnlyByUserPreference(String(value));
+    case 'datetime':
+      return formatDateByUserPreference(String(value));
+    case 'currency':
+      return Number(value).toFixed(2);
+    default:
+      return String(value);
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportCsv = <T>({ columns, rows }: ExportRequest<T>): Blob => {
+  const csv = Papa.unparse({
+    fields: columns.map(column => column.header),
+    data: rows.map(row => columns.map(column => formatCell(column, row))),
+  });
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' });
+};
+
+const exportXlsx = async <T>({ title, columns, rows }: ExportRequest<T>): Promise<Blob> => {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  // Sheet names are limited to 31 characters and cannot contain some punctuation
+  const worksheet = workbook.addWorksheet(title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+  worksheet.columns = columns.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(column.header.length + 2, 12),
+    style: column.type === 'currency' ? { numFmt: '#,##0.00' } : undefined,
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  rows.forEach(row => {
+    worksheet.addRow(columns.reduce<Record<string, string | number>>((cells, column) => {
+      const value = column.value(row);
+      const isNumeric = column.type === 'number' || column.type === 'currency';
+      cells[column.key] = isNumeric && value !== null && value !== undefined && value !== ''
+        ? Number(value)
+        : formatCell(column, row);
+      return cells;
+    }, {}));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+const exportPdf = <T>({ title, columns, rows }: ExportRequest<T>): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: columns.length > 5 ? 'landscape' : 'portrait' });
+  const left = 15;
+  const totalPagesPlaceholder = '{total_pages}';
+
+  doc.setFontSize(16);
+  doc.text(title, left, 18);
+  doc.setFontSize(9);
+  doc.text(`Exported ${formatDateByUserPreference(new Date().toISOString())} - ${rows.length} row${rows.length === 1 ? '' : 's'}`, left, 24);
+
+  autoTable(doc, {
+    startY: 30,
+    head: [columns.map(column => column.header)],
+    body: rows.map(row => columns.map(column => formatCell(column, row))),
+    columnStyles: columns.reduce<Record<number, { halign: 'right' }>>((styles, column, index) => {
+      if (column.type === 'number' || column.type === 'currency') {
+        styles[index] = { halign: 'right' };
+      }
+      return styles;
+    }, {}),
+    styles: { fontSize: 8 },
+    didDrawPage: (data) => {
+      doc.setFontSize(8);
+      doc.text(
+        `Page ${data.pageNumber} of ${totalPagesPlaceholder}`,
+        doc.internal.pageSize.getWidth() - left,
+        doc.internal.pageSize.getHeight() - 8,
+        { align: 'right' }
+      );
+    },
+  });
+
+  doc.putTotalPages(totalPagesPlaceholder);
+
+  return doc.output('blob');
+};
+
+// Write rows to a CSV, Excel or PDF file and download it, named after the list and today's date
+export const exportRows = async <T>(request: ExportRequest<T>) => {
+  const blob = request.exportFormat === 'csv'
+    ? exportCsv(request)
+    : request.exportFormat === 'xlsx'
+      ? await exportXlsx(request)
+      : exportPdf(request);
+
+  downloadBlob(blob, `${request.fileName}-${format(new Date(), 'yyyy-MM-dd')}.${request.exportFormat}`);
+};
@@ -0,0 +1,133 @@
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { Invoice } from "./InvoiceService";
+
+interface InvoiceDocumentProps {
+  invoice: Invoice;
+}
+
+// The invoice as sent to the customer: company header, bill-to, lines, terms and payments
+export function InvoiceDocument({ invoice }: InvoiceDocumentProps) {
+  const { company } = invoice;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 dark:bg-gray-800 print:shadow-none print:p-0">
+      <div className="flex flex-wrap justify-between gap-6 border-b pb-6 mb-6">
+        <div className="flex items-start gap-4">
+          {company.logo_url && (
+            <img src={company.logo_url} alt="Company logo" className="h-16 max-w-[160px] object-contain" />
+          )}
+          <div>
+            <p className="text-xl font-bold">{company.company_name}</p>
+            {company.company_address && <p className="text-sm whitespace-pre-line">{company.company_address}</p>}
+            {company.company_phone && <p className="text-sm">{company.company_phone}</p>}
+            {company.company_email && <p className="text-sm">{company.company_email}</p>}
+            {company.company_tax_id && <p className="text-sm">Tax ID: {company.company_tax_id}</p>}
+          </div>
+        </div>
+        <div className="text-right">
+          <h1 className="text-3xl font-bold uppercase tracking-wide">Invoice</h1>
+          <p className="mt-2 text-sm">Invoice No: <span className="font-medium">{invoice.transno}</span></p>
+          <p className="text-sm">Date: {formatDate(invoice.salesdate)}</p>
+          <p className="text-sm">Due Date: {formatDate(invoice.dueDate)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6 print:grid-cols-3">
+        <div>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Bill To</p>
+          <p className="font-semibold">{invoice.custname || invoice.custno || 'N/A'}</p>
+          {invoice.custno && <p className="text-sm">{invoice.custno}</p>}
+          {invoice.address && <p className="text-sm">{invoice.address}</p>}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Salesperson</p>
+          <p>{invoice.salesperson || 'N/A'}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Payment Terms</p>
+          <p>{invoice.payterm || 'N/A'}</p>
+          {invoice.termsDescription && <p className="text-sm">{invoice.termsDescription}</p>}
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Product Code</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Unit</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Unit Price</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoice.lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">No items on this sale.</TableCell>
+            </TableRow>
+          ) : (
+            invoice.lines.map((line) => (
+              <TableRow key={line.prodcode}>
+                <TableCell>{line.prodcode}</TableCell>
+                <TableCell>{line.description || 'N/A'}</TableCell>
+                <TableCell>{line.unit || 'N/A'}</TableCell>
+                <TableCell className="text-right">{line.quantity}</TableCell>
+                <TableCell className="text-right">${line.unitprice.toFixed(2)}</TableCell>
+                <TableCell className="text-right">${line.amount.toFixed(2)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={5} className="text-right">Total</TableCell>
+            <TableCell className="text-right">${invoice.total.toFixed(2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={5} className="text-right">Amount Paid</TableCell>
+            <TableCell className="text-right">${invoice.amountPaid.toFixed(2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={5} className="text-right font-bold">Balance Due</TableCell>
+            <TableCell className="text-right font-bold">${invoice.balanceDue.toFixed(2)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      {invoice.payments.length > 0 && (
+        <div className="mt-6">
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Payments Received</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>OR Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.payments.map((payment) => (
+                <TableRow key={payment.orno}>
+                  <TableCell>{payment.orno}</TableCell>
+                  <TableCell>{formatDate(payment.paydate)}</TableCell>
+                  <TableCell className="text-right">${payment.amount.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {company.invoice_footer && (
+        <p className="mt-8 border-t pt-4 text-sm text-gray-500 dark:text-gray-400 whitespace-pre-line">
+          {company.invoice_footer}
+        </p>
+      )}
+    </div>
+  );
+}
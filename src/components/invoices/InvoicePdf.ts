@@ -0,0 +1,125 @@
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { Invoice } from "./InvoiceService";
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+// Load the logo as a data URL so jsPDF can embed it; a missing logo just leaves the header text-only
+const loadLogo = async (url: string): Promise<{ data: string; format: 'PNG' | 'JPEG'; width: number; height: number } | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    const format = blob.type === 'image/png' ? 'PNG' : blob.type === 'image/jpeg' ? 'JPEG' : null;
+    if (!format) return null;
+
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve({ width: image.width, height: image.height });
+      image.onerror = reject;
+      image.src = data;
+    });
+
+    return { data, format, width, height };
+  } catch (error) {
+    console.error('Error loading company logo:', error);
+    return null;
+  }
+};
+
+// Render an invoice to a PDF in the browser and download it
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 15;
+  const right = doc.internal.pageSize.getWidth() - 15;
+  const { company } = invoice;
+
+  let headerLeft = left;
+  if (company.logo_url) {
+    const logo = await loadLogo(company.logo_url);
+    if (logo) {
+      // Fit the logo in a 40 x 20 mm box
+      const scale = Math.min(40 / logo.width, 20 / logo.height);
+      doc.addImage(logo.data, logo.format, left, 12, logo.width * scale, logo.height * scale);
+      headerLeft = left + logo.width * scale + 5;
+    }
+  }
+
+  doc.setFontSize(14);
+  doc.text(company.company_name || '', headerLeft, 17);
+  doc.setFontSize(9);
+  const companyLines = [
+    ...(company.company_address ? company.company_address.split('\n') : []),
+    company.company_phone,
+    company.company_email,
+    company.company_tax_id ? `Tax ID: ${company.company_tax_id}` : null
+  ].filter((line): line is string => !!line);
+  doc.text(companyLines, headerLeft, 22);
+
+  doc.setFontSize(20);
+  doc.text('INVOICE', right, 18, { align: 'right' });
+  doc.setFontSize(9);
+  doc.text([
+    `Invoice No: ${invoice.transno}`,
+    `Date: ${formatDate(invoice.salesdate)}`,
+    `Due Date: ${formatDate(invoice.dueDate)}`
+  ], right, 24, { align: 'right' });
+
+  const detailsTop = Math.max(44, 22 + companyLines.length * 4 + 6);
+  doc.setFontSize(9);
+  doc.text(['Bill To:', invoice.custname || invoice.custno || 'N/A', invoice.custno || '', invoice.address || ''], left, detailsTop);
+  doc.text(['Salesperson:', invoice.salesperson || 'N/A'], left + 70, detailsTop);
+  doc.text(['Payment Terms:', invoice.payterm || 'N/A', invoice.termsDescription || ''], left + 120, detailsTop);
+
+  autoTable(doc, {
+    startY: detailsTop + 18,
+    head: [['Product Code', 'Description', 'Unit', 'Quantity', 'Unit Price', 'Amount']],
+    body: invoice.lines.map(line => [
+      line.prodcode,
+      line.description || 'N/A',
+      line.unit || 'N/A',
+      String(line.quantity),
+      money(line.unitprice),
+      money(line.amount)
+    ]),
+    foot: [
+      ['', '', '', '', 'Total', money(invoice.total)],
+      ['', '', '', '', 'Amount Paid', money(invoice.amountPaid)],
+      ['', '', '', '', 'Balance Due', money(invoice.balanceDue)]
+    ],
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' }
+    },
+    styles: { fontSize: 9 },
+    showFoot: 'lastPage'
+  });
+
+  if (invoice.payments.length > 0) {
+    autoTable(doc, {
+      head: [['Payments Received', 'Date', 'Amount']],
+      body: invoice.payments.map(payment => [payment.orno, formatDate(payment.paydate), money(payment.amount)]),
+      columnStyles: { 2: { halign: 'right' } },
+      styles: { fontSize: 9 }
+    });
+  }
+
+  if (company.invoice_footer) {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    doc.setPage(doc.getNumberOfPages());
+    doc.setFontSize(8);
+    doc.text(doc.splitTextToSize(company.invoice_footer, right - left), left, pageHeight - 20);
+  }
+
+  doc.save(`invoice-${invoice.transno}.pdf`);
+};
@@ -0,0 +1,125 @@
+import { supabase } from "@/integrations/supabase/client";
+import { priceSaleLines } from "@/components/sales/PricingService";
+import { fetchPaymentsForSale, sumPayments } from "@/components/payments/PaymentService";
+import { PaymentTerm, describePaymentTerm } from "@/components/terms/PaymentTermService";
+import { CompanySettings, fetchCompanySettings } from "@/components/settings/CompanySettingsService";
+
+export interface InvoiceLine {
+  prodcode: string;
+  description: string | null;
+  unit: string | null;
+  quantity: number;
+  unitprice: number;
+  amount: number;
+}
+
+export interface InvoicePayment {
+  orno: string;
+  paydate: string | null;
+  amount: number;
+}
+
+export interface Invoice {
+  company: CompanySettings;
+  transno: string;
+  salesdate: string | null;
+  custno: string | null;
+  custname: string | null;
+  address: string | null;
+  salesperson: string | null;
+  payterm: string | null;
+  termsDescription: string | null;
+  dueDate: string | null;
+  lines: InvoiceLine[];
+  total: number;
+  payments: InvoicePayment[];
+  amountPaid: number;
+  balanceDue: number;
+  missingPrices: string[];
+}
+
+// Gather everything printed on the invoice of one sale: the company header, customer,
+// salesperson, priced lines, payment terms and due date, and the payments received so far
+export const fetchInvoice = async (transno: string): Promise<Invoice> => {
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select(`
+      transno, salesdate,
+      customer:custno(custno, custname, address, payterm),
+      employee:empno(empno, firstname, lastname)
+    `)
+    .eq('transno', transno)
+    .single();
+
+  if (saleError) throw saleError;
+
+  const { data: details, error: detailsError } = await supabase
+    .from('salesdetail')
+    .select('prodcode, quantity, quoted_price, product:prodcode(description, unit)')
+    .eq('transno', transno)
+    .is('deleted_at', null)
+    .order('prodcode', { ascending: true });
+
+  if (detailsError) throw detailsError;
+
+  const { data: summary, error: summaryError } = await supabase
+    .from('sales_summary')
+    .select('due_date')
+    .eq('transno', transno)
+    .maybeSingle();
+
+  if (summaryError) throw summaryError;
+
+  let term: PaymentTerm | null = null;
+  if (sale.customer?.payterm) {
+    const { data, error: termError } = await supabase
+      .from('payment_term')
+      .select('code, description, net_days, discount_percent, discount_days')
+      .eq('code', sale.customer.payterm)
+      .maybeSingle();
+
+    if (termError) throw termError;
+    term = data;
+  }
+
+  const [company, payments, priced] = await Promise.all([
+    fetchCompanySettings(),
+    fetchPaymentsForSale(transno),
+    priceSaleLines(details || [], sale.salesdate)
+  ]);
+
+  const receivedPayments = payments.filter(payment => !payment.voided_at);
+  const amountPaid = sumPayments(receivedPayments);
+
+  return {
+    company,
+    transno: sale.transno,
+    salesdate: sale.salesdate,
+    custno: sale.customer?.custno || null,
+    custname: sale.customer?.custname || null,
+    address: sale.customer?.address || null,
+    salesperson: sale.employee
+      ? [sale.employee.firstname, sale.employee.lastname].filter(Boolean).join(' ') || sale.employee.empno
+      : null,
+    payterm: sale.customer?.payterm || null,
+    termsDescription: term ? describePaymentTerm(term) : null,
+    dueDate: summary?.due_date || null,
+    lines: (details || []).map((detail, index) => ({
+      prodcode: detail.prodcode,
+      description: detail.product?.description || null,
+      unit: detail.product?.unit || null,
+      quantity: Number(detail.quantity) || 0,
+      unitprice: priced.lines[index].unitprice,
+      amount: priced.lines[index].subtotal
+    })),
+    total: priced.total,
+    payments: receivedPayments.map(payment => ({
+      orno: payment.orno,
+      paydate: payment.paydate,
+      amount: Number(payment.amount) || 0
+    })),
+    amountPaid,
+    balanceDue: priced.total - amountPaid,
+    missingPrices: priced.missingPrices
+  };
+};
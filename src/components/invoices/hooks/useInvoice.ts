@@ -0,0 +1,33 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Invoice, fetchInvoice } from "../InvoiceService";
+
+export function useInvoice(transno: string | undefined) {
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      if (!transno) return;
+
+      setLoading(true);
+      try {
+        setInvoice(await fetchInvoice(transno));
+      } catch (error) {
+        console.error('Error building invoice:', error);
+        toast({
+          title: "Error",
+          description: "Failed to build the invoice.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvoice();
+  }, [transno]);
+
+  return { invoice, loading };
+}
@@ -4,7 +4,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { 
   Users, Package, ShoppingCart, Bell, FileText,
-  Settings, LogOut, ChevronDown, Menu, X, HelpCircle
+  Settings, LogOut, ChevronDown, Menu, X, HelpCircle, Receipt, Boxes, Briefcase, Hash, Hourglass, BadgeDollarSign, ClipboardList
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
@@ -25,14 +25,15 @@ interface DashboardLayoutProps {
 }
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
-  const { user, profile, isAdmin, logout } = useAuth();
+  const { user, profile, can, logout } = useAuth();
+  const canViewNotifications = can('notifications', 'view');
   const navigate = useNavigate();
   const [notificationCount, setNotificationCount] = useState(0);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
-  // Fetch unread notification count only for admin users
+  // Fetch unread notification count only for users who receive notifications
   useEffect(() => {
-    if (!user || !isAdmin) return;
+    if (!user || !canViewNotifications) return;
 
     const fetchNotificationCount = async () => {
       const { count, error } = await supabase
@@ -64,7 +65,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     return () => {
       subscription.unsubscribe();
     };
-  }, [user, isAdmin]);
+  }, [user, canViewNotifications]);
 
   const handleLogout = async () => {
     await logout();
@@ -101,25 +102,67 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       icon: <Users size={20} />,
       label: "Users",
       path: "/dashboard/users",
-      visible: isAdmin,
+      visible: can('users', 'manage'),
     },
     {
       icon: <Users size={20} />,
       label: "Customers",
       path: "/dashboard/customers",
-      visible: true,
+      visible: can('customers', 'view'),
     },
     {
       icon: <ShoppingCart size={20} />,
       label: "Sales",
       path: "/dashboard/sales",
-      visible: true,
+      visible: can('sales', 'view'),
+    },
+    {
+      icon: <ClipboardList size={20} />,
+      label: "Quotes",
+      path: "/dashboard/quotes",
+      visible: can('quotes', 'view'),
+    },
+    {
+      icon: <Receipt size={20} />,
+      label: "Payments",
+      path: "/dashboard/payments",
+      visible: can('payments', 'view'),
+    },
+    {
+      icon: <Hourglass size={20} />,
+      label: "AR Aging",
+      path: "/dashboard/ar-aging",
+      visible: can('reports', 'view'),
+    },
+    {
+      icon: <BadgeDollarSign size={20} />,
+      label: "Commissions",
+      path: "/dashboard/commissions",
+      visible: can('commissions', 'view'),
+    },
+    {
+      icon: <Boxes size={20} />,
+      label: "Products",
+      path: "/dashboard/products",
+      visible: can('products', 'view'),
+    },
+    {
+      icon: <Briefcase size={20} />,
+      label: "Employees",
+      path: "/dashboard/employees",
+      visible: can('employees', 'view'),
+    },
+    {
+      icon: <Hash size={20} />,
+      label: "Numbering",
+      path: "/dashboard/numbering",
+      visible: can('settings', 'manage'),
     },
     {
       icon: <FileText size={20} />,
       label: "Activity Logs",
       path: "/dashboard/activity-logs",
-      visible: isAdmin,
+      visible: can('activity_logs', 'view'),
     },
     {
       icon: <HelpCircle size={20} />,
@@ -136,9 +179,9 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   ];
 
   return (
-    <div className="flex h-screen bg-gray-100">
+    <div className="flex h-screen bg-gray-100 print:block print:h-auto print:bg-white">
       {/* Mobile sidebar toggle */}
-      <div className="lg:hidden fixed top-0 left-0 z-40 p-4">
+      <div className="lg:hidden fixed top-0 left-0 z-40 p-4 print:hidden">
         <Button
           variant="ghost"
           size="icon"
@@ -153,7 +196,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       <div 
         className={`${
           isSidebarOpen ? 'translate-x-0' : '-translate-x-full'
-        } lg:translate-x-0 fixed inset-y-0 left-0 z-30 w-64 bg-white shadow-md transition-transform duration-300 ease-in-out lg:static lg:block`}
+        } lg:translate-x-0 fixed inset-y-0 left-0 z-30 w-64 bg-white shadow-md transition-transform duration-300 ease-in-out lg:static lg:block print:hidden`}
       >
         <div className="flex flex-col h-full">
           <div className="p-5 border-b">
@@ -198,12 +241,12 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       </div>
 
       {/* Main content */}
-      <div className="flex flex-col flex-1 overflow-hidden">
-        <header className="bg-white shadow">
+      <div className="flex flex-col flex-1 overflow-hidden print:block print:overflow-visible">
+        <header className="bg-white shadow print:hidden">
           <div className="flex items-center justify-end px-4 py-3">
             <div className="flex items-center space-x-4">
-              {/* Only show notification button for admin users */}
-              {isAdmin && (
+              {/* Only show notification button to users who receive notifications */}
+              {canViewNotifications && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -252,7 +295,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </header>
 
-        <main className="flex-1 overflow-auto p-4 md:p-6">
+        <main className="flex-1 overflow-auto p-4 md:p-6 print:overflow-visible print:p-0">
           {children}
         </main>
       </div>
@@ -0,0 +1,64 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PAGE_SIZE_OPTIONS } from "@/hooks/use-list-params";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export function ListPagination({
+  page,
+  pageSize,
+  totalCount,
+  onPageChange,
+  onPageSizeChange
+}: ListPaginationProps) {
+  const pageCount = Math.max(Math.ceil(totalCount / pageSize), 1);
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 p-4 text-sm">
+      <div className="text-gray-500 dark:text-gray-400">
+        Showing {firstRow}–{lastRow} of {totalCount}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500 dark:text-gray-400">Rows per page</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="w-[80px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map(size => (
+              <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span>
+          Page {Math.min(page, pageCount)} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={page >= pageCount}
+          onClick={() => onPageChange(page + 1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { formatDocumentNumber } from "./DocumentSequenceService";
+
+export const documentSequenceFormSchema = z.object({
+  prefix: z.string().max(10, "Prefix must be 10 characters or less")
+    .regex(/^[A-Za-z0-9-]*$/, "Prefix may only contain letters, digits and dashes"),
+  padding: z.coerce.number().int().min(1, "Padding must be at least 1").max(12, "Padding must be 12 or less"),
+  next_value: z.coerce.number().int().min(1, "Next number must be at least 1"),
+  reuse_cancelled: z.boolean(),
+});
+
+export type DocumentSequenceFormValues = z.infer<typeof documentSequenceFormSchema>;
+
+interface DocumentSequenceFormProps {
+  defaultValues: DocumentSequenceFormValues;
+  onSubmit: (values: DocumentSequenceFormValues) => void;
+  onCancel: () => void;
+}
+
+export function DocumentSequenceForm({ defaultValues, onSubmit, onCancel }: DocumentSequenceFormProps) {
+  const form = useForm<DocumentSequenceFormValues>({
+    resolver: zodResolver(documentSequenceFormSchema),
+    defaultValues,
+  });
+
+  const prefix = form.watch('prefix') || '';
+  const padding = Number(form.watch('padding')) || 1;
+  const nextValue = Number(form.watch('next_value')) || 1;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="prefix"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Prefix</FormLabel>
+                <FormControl>
+                  <Input {...field} maxLength={10} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="padding"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Digits</FormLabel>
+                <FormControl>
+                  <Input {...field} type="number" min={1} max={12} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="next_value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Next Number</FormLabel>
+              <FormControl>
+                <Input {...field} type="number" min={1} />
+              </FormControl>
+              <FormDescription>
+                The next record will be numbered {formatDocumentNumber({ prefix, padding }, nextValue)}.
+                Numbers already in use are skipped.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reuse_cancelled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Reuse cancelled numbers</FormLabel>
+                <FormDescription>
+                  Numbers of records that were started but never saved are handed out again.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">Save</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
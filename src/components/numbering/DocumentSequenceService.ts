@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export type DocumentSequenceCode = 'sales' | 'customer' | 'credit_memo' | 'quote';
+
+export interface DocumentSequence {
+  code: string;
+  name: string;
+  prefix: string;
+  padding: number;
+  next_value: number;
+  reuse_cancelled: boolean;
+  modified_at: string | null;
+  modified_by: string | null;
+}
+
+export interface DocumentSequenceFormData {
+  prefix: string;
+  padding: number;
+  next_value: number;
+  reuse_cancelled: boolean;
+}
+
+// Format a value of a series the same way next_document_number does
+export const formatDocumentNumber = (
+  sequence: Pick<DocumentSequence, 'prefix' | 'padding'>,
+  value: number
+): string => `${sequence.prefix}${String(value).padStart(sequence.padding, '0')}`;
+
+// Fetch every numbering series
+export const fetchDocumentSequences = async (): Promise<DocumentSequence[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('document_sequence')
+      .select('*')
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching document sequences:', error);
+    throw error;
+  }
+};
+
+// Count the released numbers waiting to be handed out again, per series
+export const fetchReleasedNumberCounts = async (): Promise<Record<string, number>> => {
+  try {
+    const { data, error } = await supabase
+      .from('document_number_pool')
+      .select('sequence_code');
+
+    if (error) throw error;
+
+    return (data || []).reduce<Record<string, number>>((counts, row) => {
+      counts[row.sequence_code] = (counts[row.sequence_code] || 0) + 1;
+      return counts;
+    }, {});
+  } catch (error) {
+    console.error('Error fetching released numbers:', error);
+    throw error;
+  }
+};
+
+// Change the format or the next value of a series
+export const updateDocumentSequence = async (
+  code: string,
+  data: DocumentSequenceFormData
+): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('document_sequence')
+      .update({
+        prefix: data.prefix,
+        padding: data.padding,
+        next_value: data.next_value,
+        reuse_cancelled: data.reuse_cancelled,
+        modified_at: new Date().toISOString(),
+        modified_by: userId
+      })
+      .eq('code', code);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'document_sequence',
+      record_id: code,
+      details: JSON.stringify({ code, ...data })
+    });
+
+    return { success: true, message: "Numbering updated successfully" };
+  } catch (error) {
+    console.error("Error updating document sequence:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update numbering" };
+  }
+};
+
+// Reserve the next number of a series. The number is taken even if the record is never saved.
+export const reserveDocumentNumber = async (code: DocumentSequenceCode): Promise<string> => {
+  const { data, error } = await supabase.rpc('next_document_number', { sequence_code: code });
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Hand a reserved number back when its record was not saved.
+// The database ignores this when the series does not reuse numbers, the number is in use,
+// or another user reserved it.
+export const releaseDocumentNumber = async (code: DocumentSequenceCode, number: string): Promise<void> => {
+  if (!number) return;
+
+  const { error } = await supabase.rpc('release_document_number', { sequence_code: code, number });
+
+  if (error) {
+    console.error('Error releasing document number:', error);
+  }
+};
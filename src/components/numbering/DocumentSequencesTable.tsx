@@ -0,0 +1,120 @@
+import { useState } from "react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { Edit } from "lucide-react";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { DocumentSequence, DocumentSequenceFormData, formatDocumentNumber } from "./DocumentSequenceService";
+import { DocumentSequenceForm, DocumentSequenceFormValues } from "./DocumentSequenceForm";
+
+interface DocumentSequencesTableProps {
+  sequences: DocumentSequence[];
+  releasedCounts: Record<string, number>;
+  loading: boolean;
+  onSave: (code: string, data: DocumentSequenceFormData) => Promise<boolean>;
+}
+
+export function DocumentSequencesTable({
+  sequences,
+  releasedCounts,
+  loading,
+  onSave
+}: DocumentSequencesTableProps) {
+  const [selectedSequence, setSelectedSequence] = useState<DocumentSequence | null>(null);
+
+  const handleSubmit = async (values: DocumentSequenceFormValues) => {
+    if (!selectedSequence) return;
+
+    const saved = await onSave(selectedSequence.code, {
+      prefix: values.prefix,
+      padding: values.padding,
+      next_value: values.next_value,
+      reuse_cancelled: values.reuse_cancelled
+    });
+
+    if (saved) {
+      setSelectedSequence(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+      <div className="p-4 border-b">
+        <h1 className="text-2xl font-bold">Document Numbering</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Numbers are reserved on the server when a new record is started, so two users never get the same one.
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Series</TableHead>
+            <TableHead>Format</TableHead>
+            <TableHead>Next Number</TableHead>
+            <TableHead>Reuse Cancelled</TableHead>
+            <TableHead>Released Numbers</TableHead>
+            <TableHead>Last Changed</TableHead>
+            <TableHead className="w-[100px]">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : sequences.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">No numbering series found.</TableCell>
+            </TableRow>
+          ) : (
+            sequences.map((sequence) => (
+              <TableRow key={sequence.code}>
+                <TableCell>{sequence.name}</TableCell>
+                <TableCell className="font-mono">{sequence.prefix}{'#'.repeat(sequence.padding)}</TableCell>
+                <TableCell className="font-mono">{formatDocumentNumber(sequence, sequence.next_value)}</TableCell>
+                <TableCell>{sequence.reuse_cancelled ? 'Yes' : 'No'}</TableCell>
+                <TableCell>{releasedCounts[sequence.code] || 0}</TableCell>
+                <TableCell>{sequence.modified_at ? formatDate(sequence.modified_at) : '-'}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => setSelectedSequence(sequence)}>
+                    <Edit size={16} />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!selectedSequence} onOpenChange={(open) => !open && setSelectedSequence(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {selectedSequence?.name} Numbering</DialogTitle>
+            <DialogDescription>
+              Changes apply to the next number that is reserved.
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedSequence && (
+            <DocumentSequenceForm
+              defaultValues={{
+                prefix: selectedSequence.prefix,
+                padding: selectedSequence.padding,
+                next_value: selectedSequence.next_value,
+                reuse_cancelled: selectedSequence.reuse_cancelled
+              }}
+              onSubmit={handleSubmit}
+              onCancel={() => setSelectedSequence(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DocumentSequence,
+  DocumentSequenceFormData,
+  fetchDocumentSequences,
+  fetchReleasedNumberCounts,
+  updateDocumentSequence
+} from "../DocumentSequenceService";
+
+export function useDocumentSequences() {
+  const [sequences, setSequences] = useState<DocumentSequence[]>([]);
+  const [releasedCounts, setReleasedCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  const loadSequences = async () => {
+    setLoading(true);
+    try {
+      const [sequenceData, counts] = await Promise.all([
+        fetchDocumentSequences(),
+        fetchReleasedNumberCounts()
+      ]);
+      setSequences(sequenceData);
+      setReleasedCounts(counts);
+    } catch (error) {
+      console.error('Error fetching document sequences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch numbering settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSequence = async (code: string, data: DocumentSequenceFormData) => {
+    const result = await updateDocumentSequence(code, data);
+
+    toast({
+      title: result.success ? "Numbering Updated" : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadSequences();
+    }
+
+    return result.success;
+  };
+
+  return {
+    sequences,
+    releasedCounts,
+    loading,
+    loadSequences,
+    saveSequence
+  };
+}
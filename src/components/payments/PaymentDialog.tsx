@@ -0,0 +1,46 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { PaymentForm, PaymentFormValues, PaymentSaleOption } from "./PaymentForm";
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isEditing: boolean;
+  formDefaults: PaymentFormValues;
+  sales?: PaymentSaleOption[];
+  lockSale?: boolean;
+  onSubmit: (values: PaymentFormValues) => void;
+}
+
+export function PaymentDialog({
+  open,
+  onOpenChange,
+  isEditing,
+  formDefaults,
+  sales,
+  lockSale,
+  onSubmit
+}: PaymentDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Payment' : 'Record Payment'}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? 'Update the official receipt details below.' : 'Enter the official receipt details for this payment.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <PaymentForm
+            defaultValues={formDefaults}
+            sales={sales}
+            lockSale={lockSale || isEditing}
+            isEditing={isEditing}
+            onSubmit={onSubmit}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CalendarIcon } from "lucide-react";
+import { SaleBalance, checkPaymentAmount, fetchSaleBalance } from "./PaymentService";
+
+export const paymentFormSchema = z.object({
+  orno: z.string().min(1, "OR number is required").max(20, "OR number must be 20 characters or less"),
+  paydate: z.date({ required_error: "Payment date is required" }),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  transno: z.string().min(1, "Sale is required"),
+});
+
+export type PaymentFormValues = z.infer<typeof paymentFormSchema>;
+
+export interface PaymentSaleOption {
+  transno: string;
+  label: string;
+}
+
+interface PaymentFormProps {
+  defaultValues: PaymentFormValues;
+  sales?: PaymentSaleOption[];
+  lockSale?: boolean;
+  isEditing: boolean;
+  onSubmit: (values: PaymentFormValues) => void;
+  onCancel: () => void;
+}
+
+export function PaymentForm({
+  defaultValues,
+  sales = [],
+  lockSale = false,
+  isEditing,
+  onSubmit,
+  onCancel
+}: PaymentFormProps) {
+  const [balance, setBalance] = useState<SaleBalance | null>(null);
+
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentFormSchema),
+    defaultValues,
+  });
+
+  const transno = form.watch("transno");
+  const amount = Number(form.watch("amount")) || 0;
+
+  // Load the remaining balance of the selected sale
+  useEffect(() => {
+    if (!transno) {
+      setBalance(null);
+      return;
+    }
+
+    fetchSaleBalance(transno, isEditing ? defaultValues.orno : undefined)
+      .then(setBalance)
+      .catch(error => {
+        console.error('Error fetching sale balance:', error);
+        setBalance(null);
+      });
+  }, [transno]);
+
+  const amountCheck = balance && amount > 0 ? checkPaymentAmount(amount, balance.balance) : null;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="orno"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>OR Number</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={20} disabled={isEditing} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="transno"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sale</FormLabel>
+              {lockSale ? (
+                <FormControl>
+                  <Input {...field} disabled />
+                </FormControl>
+              ) : (
+                <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a sale" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {sales.map((sale) => (
+                      <SelectItem key={sale.transno} value={sale.transno}>
+                        {sale.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="paydate"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Payment Date</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant={"outline"}
+                      className={`w-full pl-3 text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                    >
+                      {field.value ? (
+                        format(field.value, "PPP")
+                      ) : (
+                        <span>Pick a date</span>
+                      )}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value || undefined}
+                    onSelect={field.onChange}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {balance && (
+          <div className="p-3 bg-gray-50 rounded-md text-sm space-y-1 dark:bg-gray-700">
+            <div className="flex justify-between">
+              <span>Sale Total:</span>
+              <span>${balance.total.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Already Paid:</span>
+              <span>${balance.paid.toFixed(2)}</span>
+            </div>
+            {balance.credited > 0 && (
+              <div className="flex justify-between">
+                <span>Credited (Returns):</span>
+                <span>${balance.credited.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-medium">
+              <span>Remaining Balance:</span>
+              <span>${balance.balance.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+
+        {amountCheck && amountCheck.kind !== 'full' && (
+          <Alert variant={amountCheck.kind === 'over' ? "destructive" : "default"}>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{amountCheck.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Record Payment'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,248 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { priceSaleLines } from "@/components/sales/PricingService";
+import { fetchCreditedAmount } from "@/components/creditmemos/CreditMemoService";
+
+export type PaymentStatus = 'Paid' | 'Credited' | 'Partial' | 'Unpaid';
+
+export interface Payment {
+  orno: string;
+  paydate: string | null;
+  amount: number | null;
+  transno: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  sale?: {
+    transno: string;
+    salesdate: string | null;
+    custno: string | null;
+    customer?: {
+      custno: string;
+      custname: string | null;
+    } | null;
+  } | null;
+}
+
+export interface PaymentFormData {
+  orno: string;
+  paydate: Date;
+  amount: number;
+  transno: string;
+}
+
+export interface SaleBalance {
+  total: number;
+  paid: number;
+  credited: number;
+  balance: number;
+}
+
+export interface PaymentAmountCheck {
+  kind: 'full' | 'partial' | 'over';
+  message: string;
+}
+
+// Work out the payment status of a sale from its billed, paid and credited amounts.
+// Matches payment_status in the sales_summary view.
+export const getPaymentStatus = (total: number, paid: number, credited = 0): PaymentStatus => {
+  if (paid > 0 && paid + credited >= total) return 'Paid';
+  if (credited > 0 && credited >= total) return 'Credited';
+  if (paid > 0 || credited > 0) return 'Partial';
+  return 'Unpaid';
+};
+
+// Sum the payments that have not been voided
+export const sumPayments = (payments: { amount: number | null; voided_at?: string | null }[]): number => {
+  return payments
+    .filter(payment => !payment.voided_at)
+    .reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+};
+
+// Compare a payment amount against the remaining balance of the sale
+export const checkPaymentAmount = (amount: number, balance: number): PaymentAmountCheck => {
+  if (amount > balance) {
+    return {
+      kind: 'over',
+      message: `This payment exceeds the remaining balance of $${balance.toFixed(2)} by $${(amount - balance).toFixed(2)}.`
+    };
+  }
+
+  if (amount < balance) {
+    return {
+      kind: 'partial',
+      message: `This is a partial payment. $${(balance - amount).toFixed(2)} will remain outstanding.`
+    };
+  }
+
+  return { kind: 'full', message: 'This payment settles the remaining balance.' };
+};
+
+// Fetch all payments, newest first
+export const fetchPayments = async (showVoided: boolean): Promise<Payment[]> => {
+  try {
+    let query = supabase
+      .from('payment')
+      .select(`
+        *,
+        sale:transno(transno, salesdate, custno, customer:custno(custno, custname))
+      `)
+      .order('paydate', { ascending: false });
+
+    query = showVoided ? query.not('voided_at', 'is', null) : query.is('voided_at', null);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []) as Payment[];
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    throw error;
+  }
+};
+
+// Fetch the payments recorded against a sale, including voided ones
+export const fetchPaymentsForSale = async (transno: string): Promise<Payment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('payment')
+      .select('*')
+      .eq('transno', transno)
+      .order('paydate', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching sale payments:', error);
+    throw error;
+  }
+};
+
+// Get the billed total, amount paid and remaining balance of a sale.
+// Pass excludeOrno when editing a payment so its own amount is not counted.
+export const fetchSaleBalance = async (transno: string, excludeOrno?: string): Promise<SaleBalance> => {
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select('salesdate')
+    .eq('transno', transno)
+    .single();
+
+  if (saleError) throw saleError;
+
+  const { data: details, error: detailsError } = await supabase
+    .from('salesdetail')
+    .select('prodcode, quantity, quoted_price')
+    .eq('transno', transno)
+    .is('deleted_at', null);
+
+  if (detailsError) throw detailsError;
+
+  const payments = await fetchPaymentsForSale(transno);
+  const { total } = await priceSaleLines(details || [], sale?.salesdate);
+  const paid = sumPayments(payments.filter(payment => payment.orno !== excludeOrno));
+  const credited = await fetchCreditedAmount(transno);
+
+  return { total, paid, credited, balance: total - paid - credited };
+};
+
+// Record a new payment against a sale
+export const createPayment = async (data: PaymentFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('payment')
+      .insert({
+        orno: data.orno,
+        paydate: format(data.paydate, 'yyyy-MM-dd'),
+        amount: data.amount,
+        transno: data.transno
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'payment',
+      record_id: data.orno,
+      details: JSON.stringify({ ...data, paydate: format(data.paydate, 'yyyy-MM-dd') })
+    });
+
+    return { success: true, message: "Payment recorded successfully" };
+  } catch (error) {
+    console.error("Error recording payment:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "OR number already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to record payment" };
+  }
+};
+
+// Update an existing payment
+export const updatePayment = async (orno: string, data: Omit<PaymentFormData, 'orno'>): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('payment')
+      .update({
+        paydate: format(data.paydate, 'yyyy-MM-dd'),
+        amount: data.amount,
+        transno: data.transno
+      })
+      .eq('orno', orno);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'payment',
+      record_id: orno,
+      details: JSON.stringify({ ...data, orno, paydate: format(data.paydate, 'yyyy-MM-dd') })
+    });
+
+    return { success: true, message: "Payment updated successfully" };
+  } catch (error) {
+    console.error("Error updating payment:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update payment" };
+  }
+};
+
+// Void a payment. The receipt stays on record but no longer counts towards the sale.
+export const voidPayment = async (orno: string, reason: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('payment')
+      .update({
+        voided_at: new Date().toISOString(),
+        voided_by: userId,
+        void_reason: reason || null
+      })
+      .eq('orno', orno);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'void',
+      table_name: 'payment',
+      record_id: orno,
+      details: JSON.stringify({ orno, voided_by: userId, reason })
+    });
+
+    return { success: true, message: "Payment voided successfully" };
+  } catch (error) {
+    console.error("Error voiding payment:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to void payment" };
+  }
+};
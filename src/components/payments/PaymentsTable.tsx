@@ -0,0 +1,128 @@
+import { Link } from "react-router-dom";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu, DropdownMenuContent,
+  DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Edit, MoreVertical, Ban } from "lucide-react";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { Payment } from "./PaymentService";
+
+interface PaymentsTableProps {
+  payments: Payment[];
+  loading: boolean;
+  showSaleColumns?: boolean;
+  canEditPayment: boolean;
+  canVoidPayment: boolean;
+  onEdit: (payment: Payment) => void;
+  onVoid: (payment: Payment) => void;
+}
+
+export function PaymentsTable({
+  payments,
+  loading,
+  showSaleColumns = true,
+  canEditPayment,
+  canVoidPayment,
+  onEdit,
+  onVoid
+}: PaymentsTableProps) {
+  const columnCount = showSaleColumns ? 7 : 5;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>OR No</TableHead>
+          <TableHead>Date</TableHead>
+          {showSaleColumns && (
+            <>
+              <TableHead>Sale</TableHead>
+              <TableHead>Customer</TableHead>
+            </>
+          )}
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-[100px]">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={columnCount} className="text-center">Loading payments...</TableCell>
+          </TableRow>
+        ) : payments.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={columnCount} className="text-center">No payments found.</TableCell>
+          </TableRow>
+        ) : (
+          payments.map((payment) => (
+            <TableRow key={payment.orno} className={payment.voided_at ? "bg-gray-50 dark:bg-gray-700" : ""}>
+              <TableCell className={payment.voided_at ? "line-through" : ""}>{payment.orno}</TableCell>
+              <TableCell>{formatDate(payment.paydate)}</TableCell>
+              {showSaleColumns && (
+                <>
+                  <TableCell>
+                    {payment.transno ? (
+                      <Link
+                        to={`/dashboard/sales/${payment.transno}`}
+                        className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {payment.transno}
+                      </Link>
+                    ) : (
+                      'N/A'
+                    )}
+                  </TableCell>
+                  <TableCell>{payment.sale?.customer?.custname || payment.sale?.custno || 'N/A'}</TableCell>
+                </>
+              )}
+              <TableCell className="text-right">${Number(payment.amount || 0).toFixed(2)}</TableCell>
+              <TableCell>
+                {payment.voided_at ? (
+                  <Badge variant="destructive" title={payment.void_reason || undefined}>Voided</Badge>
+                ) : (
+                  <Badge className="bg-green-500 text-white">Posted</Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                {!payment.voided_at && (canEditPayment || canVoidPayment) ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreVertical size={16} />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {canEditPayment && (
+                        <DropdownMenuItem onClick={() => onEdit(payment)}>
+                          <Edit className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                      )}
+                      {canVoidPayment && (
+                        <DropdownMenuItem onClick={() => onVoid(payment)} className="text-destructive">
+                          <Ban className="mr-2 h-4 w-4" />
+                          Void
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <Button variant="ghost" size="icon" disabled>
+                    <MoreVertical size={16} />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { PaymentsTable } from "./PaymentsTable";
+import { PaymentDialog } from "./PaymentDialog";
+import { VoidPaymentDialog } from "./VoidPaymentDialog";
+import { Payment, getPaymentStatus } from "./PaymentService";
+import { usePaymentActions } from "./hooks/usePaymentActions";
+import { usePaymentPermissions } from "./hooks/usePaymentPermissions";
+
+interface SalePaymentsProps {
+  transno: string;
+  totalAmount: number;
+  payments: Payment[];
+  amountPaid: number;
+  amountCredited: number;
+  loading: boolean;
+  isSaleDeleted: boolean;
+  onPaymentsChanged: () => void;
+}
+
+export function SalePayments({
+  transno,
+  totalAmount,
+  payments,
+  amountPaid,
+  amountCredited,
+  loading,
+  isSaleDeleted,
+  onPaymentsChanged
+}: SalePaymentsProps) {
+  const { canAddPayment, canEditPayment, canVoidPayment } = usePaymentPermissions();
+  const balance = totalAmount - amountPaid - amountCredited;
+
+  const {
+    selectedPayment,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    voidDialogOpen,
+    setVoidDialogOpen,
+    formDefaults,
+    prepareNewPaymentForm,
+    handleEdit,
+    handleVoidRequest,
+    handleVoid,
+    handleSubmit
+  } = usePaymentActions({
+    canAddPayment,
+    canEditPayment,
+    canVoidPayment,
+    onPaymentsChanged
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex items-center gap-6 text-sm">
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Paid: </span>
+            <span className="font-medium">${amountPaid.toFixed(2)}</span>
+          </div>
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Balance: </span>
+            <span className={`font-medium ${balance < 0 ? "text-yellow-600" : ""}`}>${balance.toFixed(2)}</span>
+          </div>
+          <StatusBadge status={getPaymentStatus(totalAmount, amountPaid, amountCredited)} />
+        </div>
+        {canAddPayment && !isSaleDeleted && (
+          <Button onClick={() => prepareNewPaymentForm(transno, balance)}>
+            <Plus size={16} className="mr-2" /> Record Payment
+          </Button>
+        )}
+      </div>
+
+      <PaymentsTable
+        payments={payments}
+        loading={loading}
+        showSaleColumns={false}
+        canEditPayment={canEditPayment}
+        canVoidPayment={canVoidPayment}
+        onEdit={handleEdit}
+        onVoid={handleVoidRequest}
+      />
+
+      <PaymentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        lockSale
+        onSubmit={handleSubmit}
+      />
+
+      <VoidPaymentDialog
+        open={voidDialogOpen}
+        onOpenChange={setVoidDialogOpen}
+        payment={selectedPayment}
+        onConfirm={handleVoid}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Payment } from "./PaymentService";
+
+interface VoidPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payment: Payment | null;
+  onConfirm: (reason: string) => void;
+}
+
+export function VoidPaymentDialog({
+  open,
+  onOpenChange,
+  payment,
+  onConfirm
+}: VoidPaymentDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Void Payment</DialogTitle>
+          <DialogDescription>
+            OR #{payment?.orno} for ${Number(payment?.amount || 0).toFixed(2)} will no longer count towards sale #{payment?.transno}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="void-reason">Reason</Label>
+          <Textarea
+            id="void-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this payment being voided?"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" variant="destructive" disabled={!reason.trim()} onClick={() => onConfirm(reason.trim())}>
+            Void Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Payment,
+  createPayment,
+  updatePayment,
+  voidPayment
+} from "../PaymentService";
+import { PaymentFormValues } from "../PaymentForm";
+
+interface UsePaymentActionsProps {
+  canAddPayment: boolean;
+  canEditPayment: boolean;
+  canVoidPayment: boolean;
+  onPaymentsChanged: () => void;
+}
+
+export function usePaymentActions({
+  canAddPayment,
+  canEditPayment,
+  canVoidPayment,
+  onPaymentsChanged
+}: UsePaymentActionsProps) {
+  const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [formDefaults, setFormDefaults] = useState<PaymentFormValues>({
+    orno: "",
+    paydate: new Date(),
+    amount: 0,
+    transno: "",
+  });
+
+  const { toast } = useToast();
+
+  const prepareNewPaymentForm = (transno = "", amount = 0) => {
+    if (!canAddPayment) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to record payments.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormDefaults({
+      orno: "",
+      paydate: new Date(),
+      amount: Math.max(amount, 0),
+      transno,
+    });
+    setIsEditing(false);
+    setSelectedPayment(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (payment: Payment) => {
+    if (!canEditPayment) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to edit payments.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedPayment(payment);
+    setIsEditing(true);
+    setFormDefaults({
+      orno: payment.orno,
+      paydate: payment.paydate ? new Date(payment.paydate) : new Date(),
+      amount: Number(payment.amount) || 0,
+      transno: payment.transno || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleVoidRequest = (payment: Payment) => {
+    if (!canVoidPayment) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to void payments.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedPayment(payment);
+    setVoidDialogOpen(true);
+  };
+
+  const handleVoid = async (reason: string) => {
+    if (!selectedPayment) return;
+
+    const result = await voidPayment(selectedPayment.orno, reason);
+
+    if (result.success) {
+      toast({
+        title: "Payment Voided",
+        description: `OR #${selectedPayment.orno} has been voided.`,
+      });
+      setVoidDialogOpen(false);
+      onPaymentsChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (values: PaymentFormValues) => {
+    const result = isEditing && selectedPayment
+      ? await updatePayment(selectedPayment.orno, {
+          paydate: values.paydate,
+          amount: values.amount,
+          transno: values.transno,
+        })
+      : await createPayment({
+          orno: values.orno,
+          paydate: values.paydate,
+          amount: values.amount,
+          transno: values.transno,
+        });
+
+    if (result.success) {
+      toast({
+        title: isEditing ? "Payment Updated" : "Payment Recorded",
+        description: `OR #${values.orno} for sale #${values.transno} has been saved.`,
+      });
+      setDialogOpen(false);
+      onPaymentsChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    selectedPayment,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    voidDialogOpen,
+    setVoidDialogOpen,
+    formDefaults,
+    prepareNewPaymentForm,
+    handleEdit,
+    handleVoidRequest,
+    handleVoid,
+    handleSubmit
+  };
+}
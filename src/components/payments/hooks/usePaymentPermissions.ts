@@ -0,0 +1,15 @@
+import { useAuth } from "@/contexts/AuthContext";
+
+export function usePaymentPermissions() {
+  const { can } = useAuth();
+
+  const canAddPayment = can('payments', 'create');
+  const canEditPayment = can('payments', 'edit');
+  const canVoidPayment = can('payments', 'void');
+
+  return {
+    canAddPayment,
+    canEditPayment,
+    canVoidPayment
+  };
+}
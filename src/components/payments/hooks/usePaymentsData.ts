@@ -0,0 +1,64 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Payment, fetchPayments } from "../PaymentService";
+import { PaymentSaleOption } from "../PaymentForm";
+
+export function usePaymentsData(showVoided: boolean) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [saleOptions, setSaleOptions] = useState<PaymentSaleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPaymentsData();
+  }, [showVoided]);
+
+  useEffect(() => {
+    loadSaleOptions();
+  }, []);
+
+  const loadPaymentsData = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchPayments(showVoided);
+      setPayments(data);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch payments data.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Active sales that a payment can be recorded against
+  const loadSaleOptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select('transno, customer:custno(custname)')
+        .is('deleted_at', null)
+        .order('transno', { ascending: false });
+
+      if (error) throw error;
+
+      setSaleOptions((data || []).map(sale => ({
+        transno: sale.transno,
+        label: sale.customer?.custname ? `${sale.transno} - ${sale.customer.custname}` : sale.transno
+      })));
+    } catch (error) {
+      console.error('Error fetching sales for payments:', error);
+    }
+  };
+
+  return {
+    payments,
+    saleOptions,
+    loading,
+    loadPaymentsData
+  };
+}
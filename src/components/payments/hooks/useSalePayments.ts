@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Payment, fetchPaymentsForSale, sumPayments } from "../PaymentService";
+
+export function useSalePayments(transno: string | undefined) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPayments();
+  }, [transno]);
+
+  const loadPayments = async () => {
+    if (!transno) return;
+
+    setLoading(true);
+    try {
+      const data = await fetchPaymentsForSale(transno);
+      setPayments(data);
+    } catch (error) {
+      console.error('Error fetching sale payments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch payments for this sale.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    payments,
+    amountPaid: sumPayments(payments),
+    loading,
+    loadPayments
+  };
+}
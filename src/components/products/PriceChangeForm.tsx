@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CalendarIcon } from "lucide-react";
+import { OpenSale, PriceChange, countAffectedSales } from "./ProductService";
+
+export const priceChangeFormSchema = z.object({
+  effdate: z.date({ required_error: "Effective date is required" }),
+  unitprice: z.coerce.number().positive("Unit price must be greater than zero"),
+});
+
+export type PriceChangeFormValues = z.infer<typeof priceChangeFormSchema>;
+
+interface PriceChangeFormProps {
+  defaultValues: PriceChangeFormValues;
+  priceChanges: PriceChange[];
+  openSales: OpenSale[];
+  isEditing: boolean;
+  onSubmit: (values: PriceChangeFormValues) => void;
+  onCancel: () => void;
+}
+
+export function PriceChangeForm({
+  defaultValues,
+  priceChanges,
+  openSales,
+  isEditing,
+  onSubmit,
+  onCancel
+}: PriceChangeFormProps) {
+  const form = useForm<PriceChangeFormValues>({
+    resolver: zodResolver(priceChangeFormSchema),
+    defaultValues,
+  });
+
+  const effdate = form.watch("effdate");
+  const effdateKey = effdate ? format(effdate, 'yyyy-MM-dd') : null;
+  const replacesExisting = !isEditing && !!effdateKey && priceChanges.some(change => change.effdate === effdateKey);
+  const affectedCount = effdateKey ? countAffectedSales(openSales, priceChanges, effdateKey) : 0;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="effdate"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Effective Date</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant={"outline"}
+                      disabled={isEditing}
+                      className={`w-full pl-3 text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                    >
+                      {field.value ? (
+                        format(field.value, "PPP")
+                      ) : (
+                        <span>Pick a date</span>
+                      )}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value || undefined}
+                    onSelect={field.onChange}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="unitprice"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Unit Price</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {replacesExisting && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>A price is already set for this date and will be replaced.</AlertDescription>
+          </Alert>
+        )}
+
+        {effdateKey && (
+          <Alert variant={affectedCount > 0 ? "destructive" : "default"}>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {affectedCount === 0
+                ? "No open sales will be affected by this price."
+                : `${affectedCount} open ${affectedCount === 1 ? 'sale' : 'sales'} will be re-priced by this change.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Save Price'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { PriceChangeForm, PriceChangeFormValues } from "./PriceChangeForm";
+import {
+  OpenSale,
+  PriceChange,
+  countAffectedSales,
+  deletePriceChange,
+  getPriceChangeStatus,
+  savePriceChange
+} from "./ProductService";
+
+interface PriceHistoryEditorProps {
+  prodcode: string;
+  priceChanges: PriceChange[];
+  openSales: OpenSale[];
+  loading: boolean;
+  canEditPrices: boolean;
+  onPricesChanged: () => void;
+}
+
+const renderStatus = (status: ReturnType<typeof getPriceChangeStatus>) => {
+  switch (status) {
+    case 'Scheduled':
+      return <Badge className="bg-blue-500 text-white">Scheduled</Badge>;
+    case 'Current':
+      return <Badge className="bg-green-500 text-white">Current</Badge>;
+    default:
+      return <Badge variant="outline">Past</Badge>;
+  }
+};
+
+export function PriceHistoryEditor({
+  prodcode,
+  priceChanges,
+  openSales,
+  loading,
+  canEditPrices,
+  onPricesChanged
+}: PriceHistoryEditorProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [removeTarget, setRemoveTarget] = useState<PriceChange | null>(null);
+  const [editingChange, setEditingChange] = useState<PriceChange | null>(null);
+  const [formDefaults, setFormDefaults] = useState<PriceChangeFormValues>({
+    effdate: new Date(),
+    unitprice: 0,
+  });
+  const { toast } = useToast();
+
+  const openNewPriceForm = () => {
+    const latest = priceChanges[0];
+    setEditingChange(null);
+    setFormDefaults({
+      effdate: new Date(),
+      unitprice: Number(latest?.unitprice) || 0,
+    });
+    setDialogOpen(true);
+  };
+
+  const openEditPriceForm = (change: PriceChange) => {
+    setEditingChange(change);
+    setFormDefaults({
+      effdate: new Date(`${change.effdate}T00:00:00`),
+      unitprice: Number(change.unitprice) || 0,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: PriceChangeFormValues) => {
+    const result = await savePriceChange(prodcode, {
+      effdate: values.effdate,
+      unitprice: values.unitprice,
+    }, !!editingChange);
+
+    if (result.success) {
+      toast({
+        title: editingChange ? "Price Updated" : "Price Saved",
+        description: result.message,
+      });
+      setDialogOpen(false);
+      onPricesChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget) return;
+
+    const result = await deletePriceChange(prodcode, removeTarget.effdate);
+
+    if (result.success) {
+      toast({
+        title: "Price Removed",
+        description: `The price effective ${formatDate(removeTarget.effdate)} has been removed.`,
+      });
+      onPricesChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+    setRemoveTarget(null);
+  };
+
+  // Percentage change against the previous (older) entry on the timeline
+  const getPercentChange = (index: number): string | null => {
+    const previous = priceChanges[index + 1];
+    const current = priceChanges[index];
+    if (!previous || !previous.unitprice || current.unitprice === null) return null;
+
+    const change = ((current.unitprice - previous.unitprice) / previous.unitprice) * 100;
+    return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+  };
+
+  const columnCount = canEditPrices ? 6 : 5;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {openSales.length} open {openSales.length === 1 ? 'sale uses' : 'sales use'} this product.
+        </p>
+        {canEditPrices && (
+          <Button onClick={openNewPriceForm}>
+            <Plus size={16} className="mr-2" /> Schedule Price
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Effective Date</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Unit Price</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+            <TableHead className="text-right">Open Sales Affected</TableHead>
+            {canEditPrices && <TableHead className="w-[100px]">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center">Loading price history...</TableCell>
+            </TableRow>
+          ) : priceChanges.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center">No prices have been set for this product.</TableCell>
+            </TableRow>
+          ) : (
+            priceChanges.map((change, index) => (
+              <TableRow key={change.effdate}>
+                <TableCell>{formatDate(change.effdate)}</TableCell>
+                <TableCell>{renderStatus(getPriceChangeStatus(change, priceChanges))}</TableCell>
+                <TableCell className="text-right">${Number(change.unitprice || 0).toFixed(2)}</TableCell>
+                <TableCell className="text-right">{getPercentChange(index) || '—'}</TableCell>
+                <TableCell className="text-right">{countAffectedSales(openSales, priceChanges, change.effdate)}</TableCell>
+                {canEditPrices && (
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditPriceForm(change)}>
+                        <Edit size={16} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setRemoveTarget(change)}>
+                        <Trash2 size={16} className="text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingChange ? 'Edit Price' : 'Schedule Price'}</DialogTitle>
+            <DialogDescription>
+              Sales dated on or after the effective date use this price until the next change.
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialogOpen && (
+            <PriceChangeForm
+              defaultValues={formDefaults}
+              priceChanges={priceChanges}
+              openSales={openSales}
+              isEditing={!!editingChange}
+              onSubmit={handleSubmit}
+              onCancel={() => setDialogOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removeTarget} onOpenChange={(open) => !open && setRemoveTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Price</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removeTarget && (
+                <>
+                  Remove the price effective {formatDate(removeTarget.effdate)}?{' '}
+                  {countAffectedSales(openSales, priceChanges, removeTarget.effdate)} open sales currently use it
+                  and will fall back to the previous price.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
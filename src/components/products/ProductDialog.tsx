@@ -0,0 +1,40 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ProductForm, ProductFormValues } from "./ProductForm";
+
+interface ProductDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isEditing: boolean;
+  formDefaults: ProductFormValues;
+  onSubmit: (values: ProductFormValues) => void;
+}
+
+export function ProductDialog({
+  open,
+  onOpenChange,
+  isEditing,
+  formDefaults,
+  onSubmit
+}: ProductDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Product' : 'Add Product'}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? 'Update the product details below.' : 'Enter the details of the new product.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <ProductForm
+            defaultValues={formDefaults}
+            isEditing={isEditing}
+            onSubmit={onSubmit}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
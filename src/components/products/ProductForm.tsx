@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+
+export const productFormSchema = z.object({
+  prodcode: z.string().min(1, "Product code is required").max(10, "Product code must be 10 characters or less"),
+  description: z.string().min(1, "Description is required").max(30, "Description must be 30 characters or less"),
+  unit: z.string().min(1, "Unit is required").max(5, "Unit must be 5 characters or less"),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+interface ProductFormProps {
+  defaultValues: ProductFormValues;
+  onSubmit: (values: ProductFormValues) => void;
+  onCancel: () => void;
+  isEditing: boolean;
+}
+
+export function ProductForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  isEditing
+}: ProductFormProps) {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues,
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="prodcode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Product Code</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={10} disabled={isEditing} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={30} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="unit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Unit</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={5} placeholder="e.g. pc, box, kg" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Add Product'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
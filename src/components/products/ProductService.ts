@@ -0,0 +1,408 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { toPriceDate } from "@/components/sales/PricingService";
+
+export interface Product {
+  prodcode: string;
+  description: string | null;
+  unit: string | null;
+  deleted_at: string | null;
+  deleted_by?: string | null;
+  modified_at?: string | null;
+  modified_by?: string | null;
+  created_at?: string | null;
+  created_by?: string | null;
+  action?: string; // Used to track restore action
+}
+
+export interface ProductFormData {
+  prodcode: string;
+  description: string;
+  unit: string;
+}
+
+export interface PriceChange {
+  prodcode: string;
+  effdate: string;
+  unitprice: number | null;
+  created_at: string | null;
+  created_by: string | null;
+  modified_at: string | null;
+  modified_by: string | null;
+}
+
+export interface PriceChangeFormData {
+  effdate: Date;
+  unitprice: number;
+}
+
+export interface OpenSale {
+  transno: string;
+  salesdate: string | null;
+}
+
+// Function to get product status based on record attributes
+export const getProductStatus = (product: Product): 'Added' | 'Edited' | 'Deleted' | 'Restored' => {
+  if (product.action === 'restore') {
+    return 'Restored';
+  }
+
+  if (product.deleted_at) {
+    return 'Deleted';
+  }
+
+  if (product.modified_at && product.modified_by) {
+    return 'Edited';
+  }
+
+  return 'Added';
+};
+
+// Where a price change sits on the timeline relative to today
+export const getPriceChangeStatus = (
+  change: PriceChange,
+  history: PriceChange[]
+): 'Scheduled' | 'Current' | 'Past' => {
+  const today = toPriceDate(new Date());
+
+  if (change.effdate > today) {
+    return 'Scheduled';
+  }
+
+  const current = history
+    .filter(entry => entry.effdate <= today)
+    .reduce<PriceChange | null>((latest, entry) => (!latest || entry.effdate > latest.effdate ? entry : latest), null);
+
+  return current?.effdate === change.effdate ? 'Current' : 'Past';
+};
+
+// Fetch all active products
+export const fetchProducts = async (): Promise<Product[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product')
+      .select('*')
+      .is('deleted_at', null)
+      .order('prodcode', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    throw error;
+  }
+};
+
+// Fetch all deleted products
+export const fetchDeletedProducts = async (): Promise<Product[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('prodcode', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching deleted products:', error);
+    throw error;
+  }
+};
+
+// Fetch a single product
+export const fetchProduct = async (prodcode: string): Promise<Product | null> => {
+  const { data, error } = await supabase
+    .from('product')
+    .select('*')
+    .eq('prodcode', prodcode)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Add a new product to the database
+export const createProduct = async (data: ProductFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('product')
+      .insert({
+        prodcode: data.prodcode,
+        description: data.description,
+        unit: data.unit,
+        created_by: userId,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'product',
+      record_id: data.prodcode,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Product added successfully" };
+  } catch (error) {
+    console.error("Error adding product:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "Product code already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add product" };
+  }
+};
+
+// Update an existing product
+export const updateProduct = async (prodcode: string, data: Partial<ProductFormData>): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('product')
+      .update({
+        description: data.description,
+        unit: data.unit,
+        modified_by: userId,
+        modified_at: new Date().toISOString()
+      })
+      .eq('prodcode', prodcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'product',
+      record_id: prodcode,
+      details: JSON.stringify({ prodcode, ...data })
+    });
+
+    return { success: true, message: "Product updated successfully" };
+  } catch (error) {
+    console.error("Error updating product:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update product" };
+  }
+};
+
+// Delete a product
+export const deleteProduct = async (prodcode: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('product')
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: userId
+      })
+      .eq('prodcode', prodcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'product',
+      record_id: prodcode,
+      details: JSON.stringify({ prodcode, deleted_by: userId })
+    });
+
+    return { success: true, message: "Product deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete product" };
+  }
+};
+
+// Restore a deleted product
+export const restoreProduct = async (prodcode: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('product')
+      .update({
+        deleted_at: null,
+        deleted_by: null,
+        modified_at: new Date().toISOString(),
+        modified_by: userId
+      })
+      .eq('prodcode', prodcode);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'restore',
+      table_name: 'product',
+      record_id: prodcode,
+      details: JSON.stringify({ prodcode, restored_by: userId })
+    });
+
+    return { success: true, message: "Product restored successfully" };
+  } catch (error) {
+    console.error("Error restoring product:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to restore product" };
+  }
+};
+
+// Fetch the price timeline of a product, newest first
+export const fetchProductPriceChanges = async (prodcode: string): Promise<PriceChange[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('pricehist')
+      .select('prodcode, effdate, unitprice, created_at, created_by, modified_at, modified_by')
+      .eq('prodcode', prodcode)
+      .is('deleted_at', null)
+      .order('effdate', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching price changes:', error);
+    throw error;
+  }
+};
+
+// Add or reschedule a price change. A previously removed change on the same date is brought back.
+export const savePriceChange = async (
+  prodcode: string,
+  data: PriceChangeFormData,
+  isEditing: boolean
+): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+    const effdate = format(data.effdate, 'yyyy-MM-dd');
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('pricehist')
+      .upsert({
+        prodcode,
+        effdate,
+        unitprice: data.unitprice,
+        deleted_at: null,
+        deleted_by: null,
+        ...(isEditing
+          ? { modified_at: now, modified_by: userId }
+          : { created_at: now, created_by: userId })
+      }, { onConflict: 'prodcode,effdate' });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: isEditing ? 'update' : 'insert',
+      table_name: 'pricehist',
+      record_id: `${prodcode}:${effdate}`,
+      details: JSON.stringify({ prodcode, effdate, unitprice: data.unitprice })
+    });
+
+    return { success: true, message: "Price change saved successfully" };
+  } catch (error) {
+    console.error("Error saving price change:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to save price change" };
+  }
+};
+
+// Remove a price change from the timeline
+export const deletePriceChange = async (prodcode: string, effdate: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('pricehist')
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: userId
+      })
+      .eq('prodcode', prodcode)
+      .eq('effdate', effdate);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'pricehist',
+      record_id: `${prodcode}:${effdate}`,
+      details: JSON.stringify({ prodcode, effdate, deleted_by: userId })
+    });
+
+    return { success: true, message: "Price change removed successfully" };
+  } catch (error) {
+    console.error("Error removing price change:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to remove price change" };
+  }
+};
+
+// Fetch the sales of a product that still have an outstanding balance
+export const fetchOpenSalesForProduct = async (prodcode: string): Promise<OpenSale[]> => {
+  const { data: lines, error: linesError } = await supabase
+    .from('salesdetail')
+    .select('transno')
+    .eq('prodcode', prodcode)
+    .is('deleted_at', null);
+
+  if (linesError) throw linesError;
+
+  const transnos = Array.from(new Set((lines || []).map(line => line.transno)));
+  if (transnos.length === 0) return [];
+
+  const { data: sales, error: salesError } = await supabase
+    .from('sales_summary')
+    .select('transno, salesdate, total_amount, amount_paid')
+    .in('transno', transnos)
+    .is('deleted_at', null);
+
+  if (salesError) throw salesError;
+
+  return (sales || [])
+    .filter(sale => Number(sale.amount_paid) < Number(sale.total_amount))
+    .map(sale => ({ transno: sale.transno || '', salesdate: sale.salesdate }));
+};
+
+// Count the open sales whose price would come from a change effective on the given date,
+// i.e. sales dated on or after it and before the next change on the timeline
+export const countAffectedSales = (
+  openSales: OpenSale[],
+  history: PriceChange[],
+  effdate: string
+): number => {
+  const nextChange = history
+    .filter(entry => entry.effdate > effdate)
+    .reduce<string | null>((next, entry) => (!next || entry.effdate < next ? entry.effdate : next), null);
+
+  return openSales.filter(sale => {
+    const saleDate = toPriceDate(sale.salesdate);
+    return saleDate >= effdate && (!nextChange || saleDate < nextChange);
+  }).length;
+};
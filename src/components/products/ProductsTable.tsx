@@ -0,0 +1,120 @@
+import { Link } from "react-router-dom";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu, DropdownMenuContent,
+  DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Edit, MoreVertical, RotateCcw, Trash2 } from "lucide-react";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { Product, getProductStatus } from "./ProductService";
+
+interface ProductsTableProps {
+  products: Product[];
+  loading: boolean;
+  showDeleted: boolean;
+  canEditProduct: boolean;
+  canDeleteProduct: boolean;
+  onEdit: (product: Product) => void;
+  onDelete: (product: Product) => void;
+  onRestore: (product: Product) => void;
+}
+
+export function ProductsTable({
+  products,
+  loading,
+  showDeleted,
+  canEditProduct,
+  canDeleteProduct,
+  onEdit,
+  onDelete,
+  onRestore
+}: ProductsTableProps) {
+  const hasActions = showDeleted ? canDeleteProduct : canEditProduct || canDeleteProduct;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Product Code</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead>Unit</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-[100px]">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center">Loading products...</TableCell>
+          </TableRow>
+        ) : products.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center">
+              {showDeleted ? "No deleted products found." : "No products found."}
+            </TableCell>
+          </TableRow>
+        ) : (
+          products.map((product) => (
+            <TableRow key={product.prodcode} className={product.deleted_at ? "bg-gray-50 dark:bg-gray-700" : ""}>
+              <TableCell>
+                <Link
+                  to={`/dashboard/products/${product.prodcode}`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {product.prodcode}
+                </Link>
+              </TableCell>
+              <TableCell>{product.description || 'N/A'}</TableCell>
+              <TableCell>{product.unit || 'N/A'}</TableCell>
+              <TableCell>
+                <StatusBadge status={getProductStatus(product)} />
+              </TableCell>
+              <TableCell>
+                {hasActions ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreVertical size={16} />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {showDeleted ? (
+                        <DropdownMenuItem onClick={() => onRestore(product)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore
+                        </DropdownMenuItem>
+                      ) : (
+                        <>
+                          {canEditProduct && (
+                            <DropdownMenuItem onClick={() => onEdit(product)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          {canDeleteProduct && (
+                            <DropdownMenuItem onClick={() => onDelete(product)} className="text-destructive">
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <Button variant="ghost" size="icon" disabled>
+                    <MoreVertical size={16} />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PriceChange,
+  OpenSale,
+  fetchProductPriceChanges,
+  fetchOpenSalesForProduct
+} from "../ProductService";
+
+export function usePriceHistory(prodcode: string | undefined) {
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  const [openSales, setOpenSales] = useState<OpenSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (prodcode) {
+      loadPriceHistory();
+    }
+  }, [prodcode]);
+
+  const loadPriceHistory = async () => {
+    if (!prodcode) return;
+
+    setLoading(true);
+    try {
+      const [changes, sales] = await Promise.all([
+        fetchProductPriceChanges(prodcode),
+        fetchOpenSalesForProduct(prodcode)
+      ]);
+      setPriceChanges(changes);
+      setOpenSales(sales);
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch price history.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    priceChanges,
+    openSales,
+    loading,
+    loadPriceHistory
+  };
+}
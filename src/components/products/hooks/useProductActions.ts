@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Product,
+  createProduct,
+  updateProduct,
+  deleteProduct,
+  restoreProduct
+} from "../ProductService";
+import { ProductFormValues } from "../ProductForm";
+
+interface UseProductActionsProps {
+  canAddProduct: boolean;
+  canEditProduct: boolean;
+  canDeleteProduct: boolean;
+  onProductsChanged: () => void;
+}
+
+export function useProductActions({
+  canAddProduct,
+  canEditProduct,
+  canDeleteProduct,
+  onProductsChanged
+}: UseProductActionsProps) {
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formDefaults, setFormDefaults] = useState<ProductFormValues>({
+    prodcode: "",
+    description: "",
+    unit: "",
+  });
+
+  const { toast } = useToast();
+
+  const prepareNewProductForm = () => {
+    if (!canAddProduct) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to add products.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormDefaults({
+      prodcode: "",
+      description: "",
+      unit: "",
+    });
+    setIsEditing(false);
+    setSelectedProduct(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (product: Product) => {
+    if (!canEditProduct) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to edit products.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedProduct(product);
+    setIsEditing(true);
+    setFormDefaults({
+      prodcode: product.prodcode,
+      description: product.description || "",
+      unit: product.unit || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!canDeleteProduct) {
+      toast({
+        title: "Permission Denied",
+        description: "You don't have permission to delete products.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = await deleteProduct(product.prodcode);
+
+    if (result.success) {
+      toast({
+        title: "Product Deleted",
+        description: `${product.prodcode} has been moved to deleted items.`,
+      });
+      onProductsChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async (product: Product) => {
+    const result = await restoreProduct(product.prodcode);
+
+    if (result.success) {
+      toast({
+        title: "Product Restored",
+        description: `${product.prodcode} has been restored.`,
+      });
+      onProductsChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    const result = isEditing && selectedProduct
+      ? await updateProduct(selectedProduct.prodcode, {
+          description: values.description,
+          unit: values.unit,
+        })
+      : await createProduct({
+          prodcode: values.prodcode,
+          description: values.description,
+          unit: values.unit,
+        });
+
+    if (result.success) {
+      toast({
+        title: isEditing ? "Product Updated" : "Product Added",
+        description: `${values.prodcode} has been saved.`,
+      });
+      setDialogOpen(false);
+      onProductsChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    selectedProduct,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    formDefaults,
+    prepareNewProductForm,
+    handleEdit,
+    handleDelete,
+    handleRestore,
+    handleSubmit
+  };
+}
@@ -0,0 +1,13 @@
+import { useAuth } from "@/contexts/AuthContext";
+
+// Prices are a permission of their own because they drive every sale's pricing
+export function useProductPermissions() {
+  const { can } = useAuth();
+
+  return {
+    canAddProduct: can('products', 'create'),
+    canEditProduct: can('products', 'edit'),
+    canDeleteProduct: can('products', 'delete'),
+    canEditPrices: can('prices', 'edit')
+  };
+}
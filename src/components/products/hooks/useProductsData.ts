@@ -0,0 +1,36 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Product, fetchProducts, fetchDeletedProducts } from "../ProductService";
+
+export function useProductsData(showDeleted: boolean) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadProductsData();
+  }, [showDeleted]);
+
+  const loadProductsData = async () => {
+    setLoading(true);
+    try {
+      const data = showDeleted ? await fetchDeletedProducts() : await fetchProducts();
+      setProducts(data);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch products data.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    products,
+    loading,
+    loadProductsData
+  };
+}
@@ -0,0 +1,240 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { CreditHold, SaleFieldError, SaleHeaderInput, SaleLineInput } from "@/components/sales/SaleService";
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'expired' | 'rejected';
+
+export const QUOTE_STATUSES: { value: QuoteStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+// A row of quote_summary; status already reads 'expired' once a quote is past its validity
+export interface QuoteSummary {
+  quoteno: string;
+  quotedate: string;
+  valid_until: string;
+  custno: string | null;
+  custname: string | null;
+  empno: string | null;
+  employee_firstname: string | null;
+  employee_lastname: string | null;
+  status: QuoteStatus;
+  transno: string | null;
+  converted_at: string | null;
+  total_amount: number;
+  line_count: number;
+}
+
+export interface QuoteLine {
+  prodcode: string;
+  quantity: number;
+  unitprice: number;
+  subtotal: number;
+  product?: {
+    prodcode: string;
+    description: string | null;
+    unit: string | null;
+  } | null;
+}
+
+export interface Quote extends QuoteSummary {
+  lines: QuoteLine[];
+}
+
+export interface QuoteHeaderInput extends SaleHeaderInput {
+  valid_until: Date | null;
+}
+
+interface SaveQuoteResponse {
+  success: boolean;
+  quoteno: string | null;
+  errors: SaleFieldError[];
+}
+
+interface ConvertQuoteResponse {
+  success: boolean;
+  message: string;
+  transno?: string;
+  credit_hold?: CreditHold;
+}
+
+// Only quotes that are still open can be edited or converted
+export const isQuoteOpen = (quote: Pick<QuoteSummary, 'status' | 'transno'>): boolean => {
+  return !quote.transno && (quote.status === 'draft' || quote.status === 'sent');
+};
+
+type QuoteSummaryRow = Database['public']['Views']['quote_summary']['Row'];
+
+const toQuoteSummary = (row: QuoteSummaryRow): QuoteSummary => ({
+  quoteno: row.quoteno || '',
+  quotedate: row.quotedate || '',
+  valid_until: row.valid_until || '',
+  custno: row.custno,
+  custname: row.custname,
+  empno: row.empno,
+  employee_firstname: row.employee_firstname,
+  employee_lastname: row.employee_lastname,
+  status: (row.status || 'draft') as QuoteStatus,
+  transno: row.transno,
+  converted_at: row.converted_at,
+  total_amount: Number(row.total_amount) || 0,
+  line_count: Number(row.line_count) || 0,
+});
+
+// Fetch quotes newest first, optionally limited to one (effective) status
+export const fetchQuotes = async (status = 'all'): Promise<QuoteSummary[]> => {
+  let query = supabase
+    .from('quote_summary')
+    .select('*')
+    .order('quotedate', { ascending: false })
+    .order('quoteno', { ascending: false });
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(toQuoteSummary);
+};
+
+// Fetch a quote with its lines at the prices stored on the quote
+export const fetchQuote = async (quoteno: string): Promise<Quote | null> => {
+  const { data: summary, error: summaryError } = await supabase
+    .from('quote_summary')
+    .select('*')
+    .eq('quoteno', quoteno)
+    .maybeSingle();
+
+  if (summaryError) throw summaryError;
+  if (!summary) return null;
+
+  const { data: lines, error: linesError } = await supabase
+    .from('quote_line')
+    .select('prodcode, quantity, unitprice, product:prodcode (prodcode, description, unit)')
+    .eq('quoteno', quoteno)
+    .order('prodcode', { ascending: true });
+
+  if (linesError) throw linesError;
+
+  return {
+    ...toQuoteSummary(summary),
+    lines: (lines || []).map(line => ({
+      ...line,
+      quantity: Number(line.quantity),
+      unitprice: Number(line.unitprice),
+      subtotal: Number(line.quantity) * Number(line.unitprice)
+    }))
+  };
+};
+
+// Save a quote through the save_quote RPC, which stores the prices in effect on the quote
+// date. Validation errors come back keyed by form field path like those of save_sale.
+export const saveQuote = async (
+  quote: QuoteHeaderInput,
+  lines: SaleLineInput[],
+  isNew: boolean
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[] }> => {
+  try {
+    const { data, error } = await supabase.rpc('save_quote', {
+      quote: {
+        quoteno: quote.transno,
+        quotedate: quote.salesdate ? format(quote.salesdate, 'yyyy-MM-dd') : null,
+        valid_until: quote.valid_until ? format(quote.valid_until, 'yyyy-MM-dd') : null,
+        custno: quote.custno,
+        empno: quote.empno
+      },
+      lines: lines.map(line => ({ prodcode: line.prodcode, quantity: line.quantity })),
+      is_new: isNew
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as SaveQuoteResponse;
+
+    if (!result.success) {
+      return { success: false, message: "Please correct the highlighted fields.", errors: result.errors || [] };
+    }
+
+    return {
+      success: true,
+      message: isNew
+        ? `Quote #${result.quoteno} has been created successfully.`
+        : `Quote #${result.quoteno} has been updated successfully.`,
+      errors: []
+    };
+  } catch (error) {
+    console.error("Error saving quote:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to save quote.", errors: [] };
+  }
+};
+
+// Mark a quote as sent or rejected (or back to draft)
+export const updateQuoteStatus = async (
+  quoteno: string,
+  status: Extract<QuoteStatus, 'draft' | 'sent' | 'rejected'>
+): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+
+    const { error } = await supabase
+      .from('quote')
+      .update({
+        status,
+        modified_at: new Date().toISOString(),
+        modified_by: currentUser?.id || null
+      })
+      .eq('quoteno', quoteno);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'quote',
+      record_id: quoteno,
+      details: JSON.stringify({ quoteno, status })
+    });
+
+    return { success: true, message: `Quote #${quoteno} is now ${status}.` };
+  } catch (error) {
+    console.error("Error updating quote status:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update quote status" };
+  }
+};
+
+// Book a quote as a new sale at its quoted prices; the conversion is logged by the database
+export const convertQuoteToSale = async (
+  quoteno: string,
+  creditOverrideReason?: string
+): Promise<{ success: boolean; message: string; transno: string | null; creditHold?: CreditHold }> => {
+  try {
+    const { data, error } = await supabase.rpc('convert_quote_to_sale', {
+      quoteno,
+      credit_override_reason: creditOverrideReason
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as ConvertQuoteResponse;
+    return {
+      success: result.success,
+      message: result.message,
+      transno: result.transno || null,
+      creditHold: result.credit_hold || undefined
+    };
+  } catch (error) {
+    console.error("Error converting quote:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to convert quote to a sale.", transno: null };
+  }
+};
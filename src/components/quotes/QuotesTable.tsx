@@ -0,0 +1,72 @@
+import { Link } from "react-router-dom";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { QuoteSummary } from "./QuoteService";
+
+interface QuotesTableProps {
+  quotes: QuoteSummary[];
+  loading: boolean;
+}
+
+const linkClassName = "text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+export function QuotesTable({ quotes, loading }: QuotesTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Quote No</TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead>Valid Until</TableHead>
+          <TableHead>Customer</TableHead>
+          <TableHead>Salesperson</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Sale</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center">Loading quotes...</TableCell>
+          </TableRow>
+        ) : quotes.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center">No quotes found.</TableCell>
+          </TableRow>
+        ) : (
+          quotes.map((quote) => (
+            <TableRow key={quote.quoteno}>
+              <TableCell>
+                <Link to={`/dashboard/quotes/${quote.quoteno}`} className={linkClassName}>
+                  {quote.quoteno}
+                </Link>
+              </TableCell>
+              <TableCell>{formatDate(quote.quotedate)}</TableCell>
+              <TableCell>{formatDate(quote.valid_until)}</TableCell>
+              <TableCell>{quote.custname || quote.custno || 'N/A'}</TableCell>
+              <TableCell>
+                {[quote.employee_firstname, quote.employee_lastname].filter(Boolean).join(' ') || 'N/A'}
+              </TableCell>
+              <TableCell className="text-right">${quote.total_amount.toFixed(2)}</TableCell>
+              <TableCell><StatusBadge status={quote.status} /></TableCell>
+              <TableCell>
+                {quote.transno ? (
+                  <Link to={`/dashboard/sales/${quote.transno}`} className={linkClassName}>
+                    {quote.transno}
+                  </Link>
+                ) : (
+                  '—'
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Quote, fetchQuote } from "../QuoteService";
+
+export function useQuoteDetails(quoteno: string | undefined) {
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadQuote();
+  }, [quoteno]);
+
+  const loadQuote = async () => {
+    if (!quoteno) return;
+
+    setLoading(true);
+    try {
+      setQuote(await fetchQuote(quoteno));
+    } catch (error) {
+      console.error('Error fetching quote:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch quote details.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    quote,
+    loading,
+    loadQuote
+  };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Customer, Employee } from "@/components/sales/types";
+
+// Customers and salespeople that a quote can be made out to
+export function useQuoteFormOptions() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  const loadOptions = async () => {
+    try {
+      const [customerResult, employeeResult] = await Promise.all([
+        supabase
+          .from('customer')
+          .select('custno, custname, address, payterm')
+          .is('deleted_at', null)
+          .order('custname', { ascending: true }),
+        // Separated employees (sepdate set) can no longer be picked as salesperson
+        supabase
+          .from('employee')
+          .select('empno, firstname, lastname')
+          .is('sepdate', null)
+      ]);
+
+      if (customerResult.error) throw customerResult.error;
+      if (employeeResult.error) throw employeeResult.error;
+
+      setCustomers((customerResult.data || []).map(customer => ({
+        custno: customer.custno,
+        custname: customer.custname,
+        address: customer.address || null,
+        payterm: customer.payterm || null
+      })));
+
+      setEmployees((employeeResult.data || []).map(emp => ({
+        empno: emp.empno,
+        firstname: emp.firstname || null,
+        lastname: emp.lastname || null,
+        empname: emp.firstname && emp.lastname ? `${emp.firstname} ${emp.lastname}` : null,
+        position: null
+      })));
+    } catch (error) {
+      console.error('Error fetching quote form options:', error);
+    }
+  };
+
+  return {
+    customers,
+    employees
+  };
+}
@@ -0,0 +1,15 @@
+import { useAuth } from "@/contexts/AuthContext";
+
+export function useQuotePermissions() {
+  const { can } = useAuth();
+
+  const canAddQuote = can('quotes', 'create');
+  const canEditQuote = can('quotes', 'edit');
+  const canConvertQuote = can('quotes', 'convert');
+
+  return {
+    canAddQuote,
+    canEditQuote,
+    canConvertQuote
+  };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { QuoteSummary, fetchQuotes } from "../QuoteService";
+
+export function useQuotes(status: string) {
+  const [quotes, setQuotes] = useState<QuoteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadQuotes();
+  }, [status]);
+
+  const loadQuotes = async () => {
+    setLoading(true);
+    try {
+      setQuotes(await fetchQuotes(status));
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch quotes.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    quotes,
+    loading,
+    loadQuotes
+  };
+}
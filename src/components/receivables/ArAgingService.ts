@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export interface CustomerAging {
+  custno: string;
+  custname: string | null;
+  payterm: string | null;
+  openInvoices: number;
+  buckets: Record<AgingBucket, number>;
+  totalBalance: number;
+  oldestDaysPastDue: number;
+}
+
+export interface OpenInvoice {
+  transno: string;
+  custno: string | null;
+  salesdate: string | null;
+  due_date: string | null;
+  total_amount: number;
+  amount_paid: number;
+  balance: number;
+  days_past_due: number;
+  aging_bucket: AgingBucket;
+}
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1-30', label: '1–30 Days' },
+  { key: '31-60', label: '31–60 Days' },
+  { key: '61-90', label: '61–90 Days' },
+  { key: '90+', label: '90+ Days' },
+];
+
+export const isAgingBucket = (value: string | null): value is AgingBucket =>
+  AGING_BUCKETS.some(bucket => bucket.key === value);
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  'current': 0,
+  '1-30': 0,
+  '31-60': 0,
+  '61-90': 0,
+  '90+': 0,
+});
+
+// Fetch the outstanding balance of every customer split into aging buckets, largest first
+export const fetchAgingSummary = async (): Promise<CustomerAging[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('ar_aging_summary')
+      .select('*')
+      .order('total_balance', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      custno: row.custno || '',
+      custname: row.custname,
+      payterm: row.payterm,
+      openInvoices: Number(row.open_invoices) || 0,
+      buckets: {
+        'current': Number(row.current_amount) || 0,
+        '1-30': Number(row.days_1_30) || 0,
+        '31-60': Number(row.days_31_60) || 0,
+        '61-90': Number(row.days_61_90) || 0,
+        '90+': Number(row.days_over_90) || 0,
+      },
+      totalBalance: Number(row.total_balance) || 0,
+      oldestDaysPastDue: Number(row.oldest_days_past_due) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching AR aging:', error);
+    throw error;
+  }
+};
+
+// Fetch the open invoices of a customer, optionally only those in one bucket, oldest first
+export const fetchOpenInvoices = async (custno: string, bucket?: AgingBucket | null): Promise<OpenInvoice[]> => {
+  try {
+    let query = supabase
+      .from('ar_open_invoices')
+      .select('*')
+      .eq('custno', custno);
+
+    if (bucket) {
+      query = query.eq('aging_bucket', bucket);
+    }
+
+    const { data, error } = await query.order('due_date', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      transno: row.transno || '',
+      custno: row.custno,
+      salesdate: row.salesdate,
+      due_date: row.due_date,
+      total_amount: Number(row.total_amount) || 0,
+      amount_paid: Number(row.amount_paid) || 0,
+      balance: Number(row.balance) || 0,
+      days_past_due: Number(row.days_past_due) || 0,
+      aging_bucket: isAgingBucket(row.aging_bucket) ? row.aging_bucket : 'current',
+    }));
+  } catch (error) {
+    console.error('Error fetching open invoices:', error);
+    throw error;
+  }
+};
+
+// Add up the buckets of all customers for the report's total row
+export const sumAging = (rows: CustomerAging[]): { buckets: Record<AgingBucket, number>; totalBalance: number } =>
+  rows.reduce((totals, row) => {
+    AGING_BUCKETS.forEach(({ key }) => {
+      totals.buckets[key] += row.buckets[key];
+    });
+    totals.totalBalance += row.totalBalance;
+    return totals;
+  }, { buckets: emptyBuckets(), totalBalance: 0 });
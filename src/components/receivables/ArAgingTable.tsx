@@ -0,0 +1,93 @@
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Link } from "react-router-dom";
+import { AGING_BUCKETS, AgingBucket, CustomerAging, sumAging } from "./ArAgingService";
+
+interface ArAgingTableProps {
+  rows: CustomerAging[];
+  loading: boolean;
+  onDrillDown: (custno: string, bucket: AgingBucket | null) => void;
+}
+
+export function ArAgingTable({ rows, loading, onDrillDown }: ArAgingTableProps) {
+  const totals = sumAging(rows);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Customer</TableHead>
+          <TableHead>Terms</TableHead>
+          {AGING_BUCKETS.map(bucket => (
+            <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+          ))}
+          <TableHead className="text-right">Total Due</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={AGING_BUCKETS.length + 3} className="text-center">Loading...</TableCell>
+          </TableRow>
+        ) : rows.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={AGING_BUCKETS.length + 3} className="text-center">No outstanding balances.</TableCell>
+          </TableRow>
+        ) : (
+          rows.map((row) => (
+            <TableRow key={row.custno}>
+              <TableCell>
+                <Link
+                  to={`/dashboard/customers/${row.custno}`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {row.custname || row.custno}
+                </Link>
+              </TableCell>
+              <TableCell>{row.payterm || 'COD'}</TableCell>
+              {AGING_BUCKETS.map(bucket => (
+                <TableCell key={bucket.key} className="text-right">
+                  {row.buckets[bucket.key] > 0 ? (
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                      onClick={() => onDrillDown(row.custno, bucket.key)}
+                    >
+                      ${row.buckets[bucket.key].toFixed(2)}
+                    </button>
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                </TableCell>
+              ))}
+              <TableCell className="text-right font-medium">
+                <button
+                  type="button"
+                  className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                  onClick={() => onDrillDown(row.custno, null)}
+                >
+                  ${row.totalBalance.toFixed(2)}
+                </button>
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+      {!loading && rows.length > 0 && (
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={2} className="font-medium">Total</TableCell>
+            {AGING_BUCKETS.map(bucket => (
+              <TableCell key={bucket.key} className="text-right font-medium">
+                ${totals.buckets[bucket.key].toFixed(2)}
+              </TableCell>
+            ))}
+            <TableCell className="text-right font-bold">${totals.totalBalance.toFixed(2)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      )}
+    </Table>
+  );
+}
@@ -0,0 +1,65 @@
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Link } from "react-router-dom";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { AGING_BUCKETS, OpenInvoice } from "./ArAgingService";
+
+interface OpenInvoicesTableProps {
+  invoices: OpenInvoice[];
+  loading: boolean;
+}
+
+// The unpaid sales behind a customer's aging buckets
+export function OpenInvoicesTable({ invoices, loading }: OpenInvoicesTableProps) {
+  const bucketLabel = (key: string) => AGING_BUCKETS.find(bucket => bucket.key === key)?.label || key;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Transaction No</TableHead>
+          <TableHead>Sale Date</TableHead>
+          <TableHead>Due Date</TableHead>
+          <TableHead className="text-right">Days Past Due</TableHead>
+          <TableHead>Bucket</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+          <TableHead className="text-right">Paid</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center">Loading...</TableCell>
+          </TableRow>
+        ) : invoices.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center">No open invoices.</TableCell>
+          </TableRow>
+        ) : (
+          invoices.map((invoice) => (
+            <TableRow key={invoice.transno}>
+              <TableCell>
+                <Link
+                  to={`/dashboard/sales/${invoice.transno}`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {invoice.transno}
+                </Link>
+              </TableCell>
+              <TableCell>{formatDate(invoice.salesdate)}</TableCell>
+              <TableCell>{formatDate(invoice.due_date)}</TableCell>
+              <TableCell className="text-right">{invoice.days_past_due}</TableCell>
+              <TableCell>{bucketLabel(invoice.aging_bucket)}</TableCell>
+              <TableCell className="text-right">${invoice.total_amount.toFixed(2)}</TableCell>
+              <TableCell className="text-right">${invoice.amount_paid.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-medium">${invoice.balance.toFixed(2)}</TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
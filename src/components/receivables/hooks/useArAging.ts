@@ -0,0 +1,78 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AgingBucket,
+  CustomerAging,
+  OpenInvoice,
+  fetchAgingSummary,
+  fetchOpenInvoices
+} from "../ArAgingService";
+
+export function useArAging() {
+  const [rows, setRows] = useState<CustomerAging[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAging();
+  }, []);
+
+  const loadAging = async () => {
+    setLoading(true);
+    try {
+      setRows(await fetchAgingSummary());
+    } catch (error) {
+      console.error('Error fetching AR aging:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch the aging report.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    rows,
+    loading,
+    loadAging
+  };
+}
+
+// Open invoices behind one customer's aging, reloaded when the customer or bucket changes
+export function useOpenInvoices(custno: string | null, bucket: AgingBucket | null) {
+  const [invoices, setInvoices] = useState<OpenInvoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!custno) {
+      setInvoices([]);
+      return;
+    }
+
+    loadInvoices(custno);
+  }, [custno, bucket]);
+
+  const loadInvoices = async (customer: string) => {
+    setLoading(true);
+    try {
+      setInvoices(await fetchOpenInvoices(customer, bucket));
+    } catch (error) {
+      console.error('Error fetching open invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch open invoices.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    invoices,
+    loading
+  };
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { DialogFooter } from "@/components/ui/dialog";
+import {
+  ACTION_LABELS, PERMISSIONS, PermissionKey, PermissionResource, RESOURCE_LABELS
+} from "./permissions";
+
+export const roleFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be 50 characters or less"),
+  description: z.string().max(200, "Description must be 200 characters or less"),
+  is_default: z.boolean(),
+  permissions: z.array(z.string()),
+});
+
+export type RoleFormValues = z.infer<typeof roleFormSchema>;
+
+interface RoleFormProps {
+  defaultValues: RoleFormValues;
+  onSubmit: (values: RoleFormValues) => void;
+  onCancel: () => void;
+  // System roles can be made default or not, but their name and permissions are fixed
+  isSystem: boolean;
+}
+
+const resources = Object.keys(PERMISSIONS) as PermissionResource[];
+
+export function RoleForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  isSystem
+}: RoleFormProps) {
+  const form = useForm<RoleFormValues>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues,
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={isSystem} placeholder="e.g. Sales Clerk" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={2} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="is_default"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3 space-y-0">
+              <div>
+                <FormLabel>Default role</FormLabel>
+                <FormDescription>Given to every new user when they sign up.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="permissions"
+          render={({ field }) => {
+            const selected = new Set(field.value);
+            const toggle = (key: PermissionKey, checked: boolean) => {
+              const next = new Set(selected);
+              if (checked) {
+                next.add(key);
+              } else {
+                next.delete(key);
+              }
+              field.onChange(Array.from(next));
+            };
+
+            return (
+              <FormItem>
+                <FormLabel>Permissions</FormLabel>
+                {isSystem && (
+                  <FormDescription>The permissions of a system role cannot be changed.</FormDescription>
+                )}
+                <div className="rounded-lg border divide-y">
+                  {resources.map(resource => (
+                    <div key={resource} className="flex flex-wrap items-center gap-x-6 gap-y-2 p-3">
+                      <span className="w-52 text-sm font-medium">{RESOURCE_LABELS[resource]}</span>
+                      {PERMISSIONS[resource].map(action => {
+                        const key: PermissionKey = `${resource}:${action}`;
+                        return (
+                          <label key={key} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={selected.has(key)}
+                              onCheckedChange={(checked) => toggle(key, checked === true)}
+                              disabled={isSystem}
+                            />
+                            {ACTION_LABELS[action]}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">Save</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
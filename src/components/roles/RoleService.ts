@@ -0,0 +1,209 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { PermissionKey } from "./permissions";
+
+export interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  is_system: boolean;
+  is_default: boolean;
+  permissions: PermissionKey[];
+  user_count: number;
+}
+
+export interface RoleFormData {
+  name: string;
+  description: string;
+  is_default: boolean;
+  permissions: PermissionKey[];
+}
+
+interface RoleResult {
+  success: boolean;
+  message: string;
+}
+
+// Fetch every role with its permission keys and how many users hold it, system roles first
+export const fetchRoles = async (): Promise<Role[]> => {
+  const { data, error } = await supabase
+    .from('role')
+    .select('id, name, description, is_system, is_default, role_permission(resource, action), user_role(count)')
+    .order('is_system', { ascending: false })
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(role => ({
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    is_system: role.is_system,
+    is_default: role.is_default,
+    permissions: (role.role_permission || []).map(permission => `${permission.resource}:${permission.action}` as PermissionKey),
+    user_count: role.user_role?.[0]?.count || 0,
+  }));
+};
+
+// Save a role and replace its permissions. System roles keep their permissions; the database enforces it.
+export const saveRole = async (id: string | null, data: RoleFormData): Promise<RoleResult> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const role = {
+      name: data.name,
+      description: data.description || null,
+      is_default: data.is_default,
+    };
+
+    const { data: saved, error } = id
+      ? await supabase
+          .from('role')
+          .update({ ...role, modified_by: userId, modified_at: new Date().toISOString() })
+          .eq('id', id)
+          .select('id, is_system')
+          .single()
+      : await supabase
+          .from('role')
+          .insert({ ...role, created_by: userId, created_at: new Date().toISOString() })
+          .select('id, is_system')
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!saved.is_system) {
+      const { error: deleteError } = await supabase
+        .from('role_permission')
+        .delete()
+        .eq('role_id', saved.id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      if (data.permissions.length > 0) {
+        const { error: permissionError } = await supabase
+          .from('role_permission')
+          .insert(data.permissions.map(key => {
+            const [resource, action] = key.split(':');
+            return { role_id: saved.id, resource, action };
+          }));
+
+        if (permissionError) {
+          throw permissionError;
+        }
+      }
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: id ? 'update' : 'insert',
+      table_name: 'role',
+      record_id: saved.id,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: id ? "Role updated successfully" : "Role added successfully" };
+  } catch (error) {
+    console.error("Error saving role:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "A role with this name already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to save role" };
+  }
+};
+
+// Delete a role; users who held it keep their other roles
+export const deleteRole = async (id: string): Promise<RoleResult> => {
+  try {
+    const { error } = await supabase
+      .from('role')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'role',
+      record_id: id,
+      details: JSON.stringify({ id })
+    });
+
+    return { success: true, message: "Role deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete role" };
+  }
+};
+
+// Ids of the roles a user holds
+export const fetchUserRoleIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('user_role')
+    .select('role_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => row.role_id);
+};
+
+// Give a user exactly the given roles, adding and removing only what changed
+export const saveUserRoles = async (userId: string, roleIds: string[]): Promise<RoleResult> => {
+  try {
+    if (roleIds.length === 0) {
+      return { success: false, message: "A user needs at least one role." };
+    }
+
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const current = await fetchUserRoleIds(userId);
+    const added = roleIds.filter(id => !current.includes(id));
+    const removed = current.filter(id => !roleIds.includes(id));
+
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from('user_role')
+        .insert(added.map(roleId => ({ user_id: userId, role_id: roleId, assigned_by: currentUser?.id || null })));
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('user_role')
+        .delete()
+        .eq('user_id', userId)
+        .in('role_id', removed);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'user_role',
+      record_id: userId,
+      details: JSON.stringify({ added, removed })
+    });
+
+    return { success: true, message: "Roles updated successfully" };
+  } catch (error) {
+    console.error("Error saving user roles:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update roles" };
+  }
+};
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RoleForm, RoleFormValues } from "./RoleForm";
+import { Role, RoleFormData } from "./RoleService";
+import { PermissionKey } from "./permissions";
+
+interface RolesTableProps {
+  roles: Role[];
+  loading: boolean;
+  onSave: (id: string | null, data: RoleFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const emptyRole: RoleFormValues = {
+  name: "",
+  description: "",
+  is_default: false,
+  permissions: [],
+};
+
+// Named roles with their permission counts, and the add/edit dialog
+export function RolesTable({ roles, loading, onSave, onDelete }: RolesTableProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+
+  const openDialog = (role?: Role) => {
+    setSelectedRole(role || null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: RoleFormValues) => {
+    const data: RoleFormData = {
+      name: values.name.trim(),
+      description: values.description.trim(),
+      is_default: values.is_default,
+      permissions: values.permissions as PermissionKey[],
+    };
+
+    if (await onSave(selectedRole?.id || null, data)) {
+      setDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+      <div className="flex justify-between items-center p-4 border-b">
+        <div>
+          <h2 className="text-xl font-bold">Roles</h2>
+          <p className="text-gray-500 dark:text-gray-400">
+            A user holds every permission of every role assigned to them.
+          </p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus size={16} className="mr-2" /> Add Role
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Permissions</TableHead>
+            <TableHead className="text-right">Users</TableHead>
+            <TableHead className="w-[100px]">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : roles.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center">No roles found.</TableCell>
+            </TableRow>
+          ) : (
+            roles.map((role) => (
+              <TableRow key={role.id}>
+                <TableCell className="font-medium">
+                  {role.name}
+                  {role.is_system && <Badge variant="outline" className="ml-2">System</Badge>}
+                  {role.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                </TableCell>
+                <TableCell>{role.description || 'N/A'}</TableCell>
+                <TableCell className="text-right">{role.permissions.length}</TableCell>
+                <TableCell className="text-right">{role.user_count}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(role)}>
+                      <Edit size={16} />
+                    </Button>
+                    {!role.is_system && (
+                      <Button variant="ghost" size="icon" onClick={() => onDelete(role.id)}>
+                        <Trash2 size={16} className="text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedRole ? 'Edit Role' : 'Add Role'}</DialogTitle>
+          </DialogHeader>
+          {dialogOpen && (
+            <RoleForm
+              defaultValues={selectedRole ? {
+                name: selectedRole.name,
+                description: selectedRole.description || "",
+                is_default: selectedRole.is_default,
+                permissions: selectedRole.permissions,
+              } : emptyRole}
+              onSubmit={handleSubmit}
+              onCancel={() => setDialogOpen(false)}
+              isSystem={!!selectedRole?.is_system}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
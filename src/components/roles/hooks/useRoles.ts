@@ -0,0 +1,60 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Role, RoleFormData, deleteRole, fetchRoles, saveRole } from "../RoleService";
+
+export function useRoles() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const loadRoles = async () => {
+    setLoading(true);
+    try {
+      setRoles(await fetchRoles());
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch roles.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadRoles();
+    }
+
+    return result.success;
+  };
+
+  const save = async (id: string | null, data: RoleFormData) => {
+    return handleResult(await saveRole(id, data), id ? "Role Updated" : "Role Added");
+  };
+
+  const remove = async (id: string) => {
+    return handleResult(await deleteRole(id), "Role Deleted");
+  };
+
+  return {
+    roles,
+    loading,
+    loadRoles,
+    saveRole: save,
+    removeRole: remove
+  };
+}
@@ -0,0 +1,60 @@
+// Every permission key a role can grant; keep in step with the catalog in the roles migration
+// and the migrations that add keys to it (e.g. customer credit limits)
+export const PERMISSIONS = {
+  customers: ['view', 'create', 'edit', 'delete', 'restore', 'credit_limit'],
+  sales: ['view', 'create', 'edit', 'delete', 'restore', 'override_credit'],
+  sale_items: ['create', 'edit', 'delete'],
+  quotes: ['view', 'create', 'edit', 'convert'],
+  payments: ['view', 'create', 'edit', 'void'],
+  credit_memos: ['create', 'void'],
+  products: ['view', 'create', 'edit', 'delete'],
+  prices: ['edit'],
+  employees: ['view', 'create', 'edit', 'delete'],
+  commissions: ['view', 'manage', 'approve'],
+  reports: ['view'],
+  activity_logs: ['view'],
+  notifications: ['view'],
+  users: ['manage'],
+  settings: ['manage'],
+} as const;
+
+export type PermissionResource = keyof typeof PERMISSIONS;
+export type PermissionAction<R extends PermissionResource = PermissionResource> = (typeof PERMISSIONS)[R][number];
+
+// Stored as "resource:action" so a set of them can be looked up in one step
+export type PermissionKey = `${PermissionResource}:${string}`;
+
+export const permissionKey = <R extends PermissionResource>(resource: R, action: PermissionAction<R>): PermissionKey =>
+  `${resource}:${action}`;
+
+export const RESOURCE_LABELS: Record<PermissionResource, string> = {
+  customers: 'Customers',
+  sales: 'Sales',
+  sale_items: 'Sale Items',
+  quotes: 'Quotes',
+  payments: 'Payments',
+  credit_memos: 'Credit Memos',
+  products: 'Products',
+  prices: 'Prices',
+  employees: 'Employees, Jobs & Departments',
+  commissions: 'Commissions',
+  reports: 'Reports & Analytics',
+  activity_logs: 'Activity Logs',
+  notifications: 'Notifications',
+  users: 'Users & Roles',
+  settings: 'Settings & Numbering',
+};
+
+export const ACTION_LABELS: Record<string, string> = {
+  view: 'View',
+  create: 'Create',
+  edit: 'Edit',
+  delete: 'Delete',
+  restore: 'Restore',
+  convert: 'Convert',
+  void: 'Void',
+  manage: 'Manage',
+  approve: 'Approve',
+  credit_limit: 'Set Credit Limit',
+  override_credit: 'Override Credit Hold',
+};
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+
+export interface PriceHistoryEntry {
+  prodcode: string;
+  effdate: string;
+  unitprice: number | null;
+}
+
+export interface PricedLine {
+  prodcode: string;
+  quantity: number;
+  unitprice: number;
+  subtotal: number;
+  hasPrice: boolean;
+}
+
+export interface PricedSale {
+  lines: PricedLine[];
+  total: number;
+  missingPrices: string[];
+}
+
+// Normalize a sale date to the 'yyyy-MM-dd' form used by pricehist.effdate
+export const toPriceDate = (date: string | Date | null | undefined): string => {
+  if (!date) return format(new Date(), 'yyyy-MM-dd');
+  if (date instanceof Date) return format(date, 'yyyy-MM-dd');
+  return date.substring(0, 10);
+};
+
+// Fetch the price history of the given products, newest first
+export const fetchPriceHistory = async (prodcodes: string[]): Promise<PriceHistoryEntry[]> => {
+  const uniqueCodes = Array.from(new Set(prodcodes.filter(Boolean)));
+  if (uniqueCodes.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('pricehist')
+      .select('prodcode, effdate, unitprice')
+      .in('prodcode', uniqueCodes)
+      .is('deleted_at', null)
+      .order('effdate', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    throw error;
+  }
+};
+
+// Find the pricehist row with the latest effdate on or before the given date
+export const findEffectivePrice = (
+  history: PriceHistoryEntry[],
+  prodcode: string,
+  date: string | Date | null | undefined
+): PriceHistoryEntry | null => {
+  const priceDate = toPriceDate(date);
+  let effective: PriceHistoryEntry | null = null;
+
+  for (const entry of history) {
+    if (entry.prodcode !== prodcode) continue;
+    if (entry.effdate.substring(0, 10) > priceDate) continue;
+    if (!effective || entry.effdate > effective.effdate) {
+      effective = entry;
+    }
+  }
+
+  return effective;
+};
+
+// A line to price; quoted_price is the price agreed on the quote the line came from
+export interface PriceableLine {
+  prodcode: string;
+  quantity: number | null;
+  quoted_price?: number | null;
+}
+
+// Price a set of lines against a price history that was already fetched.
+// Lines with a quoted price keep it instead of the price in effect on the sale date.
+export const priceLinesFromHistory = (
+  history: PriceHistoryEntry[],
+  lines: PriceableLine[],
+  salesdate: string | Date | null | undefined
+): PricedSale => {
+  const missingPrices: string[] = [];
+
+  const pricedLines = lines.map(line => {
+    const quantity = Number(line.quantity) || 0;
+
+    if (line.quoted_price != null) {
+      const unitprice = Number(line.quoted_price);
+      return { prodcode: line.prodcode, quantity, unitprice, subtotal: unitprice * quantity, hasPrice: true };
+    }
+
+    const effective = findEffectivePrice(history, line.prodcode, salesdate);
+    const unitprice = effective?.unitprice || 0;
+
+    if (!effective && line.prodcode) {
+      missingPrices.push(line.prodcode);
+    }
+
+    return {
+      prodcode: line.prodcode,
+      quantity,
+      unitprice,
+      subtotal: unitprice * quantity,
+      hasPrice: !!effective
+    };
+  });
+
+  return {
+    lines: pricedLines,
+    total: pricedLines.reduce((sum, line) => sum + line.subtotal, 0),
+    missingPrices
+  };
+};
+
+// Price the lines of a sale by the prices in effect on its sale date
+export const priceSaleLines = async (
+  lines: PriceableLine[],
+  salesdate: string | Date | null | undefined
+): Promise<PricedSale> => {
+  const history = await fetchPriceHistory(lines.map(line => line.prodcode));
+  return priceLinesFromHistory(history, lines, salesdate);
+};
+
+// Get the unit price of a single product on the given date (0 when none is in effect)
+export const getPriceOnDate = async (
+  prodcode: string,
+  date: string | Date | null | undefined
+): Promise<{ unitprice: number; hasPrice: boolean }> => {
+  const history = await fetchPriceHistory([prodcode]);
+  const effective = findEffectivePrice(history, prodcode, date);
+
+  return {
+    unitprice: effective?.unitprice || 0,
+    hasPrice: !!effective
+  };
+};
@@ -1,7 +1,6 @@
 
 import React, { useState } from "react";
 import { useToast } from "@/components/ui/use-toast";
-import { useAuth } from "@/contexts/AuthContext";
 import { Form } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { DialogFooter } from "@/components/ui/dialog";
@@ -16,25 +15,29 @@ import { SalesRecord, Customer } from "./types";
 import { SaleFormHeader } from "./form/SaleFormHeader";
 import { SaleItemList } from "./form/SaleItemList";
 import { SaleSummary } from "./form/SaleSummary";
+import { CreditOverrideDialog } from "./form/CreditOverrideDialog";
+import { useCustomerCredit } from "@/components/customers/hooks/useCustomerCredit";
 import { useSaleFormState } from "./form/useSaleFormState";
 import { useSaleFormActions } from "./form/useSaleFormActions";
+import { useSaleFormPermissions } from "./form/useSaleFormPermissions";
 import { SaleFormProps } from "./form/types";
 
 export function SaleForm({ 
   selectedSale, 
   isEditing, 
+  documentType = 'sale',
   customers, 
+  employees,
   onSubmitSuccess, 
   onCancel 
 }: SaleFormProps) {
-  const { isAdmin, permissions } = useAuth();
+  const permissions = useSaleFormPermissions(documentType);
   const [showDeleted, setShowDeleted] = useState(false);
   
-  // Check if user has any permissions related to sales
-  const hasSalesPermissions = isAdmin || 
-    permissions?.can_add_sales || 
-    permissions?.can_edit_sales || 
-    permissions?.can_delete_sales;
+  // Check if user may change any of the lines
+  const hasSalesPermissions = permissions.canAddItem ||
+    permissions.canEditItem ||
+    permissions.canDeleteItem;
 
   // Initialize form state using our custom hook
   const {
@@ -51,11 +54,14 @@ export function SaleForm({
     editingItemIndex,
     setEditingItemIndex,
     getProductPrice,
-  } = useSaleFormState(selectedSale, isEditing, onSubmitSuccess);
+  } = useSaleFormState(selectedSale, isEditing, onSubmitSuccess, documentType);
   
   // Initialize form actions using our custom hook
   const {
     handleSubmit,
+    creditHold,
+    setCreditHold,
+    handleCreditOverride,
     handleAddProduct,
     handleEditProduct,
     handleRemoveProduct,
@@ -73,18 +79,30 @@ export function SaleForm({
     totalAmount,
     selectedSale,
     isEditing,
+    documentType,
+    permissions,
     onSubmitSuccess
   });
 
   // Only show active items by default, toggle for deleted items
   const displayedItems = showDeleted ? deletedItems : saleItems;
 
+  // Quotes are not billed, so only sales are held against the customer's credit limit
+  const selectedCustno = form.watch('custno');
+  const { credit } = useCustomerCredit(documentType === 'sale' ? selectedCustno || undefined : undefined);
+
   return (
     <ScrollArea className="max-h-[70vh] pr-4">
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
           {/* Sale Header Information */}
-          <SaleFormHeader form={form} customers={customers} />
+          <SaleFormHeader
+            form={form}
+            customers={customers}
+            employees={employees}
+            currentEmployee={selectedSale?.employee}
+            documentType={documentType}
+          />
           
           {/* Sale Items List */}
           <div>
@@ -92,14 +110,14 @@ export function SaleForm({
               <Alert className="mb-4">
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  You don't have permissions to modify sales details. You can only view them.
+                  You don't have permissions to modify {documentType === 'quote' ? 'quote' : 'sales'} details. You can only view them.
                 </AlertDescription>
               </Alert>
             )}
             
             <div className="flex justify-between items-center mb-2">
               <div className="flex gap-2">
-                {isEditing && isAdmin && (
+                {isEditing && permissions.canRestoreItem && documentType === 'sale' && (
                   <Button 
                     type="button" 
                     variant="outline"
@@ -117,6 +135,7 @@ export function SaleForm({
               showDeleted={showDeleted}
               products={products}
               selectedSaleTransno={selectedSale?.transno || ""}
+              permissions={permissions}
               onAddProduct={handleAddProduct}
               onEditProduct={handleEditProduct}
               onRemoveProduct={handleRemoveProduct}
@@ -133,10 +152,11 @@ export function SaleForm({
                 }
               }}
               onQuantityChange={handleQuantityChange}
+              errors={showDeleted ? undefined : form.formState.errors.items}
             />
             
             {/* Sale Total Summary */}
-            <SaleSummary totalAmount={totalAmount} />
+            <SaleSummary totalAmount={totalAmount} credit={credit} isNew={!isEditing} />
           </div>
           
           {/* Form Buttons */}
@@ -151,6 +171,13 @@ export function SaleForm({
           </DialogFooter>
         </form>
       </Form>
+
+      <CreditOverrideDialog
+        creditHold={creditHold}
+        canOverride={permissions.canOverrideCredit}
+        onOpenChange={(open) => !open && setCreditHold(null)}
+        onConfirm={handleCreditOverride}
+      />
     </ScrollArea>
   );
 }
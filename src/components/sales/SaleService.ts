@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export interface SaleFieldError {
+  field: string;
+  message: string;
+}
+
+export interface SaleHeaderInput {
+  transno: string;
+  salesdate: Date | null;
+  custno: string | null;
+  empno: string | null;
+  // Given by a user allowed to override credit holds to save a sale over the customer's limit
+  credit_override_reason?: string | null;
+}
+
+export interface SaleLineInput {
+  prodcode: string;
+  quantity: number;
+}
+
+// Returned when a sale would take the customer over its credit limit
+export interface CreditHold {
+  credit_limit: number;
+  balance: number;
+  new_balance: number;
+}
+
+interface SaveSaleResponse {
+  success: boolean;
+  transno: string | null;
+  errors: SaleFieldError[];
+  credit_hold?: CreditHold;
+}
+
+// Save the header and lines of a sale in one transaction through the save_sale RPC.
+// Validation errors come back keyed by form field path, e.g. "items.0.quantity".
+export const saveSale = async (
+  sale: SaleHeaderInput,
+  lines: SaleLineInput[],
+  isNew: boolean
+): Promise<{ success: boolean; message: string; errors: SaleFieldError[]; creditHold?: CreditHold }> => {
+  try {
+    const { data, error } = await supabase.rpc('save_sale', {
+      sale: {
+        transno: sale.transno,
+        salesdate: sale.salesdate ? sale.salesdate.toISOString() : null,
+        custno: sale.custno,
+        empno: sale.empno,
+        credit_override_reason: sale.credit_override_reason || null
+      },
+      lines: lines.map(line => ({ prodcode: line.prodcode, quantity: line.quantity })),
+      is_new: isNew
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as SaveSaleResponse;
+
+    if (result.credit_hold) {
+      return {
+        success: false,
+        message: "This sale would take the customer over its credit limit.",
+        errors: result.errors || [],
+        creditHold: result.credit_hold
+      };
+    }
+
+    if (!result.success) {
+      return { success: false, message: "Please correct the highlighted fields.", errors: result.errors || [] };
+    }
+
+    return {
+      success: true,
+      message: isNew
+        ? `Sale #${result.transno} has been created successfully.`
+        : `Sale #${result.transno} has been updated successfully.`,
+      errors: []
+    };
+  } catch (error) {
+    console.error("Error saving sale:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to save sale data.", errors: [] };
+  }
+};
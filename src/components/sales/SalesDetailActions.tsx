@@ -4,12 +4,14 @@ import {
   DropdownMenu, DropdownMenuContent, 
   DropdownMenuItem, DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
-import { useAuth } from "@/contexts/AuthContext";
 import { MoreVertical, Edit, Trash, RefreshCcw } from "lucide-react";
 import { SaleItem } from "./types";
 
 interface SalesDetailActionsProps {
   item: SaleItem;
+  canEdit: boolean;
+  canDelete: boolean;
+  canRestore: boolean;
   onEdit: () => void;
   onDelete: () => void;
   onRestore: () => void;
@@ -18,25 +20,17 @@ interface SalesDetailActionsProps {
 
 export function SalesDetailActions({ 
   item,
+  canEdit,
+  canDelete,
+  canRestore,
   onEdit, 
   onDelete, 
   onRestore, 
   showDeleted 
 }: SalesDetailActionsProps) {
-  const { isAdmin, permissions } = useAuth();
-
-  // If not admin and no permissions, show disabled button
-  if (!isAdmin && !permissions) {
-    return (
-      <Button variant="ghost" size="icon" disabled>
-        <MoreVertical size={16} />
-      </Button>
-    );
-  }
-
-  // For deleted items, only show restore option (admin only)
+  // For deleted items, only show restore option
   if (showDeleted) {
-    if (!isAdmin) {
+    if (!canRestore) {
       return (
         <Button variant="ghost" size="icon" disabled>
           <MoreVertical size={16} />
@@ -56,12 +50,8 @@ export function SalesDetailActions({
     );
   }
 
-  // For regular items, show dropdown with allowed actions
-  const canModifySales = isAdmin || permissions?.can_edit_sales;
-  const canDeleteSales = isAdmin || permissions?.can_delete_sales;
-  
   // If user can't perform any action, show disabled button
-  if (!canModifySales && !canDeleteSales) {
+  if (!canEdit && !canDelete) {
     return (
       <Button variant="ghost" size="icon" disabled>
         <MoreVertical size={16} />
@@ -77,13 +67,13 @@ export function SalesDetailActions({
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end">
-        {canModifySales && (
+        {canEdit && (
           <DropdownMenuItem onClick={onEdit}>
             <Edit className="mr-2 h-4 w-4" />
             Edit
           </DropdownMenuItem>
         )}
-        {canDeleteSales && (
+        {canDelete && (
           <DropdownMenuItem onClick={onDelete} className="text-destructive">
             <Trash className="mr-2 h-4 w-4" />
             Delete
@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { SalesRecord } from "./types";
+import { ListPage, buildSearchFilter, getPageRange } from "@/utils/listQuery";
+
+export type SalesSummaryRow = Database['public']['Views']['sales_summary']['Row'];
+
+export type SalesSortField = 'transno' | 'salesdate' | 'due_date' | 'total_amount' | 'custname';
+
+export interface SalesListQuery {
+  deleted: boolean;
+  search: string;
+  status: string;
+  sort: SalesSortField;
+  direction: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
+export const SALES_SORT_FIELDS: SalesSortField[] = ['transno', 'salesdate', 'due_date', 'total_amount', 'custname'];
+
+// Map a sales_summary row onto the SalesRecord shape the sales screens use
+export const toSalesRecord = (row: SalesSummaryRow): SalesRecord => ({
+  transno: row.transno || '',
+  salesdate: row.salesdate,
+  custno: row.custno,
+  empno: row.empno,
+  created_at: row.created_at,
+  created_by: row.created_by,
+  modified_at: row.modified_at,
+  modified_by: row.modified_by,
+  deleted_at: row.deleted_at,
+  deleted_by: row.deleted_by,
+  customer: row.custno ? {
+    custno: row.custno,
+    custname: row.custname,
+    address: row.customer_address,
+    payterm: row.customer_payterm
+  } : null,
+  employee: row.empno ? {
+    empno: row.empno,
+    firstname: row.employee_firstname,
+    lastname: row.employee_lastname,
+    empname: row.employee_firstname && row.employee_lastname ?
+      `${row.employee_firstname} ${row.employee_lastname}` : null,
+    position: null
+  } : undefined,
+  modifier: row.modified_by ? {
+    email: row.modified_by, // Use ID as email placeholder
+    user_metadata: {
+      first_name: row.modifier_first_name || undefined,
+      last_name: row.modifier_last_name || undefined
+    }
+  } : null,
+  total_amount: Number(row.total_amount) || 0,
+  amount_paid: Number(row.amount_paid) || 0,
+  payment_status: (row.payment_status as SalesRecord['payment_status']) || 'Unpaid',
+  due_date: row.due_date,
+  discount_date: row.discount_date,
+  discount_percent: row.discount_percent !== null ? Number(row.discount_percent) : null,
+  is_overdue: row.is_overdue || false,
+  record_status: (row.record_status as SalesRecord['record_status']) || undefined
+});
+
+// Fetch one page of active or deleted sales with their customer, employee, modifier and totals.
+// Search, status filter and sort are applied by the database.
+export const fetchSalesPage = async (listQuery: SalesListQuery): Promise<ListPage<SalesRecord>> => {
+  const [from, to] = getPageRange(listQuery.page, listQuery.pageSize);
+
+  let query = supabase
+    .from('sales_summary')
+    .select('*', { count: 'exact' });
+
+  query = listQuery.deleted ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+  if (listQuery.status !== 'all') {
+    query = query.eq('record_status', listQuery.status.charAt(0).toUpperCase() + listQuery.status.slice(1));
+  }
+
+  const searchFilter = buildSearchFilter(['transno', 'custname'], listQuery.search);
+  if (searchFilter) {
+    const amount = Number(listQuery.search);
+    query = query.or(
+      listQuery.search.trim() && !isNaN(amount) ? `${searchFilter},total_amount.eq.${amount}` : searchFilter
+    );
+  }
+
+  const { data, error, count } = await query
+    .order(listQuery.sort, { ascending: listQuery.direction === 'asc', nullsFirst: false })
+    .order('transno', { ascending: listQuery.direction === 'asc' })
+    .range(from, to);
+
+  if (error) throw error;
+
+  return { rows: (data || []).map(toSalesRecord), count: count || 0 };
+};
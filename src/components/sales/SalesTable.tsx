@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState } from "react";
 import { 
   Table, TableBody, TableCaption, TableCell, 
   TableHead, TableHeader, TableRow 
@@ -13,178 +13,67 @@ import { Plus, Edit, Trash2, MoreVertical, RefreshCcw, Eye } from "lucide-react"
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle
 } from "@/components/ui/dialog";
-import { SalesRecord, UserPermission } from "./types";
+import { SalesRecord } from "./types";
 import { formatDate, formatModifierInfoSync } from "./utils/formatters";
 import { useSalesData } from "./hooks/useSalesData";
 import { StatusBadge } from "./StatusBadge";
 import { SaleForm } from "./SaleForm";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { Link, useNavigate } from "react-router-dom";
+import { ListParams } from "@/hooks/use-list-params";
+import { ListPagination } from "@/components/layout/ListPagination";
+import { SALES_SORT_FIELDS, SalesListQuery, SalesSortField, fetchSalesPage } from "./SalesSummaryService";
+import { ExportButton } from "@/components/export/ExportButton";
+import { ExportColumn } from "@/components/export/ExportService";
+import { fetchAllPages } from "@/utils/listQuery";
 
 interface SalesTableProps {
-  statusFilter?: string;
-  searchQuery?: string;
-  sortOrder?: "asc" | "desc";
+  listParams: ListParams;
+  onShowDeletedChange: (showDeleted: boolean) => void;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
 }
 
-export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder = "desc" }: SalesTableProps) {
-  const [showDeleted, setShowDeleted] = useState(false);
+export function SalesTable({ listParams, onShowDeletedChange, onPageChange, onPageSizeChange }: SalesTableProps) {
+  const showDeleted = listParams.showDeleted;
   const [selectedSale, setSelectedSale] = useState<SalesRecord | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [userPermissions, setUserPermissions] = useState<UserPermission | null>(null);
-  const { isAdmin, user } = useAuth();
+  const { can } = useAuth();
+  const canEditSale = can('sales', 'edit');
+  const canDeleteSale = can('sales', 'delete');
+  const canRestoreSale = can('sales', 'restore');
   const { toast } = useToast();
   const navigate = useNavigate();
   
+  // Search, status filter, sort and paging are applied by the database
+  const listQuery: SalesListQuery = {
+    deleted: showDeleted,
+    search: listParams.search,
+    status: listParams.status,
+    sort: SALES_SORT_FIELDS.includes(listParams.sort as SalesSortField) ? listParams.sort as SalesSortField : 'transno',
+    direction: listParams.direction,
+    page: listParams.page,
+    pageSize: listParams.pageSize
+  };
+
   const { 
-    sales: allSales, 
-    deletedSales: allDeletedSales, 
+    sales: displayedSales, 
+    totalCount,
     customers, 
     employees, 
     loading, 
     fetchSales, 
     handleDelete,
     handleRestore
-  } = useSalesData(showDeleted, isAdmin);
-
-  // Filter sales based on status and search query
-  const filteredSales = useMemo(() => {
-    let filtered = [...allSales];
-    
-    // Apply status filter if not set to 'all'
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(sale => {
-        const status = getRecordStatus(sale).toLowerCase();
-        return status === statusFilter.toLowerCase();
-      });
-    }
-    
-    // Apply search filter if query exists
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(sale => 
-        sale.transno.toLowerCase().includes(query) || 
-        sale.customer?.custname?.toLowerCase().includes(query) ||
-        (sale.total_amount?.toString().includes(query))
-      );
-    }
-    
-    // Sort by transaction number
-    filtered.sort((a, b) => {
-      if (sortOrder === "asc") {
-        return a.transno.localeCompare(b.transno);
-      } else {
-        return b.transno.localeCompare(a.transno);
-      }
-    });
-    
-    return filtered;
-  }, [allSales, statusFilter, searchQuery, sortOrder]);
-
-  // Filter deleted sales based on search query
-  const filteredDeletedSales = useMemo(() => {
-    let filtered = [...allDeletedSales];
-    
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(sale => 
-        sale.transno.toLowerCase().includes(query) || 
-        sale.customer?.custname?.toLowerCase().includes(query) ||
-        (sale.total_amount?.toString().includes(query))
-      );
-    }
-    
-    // Sort by transaction number
-    filtered.sort((a, b) => {
-      if (sortOrder === "asc") {
-        return a.transno.localeCompare(b.transno);
-      } else {
-        return b.transno.localeCompare(a.transno);
-      }
-    });
-    
-    return filtered;
-  }, [allDeletedSales, searchQuery, sortOrder]);
-
-  useEffect(() => {
-    if (user && !isAdmin) {
-      fetchUserPermissions();
-    } else if (isAdmin) {
-      // Admins have all permissions
-      setUserPermissions({
-        id: "",
-        user_id: user?.id || "",
-        can_add_customers: true,
-        can_edit_customers: true,
-        can_delete_customers: true,
-        can_add_sales: true,
-        can_edit_sales: true,
-        can_delete_sales: true,
-        created_at: "",
-        updated_at: ""
-      });
-    }
-  }, [isAdmin, user]);
-
-  const fetchUserPermissions = async () => {
-    if (!user) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from("user_permissions")
-        .select("*")
-        .eq("user_id", user.id)
-        .single();
-      
-      if (error) {
-        if (error.code !== "PGRST116") {
-          // PGRST116 means no rows returned
-          console.error('Error fetching user permissions:', error);
-        }
-        // Default to no permissions if none are set
-        setUserPermissions({
-          id: "",
-          user_id: user.id,
-          can_add_customers: false,
-          can_edit_customers: false,
-          can_delete_customers: false,
-          can_add_sales: false,
-          can_edit_sales: false,
-          can_delete_sales: false,
-          created_at: "",
-          updated_at: ""
-        } as UserPermission);
-        return;
-      }
-      
-      if (data) {
-        // Add new properties with default values if they don't exist in the data
-        setUserPermissions({
-          ...data,
-          // Ensure all required fields are present
-          can_add_customers: data.can_add_customers !== undefined ? data.can_add_customers : false,
-          can_edit_customers: data.can_edit_customers !== undefined ? data.can_edit_customers : false,
-          can_delete_customers: data.can_delete_customers !== undefined ? data.can_delete_customers : false,
-          can_add_sales: data.can_add_sales !== undefined ? data.can_add_sales : false,
-          can_edit_sales: data.can_edit_sales !== undefined ? data.can_edit_sales : false,
-          can_delete_sales: data.can_delete_sales !== undefined ? data.can_delete_sales : false,
-          created_at: data.created_at || "",
-          updated_at: data.updated_at || ""
-        } as UserPermission);
-      }
-    } catch (error) {
-      console.error('Error in fetchUserPermissions:', error);
-    }
-  };
+  } = useSalesData(listQuery, canRestoreSale);
 
   const handleViewDetails = (sale: SalesRecord) => {
     navigate(`/dashboard/sales/${sale.transno}`);
   };
 
   const handleEdit = (sale: SalesRecord) => {
-    if (!userPermissions?.can_edit_sales && !isAdmin) {
+    if (!canEditSale) {
       toast({
         title: "Permission Denied",
         description: "You don't have permission to edit sales.",
@@ -204,6 +93,7 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
   };
 
   const getRecordStatus = (sale: SalesRecord) => {
+    if (sale.record_status) return sale.record_status;
     if (sale.deleted_at) return 'Deleted';
     
     if (sale.modified_by !== null && sale.modified_at !== null) {
@@ -217,21 +107,44 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
     return 'Added';
   };
 
-  const canAddSale = isAdmin || (userPermissions?.can_add_sales || false);
-  const canEditSale = isAdmin || (userPermissions?.can_edit_sales || false);
-  const canDeleteSale = isAdmin || (userPermissions?.can_delete_sales || false);
+  // Export the columns of the list; status and stamp only for users who see them
+  const exportColumns: ExportColumn<SalesRecord>[] = [
+    { key: 'transno', header: 'Transaction No', value: sale => sale.transno },
+    { key: 'salesdate', header: 'Date', type: 'date', value: sale => sale.salesdate },
+    { key: 'due_date', header: 'Due Date', type: 'date', value: sale => sale.due_date },
+    { key: 'total_amount', header: 'Total Amount', type: 'currency', value: sale => sale.total_amount ?? 0 },
+    { key: 'customer', header: 'Customer', value: sale => sale.customer?.custname || sale.custno },
+    { key: 'payment', header: 'Payment', value: sale => [sale.payment_status, sale.is_overdue ? 'Overdue' : null].filter(Boolean).join(', ') },
+    ...(canRestoreSale ? [
+      { key: 'status', header: 'Status', value: (sale: SalesRecord) => getRecordStatus(sale) },
+      { key: 'stamp', header: 'Last Changed', type: 'datetime', value: (sale: SalesRecord) => sale.modified_at || sale.created_at },
+    ] as ExportColumn<SalesRecord>[] : []),
+  ];
 
-  const displayedSales = showDeleted ? filteredDeletedSales : filteredSales;
+  const fetchAllSales = () => fetchAllPages((page, pageSize) => fetchSalesPage({
+    ...listQuery,
+    deleted: listQuery.deleted && canRestoreSale,
+    page,
+    pageSize
+  }));
 
   return (
     <div className="bg-white rounded-lg shadow dark:bg-gray-800">
       <div className="flex justify-between items-center p-4 border-b">
         <h2 className="text-lg font-medium">Transactions</h2>
         <div className="flex gap-2">
-          {isAdmin && (
+          <ExportButton
+            title={showDeleted ? "Deleted Sales" : "Sales"}
+            fileName={showDeleted ? "deleted-sales" : "sales"}
+            columns={exportColumns}
+            rows={displayedSales}
+            fetchAllRows={fetchAllSales}
+            totalCount={totalCount}
+          />
+          {canRestoreSale && (
             <Button
               variant="outline"
-              onClick={() => setShowDeleted(!showDeleted)}
+              onClick={() => onShowDeletedChange(!showDeleted)}
             >
               {showDeleted ? "Show Active" : "Show Deleted"}
             </Button>
@@ -244,10 +157,12 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
           <TableRow>
             <TableHead>Transaction No</TableHead>
             <TableHead>Date</TableHead>
+            <TableHead>Due Date</TableHead>
             <TableHead>Total Amount</TableHead>
             <TableHead>Customer</TableHead>
-            {/* Only show Status and Stamp columns for admin users */}
-            {isAdmin && (
+            <TableHead>Payment</TableHead>
+            {/* Only show Status and Stamp columns to users who can restore sales */}
+            {canRestoreSale && (
               <>
                 <TableHead>Status</TableHead>
                 <TableHead>Stamp</TableHead>
@@ -257,9 +172,15 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
           </TableRow>
         </TableHeader>
         <TableBody>
-          {displayedSales.length === 0 && !loading ? (
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={canRestoreSale ? 9 : 7} className="text-center">
+                Loading sales...
+              </TableCell>
+            </TableRow>
+          ) : displayedSales.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={isAdmin ? 7 : 5} className="text-center">
+              <TableCell colSpan={canRestoreSale ? 9 : 7} className="text-center">
                 {showDeleted ? "No deleted sales found." : "No sales found."}
               </TableCell>
             </TableRow>
@@ -279,6 +200,7 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
                   )}
                 </TableCell>
                 <TableCell>{formatDate(sale.salesdate)}</TableCell>
+                <TableCell>{sale.due_date ? formatDate(sale.due_date) : '-'}</TableCell>
                 <TableCell>${sale.total_amount?.toFixed(2) || '0.00'}</TableCell>
                 <TableCell>
                   {sale.customer ? (
@@ -292,8 +214,14 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
                     sale.custno || 'N/A'
                   )}
                 </TableCell>
-                {/* Only show Status and Stamp columns for admin users */}
-                {isAdmin && (
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {sale.payment_status ? <StatusBadge status={sale.payment_status} /> : '-'}
+                    {sale.is_overdue && <StatusBadge status="Overdue" />}
+                  </div>
+                </TableCell>
+                {/* Only show Status and Stamp columns to users who can restore sales */}
+                {canRestoreSale && (
                   <>
                     <TableCell>
                       <StatusBadge status={getRecordStatus(sale)} />
@@ -313,7 +241,7 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
                     <DropdownMenuContent align="end">
                       {showDeleted ? (
                         <>
-                          {isAdmin && (
+                          {canRestoreSale && (
                             <DropdownMenuItem onClick={() => handleRestore(sale)}>
                               <RefreshCcw className="mr-2 h-4 w-4" />
                               Restore
@@ -326,13 +254,13 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
                             <Eye className="mr-2 h-4 w-4" />
                             View Details
                           </DropdownMenuItem>
-                          {(userPermissions?.can_edit_sales || isAdmin) && (
+                          {canEditSale && (
                             <DropdownMenuItem onClick={() => handleEdit(sale)}>
                               <Edit className="mr-2 h-4 w-4" />
                               Edit
                             </DropdownMenuItem>
                           )}
-                          {(userPermissions?.can_delete_sales || isAdmin) && (
+                          {canDeleteSale && (
                             <DropdownMenuItem onClick={() => handleDelete(sale)}>
                               <Trash2 className="mr-2 h-4 w-4" />
                               Delete
@@ -349,6 +277,14 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
         </TableBody>
       </Table>
       
+      <ListPagination
+        page={listParams.page}
+        pageSize={listParams.pageSize}
+        totalCount={totalCount}
+        onPageChange={onPageChange}
+        onPageSizeChange={onPageSizeChange}
+      />
+      
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="max-w-3xl">
           <DialogHeader>
@@ -359,6 +295,7 @@ export function SalesTable({ statusFilter = "all", searchQuery = "", sortOrder =
             selectedSale={selectedSale}
             isEditing={isEditing}
             customers={customers}
+            employees={employees}
             onSubmitSuccess={handleFormSuccess}
             onCancel={() => setDialogOpen(false)}
           />
@@ -19,10 +19,24 @@ export function StatusBadge({ status }: StatusBadgeProps) {
       return <Badge className="bg-purple-500 text-white">Restored</Badge>;
     case 'paid':
       return <Badge className="bg-green-500 text-white">Paid</Badge>;
+    case 'credited':
+      return <Badge className="bg-teal-500 text-white">Credited</Badge>;
     case 'partial':
       return <Badge className="bg-yellow-500 text-white">Partial</Badge>;
     case 'unpaid':
       return <Badge variant="destructive">Unpaid</Badge>;
+    case 'overdue':
+      return <Badge className="bg-orange-500 text-white">Overdue</Badge>;
+    case 'draft':
+      return <Badge variant="outline">Draft</Badge>;
+    case 'sent':
+      return <Badge className="bg-blue-500 text-white">Sent</Badge>;
+    case 'accepted':
+      return <Badge className="bg-green-500 text-white">Accepted</Badge>;
+    case 'expired':
+      return <Badge className="bg-gray-500 text-white">Expired</Badge>;
+    case 'rejected':
+      return <Badge variant="destructive">Rejected</Badge>;
     default:
       return <Badge variant="outline">{status}</Badge>;
   }
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CreditHold } from "../SaleService";
+
+interface CreditOverrideDialogProps {
+  creditHold: CreditHold | null;
+  canOverride: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  confirmLabel?: string;
+}
+
+// Shown when a sale would take the customer over its credit limit. Users who may override
+// the hold can save it anyway with a reason, which is recorded with the sale.
+export function CreditOverrideDialog({
+  creditHold,
+  canOverride,
+  onOpenChange,
+  onConfirm,
+  confirmLabel = "Override and Save"
+}: CreditOverrideDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (creditHold) setReason("");
+  }, [creditHold]);
+
+  return (
+    <Dialog open={creditHold !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Credit Limit Exceeded</DialogTitle>
+          <DialogDescription>
+            The customer owes ${(creditHold?.balance || 0).toFixed(2)} against a credit limit
+            of ${(creditHold?.credit_limit || 0).toFixed(2)}. This sale would bring the balance
+            to ${(creditHold?.new_balance || 0).toFixed(2)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canOverride ? (
+          <div className="space-y-2">
+            <Label htmlFor="credit-override-reason">Override Reason</Label>
+            <Textarea
+              id="credit-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why may this customer go over its credit limit?"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Ask a manager to override the credit hold, or reduce the sale.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {canOverride ? 'Cancel' : 'Close'}
+          </Button>
+          {canOverride && (
+            <Button type="button" variant="destructive" disabled={!reason.trim()} onClick={() => onConfirm(reason.trim())}>
+              {confirmLabel}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatAddress } from "@/components/customers/CustomerService";
+import { useCustomerProfile } from "@/components/customers/hooks/useCustomerProfile";
+import { Customer } from "../types";
+
+interface SaleCustomerDetailsProps {
+  customer: Customer | undefined;
+}
+
+// Where the selected customer is billed and shipped, and who to call about the sale
+export function SaleCustomerDetails({ customer }: SaleCustomerDetailsProps) {
+  const { profile, loading } = useCustomerProfile(customer?.custno);
+
+  if (!customer) return null;
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading customer details...
+      </div>
+    );
+  }
+
+  if (!profile) return null;
+
+  const billTo = formatAddress(profile.billing) || customer.address || 'No address on file';
+  const shipTo = profile.shipping ? formatAddress(profile.shipping) : 'Same as billing address';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 rounded-md border p-4 text-sm">
+      <div>
+        <div className="font-medium text-gray-500 dark:text-gray-400">Bill To</div>
+        <div className="mt-1">{billTo}</div>
+      </div>
+      <div>
+        <div className="font-medium text-gray-500 dark:text-gray-400">Ship To</div>
+        <div className="mt-1">{shipTo}</div>
+      </div>
+      <div>
+        <div className="font-medium text-gray-500 dark:text-gray-400">Contacts</div>
+        {profile.contacts.length === 0 ? (
+          <div className="mt-1">No contacts on file</div>
+        ) : (
+          <ul className="mt-1 space-y-1">
+            {profile.contacts.map(contact => (
+              <li key={contact.id}>
+                <span className="font-medium">{contact.name}</span>
+                {contact.role && <span className="text-gray-500 dark:text-gray-400"> ({contact.role})</span>}
+                {contact.is_primary && <Badge variant="secondary" className="ml-2">Primary</Badge>}
+                <div className="text-gray-500 dark:text-gray-400">
+                  {[contact.phone, contact.email].filter(Boolean).join(' · ')}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
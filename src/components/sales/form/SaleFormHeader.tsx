@@ -14,16 +14,30 @@ import { CalendarIcon } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Customer } from "../types";
+import { Customer, Employee } from "../types";
 import { UseFormReturn } from "react-hook-form";
-import { FormValues } from "./types";
+import { FormValues, SaleFormDocumentType } from "./types";
+import { SaleCustomerDetails } from "./SaleCustomerDetails";
 
 interface SaleFormHeaderProps {
   form: UseFormReturn<FormValues>;
   customers: Customer[];
+  employees: Employee[];
+  currentEmployee?: Employee;
+  documentType?: SaleFormDocumentType;
 }
 
-export function SaleFormHeader({ form, customers }: SaleFormHeaderProps) {
+export function SaleFormHeader({ form, customers, employees, currentEmployee, documentType = 'sale' }: SaleFormHeaderProps) {
+  const isQuote = documentType === 'quote';
+
+  // Keep a separated salesperson selectable on the sale they already made
+  const salespeople = currentEmployee && !employees.some(employee => employee.empno === currentEmployee.empno)
+    ? [...employees, currentEmployee]
+    : employees;
+
+  const selectedCustno = form.watch('custno');
+  const selectedCustomer = customers.find(customer => customer.custno === selectedCustno);
+
   return (
     <>
       <FormField
@@ -31,7 +45,7 @@ export function SaleFormHeader({ form, customers }: SaleFormHeaderProps) {
         name="transno"
         render={({ field }) => (
           <FormItem>
-            <FormLabel>Transaction No</FormLabel>
+            <FormLabel>{isQuote ? "Quote No" : "Transaction No"}</FormLabel>
             <FormControl>
               <Input {...field} disabled={true} />
             </FormControl>
@@ -45,7 +59,7 @@ export function SaleFormHeader({ form, customers }: SaleFormHeaderProps) {
         name="salesdate"
         render={({ field }) => (
           <FormItem className="flex flex-col">
-            <FormLabel>Sale Date</FormLabel>
+            <FormLabel>{isQuote ? "Quote Date" : "Sale Date"}</FormLabel>
             <Popover>
               <PopoverTrigger asChild>
                 <FormControl>
@@ -76,6 +90,48 @@ export function SaleFormHeader({ form, customers }: SaleFormHeaderProps) {
         )}
       />
       
+      {isQuote && (
+        <FormField
+          control={form.control}
+          name="valid_until"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Valid Until</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant={"outline"}
+                      className={`w-full pl-3 text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                    >
+                      {field.value ? (
+                        format(field.value, "PPP")
+                      ) : (
+                        <span>Pick a date</span>
+                      )}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value || undefined}
+                    onSelect={field.onChange}
+                    disabled={(date) => {
+                      const quoteDate = form.getValues('salesdate');
+                      return !!quoteDate && date < new Date(quoteDate.getFullYear(), quoteDate.getMonth(), quoteDate.getDate());
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      
       <FormField
         control={form.control}
         name="custno"
@@ -103,6 +159,36 @@ export function SaleFormHeader({ form, customers }: SaleFormHeaderProps) {
           </FormItem>
         )}
       />
+
+      <SaleCustomerDetails customer={selectedCustomer} />
+      
+      <FormField
+        control={form.control}
+        name="empno"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Salesperson</FormLabel>
+            <Select
+              onValueChange={field.onChange}
+              defaultValue={field.value || undefined}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a salesperson" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {salespeople.map((employee) => (
+                  <SelectItem key={employee.empno} value={employee.empno}>
+                    {employee.empname || employee.empno} ({employee.empno})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
     </>
   );
 }
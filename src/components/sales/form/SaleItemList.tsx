@@ -7,19 +7,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Plus } from "lucide-react";
 import { Product, SaleItem } from "../types";
 import { SalesDetailActions } from "../SalesDetailActions";
-import { useAuth } from "@/contexts/AuthContext";
+import { FieldErrors } from "react-hook-form";
+import { FormValues } from "./types";
+import { SaleFormPermissions } from "./useSaleFormPermissions";
 
 interface SaleItemListProps {
   items: SaleItem[];
   showDeleted: boolean;
   products: Product[];
   selectedSaleTransno: string;
+  permissions: SaleFormPermissions;
   onAddProduct: () => void;
   onEditProduct: (index: number) => void;
   onRemoveProduct: (index: number) => void;
   onRestoreProduct: (item: SaleItem, index: number) => void;
   onProductChange: (index: number, prodcode: string) => void;
   onQuantityChange: (index: number, quantity: number) => void;
+  errors?: FieldErrors<FormValues>["items"];
 }
 
 export function SaleItemList({
@@ -27,22 +31,20 @@ export function SaleItemList({
   showDeleted,
   products,
   selectedSaleTransno,
+  permissions,
   onAddProduct,
   onEditProduct,
   onRemoveProduct,
   onRestoreProduct,
   onProductChange,
-  onQuantityChange
+  onQuantityChange,
+  errors
 }: SaleItemListProps) {
-  const { isAdmin, permissions } = useAuth();
-  
-  const canModifySales = isAdmin || permissions?.can_edit_sales;
-
   return (
     <div>
       <div className="flex justify-between items-center mb-2">
         <FormLabel>Products</FormLabel>
-        {!showDeleted && canModifySales && (
+        {!showDeleted && permissions.canAddItem && (
           <Button 
             type="button" 
             variant="outline" 
@@ -54,6 +56,10 @@ export function SaleItemList({
         )}
       </div>
       
+      {errors?.message && (
+        <p className="text-sm font-medium text-destructive mb-2">{errors.message}</p>
+      )}
+      
       {items.length === 0 ? (
         <div className="text-center py-4 text-gray-500">
           {showDeleted ? "No deleted items found." : "No items added yet."}
@@ -66,7 +72,7 @@ export function SaleItemList({
               <Select
                 value={item.prodcode}
                 onValueChange={(value) => onProductChange(index, value)}
-                disabled={showDeleted || !canModifySales}
+                disabled={showDeleted || !permissions.canEditItem}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select product" />
@@ -79,6 +85,9 @@ export function SaleItemList({
                   ))}
                 </SelectContent>
               </Select>
+              {errors?.[index]?.prodcode?.message && (
+                <p className="text-sm font-medium text-destructive">{errors[index].prodcode.message}</p>
+              )}
             </div>
             
             <div className="w-20 space-y-2">
@@ -88,8 +97,11 @@ export function SaleItemList({
                 min="1"
                 value={item.quantity}
                 onChange={(e) => onQuantityChange(index, parseInt(e.target.value) || 1)}
-                disabled={showDeleted || !canModifySales}
+                disabled={showDeleted || !permissions.canEditItem}
               />
+              {errors?.[index]?.quantity?.message && (
+                <p className="text-sm font-medium text-destructive">{errors[index].quantity.message}</p>
+              )}
             </div>
             
             <div className="w-20 space-y-2">
@@ -109,6 +121,9 @@ export function SaleItemList({
                   quantity: item.quantity,
                   unitprice: item.unitprice
                 }}
+                canEdit={permissions.canEditItem}
+                canDelete={permissions.canDeleteItem}
+                canRestore={permissions.canRestoreItem}
                 onEdit={() => onEditProduct(index)}
                 onDelete={() => onRemoveProduct(index)}
                 onRestore={() => onRestoreProduct(item, index)}
@@ -1,17 +1,39 @@
 
 import React from "react";
+import { CustomerCreditStatus } from "@/components/customers/credit/CustomerCreditService";
 
 interface SaleSummaryProps {
   totalAmount: number;
+  // Credit status of the selected customer, when the document is a sale
+  credit?: CustomerCreditStatus | null;
+  isNew?: boolean;
 }
 
-export function SaleSummary({ totalAmount }: SaleSummaryProps) {
+export function SaleSummary({ totalAmount, credit, isNew = false }: SaleSummaryProps) {
+  const creditLimit = credit?.credit_limit ?? null;
+  // An edited sale is already part of the balance, so only a new one is added to it here
+  const projectedBalance = credit ? credit.balance + (isNew ? totalAmount : 0) : 0;
+  const overLimit = creditLimit !== null && isNew && totalAmount > 0 && projectedBalance > creditLimit;
+
   return (
     <div className="mt-4 p-3 bg-gray-50 rounded-md">
       <div className="flex justify-between items-center font-medium">
         <span>Total Amount:</span>
         <span className="text-lg">${totalAmount.toFixed(2)}</span>
       </div>
+      {creditLimit !== null && credit && (
+        <div className="mt-2 space-y-1 text-sm text-gray-600">
+          <div className="flex justify-between">
+            <span>Customer Balance / Credit Limit:</span>
+            <span>${credit.balance.toFixed(2)} / ${creditLimit.toFixed(2)}</span>
+          </div>
+          {overLimit && (
+            <p className="text-destructive">
+              This sale would bring the balance to ${projectedBalance.toFixed(2)}, over the credit limit. Saving it needs a manager override.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
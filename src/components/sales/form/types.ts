@@ -1,12 +1,14 @@
 
 import { z } from "zod";
 import { Product } from "../types";
-import { Customer, SalesRecord } from "../types";
+import { Customer, Employee, SalesRecord } from "../types";
 
 export const formSchema = z.object({
   transno: z.string().min(1, "Transaction number is required"),
   salesdate: z.date().nullable(),
   custno: z.string().nullable(),
+  empno: z.string().nullable(),
+  valid_until: z.date().nullable().optional(),
   items: z.array(z.object({
     prodcode: z.string(),
     quantity: z.number().min(1, "Quantity must be at least 1"),
@@ -26,10 +28,19 @@ export interface ProductWithQuantity extends Product {
   quantity: number;
 }
 
+// The form edits sales and quotes; a quote uses transno and salesdate for its number and date
+export type SaleFormDocumentType = 'sale' | 'quote';
+
+export type SaleFormDocument = Pick<SalesRecord, 'transno' | 'salesdate' | 'custno' | 'empno' | 'employee'> & {
+  valid_until?: string | null;
+};
+
 export interface SaleFormProps {
-  selectedSale: SalesRecord | null;
+  selectedSale: SaleFormDocument | null;
   isEditing: boolean;
+  documentType?: SaleFormDocumentType;
   customers: Customer[];
+  employees: Employee[];
   onSubmitSuccess: () => void;
   onCancel: () => void;
 }
@@ -38,5 +49,6 @@ export type SaleFormData = {
   transno: string;
   salesdate: Date | null;
   custno: string | null;
+  empno: string | null;
   items: SaleItemFormData[];
 };
@@ -1,10 +1,13 @@
 
-import { FormValues, SaleFormData } from "./types";
-import { useAuth } from "@/contexts/AuthContext";
+import { useState } from "react";
+import { FormValues, SaleFormData, SaleFormDocument, SaleFormDocumentType } from "./types";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { SalesRecord, SaleItem } from "../types";
-import { UseFormReturn } from "react-hook-form";
+import { SaleItem } from "../types";
+import { getPriceOnDate } from "../PricingService";
+import { CreditHold, SaleFieldError, saveSale } from "../SaleService";
+import { saveQuote } from "@/components/quotes/QuoteService";
+import { FieldPath, UseFormReturn } from "react-hook-form";
+import { SaleFormPermissions } from "./useSaleFormPermissions";
 
 interface UseSaleFormActionsProps {
   form: UseFormReturn<FormValues>;
@@ -15,8 +18,10 @@ interface UseSaleFormActionsProps {
   calculateTotal: (items: SaleItem[]) => void;
   setIsSubmitting: React.Dispatch<React.SetStateAction<boolean>>;
   totalAmount: number;
-  selectedSale: SalesRecord | null;
+  selectedSale: SaleFormDocument | null;
   isEditing: boolean;
+  documentType: SaleFormDocumentType;
+  permissions: SaleFormPermissions;
   onSubmitSuccess: () => void;
 }
 
@@ -31,216 +36,101 @@ export function useSaleFormActions({
   totalAmount,
   selectedSale,
   isEditing,
+  documentType,
+  permissions,
   onSubmitSuccess
 }: UseSaleFormActionsProps) {
   const { toast } = useToast();
-  const { isAdmin, permissions } = useAuth();
+  const documentLabel = documentType === 'quote' ? 'quotes' : 'sales';
+  // Set when the server refused the sale for taking the customer over its credit limit
+  const [creditHold, setCreditHold] = useState<CreditHold | null>(null);
 
-  const handleSubmit = async (values: FormValues) => {
-    try {
-      // Prevent double submission
-      setIsSubmitting(true);
-      
-      console.log("Submitting form with values:", values);
-      
-      // Validate that we have at least one item with a valid product code
-      if (!values.items || values.items.length === 0 || !values.items.some(item => item.prodcode)) {
+  const submitDocument = async (values: FormValues, creditOverrideReason?: string) => {
+    // Prevent double submission
+    setIsSubmitting(true);
+    form.clearErrors();
+    
+    if (isEditing && selectedSale) {
+      // Check edit permission
+      if (!permissions.canEdit) {
         toast({
-          title: "Error",
-          description: "Please add at least one product to the sale.",
+          title: "Permission Denied",
+          description: `You don't have permission to edit ${documentLabel}.`,
           variant: "destructive",
         });
         setIsSubmitting(false);
         return;
       }
-      
-      const currentUser = (await supabase.auth.getUser()).data.user;
-      const userId = currentUser?.id || null;
-      
-      if (isEditing && selectedSale) {
-        // Check edit permission
-        if (!isAdmin && !permissions?.can_edit_sales) {
-          toast({
-            title: "Permission Denied",
-            description: "You don't have permission to edit sales.",
-            variant: "destructive",
-          });
-          setIsSubmitting(false);
-          return;
-        }
-        
-        // Update existing sale logic
-        const { error } = await supabase
-          .from('sales')
-          .update({
-            salesdate: values.salesdate?.toISOString(),
-            custno: values.custno,
-            modified_at: new Date().toISOString(),
-            modified_by: userId
-          })
-          .eq('transno', selectedSale.transno);
-        
-        if (error) {
-          console.error("Error updating sale:", error);
-          throw error;
-        }
+    } else if (!permissions.canCreate) {
+      // Check add permission
+      toast({
+        title: "Permission Denied",
+        description: `You don't have permission to add ${documentLabel}.`,
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+      return;
+    }
+    
+    // Header, lines and the activity log are written in a single transaction
+    const header = {
+      transno: isEditing && selectedSale ? selectedSale.transno : values.transno,
+      salesdate: values.salesdate,
+      custno: values.custno,
+      empno: values.empno
+    };
+    const lines = saleItems.map(item => ({ prodcode: item.prodcode, quantity: item.quantity }));
+    const isNew = !(isEditing && selectedSale);
+    const result: { success: boolean; message: string; errors: SaleFieldError[]; creditHold?: CreditHold } = documentType === 'quote'
+      ? await saveQuote({ ...header, valid_until: values.valid_until || null }, lines, isNew)
+      : await saveSale({ ...header, credit_override_reason: creditOverrideReason }, lines, isNew);
+    
+    setIsSubmitting(false);
+    
+    if (result.creditHold) {
+      setCreditHold(result.creditHold);
+    }
 
-        // Update or insert sale details for editing
-        for (const item of saleItems) {
-          if (item.id) {
-            // Update existing sale detail
-            const { error: updateError } = await supabase
-              .from('salesdetail')
-              .update({
-                quantity: item.quantity
-              })
-              .eq('id', item.id);
-            
-            if (updateError) {
-              console.error("Error updating sale detail:", updateError);
-              throw updateError;
-            }
-          } else {
-            try {
-              // Insert new sale detail for existing sale
-              const { error: insertError } = await supabase
-                .from('salesdetail')
-                .insert({
-                  transno: selectedSale.transno,
-                  prodcode: item.prodcode,
-                  quantity: item.quantity
-                });
-              
-              if (insertError) {
-                console.error("Error inserting new sale detail:", insertError);
-                throw insertError;
-              }
-            } catch (e) {
-              console.error("Error inserting new sale detail:", e);
-              // Continue with other items even if one fails
-            }
-          }
-        }
-        
-        toast({
-          title: "Sale Updated",
-          description: `Sale #${selectedSale.transno} has been updated successfully.`,
-        });
-        
-        // Log activity
-        await supabase.rpc('log_activity', {
-          action: 'update',
-          table_name: 'sales',
-          record_id: selectedSale.transno,
-          details: JSON.stringify({...values, total_amount: totalAmount})
+    if (!result.success) {
+      // Show each problem next to the field it belongs to
+      result.errors.forEach(fieldError => {
+        form.setError(fieldError.field as FieldPath<FormValues>, {
+          type: "server",
+          message: fieldError.message
         });
-      } else {
-        // Check add permission
-        if (!isAdmin && !permissions?.can_add_sales) {
-          toast({
-            title: "Permission Denied",
-            description: "You don't have permission to add sales.",
-            variant: "destructive",
-          });
-          setIsSubmitting(false);
-          return;
-        }
-        
-        // Create new sale logic
-        console.log("Creating new sale with values:", values);
-        
-        // Make sure transno is not empty
-        if (!values.transno) {
-          toast({
-            title: "Error",
-            description: "Transaction number is required.",
-            variant: "destructive",
-          });
-          setIsSubmitting(false);
-          return;
-        }
-        
-        // Insert into sales table
-        const { error } = await supabase
-          .from('sales')
-          .insert({
-            transno: values.transno,
-            salesdate: values.salesdate?.toISOString(),
-            custno: values.custno,
-            created_by: userId,
-            created_at: new Date().toISOString()
-          });
-        
-        if (error) {
-          console.error("Error creating sale:", error);
-          if (error.code === '23505') {
-            toast({
-              title: "Error",
-              description: "Transaction number already exists.",
-              variant: "destructive",
-            });
-            setIsSubmitting(false);
-            return;
-          }
-          throw error;
-        }
-        
-        // Insert sale details for each item
-        for (const item of saleItems) {
-          try {
-            const { error: detailError } = await supabase
-              .from('salesdetail')
-              .insert({
-                transno: values.transno,
-                prodcode: item.prodcode,
-                quantity: item.quantity
-              });
-            
-            if (detailError) {
-              console.error("Error inserting sale detail:", detailError);
-              // Continue with other items even if one fails
-            }
-          } catch (e) {
-            console.error("Error inserting sale detail:", e);
-            // Continue with other items even if one fails
-          }
-        }
-        
-        console.log("Sale created successfully");
-        
-        toast({
-          title: "Sale Created",
-          description: `Sale #${values.transno} has been created successfully.`,
-        });
-        
-        // Log activity
-        await supabase.rpc('log_activity', {
-          action: 'insert',
-          table_name: 'sales',
-          record_id: values.transno,
-          details: JSON.stringify({...values, total_amount: totalAmount})
-        });
-      }
+      });
       
-      setIsSubmitting(false);
-      onSubmitSuccess();
-    } catch (error) {
-      console.error('Error submitting sale:', error);
-      setIsSubmitting(false);
       toast({
         title: "Error",
-        description: "Failed to save sale data.",
+        description: result.message,
         variant: "destructive",
       });
+      return;
     }
+    
+    const documentName = documentType === 'quote' ? "Quote" : "Sale";
+    toast({
+      title: isEditing ? `${documentName} Updated` : `${documentName} Created`,
+      description: result.message,
+    });
+    
+    onSubmitSuccess();
+  };
+
+  const handleSubmit = (values: FormValues) => submitDocument(values);
+
+  // Save again with the reason given for overriding the credit hold
+  const handleCreditOverride = (reason: string) => {
+    setCreditHold(null);
+    return submitDocument(form.getValues(), reason);
   };
 
   const handleAddProduct = () => {
-    // Check permission to modify sales
-    if (!isAdmin && !permissions?.can_edit_sales) {
+    // Check permission to add lines
+    if (!permissions.canAddItem) {
       toast({
         title: "Permission Denied",
-        description: "You don't have permission to modify sales.",
+        description: "You don't have permission to add items.",
         variant: "destructive",
       });
       return;
@@ -261,11 +151,11 @@ export function useSaleFormActions({
   };
 
   const handleEditProduct = (index: number) => {
-    // Check permission to modify sales
-    if (!isAdmin && !permissions?.can_edit_sales) {
+    // Check permission to change lines
+    if (!permissions.canEditItem) {
       toast({
         title: "Permission Denied",
-        description: "You don't have permission to modify sales.",
+        description: "You don't have permission to edit items.",
         variant: "destructive",
       });
       return;
@@ -276,11 +166,11 @@ export function useSaleFormActions({
   };
 
   const handleRemoveProduct = (index: number) => {
-    // Check permission to modify sales
-    if (!isAdmin && !permissions?.can_delete_sales) {
+    // Check permission to remove lines
+    if (!permissions.canDeleteItem) {
       toast({
         title: "Permission Denied",
-        description: "You don't have permission to delete sales.",
+        description: "You don't have permission to delete items.",
         variant: "destructive",
       });
       return;
@@ -300,10 +190,10 @@ export function useSaleFormActions({
   
   const handleSoftDeleteItem = async (item: SaleItem, index: number) => {
     // Check permission
-    if (!isAdmin && !permissions?.can_delete_sales) {
+    if (!permissions.canDeleteItem) {
       toast({
         title: "Permission Denied",
-        description: "You don't have permission to delete sales.",
+        description: "You don't have permission to delete items.",
         variant: "destructive",
       });
       return;
@@ -314,11 +204,10 @@ export function useSaleFormActions({
   };
   
   const handleRestoreItem = async (item: SaleItem, index: number) => {
-    // Only admin can restore deleted items
-    if (!isAdmin) {
+    if (!permissions.canRestoreItem) {
       toast({
         title: "Permission Denied",
-        description: "Only administrators can restore deleted items.",
+        description: "You don't have permission to restore items.",
         variant: "destructive",
       });
       return;
@@ -332,23 +221,24 @@ export function useSaleFormActions({
     const updatedItems = [...saleItems];
     const product = updatedItems[index] || { quantity: 1, unitprice: 0, transno: selectedSale?.transno || "" };
     
-    // Get the product price from pricehist
+    // Get the product price in effect on the sale date
     try {
-      const { data, error } = await supabase
-        .from('pricehist')
-        .select('unitprice')
-        .eq('prodcode', prodcode)
-        .order('effdate', { ascending: false })
-        .limit(1);
-      
-      if (error) throw error;
+      const { unitprice, hasPrice } = await getPriceOnDate(prodcode, form.getValues('salesdate'));
       
-      const price = data && data.length > 0 ? data[0].unitprice : 0;
+      if (!hasPrice) {
+        toast({
+          title: "Missing Price",
+          description: `No price is in effect for ${prodcode} on the sale date.`,
+          variant: "destructive",
+        });
+      }
       
+      // A different product is no longer covered by the quoted price of the line
       updatedItems[index] = { 
         ...product, 
         prodcode,
-        unitprice: price
+        unitprice,
+        quoted_price: null
       } as SaleItem;
       setSaleItems(updatedItems);
       calculateTotal(updatedItems);
@@ -382,6 +272,9 @@ export function useSaleFormActions({
 
   return {
     handleSubmit,
+    creditHold,
+    setCreditHold,
+    handleCreditOverride,
     handleAddProduct,
     handleEditProduct,
     handleRemoveProduct,
@@ -0,0 +1,42 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { SaleFormDocumentType } from "./types";
+
+export interface SaleFormPermissions {
+  canCreate: boolean;
+  canEdit: boolean;
+  canAddItem: boolean;
+  canEditItem: boolean;
+  canDeleteItem: boolean;
+  canRestoreItem: boolean;
+  // May save a sale that takes the customer over its credit limit, giving a reason
+  canOverrideCredit: boolean;
+}
+
+// Sale lines have permissions of their own; quote lines follow the quote itself
+export function useSaleFormPermissions(documentType: SaleFormDocumentType): SaleFormPermissions {
+  const { can } = useAuth();
+
+  if (documentType === 'quote') {
+    const canWriteQuote = can('quotes', 'create') || can('quotes', 'edit');
+
+    return {
+      canCreate: can('quotes', 'create'),
+      canEdit: can('quotes', 'edit'),
+      canAddItem: canWriteQuote,
+      canEditItem: canWriteQuote,
+      canDeleteItem: canWriteQuote,
+      canRestoreItem: false,
+      canOverrideCredit: false
+    };
+  }
+
+  return {
+    canCreate: can('sales', 'create'),
+    canEdit: can('sales', 'edit'),
+    canAddItem: can('sale_items', 'create'),
+    canEditItem: can('sale_items', 'edit'),
+    canDeleteItem: can('sale_items', 'delete'),
+    canRestoreItem: can('sales', 'restore'),
+    canOverrideCredit: can('sales', 'override_credit')
+  };
+}
@@ -1,16 +1,29 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
+import { addDays } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { SalesRecord, SaleItem, Product } from "../types";
-import { FormValues, formSchema } from "./types";
+import { SaleItem, Product } from "../types";
+import { FormValues, SaleFormDocument, SaleFormDocumentType, formSchema } from "./types";
+import { 
+  PriceHistoryEntry, 
+  fetchPriceHistory, 
+  findEffectivePrice, 
+  priceLinesFromHistory, 
+  priceSaleLines 
+} from "../PricingService";
+import { releaseDocumentNumber, reserveDocumentNumber } from "@/components/numbering/DocumentSequenceService";
+
+// How long a new quote stays valid unless changed
+const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
 
 export function useSaleFormState(
-  selectedSale: SalesRecord | null,
+  selectedSale: SaleFormDocument | null,
   isEditing: boolean,
-  onSubmitSuccess: () => void
+  onSubmitSuccess: () => void,
+  documentType: SaleFormDocumentType = 'sale'
 ) {
   const { toast } = useToast();
   const [products, setProducts] = useState<Product[]>([]);
@@ -20,6 +33,9 @@ export function useSaleFormState(
   const [totalAmount, setTotalAmount] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingItemIndex, setEditingItemIndex] = useState<number | null>(null);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
+  const reservedTransno = useRef<string | null>(null);
+  const sequenceCode = documentType === 'quote' ? 'quote' : 'sales';
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -27,10 +43,14 @@ export function useSaleFormState(
       transno: "",
       salesdate: null,
       custno: null,
+      empno: null,
+      valid_until: null,
       items: [],
     },
   });
 
+  const salesdate = form.watch('salesdate');
+
   useEffect(() => {
     fetchProducts();
     if (selectedSale && isEditing) {
@@ -38,6 +58,8 @@ export function useSaleFormState(
         transno: selectedSale.transno,
         salesdate: selectedSale.salesdate ? new Date(selectedSale.salesdate) : null,
         custno: selectedSale.custno,
+        empno: selectedSale.empno,
+        valid_until: selectedSale.valid_until ? new Date(`${selectedSale.valid_until.substring(0, 10)}T00:00:00`) : null,
         items: [],
       });
       fetchSaleDetails(selectedSale.transno);
@@ -47,6 +69,8 @@ export function useSaleFormState(
         transno: "",
         salesdate: new Date(),
         custno: null,
+        empno: null,
+        valid_until: documentType === 'quote' ? addDays(new Date(), DEFAULT_QUOTE_VALIDITY_DAYS) : null,
         items: [],
       });
       setSaleItems([]);
@@ -54,31 +78,19 @@ export function useSaleFormState(
     }
   }, [selectedSale, isEditing, form]);
 
+  // Reserve the number on the server so concurrent users never get the same one. A number
+  // reserved earlier by this form is handed back first; the server ignores it once saved.
   const generateNewTransactionNumber = async () => {
+    const previous = reservedTransno.current;
+    reservedTransno.current = null;
+    if (previous) {
+      await releaseDocumentNumber(sequenceCode, previous);
+    }
+
     try {
-      // Get the highest transaction number
-      const { data, error } = await supabase
-        .from('sales')
-        .select('transno')
-        .order('transno', { ascending: false })
-        .limit(1);
-      
-      if (error) throw error;
-      
-      let nextNumber = "TR000001"; // Default starting number
-      
-      if (data && data.length > 0) {
-        const lastNumber = data[0].transno;
-        // Extract the numeric part and increment
-        if (lastNumber.startsWith('TR')) {
-          const numPart = parseInt(lastNumber.substring(2), 10);
-          if (!isNaN(numPart)) {
-            nextNumber = `TR${String(numPart + 1).padStart(6, '0')}`;
-          }
-        }
-      }
-      
-      form.setValue("transno", nextNumber);
+      const transno = await reserveDocumentNumber(sequenceCode);
+      reservedTransno.current = transno;
+      form.setValue("transno", transno);
     } catch (error) {
       console.error('Error generating transaction number:', error);
       toast({
@@ -89,42 +101,34 @@ export function useSaleFormState(
     }
   };
 
+  // Hand an unsaved number back when the form closes; ignored once the sale is saved
+  useEffect(() => {
+    return () => {
+      if (reservedTransno.current) {
+        releaseDocumentNumber(sequenceCode, reservedTransno.current);
+      }
+    };
+  }, []);
+
   const fetchProducts = async () => {
     try {
-      // Get all products with their latest prices from pricehist
       const { data: productsData, error: productsError } = await supabase
         .from('product')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
       
       if (productsError) throw productsError;
       
-      // For each product, get the latest price from pricehist
-      const productsWithPrices = await Promise.all(
-        productsData.map(async (product) => {
-          const { data: priceData, error: priceError } = await supabase
-            .from('pricehist')
-            .select('unitprice')
-            .eq('prodcode', product.prodcode)
-            .order('effdate', { ascending: false })
-            .limit(1);
-          
-          if (priceError) {
-            console.error('Error fetching price for product:', priceError);
-            return {
-              ...product,
-              unitprice: 0,
-            };
-          }
-          
-          const unitprice = priceData && priceData.length > 0 ? priceData[0].unitprice : 0;
-          
-          return {
-            ...product,
-            unitprice,
-          };
-        })
-      );
+      // Prices depend on the sale date, so keep the whole history and price from it
+      const history = await fetchPriceHistory(productsData.map(product => product.prodcode));
+      const currentDate = form.getValues('salesdate');
+      
+      const productsWithPrices = productsData.map(product => ({
+        ...product,
+        unitprice: findEffectivePrice(history, product.prodcode, currentDate)?.unitprice || 0,
+      }));
       
+      setPriceHistory(history);
       setProducts(productsWithPrices);
     } catch (error) {
       console.error('Error fetching products:', error);
@@ -136,8 +140,63 @@ export function useSaleFormState(
     }
   };
 
+  // Re-price the product picker and the current lines when the sale date changes
+  useEffect(() => {
+    if (priceHistory.length === 0) return;
+    
+    setProducts(prev => prev.map(product => ({
+      ...product,
+      unitprice: findEffectivePrice(priceHistory, product.prodcode, salesdate)?.unitprice || 0,
+    })));
+    
+    if (saleItems.length > 0) {
+      const pricedSale = priceLinesFromHistory(priceHistory, saleItems, salesdate);
+      const repricedItems = saleItems.map((item, index) => ({
+        ...item,
+        unitprice: pricedSale.lines[index].unitprice,
+      }));
+      
+      setSaleItems(repricedItems);
+      calculateTotal(repricedItems);
+      warnMissingPrices(pricedSale.missingPrices);
+    }
+  }, [salesdate, priceHistory]);
+
+  // A quote is edited from its own lines; they are priced again on the quote date when saved
+  const fetchQuoteLines = async (quoteno: string) => {
+    const { data, error } = await supabase
+      .from('quote_line')
+      .select('quoteno, prodcode, quantity')
+      .eq('quoteno', quoteno);
+
+    if (error) throw error;
+
+    const lines = data || [];
+    const pricedSale = await priceSaleLines(lines, selectedSale?.salesdate);
+    const items: SaleItem[] = lines.map((line, index) => ({
+      transno: line.quoteno,
+      prodcode: line.prodcode,
+      quantity: Number(line.quantity),
+      unitprice: pricedSale.lines[index].unitprice,
+    }));
+
+    warnMissingPrices(pricedSale.missingPrices);
+    setSaleItems(items);
+    form.setValue('items', items.map(item => ({
+      prodcode: item.prodcode,
+      quantity: item.quantity,
+      deleted_at: null
+    })));
+    calculateTotal(items);
+  };
+
   const fetchSaleDetails = async (transno: string) => {
     try {
+      if (documentType === 'quote') {
+        await fetchQuoteLines(transno);
+        return;
+      }
+      
       // First get active items
       const { data: activeDetails, error: activeError } = await supabase
         .from('salesdetail')
@@ -145,6 +204,7 @@ export function useSaleFormState(
           transno,
           prodcode, 
           quantity,
+          quoted_price,
           deleted_at,
           deleted_by
         `)
@@ -160,6 +220,7 @@ export function useSaleFormState(
           transno,
           prodcode, 
           quantity,
+          quoted_price,
           deleted_at,
           deleted_by
         `)
@@ -169,26 +230,17 @@ export function useSaleFormState(
       if (deletedError) throw deletedError;
       
       if (activeDetails && activeDetails.length > 0) {
-        const items: SaleItem[] = await Promise.all(
-          activeDetails.map(async (detail: any) => {
-            // Get the latest price for this product
-            const { data: priceData } = await supabase
-              .from('pricehist')
-              .select('unitprice')
-              .eq('prodcode', detail.prodcode)
-              .order('effdate', { ascending: false })
-              .limit(1);
-            
-            const unitprice = priceData && priceData.length > 0 ? priceData[0].unitprice : 0;
-            
-            return {
-              transno: detail.transno,
-              prodcode: detail.prodcode,
-              quantity: Number(detail.quantity),
-              unitprice,
-            };
-          })
-        );
+        // Price each line by the price in effect on the sale date
+        const pricedSale = await priceSaleLines(activeDetails, selectedSale?.salesdate);
+        const items: SaleItem[] = activeDetails.map((detail, index) => ({
+          transno: detail.transno,
+          prodcode: detail.prodcode,
+          quantity: Number(detail.quantity),
+          unitprice: pricedSale.lines[index].unitprice,
+          quoted_price: detail.quoted_price,
+        }));
+        
+        warnMissingPrices(pricedSale.missingPrices);
         
         setSaleItems(items);
         
@@ -203,27 +255,15 @@ export function useSaleFormState(
       }
       
       if (deletedDetails && deletedDetails.length > 0) {
-        const items: SaleItem[] = await Promise.all(
-          deletedDetails.map(async (detail: any) => {
-            // Get the latest price for this product
-            const { data: priceData } = await supabase
-              .from('pricehist')
-              .select('unitprice')
-              .eq('prodcode', detail.prodcode)
-              .order('effdate', { ascending: false })
-              .limit(1);
-            
-            const unitprice = priceData && priceData.length > 0 ? priceData[0].unitprice : 0;
-            
-            return {
-              transno: detail.transno,
-              prodcode: detail.prodcode,
-              quantity: Number(detail.quantity),
-              unitprice,
-              deleted_at: detail.deleted_at
-            };
-          })
-        );
+        const pricedSale = await priceSaleLines(deletedDetails, selectedSale?.salesdate);
+        const items: SaleItem[] = deletedDetails.map((detail, index) => ({
+          transno: detail.transno,
+          prodcode: detail.prodcode,
+          quantity: Number(detail.quantity),
+          unitprice: pricedSale.lines[index].unitprice,
+          quoted_price: detail.quoted_price,
+          deleted_at: detail.deleted_at
+        }));
         
         setDeletedItems(items);
       }
@@ -237,6 +277,16 @@ export function useSaleFormState(
     }
   };
 
+  const warnMissingPrices = (prodcodes: string[]) => {
+    if (prodcodes.length === 0) return;
+    
+    toast({
+      title: "Missing Price",
+      description: `No price is in effect on the ${documentType === 'quote' ? 'quote' : 'sale'} date for: ${prodcodes.join(', ')}.`,
+      variant: "destructive",
+    });
+  };
+
   const calculateTotal = (items: SaleItem[]) => {
     const total = items.reduce((sum, item) => {
       return sum + (item.quantity * (item.unitprice || 0));
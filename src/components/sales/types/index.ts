@@ -3,8 +3,6 @@ export interface Customer {
   custno: string;
   custname: string | null;
   address: string | null;
-  city: string | null;
-  phone: string | null;
   payterm: string | null;
 }
 
@@ -30,6 +28,7 @@ export interface SaleItem {
   prodcode: string;
   quantity: number;
   unitprice?: number;
+  quoted_price?: number | null;
   product?: {
     prodcode: string;
     description: string | null;
@@ -45,7 +44,13 @@ export interface SalesRecord {
   custno: string | null;
   empno: string | null;
   total_amount?: number;
-  payment_status?: 'Paid' | 'Partial' | 'Unpaid';
+  amount_paid?: number;
+  payment_status?: 'Paid' | 'Credited' | 'Partial' | 'Unpaid';
+  due_date?: string | null;
+  discount_date?: string | null;
+  discount_percent?: number | null;
+  is_overdue?: boolean;
+  record_status?: 'Added' | 'Edited' | 'Restored' | 'Deleted';
   customer?: Customer | null;
   employee?: Employee;
   deleted_at: string | null;
@@ -58,19 +63,6 @@ export interface SalesRecord {
   action?: string; // Used to track restore action
 }
 
-export interface UserPermission {
-  id: string;
-  user_id: string;
-  can_add_customers: boolean;
-  can_edit_customers: boolean;
-  can_delete_customers: boolean;
-  can_add_sales: boolean;
-  can_edit_sales: boolean;
-  can_delete_sales: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
 export interface DashboardStats {
   total_sales: number;
   total_revenue: number;
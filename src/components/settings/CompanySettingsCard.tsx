@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ImagePlus, Save, Trash2 } from "lucide-react";
+import { useCompanySettings } from "./hooks/useCompanySettings";
+import { CompanySettingsFormData } from "./CompanySettingsService";
+
+const textFields: { key: keyof CompanySettingsFormData; label: string }[] = [
+  { key: "company_name", label: "Company Name" },
+  { key: "company_phone", label: "Phone" },
+  { key: "company_email", label: "Email" },
+  { key: "company_tax_id", label: "Tax ID" },
+];
+
+// Card for the company header and logo printed on invoices; needs the settings permission
+export function CompanySettingsCard() {
+  const { settings, loading, saving, saveSettings, changeLogo, clearLogo } = useCompanySettings();
+  const [form, setForm] = useState<CompanySettingsFormData>(settings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const setField = (key: keyof CompanySettingsFormData, value: string) => {
+    setForm({ ...form, [key]: value || null });
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      await changeLogo(file);
+    }
+    e.target.value = "";
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6">
+        <h2 className="text-xl font-semibold mb-2">Company</h2>
+        <p className="text-gray-500 dark:text-gray-400 mb-6">The header and logo printed on invoices.</p>
+
+        {loading ? (
+          <div>Loading company settings...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-4">
+              <div className="flex h-20 w-40 items-center justify-center rounded border bg-gray-50 dark:bg-gray-800">
+                {settings.logo_url ? (
+                  <img src={settings.logo_url} alt="Company logo" className="max-h-full max-w-full object-contain" />
+                ) : (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">No logo</span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+                  <ImagePlus className="mr-2 h-4 w-4" /> {settings.logo_url ? "Change Logo" : "Upload Logo"}
+                </Button>
+                {settings.logo_url && (
+                  <Button variant="ghost" onClick={clearLogo} disabled={saving}>
+                    <Trash2 className="mr-2 h-4 w-4 text-destructive" /> Remove
+                  </Button>
+                )}
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  accept="image/png,image/jpeg"
+                  className="hidden"
+                  onChange={handleLogoChange}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textFields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    value={form[field.key] || ""}
+                    onChange={(e) => setField(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="company_address">Address</Label>
+              <Textarea
+                id="company_address"
+                rows={3}
+                value={form.company_address || ""}
+                onChange={(e) => setField("company_address", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="invoice_footer">Invoice Footer</Label>
+              <Textarea
+                id="invoice_footer"
+                rows={2}
+                placeholder="e.g. bank details or a thank-you note"
+                value={form.invoice_footer || ""}
+                onChange={(e) => setField("invoice_footer", e.target.value)}
+              />
+            </div>
+
+            <Button
+              onClick={() => saveSettings(form)}
+              disabled={saving}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save company details
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
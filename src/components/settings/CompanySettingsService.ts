@@ -0,0 +1,132 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export interface CompanySettings {
+  company_name: string | null;
+  company_address: string | null;
+  company_phone: string | null;
+  company_email: string | null;
+  company_tax_id: string | null;
+  invoice_footer: string | null;
+  logo_url: string | null;
+}
+
+export type CompanySettingsFormData = Omit<CompanySettings, 'logo_url'>;
+
+const LOGO_BUCKET = 'branding';
+
+export const emptyCompanySettings: CompanySettings = {
+  company_name: null,
+  company_address: null,
+  company_phone: null,
+  company_email: null,
+  company_tax_id: null,
+  invoice_footer: null,
+  logo_url: null
+};
+
+// Fetch the company details shown on invoices
+export const fetchCompanySettings = async (): Promise<CompanySettings> => {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('company_name, company_address, company_phone, company_email, company_tax_id, invoice_footer, logo_url')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data || emptyCompanySettings;
+  } catch (error) {
+    console.error('Error fetching company settings:', error);
+    throw error;
+  }
+};
+
+// Save the company details; needs the settings permission
+export const updateCompanySettings = async (
+  data: Partial<CompanySettings>
+): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('app_settings')
+      .update({
+        ...data,
+        modified_by: userId,
+        modified_at: new Date().toISOString()
+      })
+      .eq('id', true);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'app_settings',
+      record_id: 'company',
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Company settings saved successfully" };
+  } catch (error) {
+    console.error("Error saving company settings:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to save company settings" };
+  }
+};
+
+// Upload a new company logo and point the settings at it
+export const uploadCompanyLogo = async (file: File): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const fileExt = file.name.split('.').pop();
+    // A new name each time so browsers and PDFs don't pick up a cached copy of the old logo
+    const filePath = `logo-${Date.now()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .upload(filePath, file, { upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = supabase.storage
+      .from(LOGO_BUCKET)
+      .getPublicUrl(filePath);
+
+    const previous = await fetchCompanySettings();
+    const result = await updateCompanySettings({ logo_url: urlData.publicUrl });
+
+    if (result.success && previous.logo_url) {
+      await removeLogoFile(previous.logo_url);
+    }
+
+    return result.success ? { success: true, message: "Company logo updated successfully" } : result;
+  } catch (error) {
+    console.error("Error uploading company logo:", error);
+    return { success: false, message: (error as Error).message || "Failed to upload company logo" };
+  }
+};
+
+// Clear the company logo
+export const removeCompanyLogo = async (logoUrl: string): Promise<{ success: boolean; message: string; }> => {
+  const result = await updateCompanySettings({ logo_url: null });
+
+  if (result.success) {
+    await removeLogoFile(logoUrl);
+    return { success: true, message: "Company logo removed" };
+  }
+
+  return result;
+};
+
+const removeLogoFile = async (logoUrl: string) => {
+  const fileName = logoUrl.split('/').pop();
+  if (!fileName) return;
+
+  const { error } = await supabase.storage.from(LOGO_BUCKET).remove([fileName]);
+  if (error) {
+    console.error('Error removing old logo file:', error);
+  }
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CompanySettings,
+  CompanySettingsFormData,
+  emptyCompanySettings,
+  fetchCompanySettings,
+  removeCompanyLogo,
+  updateCompanySettings,
+  uploadCompanyLogo
+} from "../CompanySettingsService";
+
+export function useCompanySettings() {
+  const [settings, setSettings] = useState<CompanySettings>(emptyCompanySettings);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    try {
+      setSettings(await fetchCompanySettings());
+    } catch (error) {
+      console.error('Error fetching company settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch company settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadSettings();
+    }
+
+    return result.success;
+  };
+
+  const saveSettings = async (data: CompanySettingsFormData) => {
+    setSaving(true);
+    try {
+      return handleResult(await updateCompanySettings(data), "Company Settings Saved");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeLogo = async (file: File) => {
+    setSaving(true);
+    try {
+      return handleResult(await uploadCompanyLogo(file), "Logo Updated");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clearLogo = async () => {
+    if (!settings.logo_url) return false;
+
+    setSaving(true);
+    try {
+      return handleResult(await removeCompanyLogo(settings.logo_url), "Logo Removed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    settings,
+    loading,
+    saving,
+    loadSettings,
+    saveSettings,
+    changeLogo,
+    clearLogo
+  };
+}
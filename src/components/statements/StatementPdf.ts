@@ -0,0 +1,54 @@
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { CustomerStatement, STATEMENT_ENTRY_LABELS } from "./StatementService";
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+// Render a statement to a PDF in the browser and download it
+export const downloadStatementPdf = (statement: CustomerStatement) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 15;
+
+  doc.setFontSize(18);
+  doc.text('Statement of Account', left, 20);
+
+  doc.setFontSize(10);
+  doc.text(`Period: ${formatDate(statement.from)} to ${formatDate(statement.to)}`, left, 28);
+  doc.text(`Customer: ${statement.custname || statement.custno} (${statement.custno})`, left, 34);
+  if (statement.address) {
+    doc.text(statement.address, left, 40);
+  }
+  if (statement.payterm) {
+    doc.text(`Payment Terms: ${statement.payterm}`, left, statement.address ? 46 : 40);
+  }
+
+  autoTable(doc, {
+    startY: 54,
+    head: [['Date', 'Type', 'Reference', 'Charges', 'Credits', 'Balance']],
+    body: [
+      [formatDate(statement.from), 'Opening balance', '', '', '', money(statement.openingBalance)],
+      ...statement.entries.map(entry => [
+        formatDate(entry.date),
+        STATEMENT_ENTRY_LABELS[entry.type],
+        entry.reference,
+        entry.charge ? money(entry.charge) : '',
+        entry.credit ? money(entry.credit) : '',
+        money(entry.balance)
+      ])
+    ],
+    foot: [[
+      formatDate(statement.to), 'Closing balance', '',
+      money(statement.totalCharges), money(statement.totalCredits), money(statement.closingBalance)
+    ]],
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' }
+    },
+    styles: { fontSize: 9 },
+    showFoot: 'lastPage'
+  });
+
+  doc.save(`statement-${statement.custno}-${statement.from}-to-${statement.to}.pdf`);
+};
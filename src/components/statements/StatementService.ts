@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type StatementEntryType = 'sale' | 'payment' | 'credit_memo';
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryType, string> = {
+  sale: 'Sale',
+  payment: 'Payment',
+  credit_memo: 'Credit Memo'
+};
+
+export interface StatementEntry {
+  type: StatementEntryType;
+  reference: string;
+  date: string;
+  charge: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  custno: string;
+  custname: string | null;
+  address: string | null;
+  payterm: string | null;
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalCharges: number;
+  totalCredits: number;
+  closingBalance: number;
+}
+
+// First day of the current month to today, as yyyy-MM-dd strings
+export const getDefaultStatementRange = (): { from: string; to: string } => {
+  const today = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const month = `${today.getFullYear()}-${pad(today.getMonth() + 1)}`;
+  return { from: `${month}-01`, to: `${month}-${pad(today.getDate())}` };
+};
+
+// Build a statement of account for one customer. Sales come from sales_summary, payments
+// from the payment table and returns from credit memos, the same sources the sales and
+// payments screens use. Deleted sales, voided payments and voided credit memos are left out.
+export const fetchCustomerStatement = async (
+  custno: string,
+  from: string,
+  to: string
+): Promise<CustomerStatement> => {
+  const { data: customer, error: customerError } = await supabase
+    .from('customer')
+    .select('custno, custname, address, payterm')
+    .eq('custno', custno)
+    .single();
+
+  if (customerError) throw customerError;
+
+  // Everything up to the end of the period; earlier activity rolls into the opening balance
+  const { data: sales, error: salesError } = await supabase
+    .from('sales_summary')
+    .select('transno, salesdate, total_amount')
+    .eq('custno', custno)
+    .is('deleted_at', null)
+    .lte('salesdate', to);
+
+  if (salesError) throw salesError;
+
+  const transnos = (sales || []).map(sale => sale.transno).filter((transno): transno is string => !!transno);
+
+  let payments: { orno: string; paydate: string | null; amount: number | null }[] = [];
+  if (transnos.length > 0) {
+    const { data, error: paymentsError } = await supabase
+      .from('payment')
+      .select('orno, paydate, amount')
+      .in('transno', transnos)
+      .is('voided_at', null)
+      .lte('paydate', to);
+
+    if (paymentsError) throw paymentsError;
+    payments = data || [];
+  }
+
+  let creditMemos: { memono: string; memodate: string; credit_memo_line: { quantity: number; unitprice: number }[] }[] = [];
+  if (transnos.length > 0) {
+    const { data, error: creditMemosError } = await supabase
+      .from('credit_memo')
+      .select('memono, memodate, credit_memo_line (quantity, unitprice)')
+      .in('transno', transnos)
+      .is('voided_at', null)
+      .lte('memodate', to);
+
+    if (creditMemosError) throw creditMemosError;
+    creditMemos = data || [];
+  }
+
+  let openingBalance = 0;
+  const periodEntries: Omit<StatementEntry, 'balance'>[] = [];
+
+  (sales || []).forEach(sale => {
+    if (!sale.transno || !sale.salesdate) return;
+    const amount = Number(sale.total_amount) || 0;
+
+    if (sale.salesdate < from) {
+      openingBalance += amount;
+    } else {
+      periodEntries.push({ type: 'sale', reference: sale.transno, date: sale.salesdate, charge: amount, credit: 0 });
+    }
+  });
+
+  payments.forEach(payment => {
+    if (!payment.paydate) return;
+    const amount = Number(payment.amount) || 0;
+
+    if (payment.paydate < from) {
+      openingBalance -= amount;
+    } else {
+      periodEntries.push({ type: 'payment', reference: payment.orno, date: payment.paydate, charge: 0, credit: amount });
+    }
+  });
+
+  creditMemos.forEach(memo => {
+    const amount = memo.credit_memo_line.reduce(
+      (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitprice) || 0),
+      0
+    );
+
+    if (memo.memodate < from) {
+      openingBalance -= amount;
+    } else {
+      periodEntries.push({ type: 'credit_memo', reference: memo.memono, date: memo.memodate, charge: 0, credit: amount });
+    }
+  });
+
+  // Date order, with a day's sales listed before the payments and returns against them
+  const typeOrder: Record<StatementEntryType, number> = { sale: 0, payment: 1, credit_memo: 2 };
+  periodEntries.sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    typeOrder[a.type] - typeOrder[b.type] ||
+    a.reference.localeCompare(b.reference)
+  );
+
+  let runningBalance = openingBalance;
+  const entries = periodEntries.map(entry => {
+    runningBalance += entry.charge - entry.credit;
+    return { ...entry, balance: runningBalance };
+  });
+
+  return {
+    custno: customer.custno,
+    custname: customer.custname,
+    address: customer.address,
+    payterm: customer.payterm,
+    from,
+    to,
+    openingBalance,
+    entries,
+    totalCharges: entries.reduce((sum, entry) => sum + entry.charge, 0),
+    totalCredits: entries.reduce((sum, entry) => sum + entry.credit, 0),
+    closingBalance: runningBalance
+  };
+};
@@ -0,0 +1,72 @@
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Link } from "react-router-dom";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { CustomerStatement, STATEMENT_ENTRY_LABELS } from "./StatementService";
+
+interface StatementTableProps {
+  statement: CustomerStatement;
+}
+
+// Opening balance, the period's sales, payments and returns with a running balance, and the closing balance
+export function StatementTable({ statement }: StatementTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Reference</TableHead>
+          <TableHead className="text-right">Charges</TableHead>
+          <TableHead className="text-right">Credits</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <TableRow>
+          <TableCell>{formatDate(statement.from)}</TableCell>
+          <TableCell colSpan={4} className="font-medium">Opening balance</TableCell>
+          <TableCell className="text-right font-medium">${statement.openingBalance.toFixed(2)}</TableCell>
+        </TableRow>
+        {statement.entries.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center">No sales, payments or returns in this period.</TableCell>
+          </TableRow>
+        ) : (
+          statement.entries.map((entry) => (
+            <TableRow key={`${entry.type}-${entry.reference}`}>
+              <TableCell>{formatDate(entry.date)}</TableCell>
+              <TableCell>{STATEMENT_ENTRY_LABELS[entry.type]}</TableCell>
+              <TableCell>
+                {entry.type === 'sale' ? (
+                  <Link
+                    to={`/dashboard/sales/${entry.reference}`}
+                    className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300 print:text-black print:no-underline"
+                  >
+                    {entry.reference}
+                  </Link>
+                ) : (
+                  entry.reference
+                )}
+              </TableCell>
+              <TableCell className="text-right">{entry.charge ? `$${entry.charge.toFixed(2)}` : ''}</TableCell>
+              <TableCell className="text-right">{entry.credit ? `$${entry.credit.toFixed(2)}` : ''}</TableCell>
+              <TableCell className="text-right">${entry.balance.toFixed(2)}</TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell>{formatDate(statement.to)}</TableCell>
+          <TableCell colSpan={2}>Closing balance</TableCell>
+          <TableCell className="text-right">${statement.totalCharges.toFixed(2)}</TableCell>
+          <TableCell className="text-right">${statement.totalCredits.toFixed(2)}</TableCell>
+          <TableCell className="text-right">${statement.closingBalance.toFixed(2)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
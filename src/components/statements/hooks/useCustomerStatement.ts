@@ -0,0 +1,37 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { CustomerStatement, fetchCustomerStatement } from "../StatementService";
+
+export function useCustomerStatement(custno: string | undefined, from: string, to: string) {
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!custno || !from || !to || from > to) {
+      setStatement(null);
+      setLoading(false);
+      return;
+    }
+
+    const loadStatement = async () => {
+      setLoading(true);
+      try {
+        setStatement(await fetchCustomerStatement(custno, from, to));
+      } catch (error) {
+        console.error('Error building statement:', error);
+        toast({
+          title: "Error",
+          description: "Failed to build the customer statement.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStatement();
+  }, [custno, from, to]);
+
+  return { statement, loading };
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+
+// Empty number inputs mean "no early-payment discount"
+const optionalNumber = z.preprocess(
+  value => (value === "" || value === null || value === undefined ? null : Number(value)),
+  z.number().nullable()
+);
+
+export const paymentTermFormSchema = z.object({
+  code: z.string().min(1, "Code is required").max(20, "Code must be 20 characters or less"),
+  description: z.string().max(100, "Description must be 100 characters or less"),
+  net_days: z.coerce.number().int("Days must be a whole number").min(0, "Days cannot be negative"),
+  discount_percent: optionalNumber.refine(
+    value => value === null || (value > 0 && value < 100),
+    "Discount must be between 0 and 100"
+  ),
+  discount_days: optionalNumber.refine(
+    value => value === null || (Number.isInteger(value) && value >= 0),
+    "Days must be a whole number"
+  ),
+}).superRefine((values, ctx) => {
+  if ((values.discount_percent === null) !== (values.discount_days === null)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [values.discount_percent === null ? "discount_percent" : "discount_days"],
+      message: "Enter both the discount and the days it applies for",
+    });
+  }
+
+  if (values.discount_days !== null && values.discount_days > values.net_days) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["discount_days"],
+      message: "The discount period cannot be longer than the net days",
+    });
+  }
+});
+
+export type PaymentTermFormValues = z.infer<typeof paymentTermFormSchema>;
+
+interface PaymentTermFormProps {
+  defaultValues: PaymentTermFormValues;
+  onSubmit: (values: PaymentTermFormValues) => void;
+  onCancel: () => void;
+  isEditing: boolean;
+}
+
+export function PaymentTermForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  isEditing
+}: PaymentTermFormProps) {
+  const form = useForm<PaymentTermFormValues>({
+    resolver: zodResolver(paymentTermFormSchema),
+    defaultValues,
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Code</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={20} disabled={isEditing} placeholder="e.g. NET30" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={100} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="net_days"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Net Days</FormLabel>
+              <FormControl>
+                <Input {...field} type="number" min={0} />
+              </FormControl>
+              <FormDescription>Days after the sale date that payment is due. Use 0 for cash on delivery.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="discount_percent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Early-Payment Discount (%)</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} type="number" min={0} max={99.99} step="0.01" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="discount_days"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>If Paid Within (Days)</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} type="number" min={0} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">{isEditing ? 'Update' : 'Add Payment Term'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,154 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+
+export interface PaymentTerm {
+  code: string;
+  description: string | null;
+  net_days: number;
+  discount_percent: number | null;
+  discount_days: number | null;
+}
+
+export interface PaymentTermFormData {
+  code: string;
+  description: string;
+  net_days: number;
+  discount_percent: number | null;
+  discount_days: number | null;
+}
+
+// Plain-language summary of a term, e.g. "2% if paid within 10 days, net 30"
+export const describePaymentTerm = (term: PaymentTerm): string => {
+  const net = term.net_days === 0 ? 'Due on sale' : `Net ${term.net_days} days`;
+
+  if (term.discount_percent && term.discount_days !== null) {
+    return `${term.discount_percent}% if paid within ${term.discount_days} days, ${net.toLowerCase()}`;
+  }
+
+  return net;
+};
+
+// Fetch all payment terms, shortest first
+export const fetchPaymentTerms = async (): Promise<PaymentTerm[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('payment_term')
+      .select('code, description, net_days, discount_percent, discount_days')
+      .order('net_days', { ascending: true })
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching payment terms:', error);
+    throw error;
+  }
+};
+
+// Add a new payment term
+export const createPaymentTerm = async (data: PaymentTermFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('payment_term')
+      .insert({
+        code: data.code,
+        description: data.description,
+        net_days: data.net_days,
+        discount_percent: data.discount_percent,
+        discount_days: data.discount_days,
+        created_by: userId,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'insert',
+      table_name: 'payment_term',
+      record_id: data.code,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Payment term added successfully" };
+  } catch (error) {
+    console.error("Error adding payment term:", error);
+    if ((error as PostgrestError).code === '23505') {
+      return { success: false, message: "Payment term code already exists." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to add payment term" };
+  }
+};
+
+// Update an existing payment term. Open sales of its customers get new due dates.
+export const updatePaymentTerm = async (code: string, data: PaymentTermFormData): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const currentUser = (await supabase.auth.getUser()).data.user;
+    const userId = currentUser?.id || null;
+
+    const { error } = await supabase
+      .from('payment_term')
+      .update({
+        description: data.description,
+        net_days: data.net_days,
+        discount_percent: data.discount_percent,
+        discount_days: data.discount_days,
+        modified_by: userId,
+        modified_at: new Date().toISOString()
+      })
+      .eq('code', code);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'update',
+      table_name: 'payment_term',
+      record_id: code,
+      details: JSON.stringify(data)
+    });
+
+    return { success: true, message: "Payment term updated successfully" };
+  } catch (error) {
+    console.error("Error updating payment term:", error);
+    return { success: false, message: (error as PostgrestError).message || "Failed to update payment term" };
+  }
+};
+
+// Delete a payment term that no customer uses
+export const deletePaymentTerm = async (code: string): Promise<{ success: boolean; message: string; }> => {
+  try {
+    const { error } = await supabase
+      .from('payment_term')
+      .delete()
+      .eq('code', code);
+
+    if (error) {
+      throw error;
+    }
+
+    // Log activity
+    await supabase.rpc('log_activity', {
+      action: 'delete',
+      table_name: 'payment_term',
+      record_id: code,
+      details: JSON.stringify({ code })
+    });
+
+    return { success: true, message: "Payment term deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting payment term:", error);
+    if ((error as PostgrestError).code === '23503') {
+      return { success: false, message: "This payment term is still assigned to customers." };
+    }
+    return { success: false, message: (error as PostgrestError).message || "Failed to delete payment term" };
+  }
+};
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import {
+  Table, TableBody, TableCell,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { PaymentTermForm, PaymentTermFormValues } from "./PaymentTermForm";
+import { PaymentTerm, PaymentTermFormData, describePaymentTerm } from "./PaymentTermService";
+
+interface PaymentTermsTableProps {
+  paymentTerms: PaymentTerm[];
+  loading: boolean;
+  onSave: (data: PaymentTermFormData, isEditing: boolean) => Promise<boolean>;
+  onDelete: (code: string) => Promise<boolean>;
+}
+
+const emptyTerm: PaymentTermFormValues = {
+  code: "",
+  description: "",
+  net_days: 30,
+  discount_percent: null,
+  discount_days: null,
+};
+
+// Payment terms list with its add/edit dialog
+export function PaymentTermsTable({ paymentTerms, loading, onSave, onDelete }: PaymentTermsTableProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedTerm, setSelectedTerm] = useState<PaymentTerm | null>(null);
+
+  const openDialog = (term?: PaymentTerm) => {
+    setSelectedTerm(term || null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: PaymentTermFormValues) => {
+    const data: PaymentTermFormData = {
+      code: values.code.trim(),
+      description: values.description.trim(),
+      net_days: values.net_days,
+      discount_percent: values.discount_percent,
+      discount_days: values.discount_days,
+    };
+
+    if (await onSave(data, !!selectedTerm)) {
+      setDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+      <div className="flex justify-between items-center p-4 border-b">
+        <div>
+          <h1 className="text-2xl font-bold">Payment Terms</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Due dates and overdue flags on sales are computed from the customer's payment term.
+          </p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus size={16} className="mr-2" /> Add Payment Term
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Net Days</TableHead>
+            <TableHead>Terms</TableHead>
+            <TableHead className="w-[100px]">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : paymentTerms.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center">No payment terms found.</TableCell>
+            </TableRow>
+          ) : (
+            paymentTerms.map((term) => (
+              <TableRow key={term.code}>
+                <TableCell className="font-medium">{term.code}</TableCell>
+                <TableCell>{term.description || 'N/A'}</TableCell>
+                <TableCell className="text-right">{term.net_days}</TableCell>
+                <TableCell>{describePaymentTerm(term)}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(term)}>
+                      <Edit size={16} />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onDelete(term.code)}>
+                      <Trash2 size={16} className="text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedTerm ? 'Edit Payment Term' : 'Add Payment Term'}</DialogTitle>
+          </DialogHeader>
+          {dialogOpen && (
+            <PaymentTermForm
+              defaultValues={selectedTerm ? {
+                code: selectedTerm.code,
+                description: selectedTerm.description || "",
+                net_days: selectedTerm.net_days,
+                discount_percent: selectedTerm.discount_percent,
+                discount_days: selectedTerm.discount_days,
+              } : emptyTerm}
+              onSubmit={handleSubmit}
+              onCancel={() => setDialogOpen(false)}
+              isEditing={!!selectedTerm}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
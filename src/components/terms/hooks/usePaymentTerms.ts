@@ -0,0 +1,70 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PaymentTerm,
+  PaymentTermFormData,
+  createPaymentTerm,
+  deletePaymentTerm,
+  fetchPaymentTerms,
+  updatePaymentTerm
+} from "../PaymentTermService";
+
+export function usePaymentTerms() {
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPaymentTerms();
+  }, []);
+
+  const loadPaymentTerms = async () => {
+    setLoading(true);
+    try {
+      setPaymentTerms(await fetchPaymentTerms());
+    } catch (error) {
+      console.error('Error fetching payment terms:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch payment terms.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared result handling for the write actions below
+  const handleResult = (result: { success: boolean; message: string }, title: string): boolean => {
+    toast({
+      title: result.success ? title : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadPaymentTerms();
+    }
+
+    return result.success;
+  };
+
+  const savePaymentTerm = async (data: PaymentTermFormData, isEditing: boolean) => {
+    const result = isEditing
+      ? await updatePaymentTerm(data.code, data)
+      : await createPaymentTerm(data);
+    return handleResult(result, isEditing ? "Payment Term Updated" : "Payment Term Added");
+  };
+
+  const removePaymentTerm = async (code: string) => {
+    return handleResult(await deletePaymentTerm(code), "Payment Term Deleted");
+  };
+
+  return {
+    paymentTerms,
+    loading,
+    loadPaymentTerms,
+    savePaymentTerm,
+    removePaymentTerm
+  };
+}
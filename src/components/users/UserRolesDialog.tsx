@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogDescription,
+  DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Role, fetchUserRoleIds, saveUserRoles } from "@/components/roles/RoleService";
+
+interface UserRolesDialogProps {
+  userId: string;
+  userName: string;
+  roles: Role[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function UserRolesDialog({
+  userId,
+  userName,
+  roles,
+  isOpen,
+  onClose,
+  onSaved
+}: UserRolesDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen && userId) {
+      loadUserRoles();
+    }
+  }, [isOpen, userId]);
+
+  const loadUserRoles = async () => {
+    setLoading(true);
+    try {
+      setSelected(await fetchUserRoleIds(userId));
+    } catch (error) {
+      console.error('Error fetching user roles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch user roles.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (roleId: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, roleId] : current.filter(id => id !== roleId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveUserRoles(userId, selected);
+    setIsSaving(false);
+
+    toast({
+      title: result.success ? "Roles Updated" : "Error",
+      description: result.success ? `${userName}'s roles have been updated.` : result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      onSaved();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-xl max-h-[80vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Roles for {userName}</DialogTitle>
+          <DialogDescription>
+            The user holds every permission of every role checked here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {roles.map(role => (
+              <label key={role.id} className="flex items-start gap-3 rounded-lg border p-3">
+                <Checkbox
+                  checked={selected.includes(role.id)}
+                  onCheckedChange={(checked) => toggle(role.id, checked === true)}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="font-medium">
+                    {role.name}
+                    {role.is_system && <Badge variant="outline" className="ml-2">System</Badge>}
+                  </div>
+                  {role.description && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{role.description}</p>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={loading || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
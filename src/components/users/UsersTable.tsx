@@ -1,29 +1,21 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { 
-  Table, TableBody, TableCaption, TableCell, 
-  TableHead, TableHeader, TableRow 
+import {
+  Table, TableBody, TableCaption, TableCell,
+  TableHead, TableHeader, TableRow
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { 
-  DropdownMenu, DropdownMenuContent, 
-  DropdownMenuItem, DropdownMenuTrigger 
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu, DropdownMenuContent,
+  DropdownMenuItem, DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/components/ui/use-toast";
-import { Edit, MoreVertical, Shield, Key } from "lucide-react";
-import { 
-  Dialog, DialogContent, DialogHeader, 
-  DialogTitle, DialogDescription, DialogFooter
-} from "@/components/ui/dialog";
-import {
-  Form, FormControl, FormField, FormItem, 
-  FormLabel, FormMessage
-} from "@/components/ui/form";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { UserPermissionsDialog } from "./UserPermissionsDialog"; 
-import { z } from "zod";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
+import { MoreVertical, Shield } from "lucide-react";
+import { Role } from "@/components/roles/RoleService";
+import { UserRolesDialog } from "./UserRolesDialog";
+import { ExportButton } from "@/components/export/ExportButton";
+import { ExportColumn } from "@/components/export/ExportService";
 
 interface User {
   id: string;
@@ -31,48 +23,46 @@ interface User {
   profile: {
     first_name: string | null;
     last_name: string | null;
-    role: 'admin' | 'customer';
   };
+  roles: { id: string; name: string }[];
 }
 
-export function UsersTable() {
+const exportColumns: ExportColumn<User>[] = [
+  {
+    key: 'name',
+    header: 'Name',
+    value: user => user.profile.first_name && user.profile.last_name
+      ? `${user.profile.first_name} ${user.profile.last_name}`
+      : ''
+  },
+  { key: 'email', header: 'Email', value: user => user.email },
+  { key: 'roles', header: 'Roles', value: user => user.roles.map(role => role.name).join(', ') },
+];
+
+interface UsersTableProps {
+  roles: Role[];
+  // Called after a user's roles change, so role user counts can refresh
+  onRolesChanged: () => void;
+}
+
+export function UsersTable({ roles, onRolesChanged }: UsersTableProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const [permissionsDialogOpen, setPermissionsDialogOpen] = useState(false);
+  const [rolesDialogOpen, setRolesDialogOpen] = useState(false);
   const { toast } = useToast();
 
-  const formSchema = z.object({
-    role: z.enum(['admin', 'customer']),
-  });
-
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      role: 'customer',
-    },
-  });
-
-  useEffect(() => {
-    if (selectedUser) {
-      form.reset({
-        role: selectedUser.profile.role,
-      });
-    }
-  }, [selectedUser, form]);
-
   useEffect(() => {
     fetchUsers();
   }, []);
 
   const fetchUsers = async () => {
     try {
-      // Updated query to fetch profiles with emails
+      // Profiles with emails and the roles each user holds
       const { data: profiles, error: profilesError } = await supabase
         .from('profiles')
-        .select('id, first_name, last_name, role, email');
-      
+        .select('id, first_name, last_name, email, user_role(role(id, name))');
+
       if (profilesError) throw profilesError;
 
       // Transform profiles to the expected user structure
@@ -82,16 +72,16 @@ export function UsersTable() {
         profile: {
           first_name: profile.first_name,
           last_name: profile.last_name,
-          role: profile.role as 'admin' | 'customer',
         },
+        roles: (profile.user_role || []).flatMap(row => row.role ? [{ id: row.role.id, name: row.role.name }] : []),
       }));
-      
+
       setUsers(usersWithProfile);
     } catch (error) {
       console.error('Error fetching users:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch users. You might not have admin permissions.",
+        description: "Failed to fetch users. You might not have permission to manage users.",
         variant: "destructive",
       });
     } finally {
@@ -99,74 +89,31 @@ export function UsersTable() {
     }
   };
 
-  const handleEdit = (user: User) => {
+  const handleManageRoles = (user: User) => {
     setSelectedUser(user);
-    setEditDialogOpen(true);
+    setRolesDialogOpen(true);
   };
 
-  const handleManagePermissions = (user: User) => {
-    if (user.profile.role === 'admin') {
-      toast({
-        title: "Information",
-        description: "Admin users automatically have all permissions.",
-      });
-      return;
-    }
-    
-    setSelectedUser(user);
-    setPermissionsDialogOpen(true);
-  };
-
-  const updateUserRole = async (values: z.infer<typeof formSchema>) => {
-    if (!selectedUser) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .update({ role: values.role })
-        .eq('id', selectedUser.id);
-      
-      if (error) throw error;
-      
-      toast({
-        title: "Role updated",
-        description: `${selectedUser.profile.first_name || selectedUser.email}'s role has been updated to ${values.role}.`,
-      });
-      
-      setEditDialogOpen(false);
-      fetchUsers();
-      
-      // Log activity
-      await supabase.rpc('log_activity', {
-        action: 'update',
-        table_name: 'profiles',
-        record_id: selectedUser.id,
-        details: JSON.stringify({
-          field: 'role',
-          old_value: selectedUser.profile.role,
-          new_value: values.role,
-        }),
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update user role.",
-        variant: "destructive",
-      });
-    }
+  const handleRolesSaved = () => {
+    fetchUsers();
+    onRolesChanged();
   };
 
   return (
-    <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-2xl font-bold mb-6">User Management</h2>
-      
+    <div className="bg-white rounded-lg shadow p-6 dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">User Management</h2>
+        {/* Every user is already loaded, so the export has no page to choose */}
+        <ExportButton title="Users" fileName="users" columns={exportColumns} rows={users} />
+      </div>
+
       <Table>
         <TableCaption>{loading ? 'Loading users...' : 'List of all users in the system.'}</TableCaption>
         <TableHeader>
           <TableRow>
             <TableHead>Name</TableHead>
             <TableHead>Email</TableHead>
-            <TableHead>Role</TableHead>
+            <TableHead>Roles</TableHead>
             <TableHead className="w-[100px]">Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -185,13 +132,15 @@ export function UsersTable() {
                 </TableCell>
                 <TableCell>{user.email}</TableCell>
                 <TableCell>
-                  <span className={`px-2 py-1 rounded-full text-xs ${
-                    user.profile.role === 'admin' 
-                      ? 'bg-blue-100 text-blue-800' 
-                      : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {user.profile.role}
-                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {user.roles.length === 0 ? (
+                      <span className="text-sm text-gray-500 dark:text-gray-400">No roles</span>
+                    ) : (
+                      user.roles.map(role => (
+                        <Badge key={role.id} variant="secondary">{role.name}</Badge>
+                      ))
+                    )}
+                  </div>
                 </TableCell>
                 <TableCell>
                   <DropdownMenu>
@@ -201,13 +150,9 @@ export function UsersTable() {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => handleEdit(user)}>
+                      <DropdownMenuItem onClick={() => handleManageRoles(user)}>
                         <Shield className="mr-2 h-4 w-4" />
-                        Change Role
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleManagePermissions(user)}>
-                        <Key className="mr-2 h-4 w-4" />
-                        Manage Permissions
+                        Manage Roles
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
@@ -217,58 +162,15 @@ export function UsersTable() {
           )}
         </TableBody>
       </Table>
-      
-      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Edit User Role</DialogTitle>
-            <DialogDescription>
-              Change the role for {selectedUser?.profile.first_name || selectedUser?.email}
-            </DialogDescription>
-          </DialogHeader>
-          
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(updateUserRole)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Role</FormLabel>
-                    <Select 
-                      onValueChange={field.onChange} 
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select role" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent className="max-h-[80px]">
-                        <SelectItem value="admin">Admin</SelectItem>
-                        <SelectItem value="customer">Customer</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setEditDialogOpen(false)}>Cancel</Button>
-                <Button type="submit">Save Changes</Button>
-              </DialogFooter>
-            </form>
-          </Form>
-        </DialogContent>
-      </Dialog>
-      
+
       {selectedUser && (
-        <UserPermissionsDialog
+        <UserRolesDialog
           userId={selectedUser.id}
           userName={selectedUser.profile.first_name || selectedUser.email}
-          isOpen={permissionsDialogOpen}
-          onClose={() => setPermissionsDialogOpen(false)}
+          roles={roles}
+          isOpen={rolesDialogOpen}
+          onClose={() => setRolesDialogOpen(false)}
+          onSaved={handleRolesSaved}
         />
       )}
     </div>
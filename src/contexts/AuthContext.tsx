@@ -1,7 +1,7 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
-import { UserPermission } from "@/components/sales/types";
+import { PermissionAction, PermissionKey, PermissionResource, permissionKey } from "@/components/roles/permissions";
 
 interface Profile {
   id: string;
@@ -12,6 +12,11 @@ interface Profile {
   avatar_url: string | null;
 }
 
+export interface UserRoleSummary {
+  id: string;
+  name: string;
+}
+
 interface AuthUser {
   id: string;
   email: string;
@@ -20,8 +25,8 @@ interface AuthUser {
 interface AuthContextType {
   user: AuthUser | null;
   profile: Profile | null;
-  permissions: UserPermission | null;
-  isAdmin: boolean;
+  roles: UserRoleSummary[];
+  can: <R extends PermissionResource>(resource: R, action: PermissionAction<R>) => boolean;
   isAuthenticated: boolean;
   isLoading: boolean;
   refreshProfile: () => Promise<void>;
@@ -35,7 +40,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [permissions, setPermissions] = useState<UserPermission | null>(null);
+  const [roles, setRoles] = useState<UserRoleSummary[]>([]);
+  const [permissionKeys, setPermissionKeys] = useState<Set<PermissionKey>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -56,20 +62,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         } else {
           setUser(null);
           setProfile(null);
-          setPermissions(null);
+          setRoles([]);
+          setPermissionKeys(new Set());
         }
       }
     );
 
     // Check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // Pages decide what to show from can(), so loading ends once the roles are in
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       if (session?.user) {
         const authUser: AuthUser = {
           id: session.user.id,
           email: session.user.email || '',
         };
         setUser(authUser);
-        fetchUserProfile(session.user.id);
+        await fetchUserProfile(session.user.id);
       }
       setIsLoading(false);
     });
@@ -93,75 +101,45 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       }
       
       setProfile(data as Profile);
-      
-      // If user is admin, set all permissions to true
-      if (data.role === 'admin') {
-        setPermissions({
-          id: "",
-          user_id: userId,
-          can_add_customers: true,
-          can_edit_customers: true,
-          can_delete_customers: true,
-          can_add_sales: true,
-          can_edit_sales: true,
-          can_delete_sales: true,
-          created_at: "",
-          updated_at: ""
-        });
-      } else {
-        // Otherwise fetch permissions from user_permissions table
-        fetchUserPermissions(userId);
-      }
+      await fetchUserRoles(userId);
     } catch (error) {
       console.error('Error in profile fetch:', error);
     }
   }
 
-  async function fetchUserPermissions(userId: string) {
+  // A user holds every permission of every role assigned to them
+  async function fetchUserRoles(userId: string) {
     try {
       const { data, error } = await supabase
-        .from("user_permissions")
-        .select("*")
-        .eq("user_id", userId)
-        .single();
-      
+        .from("user_role")
+        .select("role(id, name, role_permission(resource, action))")
+        .eq("user_id", userId);
+
       if (error) {
-        if (error.code !== "PGRST116") {
-          // PGRST116 means no rows returned
-          console.error('Error fetching user permissions:', error);
-        }
-        // Default to no permissions if none are set
-        setPermissions({
-          id: "",
-          user_id: userId,
-          can_add_customers: false,
-          can_edit_customers: false,
-          can_delete_customers: false,
-          can_add_sales: false,
-          can_edit_sales: false,
-          can_delete_sales: false,
-          created_at: "",
-          updated_at: ""
-        });
+        console.error('Error fetching user roles:', error);
+        setRoles([]);
+        setPermissionKeys(new Set());
         return;
       }
-      
-      if (data) {
-        setPermissions({
-          ...data,
-          can_add_customers: data.can_add_customers !== undefined ? data.can_add_customers : false,
-          can_edit_customers: data.can_edit_customers !== undefined ? data.can_edit_customers : false,
-          can_delete_customers: data.can_delete_customers !== undefined ? data.can_delete_customers : false,
-          can_add_sales: data.can_add_sales !== undefined ? data.can_add_sales : false,
-          can_edit_sales: data.can_edit_sales !== undefined ? data.can_edit_sales : false,
-          can_delete_sales: data.can_delete_sales !== undefined ? data.can_delete_sales : false,
-        } as UserPermission);
-      }
+
+      const assigned = (data || []).flatMap(row => row.role ? [row.role] : []);
+      setRoles(assigned.map(role => ({ id: role.id, name: role.name })));
+      setPermissionKeys(new Set(
+        assigned.flatMap(role =>
+          (role.role_permission || []).map(permission => `${permission.resource}:${permission.action}` as PermissionKey)
+        )
+      ));
     } catch (error) {
-      console.error('Error fetching user permissions:', error);
+      console.error('Error fetching user roles:', error);
     }
   }
 
+  const can = useCallback(
+    <R extends PermissionResource>(resource: R, action: PermissionAction<R>) =>
+      permissionKeys.has(permissionKey(resource, action)),
+    [permissionKeys]
+  );
+
   const refreshProfile = async () => {
     if (user) {
       await fetchUserProfile(user.id);
@@ -245,8 +223,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       value={{
         user,
         profile,
-        permissions,
-        isAdmin: profile?.role === 'admin',
+        roles,
+        can,
         isAuthenticated: !!user,
         isLoading,
         refreshProfile,
@@ -0,0 +1,91 @@
+import { useSearchParams } from "react-router-dom";
+
+export type SortDirection = "asc" | "desc";
+
+export interface ListParams {
+  search: string;
+  status: string;
+  sort: string;
+  direction: SortDirection;
+  page: number;
+  pageSize: number;
+  showDeleted: boolean;
+}
+
+interface ListParamDefaults {
+  sort: string;
+  direction: SortDirection;
+  pageSize?: number;
+}
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+// Keeps search, filter, sort and paging of a list in the URL query string
+// so a filtered list can be bookmarked and shared
+export function useListParams(defaults: ListParamDefaults) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const defaultPageSize = defaults.pageSize || PAGE_SIZE_OPTIONS[1];
+
+  const pageSize = Number(searchParams.get("size"));
+  const page = Number(searchParams.get("page"));
+  const direction = searchParams.get("dir");
+
+  const params: ListParams = {
+    search: searchParams.get("q") || "",
+    status: searchParams.get("status") || "all",
+    sort: searchParams.get("sort") || defaults.sort,
+    direction: direction === "asc" || direction === "desc" ? direction : defaults.direction,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize: PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : defaultPageSize,
+    showDeleted: searchParams.get("deleted") === "1",
+  };
+
+  // Write the given values, dropping the ones that match the defaults.
+  // Any change other than the page itself starts again from the first page.
+  const update = (values: Partial<ListParams>) => {
+    const next = { ...params, ...values };
+    if (values.page === undefined) {
+      next.page = 1;
+    }
+
+    const query = new URLSearchParams(searchParams);
+    const entries: [string, string | null][] = [
+      ["q", next.search || null],
+      ["status", next.status !== "all" ? next.status : null],
+      ["sort", next.sort !== defaults.sort ? next.sort : null],
+      ["dir", next.direction !== defaults.direction ? next.direction : null],
+      ["page", next.page > 1 ? String(next.page) : null],
+      ["size", next.pageSize !== defaultPageSize ? String(next.pageSize) : null],
+      ["deleted", next.showDeleted ? "1" : null],
+    ];
+
+    entries.forEach(([key, value]) => {
+      if (value === null) {
+        query.delete(key);
+      } else {
+        query.set(key, value);
+      }
+    });
+
+    setSearchParams(query, { replace: true });
+  };
+
+  const toggleSort = (field: string) => {
+    if (params.sort === field) {
+      update({ direction: params.direction === "asc" ? "desc" : "asc" });
+    } else {
+      update({ sort: field, direction: "asc" });
+    }
+  };
+
+  return {
+    params,
+    setSearch: (search: string) => update({ search }),
+    setStatus: (status: string) => update({ status }),
+    setSort: (sort: string, direction: SortDirection) => update({ sort, direction }),
+    toggleSort,
+    setPage: (page: number) => update({ page }),
+    setPageSize: (pageSize: number) => update({ pageSize }),
+    setShowDeleted: (showDeleted: boolean) => update({ showDeleted, status: "all" }),
+  };
+}
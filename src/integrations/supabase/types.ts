@@ -39,15 +39,310 @@ export type Database = {
         }
         Relationships: []
       }
+      app_settings: {
+        Row: {
+          company_address: string | null
+          company_email: string | null
+          company_name: string | null
+          company_phone: string | null
+          company_tax_id: string | null
+          id: boolean
+          invoice_footer: string | null
+          logo_url: string | null
+          modified_at: string | null
+          modified_by: string | null
+        }
+        Insert: {
+          company_address?: string | null
+          company_email?: string | null
+          company_name?: string | null
+          company_phone?: string | null
+          company_tax_id?: string | null
+          id?: boolean
+          invoice_footer?: string | null
+          logo_url?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+        }
+        Update: {
+          company_address?: string | null
+          company_email?: string | null
+          company_name?: string | null
+          company_phone?: string | null
+          company_tax_id?: string | null
+          id?: boolean
+          invoice_footer?: string | null
+          logo_url?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+        }
+        Relationships: []
+      }
+      commission_line: {
+        Row: {
+          commission: number
+          empno: string
+          id: string
+          jobcode: string | null
+          paid_revenue: number
+          period_id: string
+          rate: number
+          rate_source: string | null
+          sales_count: number
+        }
+        Insert: {
+          commission?: number
+          empno: string
+          id?: string
+          jobcode?: string | null
+          paid_revenue?: number
+          period_id: string
+          rate?: number
+          rate_source?: string | null
+          sales_count?: number
+        }
+        Update: {
+          commission?: number
+          empno?: string
+          id?: string
+          jobcode?: string | null
+          paid_revenue?: number
+          period_id?: string
+          rate?: number
+          rate_source?: string | null
+          sales_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_line_empno_fkey"
+            columns: ["empno"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["empno"]
+          },
+          {
+            foreignKeyName: "commission_line_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "commission_period"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_period: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          calculated_at: string | null
+          calculated_by: string | null
+          id: string
+          period_end: string
+          period_start: string
+          status: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          calculated_at?: string | null
+          calculated_by?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          status?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          calculated_at?: string | null
+          calculated_by?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      commission_plan: {
+        Row: {
+          base_rate: number
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          empno: string | null
+          id: string
+          jobcode: string | null
+          modified_at: string | null
+          modified_by: string | null
+        }
+        Insert: {
+          base_rate?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          empno?: string | null
+          id?: string
+          jobcode?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+        }
+        Update: {
+          base_rate?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          empno?: string | null
+          id?: string
+          jobcode?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_plan_empno_fkey"
+            columns: ["empno"]
+            isOneToOne: true
+            referencedRelation: "employee"
+            referencedColumns: ["empno"]
+          },
+          {
+            foreignKeyName: "commission_plan_jobcode_fkey"
+            columns: ["jobcode"]
+            isOneToOne: true
+            referencedRelation: "job"
+            referencedColumns: ["jobcode"]
+          },
+        ]
+      }
+      commission_tier: {
+        Row: {
+          id: string
+          min_revenue: number
+          plan_id: string
+          rate: number
+        }
+        Insert: {
+          id?: string
+          min_revenue: number
+          plan_id: string
+          rate: number
+        }
+        Update: {
+          id?: string
+          min_revenue?: number
+          plan_id?: string
+          rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_tier_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "commission_plan"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_memo: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          memodate: string
+          memono: string
+          reason: string | null
+          transno: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          memodate?: string
+          memono: string
+          reason?: string | null
+          transno: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          memodate?: string
+          memono?: string
+          reason?: string | null
+          transno?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_memo_transno_fkey"
+            columns: ["transno"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["transno"]
+          },
+        ]
+      }
+      credit_memo_line: {
+        Row: {
+          memono: string
+          prodcode: string
+          quantity: number
+          transno: string
+          unitprice: number
+        }
+        Insert: {
+          memono: string
+          prodcode: string
+          quantity: number
+          transno: string
+          unitprice?: number
+        }
+        Update: {
+          memono?: string
+          prodcode?: string
+          quantity?: number
+          transno?: string
+          unitprice?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_memo_line_memono_fkey"
+            columns: ["memono"]
+            isOneToOne: false
+            referencedRelation: "credit_memo"
+            referencedColumns: ["memono"]
+          },
+          {
+            foreignKeyName: "credit_memo_line_prodcode_fkey"
+            columns: ["prodcode"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["prodcode"]
+          },
+          {
+            foreignKeyName: "credit_memo_line_transno_prodcode_fkey"
+            columns: ["transno", "prodcode"]
+            isOneToOne: false
+            referencedRelation: "salesdetail"
+            referencedColumns: ["transno", "prodcode"]
+          },
+        ]
+      }
       customer: {
         Row: {
           address: string | null
           created_at: string | null
           created_by: string | null
+          credit_limit: number | null
           custname: string | null
           custno: string
           deleted_at: string | null
           deleted_by: string | null
+          merged_into: string | null
           modified_at: string | null
           modified_by: string | null
           payterm: string | null
@@ -56,10 +351,12 @@ export type Database = {
           address?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_limit?: number | null
           custname?: string | null
           custno: string
           deleted_at?: string | null
           deleted_by?: string | null
+          merged_into?: string | null
           modified_at?: string | null
           modified_by?: string | null
           payterm?: string | null
@@ -68,15 +365,143 @@ export type Database = {
           address?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_limit?: number | null
           custname?: string | null
           custno?: string
           deleted_at?: string | null
           deleted_by?: string | null
+          merged_into?: string | null
           modified_at?: string | null
           modified_by?: string | null
           payterm?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customer_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+          {
+            foreignKeyName: "customer_payterm_fkey"
+            columns: ["payterm"]
+            isOneToOne: false
+            referencedRelation: "payment_term"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      customer_address: {
+        Row: {
+          city: string | null
+          country: string | null
+          custno: string
+          kind: string
+          postal_code: string | null
+          region: string | null
+          street: string | null
+        }
+        Insert: {
+          city?: string | null
+          country?: string | null
+          custno: string
+          kind: string
+          postal_code?: string | null
+          region?: string | null
+          street?: string | null
+        }
+        Update: {
+          city?: string | null
+          country?: string | null
+          custno?: string
+          kind?: string
+          postal_code?: string | null
+          region?: string | null
+          street?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_address_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+        ]
+      }
+      customer_contact: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          custno: string
+          email: string | null
+          id: string
+          is_primary: boolean
+          modified_at: string | null
+          modified_by: string | null
+          name: string
+          phone: string | null
+          role: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          custno: string
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          modified_at?: string | null
+          modified_by?: string | null
+          name: string
+          phone?: string | null
+          role?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          custno?: string
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          modified_at?: string | null
+          modified_by?: string | null
+          name?: string
+          phone?: string | null
+          role?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_contact_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+        ]
+      }
+      customer_credit_alert: {
+        Row: {
+          alerted_at: string
+          custno: string
+        }
+        Insert: {
+          alerted_at?: string
+          custno: string
+        }
+        Update: {
+          alerted_at?: string
+          custno?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_credit_alert_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: true
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+        ]
       }
       department: {
         Row: {
@@ -93,6 +518,97 @@ export type Database = {
         }
         Relationships: []
       }
+      document_number_pool: {
+        Row: {
+          number: string
+          released_at: string
+          released_by: string | null
+          sequence_code: string
+        }
+        Insert: {
+          number: string
+          released_at?: string
+          released_by?: string | null
+          sequence_code: string
+        }
+        Update: {
+          number?: string
+          released_at?: string
+          released_by?: string | null
+          sequence_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_number_pool_sequence_code_fkey"
+            columns: ["sequence_code"]
+            isOneToOne: false
+            referencedRelation: "document_sequence"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      document_number_reservation: {
+        Row: {
+          number: string
+          reserved_at: string
+          reserved_by: string | null
+          sequence_code: string
+        }
+        Insert: {
+          number: string
+          reserved_at?: string
+          reserved_by?: string | null
+          sequence_code: string
+        }
+        Update: {
+          number?: string
+          reserved_at?: string
+          reserved_by?: string | null
+          sequence_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_number_reservation_sequence_code_fkey"
+            columns: ["sequence_code"]
+            isOneToOne: false
+            referencedRelation: "document_sequence"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      document_sequence: {
+        Row: {
+          code: string
+          modified_at: string | null
+          modified_by: string | null
+          name: string
+          next_value: number
+          padding: number
+          prefix: string
+          reuse_cancelled: boolean
+        }
+        Insert: {
+          code: string
+          modified_at?: string | null
+          modified_by?: string | null
+          name: string
+          next_value?: number
+          padding?: number
+          prefix?: string
+          reuse_cancelled?: boolean
+        }
+        Update: {
+          code?: string
+          modified_at?: string | null
+          modified_by?: string | null
+          name?: string
+          next_value?: number
+          padding?: number
+          prefix?: string
+          reuse_cancelled?: boolean
+        }
+        Relationships: []
+      }
       employee: {
         Row: {
           birthdate: string | null
@@ -217,18 +733,27 @@ export type Database = {
           orno: string
           paydate: string | null
           transno: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
           amount?: number | null
           orno: string
           paydate?: string | null
           transno?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           amount?: number | null
           orno?: string
           paydate?: string | null
           transno?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -240,82 +765,373 @@ export type Database = {
           },
         ]
       }
-      pricehist: {
+      payment_term: {
+        Row: {
+          code: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          discount_days: number | null
+          discount_percent: number | null
+          modified_at: string | null
+          modified_by: string | null
+          net_days: number
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_days?: number | null
+          discount_percent?: number | null
+          modified_at?: string | null
+          modified_by?: string | null
+          net_days?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_days?: number | null
+          discount_percent?: number | null
+          modified_at?: string | null
+          modified_by?: string | null
+          net_days?: number
+        }
+        Relationships: []
+      }
+      pricehist: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          effdate: string
+          modified_at: string | null
+          modified_by: string | null
+          prodcode: string
+          unitprice: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          effdate: string
+          modified_at?: string | null
+          modified_by?: string | null
+          prodcode: string
+          unitprice?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          effdate?: string
+          modified_at?: string | null
+          modified_by?: string | null
+          prodcode?: string
+          unitprice?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricehist_prodcode_fkey"
+            columns: ["prodcode"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["prodcode"]
+          },
+        ]
+      }
+      product: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          modified_at: string | null
+          modified_by: string | null
+          prodcode: string
+          unit: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+          prodcode: string
+          unit?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+          prodcode?: string
+          unit?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string | null
+          first_name: string | null
+          id: string
+          last_name: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quote: {
+        Row: {
+          converted_at: string | null
+          converted_by: string | null
+          created_at: string | null
+          created_by: string | null
+          custno: string | null
+          empno: string | null
+          modified_at: string | null
+          modified_by: string | null
+          quotedate: string
+          quoteno: string
+          status: string
+          transno: string | null
+          valid_until: string
+        }
+        Insert: {
+          converted_at?: string | null
+          converted_by?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          custno?: string | null
+          empno?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+          quotedate?: string
+          quoteno: string
+          status?: string
+          transno?: string | null
+          valid_until: string
+        }
+        Update: {
+          converted_at?: string | null
+          converted_by?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          custno?: string | null
+          empno?: string | null
+          modified_at?: string | null
+          modified_by?: string | null
+          quotedate?: string
+          quoteno?: string
+          status?: string
+          transno?: string | null
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+          {
+            foreignKeyName: "quote_empno_fkey"
+            columns: ["empno"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["empno"]
+          },
+          {
+            foreignKeyName: "quote_transno_fkey"
+            columns: ["transno"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["transno"]
+          },
+        ]
+      }
+      quote_line: {
+        Row: {
+          prodcode: string
+          quantity: number
+          quoteno: string
+          unitprice: number
+        }
+        Insert: {
+          prodcode: string
+          quantity: number
+          quoteno: string
+          unitprice?: number
+        }
+        Update: {
+          prodcode?: string
+          quantity?: number
+          quoteno?: string
+          unitprice?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_line_prodcode_fkey"
+            columns: ["prodcode"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["prodcode"]
+          },
+          {
+            foreignKeyName: "quote_line_quoteno_fkey"
+            columns: ["quoteno"]
+            isOneToOne: false
+            referencedRelation: "quote"
+            referencedColumns: ["quoteno"]
+          },
+        ]
+      }
+      role: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_default: boolean
+          is_system: boolean
+          modified_at: string | null
+          modified_by: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          is_system?: boolean
+          modified_at?: string | null
+          modified_by?: string | null
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          is_system?: boolean
+          modified_at?: string | null
+          modified_by?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      role_permission: {
         Row: {
-          effdate: string
-          prodcode: string
-          unitprice: number | null
+          action: string
+          resource: string
+          role_id: string
         }
         Insert: {
-          effdate: string
-          prodcode: string
-          unitprice?: number | null
+          action: string
+          resource: string
+          role_id: string
         }
         Update: {
-          effdate?: string
-          prodcode?: string
-          unitprice?: number | null
+          action?: string
+          resource?: string
+          role_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "pricehist_prodcode_fkey"
-            columns: ["prodcode"]
+            foreignKeyName: "role_permission_role_id_fkey"
+            columns: ["role_id"]
             isOneToOne: false
-            referencedRelation: "product"
-            referencedColumns: ["prodcode"]
+            referencedRelation: "role"
+            referencedColumns: ["id"]
           },
         ]
       }
-      product: {
-        Row: {
-          description: string | null
-          prodcode: string
-          unit: string | null
-        }
-        Insert: {
-          description?: string | null
-          prodcode: string
-          unit?: string | null
-        }
-        Update: {
-          description?: string | null
-          prodcode?: string
-          unit?: string | null
-        }
-        Relationships: []
-      }
-      profiles: {
+      sale_credit_override: {
         Row: {
-          avatar_url: string | null
-          created_at: string
-          email: string | null
-          first_name: string | null
+          approved_at: string
+          approved_by: string | null
+          balance: number
+          credit_limit: number
+          custno: string
           id: string
-          last_name: string | null
-          role: string
-          updated_at: string
+          new_balance: number
+          reason: string
+          transno: string
         }
         Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string | null
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          role?: string
-          updated_at?: string
+          approved_at?: string
+          approved_by?: string | null
+          balance: number
+          credit_limit: number
+          custno: string
+          id?: string
+          new_balance: number
+          reason: string
+          transno: string
         }
         Update: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string | null
-          first_name?: string | null
+          approved_at?: string
+          approved_by?: string | null
+          balance?: number
+          credit_limit?: number
+          custno?: string
           id?: string
-          last_name?: string | null
-          role?: string
-          updated_at?: string
+          new_balance?: number
+          reason?: string
+          transno?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sale_credit_override_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+          {
+            foreignKeyName: "sale_credit_override_transno_fkey"
+            columns: ["transno"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["transno"]
+          },
+        ]
       }
       sales: {
         Row: {
@@ -377,6 +1193,7 @@ export type Database = {
           deleted_by: string | null
           prodcode: string
           quantity: number | null
+          quoted_price: number | null
           transno: string
         }
         Insert: {
@@ -384,6 +1201,7 @@ export type Database = {
           deleted_by?: string | null
           prodcode: string
           quantity?: number | null
+          quoted_price?: number | null
           transno: string
         }
         Update: {
@@ -391,6 +1209,7 @@ export type Database = {
           deleted_by?: string | null
           prodcode?: string
           quantity?: number | null
+          quoted_price?: number | null
           transno?: string
         }
         Relationships: [
@@ -458,11 +1277,297 @@ export type Database = {
         }
         Relationships: []
       }
+      user_role: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          role_id: string
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          role_id: string
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          role_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_role_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "role"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_role_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      ar_aging_summary: {
+        Row: {
+          current_amount: number | null
+          custname: string | null
+          custno: string | null
+          days_1_30: number | null
+          days_31_60: number | null
+          days_61_90: number | null
+          days_over_90: number | null
+          oldest_days_past_due: number | null
+          open_invoices: number | null
+          payterm: string | null
+          total_balance: number | null
+        }
+        Relationships: []
+      }
+      ar_open_invoices: {
+        Row: {
+          aging_bucket: string | null
+          amount_paid: number | null
+          balance: number | null
+          credited_amount: number | null
+          custname: string | null
+          custno: string | null
+          days_past_due: number | null
+          due_date: string | null
+          payterm: string | null
+          salesdate: string | null
+          total_amount: number | null
+          transno: string | null
+        }
+        Relationships: []
+      }
+      customer_credit_status: {
+        Row: {
+          available_credit: number | null
+          balance: number | null
+          credit_limit: number | null
+          custno: string | null
+          on_hold: boolean | null
+          percent_used: number | null
+        }
+        Relationships: []
+      }
+      customer_product_totals: {
+        Row: {
+          custno: string | null
+          description: string | null
+          last_purchased: string | null
+          order_count: number | null
+          prodcode: string | null
+          total_amount: number | null
+          total_quantity: number | null
+          unit: string | null
+        }
+        Relationships: []
+      }
+      customer_sales_metrics: {
+        Row: {
+          amount_paid: number | null
+          average_order: number | null
+          balance: number | null
+          custno: string | null
+          first_purchase: string | null
+          last_purchase: string | null
+          lifetime_value: number | null
+          order_count: number | null
+        }
+        Relationships: []
+      }
+      paid_sales: {
+        Row: {
+          custno: string | null
+          empno: string | null
+          paid_date: string | null
+          salesdate: string | null
+          total_amount: number | null
+          transno: string | null
+        }
+        Relationships: []
+      }
+      quote_summary: {
+        Row: {
+          converted_at: string | null
+          created_at: string | null
+          custname: string | null
+          custno: string | null
+          empno: string | null
+          employee_firstname: string | null
+          employee_lastname: string | null
+          line_count: number | null
+          modified_at: string | null
+          quotedate: string | null
+          quoteno: string | null
+          status: string | null
+          total_amount: number | null
+          transno: string | null
+          valid_until: string | null
+        }
+        Relationships: []
+      }
+      sales_summary: {
+        Row: {
+          amount_paid: number | null
+          created_at: string | null
+          created_by: string | null
+          credited_amount: number | null
+          custname: string | null
+          custno: string | null
+          customer_address: string | null
+          customer_payterm: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          discount_date: string | null
+          discount_percent: number | null
+          due_date: string | null
+          employee_firstname: string | null
+          employee_lastname: string | null
+          empno: string | null
+          is_overdue: boolean | null
+          modified_at: string | null
+          modified_by: string | null
+          modifier_first_name: string | null
+          modifier_last_name: string | null
+          payment_status: string | null
+          record_status: string | null
+          salesdate: string | null
+          total_amount: number | null
+          transno: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_custno_fkey"
+            columns: ["custno"]
+            isOneToOne: false
+            referencedRelation: "customer"
+            referencedColumns: ["custno"]
+          },
+          {
+            foreignKeyName: "sales_empno_fkey"
+            columns: ["empno"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["empno"]
+          },
+        ]
+      }
     }
     Functions: {
+      approve_commission_period: {
+        Args: {
+          month_start: string
+        }
+        Returns: Json
+      }
+      calculate_commissions: {
+        Args: {
+          month_start: string
+        }
+        Returns: Json
+      }
+      check_credit_alert: {
+        Args: {
+          p_custno: string
+        }
+        Returns: undefined
+      }
+      convert_quote_to_sale: {
+        Args: {
+          quoteno: string
+          credit_override_reason?: string
+        }
+        Returns: Json
+      }
+      create_credit_memo: {
+        Args: {
+          memo: Json
+          lines: Json
+        }
+        Returns: Json
+      }
+      credited_quantity: {
+        Args: {
+          p_transno: string
+          p_prodcode: string
+        }
+        Returns: number
+      }
+      customer_address_key: {
+        Args: {
+          address: string
+        }
+        Returns: string
+      }
+      customer_balance: {
+        Args: {
+          p_custno: string
+          p_exclude_transno?: string
+        }
+        Returns: number
+      }
+      customer_name_key: {
+        Args: {
+          name: string
+        }
+        Returns: string
+      }
+      document_number_in_use: {
+        Args: {
+          sequence_code: string
+          number: string
+        }
+        Returns: boolean
+      }
+      find_duplicate_customers: {
+        Args: {
+          min_score?: number
+        }
+        Returns: {
+          custno_a: string
+          custname_a: string
+          address_a: string
+          custno_b: string
+          custname_b: string
+          address_b: string
+          name_score: number
+          address_score: number
+          score: number
+        }[]
+      }
+      format_customer_address: {
+        Args: {
+          street: string
+          city: string
+          region: string
+          postal_code: string
+          country: string
+        }
+        Returns: string
+      }
+      has_permission: {
+        Args: {
+          resource: string
+          action: string
+        }
+        Returns: boolean
+      }
+      import_customers: {
+        Args: {
+          customers: Json
+        }
+        Returns: Json
+      }
       log_activity: {
         Args: {
           action: string
@@ -472,6 +1577,73 @@ export type Database = {
         }
         Returns: string
       }
+      merge_customers: {
+        Args: {
+          survivor: string
+          duplicate: string
+          kept: Json
+        }
+        Returns: Json
+      }
+      next_document_number: {
+        Args: {
+          sequence_code: string
+        }
+        Returns: string
+      }
+      release_document_number: {
+        Args: {
+          sequence_code: string
+          number: string
+        }
+        Returns: boolean
+      }
+      save_customer: {
+        Args: {
+          customer: Json
+          addresses: Json
+          contacts: Json
+          is_new: boolean
+        }
+        Returns: Json
+      }
+      save_quote: {
+        Args: {
+          quote: Json
+          lines: Json
+          is_new: boolean
+        }
+        Returns: Json
+      }
+      save_sale: {
+        Args: {
+          sale: Json
+          lines: Json
+          is_new: boolean
+        }
+        Returns: Json
+      }
+      sales_analytics: {
+        Args: {
+          from_date: string
+          to_date: string
+          period?: string
+        }
+        Returns: Json
+      }
+      set_customer_credit_limit: {
+        Args: {
+          custno: string
+          credit_limit?: number
+        }
+        Returns: Json
+      }
+      sync_legacy_permissions: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
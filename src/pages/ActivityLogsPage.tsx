@@ -6,20 +6,21 @@ import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 
 const ActivityLogsPage = () => {
-  const { isAdmin, isAuthenticated, isLoading } = useAuth();
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewActivityLogs = can('activity_logs', 'view');
   const navigate = useNavigate();
 
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
         navigate("/auth");
-      } else if (!isAdmin) {
+      } else if (!canViewActivityLogs) {
         navigate("/dashboard");
       }
     }
-  }, [isAdmin, isAuthenticated, isLoading, navigate]);
+  }, [canViewActivityLogs, isAuthenticated, isLoading, navigate]);
 
-  if (isLoading || !isAuthenticated || !isAdmin) {
+  if (isLoading || !isAuthenticated || !canViewActivityLogs) {
     return null;
   }
 
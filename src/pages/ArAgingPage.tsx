@@ -0,0 +1,111 @@
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, RefreshCcw } from "lucide-react";
+import { ArAgingTable } from "@/components/receivables/ArAgingTable";
+import { OpenInvoicesTable } from "@/components/receivables/OpenInvoicesTable";
+import { useArAging, useOpenInvoices } from "@/components/receivables/hooks/useArAging";
+import { AGING_BUCKETS, AgingBucket, isAgingBucket } from "@/components/receivables/ArAgingService";
+
+const ArAgingPage = () => {
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewReports = can('reports', 'view');
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The drilled-down customer and bucket live in the URL so the view can be linked to
+  const custno = searchParams.get("customer");
+  const bucketParam = searchParams.get("bucket");
+  const bucket = isAgingBucket(bucketParam) ? bucketParam : null;
+
+  const { rows, loading, loadAging } = useArAging();
+  const { invoices, loading: invoicesLoading } = useOpenInvoices(custno, bucket);
+  const selectedCustomer = rows.find(row => row.custno === custno);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewReports) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewReports, isAuthenticated, isLoading, navigate]);
+
+  const drillDown = (customer: string | null, agingBucket: AgingBucket | null) => {
+    const params = new URLSearchParams();
+    if (customer) params.set("customer", customer);
+    if (customer && agingBucket) params.set("bucket", agingBucket);
+    setSearchParams(params);
+  };
+
+  if (isLoading || !isAuthenticated || !canViewReports) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h1 className="text-2xl font-bold">Accounts Receivable Aging</h1>
+            <p className="text-gray-500 dark:text-gray-400">
+              Outstanding balances by days past the due date set by each customer's payment terms.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadAging}>
+            <RefreshCcw size={16} className="mr-2" /> Refresh
+          </Button>
+        </div>
+
+        {custno ? (
+          <div className="p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <div>
+                <Button variant="ghost" onClick={() => drillDown(null, null)}>
+                  <ArrowLeft className="mr-2 h-4 w-4" /> All Customers
+                </Button>
+                <h2 className="text-xl font-semibold mt-2">
+                  {selectedCustomer?.custname || custno}
+                  {selectedCustomer && (
+                    <span className="ml-2 text-base font-normal text-gray-500 dark:text-gray-400">
+                      ${selectedCustomer.totalBalance.toFixed(2)} due
+                    </span>
+                  )}
+                </h2>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant={bucket === null ? "default" : "outline"}
+                  onClick={() => drillDown(custno, null)}
+                >
+                  All
+                </Button>
+                {AGING_BUCKETS.map(agingBucket => (
+                  <Button
+                    key={agingBucket.key}
+                    size="sm"
+                    variant={bucket === agingBucket.key ? "default" : "outline"}
+                    onClick={() => drillDown(custno, agingBucket.key)}
+                  >
+                    {agingBucket.label}
+                    {selectedCustomer && ` ($${selectedCustomer.buckets[agingBucket.key].toFixed(2)})`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <OpenInvoicesTable invoices={invoices} loading={invoicesLoading} />
+          </div>
+        ) : (
+          <ArAgingTable rows={rows} loading={loading} onDrillDown={drillDown} />
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ArAgingPage;
@@ -0,0 +1,80 @@
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/contexts/AuthContext";
+import { CommissionPayoutReport } from "@/components/commissions/CommissionPayoutReport";
+import { CommissionPlansTable } from "@/components/commissions/CommissionPlansTable";
+import { useCommissionPlans } from "@/components/commissions/hooks/useCommissionPlans";
+
+const CommissionsPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewCommissions = can('commissions', 'view');
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { plans, loading, savePlan, removePlan } = useCommissionPlans();
+
+  // The reported month lives in the URL; defaults to the current month
+  const monthParam = searchParams.get("month");
+  const month = monthParam && /^\d{4}-\d{2}$/.test(monthParam) ? monthParam : format(new Date(), "yyyy-MM");
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewCommissions) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewCommissions, isAuthenticated, isLoading, navigate]);
+
+  const setMonth = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("month", value);
+    setSearchParams(params, { replace: true });
+  };
+
+  if (isLoading || !isAuthenticated || !canViewCommissions) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="print:hidden">
+          <h1 className="text-2xl font-bold">Commissions</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Commission is earned on a sale in the month it is fully paid.
+          </p>
+        </div>
+
+        <Tabs defaultValue="payouts">
+          <TabsList className="print:hidden">
+            <TabsTrigger value="payouts">Payout Report</TabsTrigger>
+            <TabsTrigger value="rates">Rates</TabsTrigger>
+          </TabsList>
+          <TabsContent value="payouts">
+            <CommissionPayoutReport
+              month={month}
+              onMonthChange={setMonth}
+              canCalculate={can('commissions', 'manage')}
+              canApprove={can('commissions', 'approve')}
+            />
+          </TabsContent>
+          <TabsContent value="rates">
+            <CommissionPlansTable
+              plans={plans}
+              loading={loading}
+              canManage={can('commissions', 'manage')}
+              onSave={savePlan}
+              onDelete={removePlan}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CommissionsPage;
@@ -1,15 +1,20 @@
 
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate } from "react-router-dom";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/sales/StatusBadge";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, FileText, Hourglass } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { formatDate } from "@/components/sales/utils/formatters";
-import { Customer } from "@/components/customers/CustomerService";
+import { Badge } from "@/components/ui/badge";
+import { Customer, formatAddress } from "@/components/customers/CustomerService";
+import { CustomerSalesHistory } from "@/components/customers/CustomerSalesHistory";
+import { useCustomerProfile } from "@/components/customers/hooks/useCustomerProfile";
+import { CustomerCreditCard } from "@/components/customers/credit/CustomerCreditCard";
+import { useAuth } from "@/contexts/AuthContext";
 
 const CustomerDetailsPage = () => {
   const { custno } = useParams<{ custno: string }>();
@@ -18,6 +23,8 @@ const CustomerDetailsPage = () => {
   const [customer, setCustomer] = useState<Customer | null>(null);
   const [loading, setLoading] = useState(true);
   const [stampInfo, setStampInfo] = useState<string>("");
+  const { profile } = useCustomerProfile(custno);
+  const { can } = useAuth();
 
   useEffect(() => {
     const fetchCustomerDetails = async () => {
@@ -159,7 +166,23 @@ const CustomerDetailsPage = () => {
               <CardHeader>
                 <div className="flex justify-between items-center">
                   <CardTitle>Customer Information</CardTitle>
-                  <StatusBadge status={getRecordStatus(customer)} />
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/dashboard/ar-aging?customer=${encodeURIComponent(customer.custno)}`)}
+                    >
+                      <Hourglass className="mr-2 h-4 w-4" /> AR Aging
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/dashboard/customers/${encodeURIComponent(customer.custno)}/statement`)}
+                    >
+                      <FileText className="mr-2 h-4 w-4" /> Statement
+                    </Button>
+                    <StatusBadge status={getRecordStatus(customer)} />
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -175,17 +198,77 @@ const CustomerDetailsPage = () => {
                   </div>
                   
                   <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Address</dt>
-                    <dd className="mt-1 text-lg">{customer.address || 'N/A'}</dd>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Billing Address</dt>
+                    <dd className="mt-1 text-lg">{formatAddress(profile?.billing) || customer.address || 'N/A'}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Shipping Address</dt>
+                    <dd className="mt-1 text-lg">{profile?.shipping ? formatAddress(profile.shipping) : 'Same as billing address'}</dd>
                   </div>
                   
                   <div>
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Payment Terms</dt>
                     <dd className="mt-1 text-lg">{customer.payterm || 'N/A'}</dd>
                   </div>
+
+                  {customer.merged_into && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Merged Into</dt>
+                      <dd className="mt-1 text-lg">
+                        <Link
+                          to={`/dashboard/customers/${customer.merged_into}`}
+                          className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          {customer.merged_into}
+                        </Link>
+                      </dd>
+                    </div>
+                  )}
                 </dl>
               </CardContent>
             </Card>
+
+            <CustomerCreditCard
+              custno={customer.custno}
+              canSetCreditLimit={!customer.deleted_at && can('customers', 'credit_limit') && can('customers', 'edit')}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Contacts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!profile || profile.contacts.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400">No contacts on file.</p>
+                ) : (
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-6">
+                    {profile.contacts.map(contact => (
+                      <div key={contact.id}>
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                          {contact.role || 'Contact'}
+                          {contact.is_primary && <Badge variant="secondary" className="ml-2">Primary</Badge>}
+                        </dt>
+                        <dd className="mt-1 text-lg">{contact.name}</dd>
+                        {contact.phone && <dd className="text-sm">{contact.phone}</dd>}
+                        {contact.email && (
+                          <dd className="text-sm">
+                            <a
+                              href={`mailto:${contact.email}`}
+                              className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              {contact.email}
+                            </a>
+                          </dd>
+                        )}
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </CardContent>
+            </Card>
+
+            <CustomerSalesHistory custno={customer.custno} />
             
             <Card>
               <CardHeader>
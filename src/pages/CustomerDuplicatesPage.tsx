@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { CustomerDuplicatesTable } from "@/components/customers/merge/CustomerDuplicatesTable";
+
+const CustomerDuplicatesPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  // A merge edits the survivor, moves sales and deletes the duplicate
+  const canMergeCustomers = can('customers', 'edit') && can('customers', 'delete') && can('sales', 'edit');
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canMergeCustomers) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canMergeCustomers, isAuthenticated, isLoading, navigate]);
+
+  if (isLoading || !isAuthenticated || !canMergeCustomers) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <Button variant="ghost" className="mb-4" onClick={() => navigate("/dashboard/customers")}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Customers
+      </Button>
+      <CustomerDuplicatesTable />
+    </DashboardLayout>
+  );
+};
+
+export default CustomerDuplicatesPage;
@@ -0,0 +1,118 @@
+import { useEffect } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { StatementTable } from "@/components/statements/StatementTable";
+import { useCustomerStatement } from "@/components/statements/hooks/useCustomerStatement";
+import { getDefaultStatementRange } from "@/components/statements/StatementService";
+import { downloadStatementPdf } from "@/components/statements/StatementPdf";
+import { formatDate } from "@/components/sales/utils/formatters";
+
+const CustomerStatementPage = () => {
+  const { custno } = useParams<{ custno: string }>();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewReports = can('reports', 'view');
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The period lives in the URL so a statement can be linked to and reprinted
+  const defaultRange = getDefaultStatementRange();
+  const from = searchParams.get("from") || defaultRange.from;
+  const to = searchParams.get("to") || defaultRange.to;
+  const rangeError = from > to ? "The start date must be on or before the end date." : "";
+
+  const { statement, loading } = useCustomerStatement(custno, from, to);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewReports) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewReports, isAuthenticated, isLoading, navigate]);
+
+  const setRange = (key: "from" | "to", value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("from", from);
+    params.set("to", to);
+    if (value) params.set(key, value);
+    setSearchParams(params, { replace: true });
+  };
+
+  if (isLoading || !isAuthenticated || !canViewReports) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto p-4 print:p-0">
+        <Button variant="ghost" className="mb-4 print:hidden" onClick={() => navigate(-1)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6 print:hidden">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={from} onChange={(e) => setRange("from", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={to} onChange={(e) => setRange("to", e.target.value)} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => window.print()} disabled={!statement}>
+              <Printer className="mr-2 h-4 w-4" /> Print
+            </Button>
+            <Button onClick={() => statement && downloadStatementPdf(statement)} disabled={!statement}>
+              <Download className="mr-2 h-4 w-4" /> Download PDF
+            </Button>
+          </div>
+        </div>
+
+        {rangeError && <p className="text-sm font-medium text-destructive mb-4">{rangeError}</p>}
+
+        {loading ? (
+          <div>Building statement...</div>
+        ) : statement ? (
+          <div className="bg-white rounded-lg shadow p-6 dark:bg-gray-800 print:shadow-none print:p-0">
+            <div className="flex flex-wrap justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-2xl font-bold">Statement of Account</h1>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {formatDate(statement.from)} to {formatDate(statement.to)}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-semibold">{statement.custname || statement.custno}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{statement.custno}</p>
+                {statement.address && <p className="text-sm">{statement.address}</p>}
+                {statement.payterm && <p className="text-sm">Payment Terms: {statement.payterm}</p>}
+              </div>
+            </div>
+
+            <StatementTable statement={statement} />
+
+            <p className="mt-6 text-right text-lg font-semibold">
+              Amount due: ${statement.closingBalance.toFixed(2)}
+            </p>
+          </div>
+        ) : !rangeError && (
+          <div className="text-center p-8">
+            <h2 className="text-xl font-semibold mb-2">Customer not found</h2>
+            <p className="text-gray-500 dark:text-gray-400">The customer you're looking for does not exist or has been deleted.</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CustomerStatementPage;
@@ -9,6 +9,7 @@ import { BarChart, Users, ShoppingCart, AlertCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useState } from "react";
 import { RecentActivity } from "@/components/dashboard/RecentActivity";
+import { SalesAnalytics } from "@/components/dashboard/SalesAnalytics";
 
 interface DashboardStats {
   totalCustomers: number;
@@ -18,7 +19,7 @@ interface DashboardStats {
 }
 
 const Dashboard = () => {
-  const { user, isAuthenticated, isLoading, isAdmin } = useAuth();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats>({
     totalCustomers: 0,
@@ -59,9 +60,9 @@ const Dashboard = () => {
         .from('profiles')
         .select('*', { count: 'exact', head: true });
       
-      // Only fetch notifications for admin users
+      // Only fetch notifications for users who receive them
       let notificationCount = 0;
-      if (isAdmin) {
+      if (can('notifications', 'view')) {
         const { count: notifCount, error: notificationError } = await supabase
           .from('notifications')
           .select('*', { count: 'exact', head: true })
@@ -128,7 +129,7 @@ const Dashboard = () => {
             </CardContent>
           </Card>
           
-          {isAdmin && (
+          {can('notifications', 'view') && (
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
                 <CardTitle className="text-sm font-medium">Notifications</CardTitle>
@@ -141,10 +142,12 @@ const Dashboard = () => {
             </Card>
           )}
         </div>
+
+        {can('reports', 'view') && <SalesAnalytics />}
         
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Only show Recent Activity for admin users */}
-          {isAdmin && (
+          {/* Only show Recent Activity to users who can read the activity log */}
+          {can('activity_logs', 'view') && (
             <Card>
               <CardHeader>
                 <CardTitle>Recent Activity</CardTitle>
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { CodeListManager } from "@/components/employees/CodeListManager";
+import { useDepartments } from "@/components/employees/hooks/useDepartments";
+
+const DepartmentsPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewEmployees = can('employees', 'view');
+  const navigate = useNavigate();
+  const { departments, loading, saveDepartment, removeDepartment } = useDepartments();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewEmployees) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewEmployees, isAuthenticated, isLoading, navigate]);
+
+  if (isLoading || !isAuthenticated || !canViewEmployees) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <CodeListManager
+        title="Departments"
+        itemLabel="Department"
+        codeLabel="Department Code"
+        nameLabel="Department Name"
+        items={departments.map(department => ({ code: department.deptcode, name: department.deptname }))}
+        loading={loading}
+        canAdd={can('employees', 'create')}
+        canEdit={can('employees', 'edit')}
+        canDelete={can('employees', 'delete')}
+        onSave={saveDepartment}
+        onDelete={removeDepartment}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default DepartmentsPage;
@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { EmployeeDialog } from "@/components/employees/EmployeeDialog";
+import { JobHistoryTimeline } from "@/components/employees/JobHistoryTimeline";
+import { Employee, fetchEmployee, getEmployeeName } from "@/components/employees/EmployeeService";
+import { useEmployeeActions } from "@/components/employees/hooks/useEmployeeActions";
+import { useJobHistory } from "@/components/employees/hooks/useJobHistory";
+import { useDepartments } from "@/components/employees/hooks/useDepartments";
+import { useJobs } from "@/components/employees/hooks/useJobs";
+
+const EmployeeDetailsPage = () => {
+  const { empno } = useParams<{ empno: string }>();
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewEmployees = can('employees', 'view');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [employee, setEmployee] = useState<Employee | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { jobHistory, loading: jobHistoryLoading, loadJobHistory } = useJobHistory(empno);
+  const { departments } = useDepartments();
+  const { jobs } = useJobs();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewEmployees) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewEmployees, isAuthenticated, isLoading, navigate]);
+
+  const loadEmployee = async () => {
+    if (!empno) return;
+
+    setLoading(true);
+    try {
+      setEmployee(await fetchEmployee(empno));
+    } catch (error) {
+      console.error('Error fetching employee details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load employee details",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEmployee();
+  }, [empno]);
+
+  const {
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    formDefaults,
+    handleEdit,
+    handleSubmit
+  } = useEmployeeActions({ onEmployeesChanged: loadEmployee });
+
+  if (isLoading || !isAuthenticated || !canViewEmployees) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto p-4">
+        <Button
+          variant="ghost"
+          className="mb-4"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+
+        <h1 className="text-2xl font-bold mb-6">Employee Details</h1>
+
+        {loading ? (
+          <div>Loading employee details...</div>
+        ) : employee ? (
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle>{getEmployeeName(employee)}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    {employee.sepdate ? (
+                      <Badge variant="outline">Separated</Badge>
+                    ) : (
+                      <Badge className="bg-green-500 text-white">Active</Badge>
+                    )}
+                    {can('employees', 'edit') && (
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(employee)}>
+                        <Edit className="mr-2 h-4 w-4" /> Edit
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-6">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Employee Number</dt>
+                    <dd className="mt-1 text-lg">{employee.empno}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Gender</dt>
+                    <dd className="mt-1 text-lg">{employee.gender === 'M' ? 'Male' : employee.gender === 'F' ? 'Female' : 'N/A'}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Birth Date</dt>
+                    <dd className="mt-1 text-lg">{formatDate(employee.birthdate)}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Hire Date</dt>
+                    <dd className="mt-1 text-lg">{formatDate(employee.hiredate)}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Separation Date</dt>
+                    <dd className="mt-1 text-lg">{formatDate(employee.sepdate)}</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Job History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <JobHistoryTimeline
+                  empno={employee.empno}
+                  jobHistory={jobHistory}
+                  jobs={jobs}
+                  departments={departments}
+                  loading={jobHistoryLoading}
+                  canEdit={can('employees', 'edit')}
+                  onJobHistoryChanged={loadJobHistory}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div className="text-center p-8">
+            <h2 className="text-xl font-semibold mb-2">Employee not found</h2>
+            <p className="text-gray-500 dark:text-gray-400">The employee you're looking for does not exist.</p>
+          </div>
+        )}
+      </div>
+
+      <EmployeeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        onSubmit={handleSubmit}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default EmployeeDetailsPage;
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { EmployeesTable } from "@/components/employees/EmployeesTable";
+import { EmployeeDialog } from "@/components/employees/EmployeeDialog";
+import { DeleteEmployeeDialog } from "@/components/employees/DeleteEmployeeDialog";
+import { useEmployeesData } from "@/components/employees/hooks/useEmployeesData";
+import { useEmployeeActions } from "@/components/employees/hooks/useEmployeeActions";
+
+const EmployeesPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewEmployees = can('employees', 'view');
+  const navigate = useNavigate();
+  const [showSeparated, setShowSeparated] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewEmployees) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewEmployees, isAuthenticated, isLoading, navigate]);
+
+  const { employees, loading, loadEmployeesData } = useEmployeesData(showSeparated);
+
+  const {
+    selectedEmployee,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    deleteDialogOpen,
+    setDeleteDialogOpen,
+    formDefaults,
+    prepareNewEmployeeForm,
+    handleEdit,
+    handleDeleteRequest,
+    handleDelete,
+    handleSubmit
+  } = useEmployeeActions({ onEmployeesChanged: loadEmployeesData });
+
+  if (isLoading || !isAuthenticated || !canViewEmployees) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+        <div className="flex flex-wrap justify-between items-center gap-2 p-4 border-b">
+          <h1 className="text-2xl font-bold">Employees</h1>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/dashboard/departments">Departments</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/dashboard/jobs">Job Codes</Link>
+            </Button>
+            <Button variant="outline" onClick={() => setShowSeparated(!showSeparated)}>
+              {showSeparated ? "Hide Separated" : "Show Separated"}
+            </Button>
+            {can('employees', 'create') && (
+              <Button onClick={prepareNewEmployeeForm}>
+                <Plus size={16} className="mr-2" /> Add Employee
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <EmployeesTable
+          employees={employees}
+          loading={loading}
+          canEditEmployee={can('employees', 'edit')}
+          canDeleteEmployee={can('employees', 'delete')}
+          onEdit={handleEdit}
+          onDelete={handleDeleteRequest}
+        />
+      </div>
+
+      <EmployeeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        onSubmit={handleSubmit}
+      />
+
+      <DeleteEmployeeDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        employee={selectedEmployee}
+        onConfirm={handleDelete}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default EmployeesPage;
@@ -23,6 +23,26 @@ const HelpPage = () => {
       question: "How do I update customer information?",
       answer: "To update customer information, navigate to the Customers page, find the customer you want to update, and click the 'Edit' button (pencil icon). Make your changes in the form that appears and click 'Save' to update the customer information."
     },
+    {
+      question: "Can I add many customers at once?",
+      answer: "Yes. On the Customers page click 'Import' and choose a CSV or Excel (.xlsx) file with column headers in the first row. Match its columns to customer number, name, address and payment term, then check the preview: rows with missing names, unknown payment terms, or a number or name that already exists are rejected. Click 'Import' to add the good rows in one go, and download the error report to fix the rejected ones. Rows without a customer number are numbered automatically."
+    },
+    {
+      question: "How do I record a customer's contacts and addresses?",
+      answer: "Edit the customer and fill in the Billing Address. Leave 'Same as billing address' ticked if goods ship there, or untick it to enter a separate Shipping Address. Under Contacts, click 'Add Contact' for each person you deal with and tick 'Primary contact' on the main one. The addresses and contacts show on the customer's details page and below the customer when you create a sale."
+    },
+    {
+      question: "What is a credit limit and a credit hold?",
+      answer: "A credit limit is the most a customer may owe across its open sales. Managers and administrators set it with 'Set Credit Limit' on the customer's details page; leave it blank for no limit. A customer owing its limit or more shows a 'Credit Hold' badge. A sale that would take a customer over its limit, including one converted from a quote, is not saved unless a user allowed to override credit holds gives a reason, which is recorded with the sale and in the activity log. Administrators get a notification when a customer's balance reaches 80% of its limit."
+    },
+    {
+      question: "What if the same customer was entered twice?",
+      answer: "On the Customers page click 'Find Duplicates' to see pairs of customers with similar names and addresses, best match first. Click 'Merge' on a pair, choose which customer number to keep and, for each field, which value to keep. Merging moves every sale, open quote and contact of the other customer to the one you keep, then deletes it and records where it went. The merge is recorded in the activity log."
+    },
+    {
+      question: "Can I export a list?",
+      answer: "Yes. Customers, Sales, Activity Logs and Users each have an 'Export' button. Choose CSV, Excel (.xlsx) or PDF, whether to export only the page shown or every row matching your search, filters and sort, and which columns to include. Dates are written in the date format set in your settings."
+    },
     {
       question: "What happens when I delete a customer?",
       answer: "When you delete a customer, their record is not permanently removed from the system but is marked as deleted. This means you can restore the customer if needed. Deleted customers won't appear in the default view but can be shown by using filters."
@@ -33,7 +53,19 @@ const HelpPage = () => {
     },
     {
       question: "How do I view sales for a specific customer?",
-      answer: "You can view sales for a specific customer by navigating to the Customer Details page. Click on a customer's name in the Customers list, and you will see a list of all sales associated with that customer."
+      answer: "You can view sales for a specific customer by navigating to the Customer Details page. Click on a customer's name in the Customers list, and you will see a list of all sales associated with that customer, along with their lifetime value, average order size, first and last purchase dates and the products they buy most."
+    },
+    {
+      question: "How do I record returned goods?",
+      answer: "Open the sale from the Sales page, go to the Credit Memos tab and click 'Issue Credit Memo'. Enter the quantity returned for each product; you cannot return more than was sold. The credit is taken off what the customer owes on that sale and appears on their statement and in AR aging. A credit memo issued by mistake can be voided."
+    },
+    {
+      question: "How do quotes work?",
+      answer: "Create a quote from the Quotes page with the same form used for sales, and set how long it is valid. The quote keeps the prices in effect on its quote date, even if prices change later. Mark it as sent once the customer has it, or reject it if they decline; a draft or sent quote past its valid-until date shows as expired. Click 'Convert to Sale' on an open quote to create the sale at the quoted prices."
+    },
+    {
+      question: "Why can't I see a page or button?",
+      answer: "What you can do depends on the roles you hold, such as Sales Clerk, Cashier, Manager or Auditor. Each role grants permissions like viewing payments or voiding credit memos, and you get every permission of every role assigned to you. Ask a user with access to Users to add a role; they can also create roles of their own on the Roles tab."
     }
     // Removed the "How do I mark a sale as paid?" FAQ
   ];
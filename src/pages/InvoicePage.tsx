@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ArrowLeft, Download, Printer } from "lucide-react";
+import { InvoiceDocument } from "@/components/invoices/InvoiceDocument";
+import { useInvoice } from "@/components/invoices/hooks/useInvoice";
+import { downloadInvoicePdf } from "@/components/invoices/InvoicePdf";
+
+const InvoicePage = () => {
+  const { transno } = useParams<{ transno: string }>();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewSales = can('sales', 'view');
+  const navigate = useNavigate();
+  const { invoice, loading } = useInvoice(transno);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewSales) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewSales, isAuthenticated, isLoading, navigate]);
+
+  const handleDownload = async () => {
+    if (!invoice) return;
+
+    setExporting(true);
+    try {
+      await downloadInvoicePdf(invoice);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (isLoading || !isAuthenticated || !canViewSales) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto p-4 print:p-0">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4 print:hidden">
+          <Button variant="ghost" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => window.print()} disabled={!invoice}>
+              <Printer className="mr-2 h-4 w-4" /> Print
+            </Button>
+            <Button onClick={handleDownload} disabled={!invoice || exporting}>
+              <Download className="mr-2 h-4 w-4" /> {exporting ? "Preparing..." : "Download PDF"}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div>Building invoice...</div>
+        ) : invoice ? (
+          <>
+            {invoice.missingPrices.length > 0 && (
+              <Alert variant="destructive" className="mb-4 print:hidden">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  No price was in effect on the sale date for: {invoice.missingPrices.join(', ')}. These lines are totalled at $0.00.
+                </AlertDescription>
+              </Alert>
+            )}
+            <InvoiceDocument invoice={invoice} />
+          </>
+        ) : (
+          <div className="text-center p-8">
+            <h2 className="text-xl font-semibold mb-2">Sale not found</h2>
+            <p className="text-gray-500 dark:text-gray-400">The sale you're looking for does not exist or has been deleted.</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default InvoicePage;
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { CodeListManager } from "@/components/employees/CodeListManager";
+import { useJobs } from "@/components/employees/hooks/useJobs";
+
+const JobsPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canViewEmployees = can('employees', 'view');
+  const navigate = useNavigate();
+  const { jobs, loading, saveJob, removeJob } = useJobs();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewEmployees) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewEmployees, isAuthenticated, isLoading, navigate]);
+
+  if (isLoading || !isAuthenticated || !canViewEmployees) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <CodeListManager
+        title="Job Codes"
+        itemLabel="Job Code"
+        codeLabel="Job Code"
+        nameLabel="Description"
+        items={jobs.map(job => ({ code: job.jobcode, name: job.jobdesc }))}
+        loading={loading}
+        canAdd={can('employees', 'create')}
+        canEdit={can('employees', 'edit')}
+        canDelete={can('employees', 'delete')}
+        onSave={saveJob}
+        onDelete={removeJob}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default JobsPage;
@@ -6,22 +6,23 @@ import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 
 const NotificationsPage = () => {
-  const { isAuthenticated, isLoading, isAdmin } = useAuth();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewNotifications = can('notifications', 'view');
   const navigate = useNavigate();
 
   useEffect(() => {
-    // Redirect if not authenticated or not admin
+    // Redirect if not authenticated or not allowed to see notifications
     if (!isLoading) {
       if (!isAuthenticated) {
         navigate("/auth");
-      } else if (!isAdmin) {
-        navigate("/dashboard"); // Redirect non-admin users
+      } else if (!canViewNotifications) {
+        navigate("/dashboard");
       }
     }
-  }, [isAuthenticated, isLoading, isAdmin, navigate]);
+  }, [isAuthenticated, isLoading, canViewNotifications, navigate]);
 
-  // Only render for admin users who are authenticated
-  if (isLoading || !isAuthenticated || !isAdmin) {
+  // Only render for authenticated users who receive notifications
+  if (isLoading || !isAuthenticated || !canViewNotifications) {
     return null;
   }
 
@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { DocumentSequencesTable } from "@/components/numbering/DocumentSequencesTable";
+import { useDocumentSequences } from "@/components/numbering/hooks/useDocumentSequences";
+
+const NumberingPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canManageSettings = can('settings', 'manage');
+  const navigate = useNavigate();
+  const { sequences, releasedCounts, loading, saveSequence } = useDocumentSequences();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canManageSettings) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canManageSettings, isAuthenticated, isLoading, navigate]);
+
+  if (isLoading || !isAuthenticated || !canManageSettings) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <DocumentSequencesTable
+        sequences={sequences}
+        releasedCounts={releasedCounts}
+        loading={loading}
+        onSave={saveSequence}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default NumberingPage;
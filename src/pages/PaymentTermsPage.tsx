@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { PaymentTermsTable } from "@/components/terms/PaymentTermsTable";
+import { usePaymentTerms } from "@/components/terms/hooks/usePaymentTerms";
+
+const PaymentTermsPage = () => {
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canManageSettings = can('settings', 'manage');
+  const navigate = useNavigate();
+  const { paymentTerms, loading, savePaymentTerm, removePaymentTerm } = usePaymentTerms();
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canManageSettings) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canManageSettings, isAuthenticated, isLoading, navigate]);
+
+  if (isLoading || !isAuthenticated || !canManageSettings) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <PaymentTermsTable
+        paymentTerms={paymentTerms}
+        loading={loading}
+        onSave={savePaymentTerm}
+        onDelete={removePaymentTerm}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default PaymentTermsPage;
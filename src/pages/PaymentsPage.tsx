@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { PaymentsTable } from "@/components/payments/PaymentsTable";
+import { PaymentDialog } from "@/components/payments/PaymentDialog";
+import { VoidPaymentDialog } from "@/components/payments/VoidPaymentDialog";
+import { usePaymentsData } from "@/components/payments/hooks/usePaymentsData";
+import { usePaymentActions } from "@/components/payments/hooks/usePaymentActions";
+import { usePaymentPermissions } from "@/components/payments/hooks/usePaymentPermissions";
+
+const PaymentsPage = () => {
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewPayments = can('payments', 'view');
+  const navigate = useNavigate();
+  const [showVoided, setShowVoided] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewPayments) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewPayments, isAuthenticated, isLoading, navigate]);
+
+  const { payments, saleOptions, loading, loadPaymentsData } = usePaymentsData(showVoided);
+  const { canAddPayment, canEditPayment, canVoidPayment } = usePaymentPermissions();
+
+  const {
+    selectedPayment,
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    voidDialogOpen,
+    setVoidDialogOpen,
+    formDefaults,
+    prepareNewPaymentForm,
+    handleEdit,
+    handleVoidRequest,
+    handleVoid,
+    handleSubmit
+  } = usePaymentActions({
+    canAddPayment,
+    canEditPayment,
+    canVoidPayment,
+    onPaymentsChanged: loadPaymentsData
+  });
+
+  if (isLoading || !isAuthenticated || !canViewPayments) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h1 className="text-2xl font-bold">Payments</h1>
+          <div className="flex gap-2">
+            {canVoidPayment && (
+              <Button variant="outline" onClick={() => setShowVoided(!showVoided)}>
+                {showVoided ? "Show Posted" : "Show Voided"}
+              </Button>
+            )}
+            {canAddPayment && (
+              <Button onClick={() => prepareNewPaymentForm()}>
+                <Plus size={16} className="mr-2" /> Record Payment
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <PaymentsTable
+          payments={payments}
+          loading={loading}
+          canEditPayment={canEditPayment}
+          canVoidPayment={canVoidPayment}
+          onEdit={handleEdit}
+          onVoid={handleVoidRequest}
+        />
+      </div>
+
+      <PaymentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        sales={saleOptions}
+        onSubmit={handleSubmit}
+      />
+
+      <VoidPaymentDialog
+        open={voidDialogOpen}
+        onOpenChange={setVoidDialogOpen}
+        payment={selectedPayment}
+        onConfirm={handleVoid}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default PaymentsPage;
@@ -0,0 +1,159 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { ArrowLeft, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { ProductDialog } from "@/components/products/ProductDialog";
+import { PriceHistoryEditor } from "@/components/products/PriceHistoryEditor";
+import { Product, fetchProduct, getProductStatus } from "@/components/products/ProductService";
+import { useProductActions } from "@/components/products/hooks/useProductActions";
+import { useProductPermissions } from "@/components/products/hooks/useProductPermissions";
+import { usePriceHistory } from "@/components/products/hooks/usePriceHistory";
+
+const ProductDetailsPage = () => {
+  const { prodcode } = useParams<{ prodcode: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { canAddProduct, canEditProduct, canDeleteProduct, canEditPrices } = useProductPermissions();
+  const { priceChanges, openSales, loading: pricesLoading, loadPriceHistory } = usePriceHistory(prodcode);
+
+  const loadProduct = async () => {
+    if (!prodcode) return;
+
+    setLoading(true);
+    try {
+      setProduct(await fetchProduct(prodcode));
+    } catch (error) {
+      console.error('Error fetching product details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load product details",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProduct();
+  }, [prodcode]);
+
+  const {
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    formDefaults,
+    handleEdit,
+    handleSubmit
+  } = useProductActions({
+    canAddProduct,
+    canEditProduct,
+    canDeleteProduct,
+    onProductsChanged: loadProduct
+  });
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto p-4">
+        <Button
+          variant="ghost"
+          className="mb-4"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+
+        <h1 className="text-2xl font-bold mb-6">Product Details</h1>
+
+        {loading ? (
+          <div>Loading product details...</div>
+        ) : product ? (
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle>Product Information</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={getProductStatus(product)} />
+                    {canEditProduct && !product.deleted_at && (
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(product)}>
+                        <Edit className="mr-2 h-4 w-4" /> Edit
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-6">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Product Code</dt>
+                    <dd className="mt-1 text-lg">{product.prodcode}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Description</dt>
+                    <dd className="mt-1 text-lg">{product.description || 'N/A'}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Unit</dt>
+                    <dd className="mt-1 text-lg">{product.unit || 'N/A'}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Created At</dt>
+                    <dd className="mt-1 text-lg">{formatDate(product.created_at)}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Modified At</dt>
+                    <dd className="mt-1 text-lg">{product.modified_at ? formatDate(product.modified_at) : 'N/A'}</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Price History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PriceHistoryEditor
+                  prodcode={product.prodcode}
+                  priceChanges={priceChanges}
+                  openSales={openSales}
+                  loading={pricesLoading}
+                  canEditPrices={canEditPrices && !product.deleted_at}
+                  onPricesChanged={loadPriceHistory}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div className="text-center p-8">
+            <h2 className="text-xl font-semibold mb-2">Product not found</h2>
+            <p className="text-gray-500 dark:text-gray-400">The product you're looking for does not exist.</p>
+          </div>
+        )}
+      </div>
+
+      <ProductDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        onSubmit={handleSubmit}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default ProductDetailsPage;
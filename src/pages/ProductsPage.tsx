@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { ProductsTable } from "@/components/products/ProductsTable";
+import { ProductDialog } from "@/components/products/ProductDialog";
+import { useProductsData } from "@/components/products/hooks/useProductsData";
+import { useProductActions } from "@/components/products/hooks/useProductActions";
+import { useProductPermissions } from "@/components/products/hooks/useProductPermissions";
+
+const ProductsPage = () => {
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewProducts = can('products', 'view');
+  const navigate = useNavigate();
+  const [showDeleted, setShowDeleted] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewProducts) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewProducts, isAuthenticated, isLoading, navigate]);
+
+  const { products, loading, loadProductsData } = useProductsData(showDeleted);
+  const { canAddProduct, canEditProduct, canDeleteProduct } = useProductPermissions();
+
+  const {
+    isEditing,
+    dialogOpen,
+    setDialogOpen,
+    formDefaults,
+    prepareNewProductForm,
+    handleEdit,
+    handleDelete,
+    handleRestore,
+    handleSubmit
+  } = useProductActions({
+    canAddProduct,
+    canEditProduct,
+    canDeleteProduct,
+    onProductsChanged: loadProductsData
+  });
+
+  if (isLoading || !isAuthenticated || !canViewProducts) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h1 className="text-2xl font-bold">Products</h1>
+          <div className="flex gap-2">
+            {canDeleteProduct && (
+              <Button variant="outline" onClick={() => setShowDeleted(!showDeleted)}>
+                {showDeleted ? "Show Active" : "Show Deleted"}
+              </Button>
+            )}
+            {canAddProduct && !showDeleted && (
+              <Button onClick={prepareNewProductForm}>
+                <Plus size={16} className="mr-2" /> Add Product
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <ProductsTable
+          products={products}
+          loading={loading}
+          showDeleted={showDeleted}
+          canEditProduct={canEditProduct}
+          canDeleteProduct={canDeleteProduct}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onRestore={handleRestore}
+        />
+      </div>
+
+      <ProductDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isEditing={isEditing}
+        formDefaults={formDefaults}
+        onSubmit={handleSubmit}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default ProductsPage;
@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Ban, Edit, Send, ShoppingCart, Undo2 } from "lucide-react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableFooter,
+  TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { StatusBadge } from "@/components/sales/StatusBadge";
+import { SaleForm } from "@/components/sales/SaleForm";
+import { SaleFormDocument } from "@/components/sales/form/types";
+import { formatDate } from "@/components/sales/utils/formatters";
+import { CreditHold } from "@/components/sales/SaleService";
+import { CreditOverrideDialog } from "@/components/sales/form/CreditOverrideDialog";
+import { convertQuoteToSale, isQuoteOpen, updateQuoteStatus } from "@/components/quotes/QuoteService";
+import { useQuoteDetails } from "@/components/quotes/hooks/useQuoteDetails";
+import { useQuoteFormOptions } from "@/components/quotes/hooks/useQuoteFormOptions";
+import { useQuotePermissions } from "@/components/quotes/hooks/useQuotePermissions";
+
+const linkClassName = "text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+const QuoteDetailsPage = () => {
+  const { quoteno } = useParams<{ quoteno: string }>();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewQuotes = can('quotes', 'view');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [editOpen, setEditOpen] = useState(false);
+  const [confirmConvert, setConfirmConvert] = useState(false);
+  const [isConverting, setIsConverting] = useState(false);
+  const [creditHold, setCreditHold] = useState<CreditHold | null>(null);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewQuotes) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewQuotes, isAuthenticated, isLoading, navigate]);
+
+  const { quote, loading, loadQuote } = useQuoteDetails(quoteno);
+  const { customers, employees } = useQuoteFormOptions();
+  const { canEditQuote, canConvertQuote } = useQuotePermissions();
+
+  // The form keys its reset on this object, so only rebuild it when the quote changes
+  const formDocument = useMemo<SaleFormDocument | null>(() => {
+    if (!quote) return null;
+
+    return {
+      transno: quote.quoteno,
+      // Local midnight, so the date picker shows the quote date in every time zone
+      salesdate: `${quote.quotedate}T00:00:00`,
+      custno: quote.custno,
+      empno: quote.empno,
+      valid_until: quote.valid_until,
+      employee: quote.empno ? {
+        empno: quote.empno,
+        firstname: quote.employee_firstname,
+        lastname: quote.employee_lastname,
+        empname: [quote.employee_firstname, quote.employee_lastname].filter(Boolean).join(' ') || null,
+        position: null
+      } : undefined
+    };
+  }, [quote]);
+
+  const handleStatusChange = async (status: 'draft' | 'sent' | 'rejected') => {
+    if (!quote) return;
+
+    const result = await updateQuoteStatus(quote.quoteno, status);
+    toast({
+      title: result.success ? "Quote Updated" : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success) {
+      loadQuote();
+    }
+  };
+
+  const handleConvert = async (creditOverrideReason?: string) => {
+    if (!quote) return;
+
+    setIsConverting(true);
+    const result = await convertQuoteToSale(quote.quoteno, creditOverrideReason);
+    setIsConverting(false);
+    setConfirmConvert(false);
+
+    // Over the customer's credit limit: offer the override instead of a toast
+    if (result.creditHold) {
+      setCreditHold(result.creditHold);
+      return;
+    }
+
+    setCreditHold(null);
+
+    toast({
+      title: result.success ? "Quote Converted" : "Error",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+
+    if (result.success && result.transno) {
+      navigate(`/dashboard/sales/${encodeURIComponent(result.transno)}`);
+    } else {
+      loadQuote();
+    }
+  };
+
+  const handleEditSuccess = () => {
+    setEditOpen(false);
+    loadQuote();
+  };
+
+  if (isLoading || !isAuthenticated || !canViewQuotes) {
+    return null;
+  }
+
+  const open = quote ? isQuoteOpen(quote) : false;
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto p-4">
+        <Button variant="ghost" className="mb-4" onClick={() => navigate(-1)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+
+        <h1 className="text-2xl font-bold mb-6">Quote Details</h1>
+
+        {loading ? (
+          <div>Loading quote details...</div>
+        ) : quote ? (
+          <div className="grid gap-6">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                  <CardTitle>Quote Information</CardTitle>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {/* An expired quote can still be edited to extend its validity */}
+                    {(open || quote.status === 'expired') && canEditQuote && (
+                      <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
+                        <Edit className="mr-2 h-4 w-4" /> Edit
+                      </Button>
+                    )}
+                    {open && canEditQuote && (
+                      <>
+                        {quote.status === 'draft' && (
+                          <Button variant="outline" size="sm" onClick={() => handleStatusChange('sent')}>
+                            <Send className="mr-2 h-4 w-4" /> Mark as Sent
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleStatusChange('rejected')}>
+                          <Ban className="mr-2 h-4 w-4" /> Reject
+                        </Button>
+                      </>
+                    )}
+                    {quote.status === 'rejected' && canEditQuote && (
+                      <Button variant="outline" size="sm" onClick={() => handleStatusChange('draft')}>
+                        <Undo2 className="mr-2 h-4 w-4" /> Reopen
+                      </Button>
+                    )}
+                    {open && canConvertQuote && (
+                      <Button size="sm" onClick={() => setConfirmConvert(true)} disabled={quote.line_count === 0}>
+                        <ShoppingCart className="mr-2 h-4 w-4" /> Convert to Sale
+                      </Button>
+                    )}
+                    <StatusBadge status={quote.status} />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-6">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Quote Number</dt>
+                    <dd className="mt-1 text-lg">{quote.quoteno}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Quote Date</dt>
+                    <dd className="mt-1 text-lg">{formatDate(quote.quotedate)}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Customer</dt>
+                    <dd className="mt-1 text-lg">
+                      {quote.custno ? (
+                        <Link to={`/dashboard/customers/${quote.custno}`} className={linkClassName}>
+                          {quote.custname || quote.custno}
+                        </Link>
+                      ) : (
+                        'N/A'
+                      )}
+                    </dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Valid Until</dt>
+                    <dd className="mt-1 text-lg">{formatDate(quote.valid_until)}</dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Salesperson</dt>
+                    <dd className="mt-1 text-lg">
+                      {[quote.employee_firstname, quote.employee_lastname].filter(Boolean).join(' ') || 'N/A'}
+                    </dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Total Amount</dt>
+                    <dd className="mt-1 text-lg font-semibold">${quote.total_amount.toFixed(2)}</dd>
+                  </div>
+
+                  {quote.transno && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Converted To</dt>
+                      <dd className="mt-1 text-lg">
+                        <Link to={`/dashboard/sales/${quote.transno}`} className={linkClassName}>
+                          Sale #{quote.transno}
+                        </Link>
+                        {quote.converted_at && (
+                          <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">on {formatDate(quote.converted_at)}</span>
+                        )}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Quoted Items</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product Code</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Subtotal</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quote.lines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center">No items on this quote.</TableCell>
+                      </TableRow>
+                    ) : (
+                      quote.lines.map(line => (
+                        <TableRow key={line.prodcode}>
+                          <TableCell>{line.prodcode}</TableCell>
+                          <TableCell>{line.product?.description || 'N/A'}</TableCell>
+                          <TableCell className="text-right">{line.quantity}</TableCell>
+                          <TableCell className="text-right">${line.unitprice.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">${line.subtotal.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-right">Total:</TableCell>
+                      <TableCell className="text-right">${quote.total_amount.toFixed(2)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  Prices are those in effect on {formatDate(quote.quotedate)} and are kept when the quote becomes a sale.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div>Quote not found.</div>
+        )}
+      </div>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit Quote</DialogTitle>
+            <DialogDescription>
+              Saving prices the quote again as of its quote date.
+            </DialogDescription>
+          </DialogHeader>
+
+          <SaleForm
+            selectedSale={formDocument}
+            isEditing={true}
+            documentType="quote"
+            customers={customers}
+            employees={employees}
+            onSubmitSuccess={handleEditSuccess}
+            onCancel={() => setEditOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmConvert} onOpenChange={setConfirmConvert}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Convert quote to a sale?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A sale dated today is created for {quote?.custname || quote?.custno} at the quoted prices,
+              totalling ${quote?.total_amount.toFixed(2)}. The quote is marked accepted and can no longer be changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isConverting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isConverting}
+              onClick={(event) => {
+                event.preventDefault();
+                handleConvert();
+              }}
+            >
+              {isConverting ? 'Converting...' : 'Convert to Sale'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CreditOverrideDialog
+        creditHold={creditHold}
+        canOverride={can('sales', 'override_credit')}
+        onOpenChange={(open) => !open && setCreditHold(null)}
+        onConfirm={handleConvert}
+        confirmLabel={isConverting ? 'Converting...' : 'Override and Convert'}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default QuoteDetailsPage;
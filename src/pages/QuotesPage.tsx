@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Plus, Search } from "lucide-react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { SaleForm } from "@/components/sales/SaleForm";
+import { QuotesTable } from "@/components/quotes/QuotesTable";
+import { QUOTE_STATUSES } from "@/components/quotes/QuoteService";
+import { useQuotes } from "@/components/quotes/hooks/useQuotes";
+import { useQuoteFormOptions } from "@/components/quotes/hooks/useQuoteFormOptions";
+import { useQuotePermissions } from "@/components/quotes/hooks/useQuotePermissions";
+import { useListParams } from "@/hooks/use-list-params";
+
+const QuotesPage = () => {
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canViewQuotes = can('quotes', 'view');
+  const navigate = useNavigate();
+  const { params: listParams, setSearch, setStatus } = useListParams({ sort: "quotedate", direction: "desc" });
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewQuotes) {
+        navigate("/dashboard");
+      }
+    }
+  }, [canViewQuotes, isAuthenticated, isLoading, navigate]);
+
+  const { quotes, loading, loadQuotes } = useQuotes(listParams.status);
+  const { customers, employees } = useQuoteFormOptions();
+  const { canAddQuote } = useQuotePermissions();
+
+  const search = listParams.search.trim().toLowerCase();
+  const filteredQuotes = search
+    ? quotes.filter(quote =>
+        quote.quoteno.toLowerCase().includes(search) ||
+        (quote.custname || "").toLowerCase().includes(search) ||
+        (quote.custno || "").toLowerCase().includes(search)
+      )
+    : quotes;
+
+  const handleFormSuccess = () => {
+    setDialogOpen(false);
+    loadQuotes();
+  };
+
+  if (isLoading || !isAuthenticated || !canViewQuotes) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="bg-white rounded-lg shadow dark:bg-gray-800">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h1 className="text-2xl font-bold">Quotes</h1>
+          {canAddQuote && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus size={16} className="mr-2" /> New Quote
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-center p-4">
+          <div className="flex-1 min-w-[200px]">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
+              <Input
+                placeholder="Search quotes..."
+                className="pl-8"
+                value={listParams.search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          <Select value={listParams.status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Filter by Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {QUOTE_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <QuotesTable quotes={filteredQuotes} loading={loading} />
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Quote</DialogTitle>
+            <DialogDescription>
+              Quote products to a customer. Prices in effect on the quote date are kept on the quote.
+            </DialogDescription>
+          </DialogHeader>
+
+          <SaleForm
+            selectedSale={null}
+            isEditing={false}
+            documentType="quote"
+            customers={customers}
+            employees={employees}
+            onSubmitSuccess={handleFormSuccess}
+            onCancel={() => setDialogOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default QuotesPage;
@@ -5,11 +5,19 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/sales/StatusBadge";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, AlertCircle, FileText } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
 import { formatDate, formatModifierInfo } from "@/components/sales/utils/formatters";
 import { SalesRecord } from "@/components/sales/types";
+import { priceSaleLines } from "@/components/sales/PricingService";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SalePayments } from "@/components/payments/SalePayments";
+import { useSalePayments } from "@/components/payments/hooks/useSalePayments";
+import { getPaymentStatus } from "@/components/payments/PaymentService";
+import { SaleCreditMemos } from "@/components/creditmemos/SaleCreditMemos";
+import { useSaleCreditMemos } from "@/components/creditmemos/hooks/useSaleCreditMemos";
 import { Link } from "react-router-dom";
 
 const SaleDetailsPage = () => {
@@ -20,6 +28,19 @@ const SaleDetailsPage = () => {
   const [saleItems, setSaleItems] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [stampInfo, setStampInfo] = useState<string>("");
+  const [missingPrices, setMissingPrices] = useState<string[]>([]);
+  const { 
+    payments, 
+    amountPaid, 
+    loading: paymentsLoading, 
+    loadPayments 
+  } = useSalePayments(transno);
+  const {
+    creditMemos,
+    amountCredited,
+    loading: creditMemosLoading,
+    loadCreditMemos
+  } = useSaleCreditMemos(transno);
 
   useEffect(() => {
     const fetchSaleDetails = async () => {
@@ -73,34 +94,35 @@ const SaleDetailsPage = () => {
             .eq('transno', transno);
             
           if (itemsError) throw itemsError;
+
+          // Due and discount dates come from the customer's payment terms
+          const { data: termsData, error: termsError } = await supabase
+            .from('sales_summary')
+            .select('due_date, discount_date, discount_percent')
+            .eq('transno', transno)
+            .maybeSingle();
+
+          if (termsError) throw termsError;
           
-          // Fetch prices for each item
-          const itemsWithPrices = await Promise.all((itemsData || []).map(async (item) => {
-            const { data: priceData, error: priceError } = await supabase
-              .from('pricehist')
-              .select('unitprice')
-              .eq('prodcode', item.prodcode)
-              .order('effdate', { ascending: false })
-              .limit(1);
-              
-            const unitPrice = !priceError && priceData && priceData.length > 0 ? 
-              priceData[0].unitprice : 0;
-              
-            return {
-              ...item,
-              unitprice: unitPrice,
-              subtotal: unitPrice * (item.quantity || 0)
-            };
+          // Price each item by the price in effect on the sale date
+          const pricedSale = await priceSaleLines(itemsData || [], saleData.salesdate);
+          const itemsWithPrices = (itemsData || []).map((item, index) => ({
+            ...item,
+            unitprice: pricedSale.lines[index].unitprice,
+            subtotal: pricedSale.lines[index].subtotal
           }));
           
-          // Calculate total amount
-          const total = itemsWithPrices.reduce((sum, item) => sum + (item.subtotal || 0), 0);
+          const total = pricedSale.total;
+          setMissingPrices(pricedSale.missingPrices);
           
           // Create a proper SalesRecord
           const enhancedSale = {
             ...saleData,
             modifier: modifierData,
             total_amount: total,
+            due_date: termsData?.due_date ?? null,
+            discount_date: termsData?.discount_date ?? null,
+            discount_percent: termsData?.discount_percent ?? null,
           } as SalesRecord;
           
           setSale(enhancedSale);
@@ -148,6 +170,12 @@ const SaleDetailsPage = () => {
     return 'Added';
   };
 
+  // Recomputed from the live payments and credits so settling the sale clears the flag
+  const isOverdue = (sale: SalesRecord) => {
+    if (!sale.due_date || amountPaid + amountCredited >= (sale.total_amount || 0)) return false;
+    return sale.due_date < new Date().toISOString().split('T')[0];
+  };
+
   return (
     <DashboardLayout>
       <div className="container mx-auto p-4">
@@ -169,7 +197,18 @@ const SaleDetailsPage = () => {
               <CardHeader>
                 <div className="flex justify-between items-center">
                   <CardTitle>Transaction Information</CardTitle>
-                  <StatusBadge status={getRecordStatus(sale)} />
+                  <div className="flex items-center gap-2">
+                    {!sale.deleted_at && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/dashboard/sales/${encodeURIComponent(sale.transno)}/invoice`)}
+                      >
+                        <FileText className="mr-2 h-4 w-4" /> Invoice
+                      </Button>
+                    )}
+                    <StatusBadge status={getRecordStatus(sale)} />
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -204,51 +243,142 @@ const SaleDetailsPage = () => {
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Total Amount</dt>
                     <dd className="mt-1 text-lg font-semibold">${sale.total_amount?.toFixed(2) || '0.00'}</dd>
                   </div>
+                  
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Payment Status</dt>
+                    <dd className="mt-1 text-lg flex items-center gap-2">
+                      <StatusBadge status={getPaymentStatus(sale.total_amount || 0, amountPaid, amountCredited)} />
+                      {isOverdue(sale) && <StatusBadge status="Overdue" />}
+                      <span className="text-sm text-gray-500 dark:text-gray-400">
+                        ${amountPaid.toFixed(2)} paid,{' '}
+                        {amountCredited > 0 && `$${amountCredited.toFixed(2)} credited, `}
+                        ${((sale.total_amount || 0) - amountPaid - amountCredited).toFixed(2)} due
+                      </span>
+                    </dd>
+                  </div>
+
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Due Date</dt>
+                    <dd className="mt-1 text-lg">
+                      {sale.due_date ? formatDate(sale.due_date) : 'N/A'}
+                      {sale.customer?.payterm && (
+                        <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">({sale.customer.payterm})</span>
+                      )}
+                    </dd>
+                  </div>
+
+                  {sale.discount_date && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Early-Payment Discount</dt>
+                      <dd className="mt-1 text-lg">
+                        {sale.discount_percent}% if paid by {formatDate(sale.discount_date)}
+                      </dd>
+                    </div>
+                  )}
                 </dl>
               </CardContent>
             </Card>
             
-            <Card>
-              <CardHeader>
-                <CardTitle>Sale Items</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {saleItems.length > 0 ? (
-                  <div className="overflow-x-auto">
-                    <table className="w-full border-collapse">
-                      <thead>
-                        <tr className="border-b">
-                          <th className="text-left py-2">Product Code</th>
-                          <th className="text-left py-2">Description</th>
-                          <th className="text-right py-2">Quantity</th>
-                          <th className="text-right py-2">Unit Price</th>
-                          <th className="text-right py-2">Subtotal</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {saleItems.map((item, index) => (
-                          <tr key={index} className="border-b">
-                            <td className="py-2">{item.prodcode}</td>
-                            <td className="py-2">{item.product?.description || 'N/A'}</td>
-                            <td className="text-right py-2">{item.quantity}</td>
-                            <td className="text-right py-2">${item.unitprice?.toFixed(2) || '0.00'}</td>
-                            <td className="text-right py-2">${item.subtotal?.toFixed(2) || '0.00'}</td>
-                          </tr>
-                        ))}
-                      </tbody>
-                      <tfoot>
-                        <tr>
-                          <td colSpan={4} className="text-right py-2 font-bold">Total:</td>
-                          <td className="text-right py-2 font-bold">${sale.total_amount?.toFixed(2) || '0.00'}</td>
-                        </tr>
-                      </tfoot>
-                    </table>
-                  </div>
-                ) : (
-                  <div className="text-center p-4">No items found for this sale.</div>
-                )}
-              </CardContent>
-            </Card>
+            <Tabs defaultValue="items">
+              <TabsList>
+                <TabsTrigger value="items">Items</TabsTrigger>
+                <TabsTrigger value="payments">Payments</TabsTrigger>
+                <TabsTrigger value="credit-memos">
+                  Credit Memos{creditMemos.length > 0 && ` (${creditMemos.length})`}
+                </TabsTrigger>
+              </TabsList>
+              
+              <TabsContent value="items">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sale Items</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {missingPrices.length > 0 && (
+                      <Alert variant="destructive" className="mb-4">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                          No price was in effect on {formatDate(sale.salesdate)} for: {missingPrices.join(', ')}. These lines are totalled at $0.00.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {saleItems.length > 0 ? (
+                      <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="text-left py-2">Product Code</th>
+                              <th className="text-left py-2">Description</th>
+                              <th className="text-right py-2">Quantity</th>
+                              <th className="text-right py-2">Unit Price</th>
+                              <th className="text-right py-2">Subtotal</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {saleItems.map((item, index) => (
+                              <tr key={index} className="border-b">
+                                <td className="py-2">{item.prodcode}</td>
+                                <td className="py-2">{item.product?.description || 'N/A'}</td>
+                                <td className="text-right py-2">{item.quantity}</td>
+                                <td className="text-right py-2">${item.unitprice?.toFixed(2) || '0.00'}</td>
+                                <td className="text-right py-2">${item.subtotal?.toFixed(2) || '0.00'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                          <tfoot>
+                            <tr>
+                              <td colSpan={4} className="text-right py-2 font-bold">Total:</td>
+                              <td className="text-right py-2 font-bold">${sale.total_amount?.toFixed(2) || '0.00'}</td>
+                            </tr>
+                          </tfoot>
+                        </table>
+                      </div>
+                    ) : (
+                      <div className="text-center p-4">No items found for this sale.</div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+              
+              <TabsContent value="payments">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Payments</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <SalePayments
+                      transno={sale.transno}
+                      totalAmount={sale.total_amount || 0}
+                      payments={payments}
+                      amountPaid={amountPaid}
+                      amountCredited={amountCredited}
+                      loading={paymentsLoading}
+                      isSaleDeleted={!!sale.deleted_at}
+                      onPaymentsChanged={loadPayments}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="credit-memos">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Credit Memos</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <SaleCreditMemos
+                      transno={sale.transno}
+                      saleDate={sale.salesdate}
+                      creditMemos={creditMemos}
+                      amountCredited={amountCredited}
+                      loading={creditMemosLoading}
+                      isSaleDeleted={!!sale.deleted_at}
+                      onCreditMemosChanged={loadCreditMemos}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
             
             <Card>
               <CardHeader>
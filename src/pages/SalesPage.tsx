@@ -2,7 +2,7 @@
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { SalesTable } from "@/components/sales/SalesTable";
 import { useAuth } from "@/contexts/AuthContext";
-import { useEffect, useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { 
@@ -17,66 +17,52 @@ import { Button } from "@/components/ui/button";
 import { Plus, Search, ArrowDown, ArrowUp } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { SaleForm } from "@/components/sales/SaleForm";
+import { Employee } from "@/components/sales/types";
 import { supabase } from "@/integrations/supabase/client";
+import { SortDirection, useListParams } from "@/hooks/use-list-params";
+
+const SALES_SORT_OPTIONS = [
+  { field: "transno", label: "Transaction No" },
+  { field: "salesdate", label: "Date" },
+  { field: "due_date", label: "Due Date" },
+  { field: "total_amount", label: "Total Amount" },
+  { field: "custname", label: "Customer" },
+];
 
 const SalesPage = () => {
-  const { isAuthenticated, isLoading, isAdmin, user } = useAuth();
+  const { isAuthenticated, isLoading, can, user } = useAuth();
+  const canViewSales = can('sales', 'view');
+  const canAddSale = can('sales', 'create');
   const navigate = useNavigate();
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [searchQuery, setSearchQuery] = useState<string>("");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const {
+    params: listParams,
+    setSearch,
+    setStatus,
+    setSort,
+    setPage,
+    setPageSize,
+    setShowDeleted
+  } = useListParams({ sort: "transno", direction: "desc" });
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [userPermissions, setUserPermissions] = useState<any>(null);
   const [customers, setCustomers] = useState<any[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [tableKey, setTableKey] = useState(0);
 
   useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      navigate("/auth");
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        navigate("/auth");
+      } else if (!canViewSales) {
+        navigate("/dashboard");
+      }
     }
-  }, [isAuthenticated, isLoading, navigate]);
+  }, [canViewSales, isAuthenticated, isLoading, navigate]);
 
   useEffect(() => {
-    if (user && !isAdmin) {
-      fetchUserPermissions();
-    } else if (isAdmin) {
-      // Admins have all permissions
-      setUserPermissions({
-        can_add_sales: true,
-      });
-    }
-
-    // Fetch customers for the form
+    // Fetch customers and salespeople for the form
     fetchCustomers();
-  }, [isAdmin, user]);
-
-  const fetchUserPermissions = async () => {
-    if (!user) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from("user_permissions")
-        .select("*")
-        .eq("user_id", user.id)
-        .single();
-      
-      if (error) {
-        if (error.code !== "PGRST116") {
-          console.error('Error fetching user permissions:', error);
-        }
-        // Default to no permissions if none are set
-        setUserPermissions({
-          can_add_sales: false,
-        });
-        return;
-      }
-      
-      if (data) {
-        setUserPermissions(data);
-      }
-    } catch (error) {
-      console.error('Error in fetchUserPermissions:', error);
-    }
-  };
+    fetchEmployees();
+  }, [user]);
 
   const fetchCustomers = async () => {
     try {
@@ -95,8 +81,6 @@ const SalesPage = () => {
         custno: customer.custno,
         custname: customer.custname,
         address: customer.address || null,
-        city: null,
-        phone: null,
         payterm: customer.payterm || null
       }));
       
@@ -106,8 +90,35 @@ const SalesPage = () => {
     }
   };
 
+  // Separated employees (sepdate set) can no longer be picked as salesperson
+  const fetchEmployees = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('employee')
+        .select('empno, firstname, lastname')
+        .is('sepdate', null);
+      
+      if (error) {
+        console.error('Error fetching employees:', error);
+        return;
+      }
+      
+      setEmployees(data.map(emp => ({
+        empno: emp.empno,
+        firstname: emp.firstname || null,
+        lastname: emp.lastname || null,
+        empname: emp.firstname && emp.lastname ? `${emp.firstname} ${emp.lastname}` : null,
+        position: null
+      })));
+    } catch (error) {
+      console.error('Error in fetchEmployees:', error);
+    }
+  };
+
+  // Remount the table so the new sale is fetched; list state lives in the URL
   const handleFormSuccess = () => {
     setDialogOpen(false);
+    setTableKey(key => key + 1);
   };
 
   if (isLoading) {
@@ -118,11 +129,10 @@ const SalesPage = () => {
     );
   }
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !canViewSales) {
     return null;
   }
 
-  const canAddSale = isAdmin || (userPermissions?.can_add_sales || false);
 
   return (
     <DashboardLayout>
@@ -146,14 +156,15 @@ const SalesPage = () => {
                 <Input 
                   placeholder="Search transactions..." 
                   className="pl-8"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  value={listParams.search}
+                  onChange={(e) => setSearch(e.target.value)}
                 />
               </div>
             </div>
             <Select 
-              value={statusFilter} 
-              onValueChange={setStatusFilter}
+              value={listParams.status} 
+              onValueChange={setStatus}
+              disabled={listParams.showDeleted}
             >
               <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder="Filter by Status" />
@@ -166,24 +177,37 @@ const SalesPage = () => {
               </SelectContent>
             </Select>
             <Select 
-              value={sortOrder} 
-              onValueChange={(value: "asc" | "desc") => setSortOrder(value)}
+              value={`${listParams.sort}.${listParams.direction}`} 
+              onValueChange={(value) => {
+                const [field, direction] = value.split(".");
+                setSort(field, direction as SortDirection);
+              }}
             >
               <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder="Sort Order" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="asc">
-                  Transaction No <ArrowUp className="inline-block ml-1 h-4 w-4" />
-                </SelectItem>
-                <SelectItem value="desc">
-                  Transaction No <ArrowDown className="inline-block ml-1 h-4 w-4" />
-                </SelectItem>
+                {SALES_SORT_OPTIONS.map(option => (
+                  <React.Fragment key={option.field}>
+                    <SelectItem value={`${option.field}.asc`}>
+                      {option.label} <ArrowUp className="inline-block ml-1 h-4 w-4" />
+                    </SelectItem>
+                    <SelectItem value={`${option.field}.desc`}>
+                      {option.label} <ArrowDown className="inline-block ml-1 h-4 w-4" />
+                    </SelectItem>
+                  </React.Fragment>
+                ))}
               </SelectContent>
             </Select>
           </div>
           
-          <SalesTable statusFilter={statusFilter} searchQuery={searchQuery} sortOrder={sortOrder} />
+          <SalesTable
+            key={tableKey}
+            listParams={listParams}
+            onShowDeletedChange={setShowDeleted}
+            onPageChange={setPage}
+            onPageSizeChange={setPageSize}
+          />
         </div>
       </ScrollArea>
 
@@ -200,6 +224,7 @@ const SalesPage = () => {
             selectedSale={null}
             isEditing={false}
             customers={customers}
+            employees={employees}
             onSubmitSuccess={handleFormSuccess}
             onCancel={() => setDialogOpen(false)}
           />
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { CompanySettingsCard } from "@/components/settings/CompanySettingsCard";
 
 interface UserSettings {
   darkMode: boolean;
@@ -20,7 +21,7 @@ const defaultSettings: UserSettings = {
 };
 
 const SettingsPage = () => {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, can, user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [settings, setSettings] = useState<UserSettings>(defaultSettings);
@@ -130,6 +131,8 @@ const SettingsPage = () => {
               </div>
             </CardContent>
           </Card>
+
+          {can('settings', 'manage') && <CompanySettingsCard />}
         </div>
       </ScrollArea>
     </DashboardLayout>
@@ -1,31 +1,52 @@
 
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { UsersTable } from "@/components/users/UsersTable";
+import { RolesTable } from "@/components/roles/RolesTable";
+import { useRoles } from "@/components/roles/hooks/useRoles";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 
 const UsersPage = () => {
-  const { isAdmin, isAuthenticated, isLoading } = useAuth();
+  const { can, isAuthenticated, isLoading } = useAuth();
+  const canManageUsers = can('users', 'manage');
   const navigate = useNavigate();
+  const { roles, loading, loadRoles, saveRole, removeRole } = useRoles();
 
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
         navigate("/auth");
-      } else if (!isAdmin) {
+      } else if (!canManageUsers) {
         navigate("/dashboard");
       }
     }
-  }, [isAdmin, isAuthenticated, isLoading, navigate]);
+  }, [canManageUsers, isAuthenticated, isLoading, navigate]);
 
-  if (isLoading || !isAuthenticated || !isAdmin) {
+  if (isLoading || !isAuthenticated || !canManageUsers) {
     return null;
   }
 
   return (
     <DashboardLayout>
-      <UsersTable />
+      <Tabs defaultValue="users">
+        <TabsList>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="roles">Roles</TabsTrigger>
+        </TabsList>
+        <TabsContent value="users">
+          <UsersTable roles={roles} onRolesChanged={loadRoles} />
+        </TabsContent>
+        <TabsContent value="roles">
+          <RolesTable
+            roles={roles}
+            loading={loading}
+            onSave={saveRole}
+            onDelete={removeRole}
+          />
+        </TabsContent>
+      </Tabs>
     </DashboardLayout>
   );
 };
@@ -0,0 +1,38 @@
+// Helpers for building paged, filtered PostgREST list queries
+
+export interface ListPage<T> {
+  rows: T[];
+  count: number;
+}
+
+// Inclusive row range for .range() from a 1-based page number
+export const getPageRange = (page: number, pageSize: number): [number, number] => {
+  const from = (Math.max(page, 1) - 1) * pageSize;
+  return [from, from + pageSize - 1];
+};
+
+// Build an .or() filter that matches the search text against any of the given columns.
+// Characters with a meaning in PostgREST filter syntax are dropped from the search text.
+export const buildSearchFilter = (columns: string[], search: string): string | null => {
+  const term = search.replace(/[,().*%\\:"]/g, " ").trim();
+  if (!term) return null;
+
+  return columns.map(column => `${column}.ilike.*${term}*`).join(",");
+};
+
+// Fetch every page of a list query, for exports that need the whole result rather than one page
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number, pageSize: number) => Promise<ListPage<T>>,
+  pageSize = 1000
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, pageSize);
+    rows.push(...result.rows);
+
+    if (result.rows.length < pageSize || rows.length >= result.count) {
+      return rows;
+    }
+  }
+};
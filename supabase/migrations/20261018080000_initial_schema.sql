@@ -0,0 +1,305 @@
+-- The schema the portal was built on, before the dated changes that follow it.
+-- The hosted project already has all of this; record it as applied there with
+-- `supabase migration repair --status applied 20261018080000` instead of running it.
+
+-- Customers, products and prices
+create table if not exists public.customer (
+  custno text primary key,
+  custname text,
+  address text,
+  payterm text,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid,
+  deleted_at timestamp with time zone,
+  deleted_by uuid
+);
+
+create table if not exists public.product (
+  prodcode text primary key,
+  description text,
+  unit text
+);
+
+create table if not exists public.pricehist (
+  prodcode text not null references public.product (prodcode),
+  effdate date not null,
+  unitprice numeric(12, 2),
+  primary key (prodcode, effdate)
+);
+
+-- Employees and their job history
+create table if not exists public.department (
+  deptcode text primary key,
+  deptname text
+);
+
+create table if not exists public.job (
+  jobcode text primary key,
+  jobdesc text
+);
+
+create table if not exists public.employee (
+  empno text primary key,
+  lastname text,
+  firstname text,
+  gender text,
+  birthdate date,
+  hiredate date,
+  sepdate date
+);
+
+create table if not exists public.jobhistory (
+  empno text not null references public.employee (empno),
+  jobcode text not null references public.job (jobcode),
+  deptcode text references public.department (deptcode),
+  effdate date not null,
+  salary numeric(12, 2),
+  primary key (empno, jobcode, effdate)
+);
+
+-- Sales, their lines and the payments made against them
+create table if not exists public.sales (
+  transno text primary key,
+  salesdate timestamp with time zone,
+  custno text references public.customer (custno),
+  empno text references public.employee (empno),
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid,
+  deleted_at timestamp with time zone,
+  deleted_by uuid
+);
+
+create table if not exists public.salesdetail (
+  transno text not null references public.sales (transno),
+  prodcode text not null references public.product (prodcode),
+  quantity numeric,
+  deleted_at timestamp with time zone,
+  deleted_by uuid,
+  primary key (transno, prodcode)
+);
+
+create table if not exists public.payment (
+  orno text primary key,
+  paydate date,
+  amount numeric(12, 2),
+  transno text references public.sales (transno)
+);
+
+-- Users: a profile per auth user, with the admin/customer flag and permission switches
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  first_name text,
+  last_name text,
+  avatar_url text,
+  role text not null default 'customer',
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create table if not exists public.user_permissions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  can_add_customers boolean not null default false,
+  can_edit_customers boolean not null default false,
+  can_delete_customers boolean not null default false,
+  can_add_sales boolean not null default false,
+  can_edit_sales boolean not null default false,
+  can_delete_sales boolean not null default false,
+  can_add_salesdetails boolean not null default false,
+  can_edit_salesdetails boolean not null default false,
+  can_delete_salesdetails boolean not null default false,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, email, first_name, last_name)
+  values (
+    new.id,
+    new.email,
+    new.raw_user_meta_data->>'first_name',
+    new.raw_user_meta_data->>'last_name'
+  );
+
+  insert into user_permissions (user_id)
+  values (new.id)
+  on conflict (user_id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Activity log and notifications
+create table if not exists public.activity_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid,
+  action text not null,
+  table_name text not null,
+  record_id text not null,
+  details jsonb,
+  created_at timestamp with time zone not null default now()
+);
+
+create index if not exists activity_logs_created_at_idx on public.activity_logs (created_at desc);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  title text not null,
+  message text not null,
+  is_read boolean default false,
+  created_at timestamp with time zone not null default now()
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id);
+
+-- Records who did what; the signed-in user is taken from the request
+create or replace function public.log_activity(action text, table_name text, record_id text, details jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  insert into activity_logs (user_id, action, table_name, record_id, details)
+  values (auth.uid(), log_activity.action, log_activity.table_name, log_activity.record_id, log_activity.details)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.log_activity(text, text, text, jsonb) to authenticated;
+
+-- The notification bell and list update live
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
+
+-- Row level security: signed-in users share the business records; profiles, permission
+-- switches and notifications belong to their user
+alter table public.customer enable row level security;
+alter table public.product enable row level security;
+alter table public.pricehist enable row level security;
+alter table public.department enable row level security;
+alter table public.job enable row level security;
+alter table public.employee enable row level security;
+alter table public.jobhistory enable row level security;
+alter table public.sales enable row level security;
+alter table public.salesdetail enable row level security;
+alter table public.payment enable row level security;
+alter table public.profiles enable row level security;
+alter table public.user_permissions enable row level security;
+alter table public.activity_logs enable row level security;
+alter table public.notifications enable row level security;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'customer', 'product', 'pricehist', 'department', 'job',
+    'employee', 'jobhistory', 'sales', 'salesdetail', 'payment'
+  ]
+  loop
+    execute format(
+      'create policy %I on public.%I for select to authenticated using (true)',
+      'Authenticated users can view ' || v_table, v_table
+    );
+    execute format(
+      'create policy %I on public.%I for all to authenticated using (true) with check (true)',
+      'Authenticated users can manage ' || v_table, v_table
+    );
+  end loop;
+end;
+$$;
+
+create policy "Authenticated users can view profiles"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+create policy "Users can view their own permissions"
+  on public.user_permissions for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+create policy "Admins can manage permissions"
+  on public.user_permissions for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "Authenticated users can view activity logs"
+  on public.activity_logs for select
+  to authenticated
+  using (true);
+
+create policy "Users can view their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can update their own notifications"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their own notifications"
+  on public.notifications for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Public bucket for profile pictures; each user writes only to the folder named after them
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
+
+create policy "Anyone can view avatars"
+  on storage.objects for select
+  using (bucket_id = 'avatars');
+
+create policy "Users can upload their own avatar"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can update their own avatar"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,5 @@
+-- Payments are voided instead of deleted so the official receipt stays on record
+alter table public.payment
+  add column if not exists voided_at timestamp with time zone,
+  add column if not exists voided_by uuid,
+  add column if not exists void_reason text;
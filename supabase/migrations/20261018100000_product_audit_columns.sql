@@ -0,0 +1,16 @@
+-- Products and their price history get the same audit and soft-delete columns as customer
+alter table public.product
+  add column if not exists created_at timestamp with time zone default now(),
+  add column if not exists created_by uuid,
+  add column if not exists modified_at timestamp with time zone,
+  add column if not exists modified_by uuid,
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by uuid;
+
+alter table public.pricehist
+  add column if not exists created_at timestamp with time zone default now(),
+  add column if not exists created_by uuid,
+  add column if not exists modified_at timestamp with time zone,
+  add column if not exists modified_by uuid,
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by uuid;
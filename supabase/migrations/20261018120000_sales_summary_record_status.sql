@@ -0,0 +1,62 @@
+-- Expose the record status of each sale so the sales list can filter on it server-side.
+-- Restoring a sale clears deleted_at but keeps deleted_by, which is what marks it as restored.
+create or replace view public.sales_summary
+with (security_invoker = true)
+as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  s.created_at,
+  s.created_by,
+  s.modified_at,
+  s.modified_by,
+  s.deleted_at,
+  s.deleted_by,
+  c.custname,
+  c.address as customer_address,
+  c.payterm as customer_payterm,
+  e.firstname as employee_firstname,
+  e.lastname as employee_lastname,
+  p.first_name as modifier_first_name,
+  p.last_name as modifier_last_name,
+  coalesce(totals.total_amount, 0) as total_amount,
+  coalesce(paid.amount_paid, 0) as amount_paid,
+  case
+    when coalesce(paid.amount_paid, 0) > 0
+      and coalesce(paid.amount_paid, 0) >= coalesce(totals.total_amount, 0) then 'Paid'
+    when coalesce(paid.amount_paid, 0) > 0 then 'Partial'
+    else 'Unpaid'
+  end as payment_status,
+  case
+    when s.deleted_at is not null then 'Deleted'
+    when s.deleted_by is not null then 'Restored'
+    when s.modified_at is not null and s.modified_by is not null then 'Edited'
+    else 'Added'
+  end as record_status
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join public.profiles p on p.id = s.modified_by
+left join lateral (
+  select sum(sd.quantity * coalesce(price.unitprice, 0)) as total_amount
+  from public.salesdetail sd
+  left join lateral (
+    select ph.unitprice
+    from public.pricehist ph
+    where ph.prodcode = sd.prodcode
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(s.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true
+  where sd.transno = s.transno
+    and (sd.deleted_at is null or s.deleted_at is not null)
+) totals on true
+left join lateral (
+  select sum(pay.amount) as amount_paid
+  from public.payment pay
+  where pay.transno = s.transno
+    and pay.voided_at is null
+) paid on true;
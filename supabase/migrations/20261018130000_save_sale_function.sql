@@ -0,0 +1,127 @@
+-- Saves a sale header and its lines in one transaction.
+-- Lines that are no longer on the sale are soft-deleted; lines that come back are revived.
+-- Validation problems are returned as per-field errors keyed by form field path
+-- (e.g. "custno", "items.2.quantity") instead of being raised, so nothing is written
+-- unless the whole sale is valid.
+create or replace function public.save_sale(sale jsonb, lines jsonb, is_new boolean)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transno text := nullif(trim(sale->>'transno'), '');
+  v_salesdate timestamp with time zone := nullif(sale->>'salesdate', '')::timestamp with time zone;
+  v_custno text := nullif(sale->>'custno', '');
+  v_empno text := nullif(sale->>'empno', '');
+  v_current_empno text;
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_prodcode text;
+  v_seen text[] := '{}';
+begin
+  if v_transno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required.');
+  elsif is_new and exists (select 1 from sales s where s.transno = v_transno) then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number already exists.');
+  elsif not is_new and not exists (select 1 from sales s where s.transno = v_transno and s.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'This sale no longer exists or has been deleted.');
+  end if;
+
+  if v_custno is not null
+    and not exists (select 1 from customer c where c.custno = v_custno and c.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer does not exist or has been deleted.');
+  end if;
+
+  -- A separated salesperson may stay on a sale they already made
+  if v_empno is not null then
+    select s.empno into v_current_empno from sales s where s.transno = v_transno;
+
+    if not exists (
+      select 1 from employee e
+      where e.empno = v_empno and (e.sepdate is null or e.empno = v_current_empno)
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Salesperson does not exist or has separated.');
+    end if;
+  end if;
+
+  if jsonb_typeof(lines) is distinct from 'array' or jsonb_array_length(lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'items', 'message', 'Add at least one product to the sale.');
+  else
+    for v_line in
+      select l.value, l.ordinality - 1 as idx
+      from jsonb_array_elements(lines) with ordinality as l(value, ordinality)
+    loop
+      v_prodcode := nullif(v_line.value->>'prodcode', '');
+
+      if v_prodcode is null then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Select a product.');
+      elsif not exists (select 1 from product p where p.prodcode = v_prodcode and p.deleted_at is null) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product does not exist or has been deleted.');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product is already on this sale.');
+      else
+        v_seen := v_seen || v_prodcode;
+      end if;
+
+      if jsonb_typeof(v_line.value->'quantity') is distinct from 'number'
+        or (v_line.value->>'quantity')::numeric < 1 then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.quantity', v_line.idx), 'message', 'Quantity must be at least 1.');
+      end if;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'transno', v_transno, 'errors', v_errors);
+  end if;
+
+  if is_new then
+    insert into sales (transno, salesdate, custno, empno, created_at, created_by)
+    values (v_transno, v_salesdate, v_custno, v_empno, v_now, v_user);
+  else
+    update sales
+    set salesdate = v_salesdate,
+        custno = v_custno,
+        empno = v_empno,
+        modified_at = v_now,
+        modified_by = v_user
+    where transno = v_transno;
+  end if;
+
+  insert into salesdetail (transno, prodcode, quantity, deleted_at, deleted_by)
+  select v_transno, l->>'prodcode', (l->>'quantity')::numeric, null, null
+  from jsonb_array_elements(lines) as l
+  on conflict (transno, prodcode) do update
+    set quantity = excluded.quantity,
+        deleted_at = null,
+        deleted_by = null;
+
+  update salesdetail d
+  set deleted_at = v_now,
+      deleted_by = v_user
+  where d.transno = v_transno
+    and d.deleted_at is null
+    and d.prodcode not in (select l->>'prodcode' from jsonb_array_elements(lines) as l);
+
+  perform public.log_activity(
+    case when is_new then 'insert' else 'update' end,
+    'sales',
+    v_transno,
+    jsonb_build_object('sale', sale, 'lines', lines)
+  );
+
+  return jsonb_build_object('success', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+exception
+  -- Another user took the transaction number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'transno', v_transno,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'transno', 'message', 'Transaction number already exists.'))
+    );
+end;
+$$;
+
+grant execute on function public.save_sale(jsonb, jsonb, boolean) to authenticated;
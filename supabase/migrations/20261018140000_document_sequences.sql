@@ -0,0 +1,155 @@
+-- Server-side numbering for sales (transno) and customers (custno).
+-- Numbers are reserved under a row lock so two users never get the same one.
+create table if not exists public.document_sequence (
+  code text primary key,
+  name text not null,
+  prefix text not null default '',
+  padding integer not null default 4 check (padding between 1 and 12),
+  next_value bigint not null default 1 check (next_value > 0),
+  reuse_cancelled boolean not null default false,
+  modified_at timestamp with time zone,
+  modified_by uuid
+);
+
+-- Numbers handed out for records that were never saved, waiting to be handed out again
+create table if not exists public.document_number_pool (
+  sequence_code text not null references public.document_sequence(code) on delete cascade,
+  number text not null,
+  released_at timestamp with time zone not null default now(),
+  released_by uuid,
+  primary key (sequence_code, number)
+);
+
+-- Start each series after the highest number already in use
+insert into public.document_sequence (code, name, prefix, padding, next_value)
+select 'sales', 'Sales transactions', 'TR', 6,
+  coalesce(max(substring(transno from 3)::bigint), 0) + 1
+from public.sales
+where transno ~ '^TR[0-9]+$'
+on conflict (code) do nothing;
+
+insert into public.document_sequence (code, name, prefix, padding, next_value)
+select 'customer', 'Customers', 'C', 4,
+  coalesce(max(substring(custno from 2)::bigint), 0) + 1
+from public.customer
+where custno ~ '^C[0-9]+$'
+on conflict (code) do nothing;
+
+alter table public.document_sequence enable row level security;
+alter table public.document_number_pool enable row level security;
+
+create policy "Authenticated users can view document sequences"
+  on public.document_sequence for select
+  to authenticated
+  using (true);
+
+create policy "Admins can update document sequences"
+  on public.document_sequence for update
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "Admins can view the document number pool"
+  on public.document_number_pool for select
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- True when the number is already used by a saved record of the series
+create or replace function public.document_number_in_use(sequence_code text, number text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case sequence_code
+    when 'sales' then exists (select 1 from sales s where s.transno = number)
+    when 'customer' then exists (select 1 from customer c where c.custno = number)
+    else false
+  end;
+$$;
+
+-- Reserve the next number of a series, reusing a released number first when the series allows it
+create or replace function public.next_document_number(sequence_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sequence document_sequence%rowtype;
+  v_number text;
+begin
+  select * into v_sequence
+  from document_sequence ds
+  where ds.code = next_document_number.sequence_code
+  for update;
+
+  if not found then
+    raise exception 'Unknown document sequence: %', sequence_code;
+  end if;
+
+  if v_sequence.reuse_cancelled then
+    delete from document_number_pool p
+    where (p.sequence_code, p.number) = (
+      select p2.sequence_code, p2.number
+      from document_number_pool p2
+      where p2.sequence_code = v_sequence.code
+        and not document_number_in_use(p2.sequence_code, p2.number)
+      order by p2.number
+      limit 1
+    )
+    returning p.number into v_number;
+
+    if v_number is not null then
+      return v_number;
+    end if;
+  end if;
+
+  -- Skip numbers that were entered by hand or saved before the series existed
+  loop
+    v_number := v_sequence.prefix || lpad(v_sequence.next_value::text, v_sequence.padding, '0');
+    v_sequence.next_value := v_sequence.next_value + 1;
+    exit when not document_number_in_use(v_sequence.code, v_number);
+  end loop;
+
+  update document_sequence
+  set next_value = v_sequence.next_value
+  where code = v_sequence.code;
+
+  return v_number;
+end;
+$$;
+
+-- Give back a reserved number that was never saved. Ignored when the series does not
+-- reuse numbers or the number ended up being used after all.
+create or replace function public.release_document_number(sequence_code text, number text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if number is null or document_number_in_use(sequence_code, number) then
+    return false;
+  end if;
+
+  if not exists (
+    select 1 from document_sequence ds
+    where ds.code = release_document_number.sequence_code and ds.reuse_cancelled
+  ) then
+    return false;
+  end if;
+
+  insert into document_number_pool (sequence_code, number, released_by)
+  values (release_document_number.sequence_code, release_document_number.number, auth.uid())
+  on conflict do nothing;
+
+  return true;
+end;
+$$;
+
+grant select, update on public.document_sequence to authenticated;
+grant select on public.document_number_pool to authenticated;
+grant execute on function public.next_document_number(text) to authenticated;
+grant execute on function public.release_document_number(text, text) to authenticated;
@@ -0,0 +1,57 @@
+-- Open (not fully paid) sales with their due date and how far past due they are.
+-- The due date comes from the customer's payterm: COD is due on the sale date,
+-- "30D" thirty days after it.
+create or replace view public.ar_open_invoices
+with (security_invoker = true)
+as
+select
+  ss.transno,
+  ss.custno,
+  ss.custname,
+  ss.customer_payterm as payterm,
+  ss.salesdate,
+  due.due_date,
+  ss.total_amount,
+  ss.amount_paid,
+  ss.total_amount - ss.amount_paid as balance,
+  greatest(current_date - due.due_date, 0) as days_past_due,
+  case
+    when current_date <= due.due_date then 'current'
+    when current_date - due.due_date <= 30 then '1-30'
+    when current_date - due.due_date <= 60 then '31-60'
+    when current_date - due.due_date <= 90 then '61-90'
+    else '90+'
+  end as aging_bucket
+from public.sales_summary ss
+cross join lateral (
+  select coalesce(ss.salesdate::date, current_date)
+    + case
+        when ss.customer_payterm ~ '^[0-9]+D$' then substring(ss.customer_payterm from '^([0-9]+)')::integer
+        else 0
+      end as due_date
+) due
+where ss.deleted_at is null
+  and ss.total_amount - ss.amount_paid > 0;
+
+grant select on public.ar_open_invoices to authenticated;
+
+-- Outstanding balance of each customer split into aging buckets
+create or replace view public.ar_aging_summary
+with (security_invoker = true)
+as
+select
+  oi.custno,
+  max(oi.custname) as custname,
+  max(oi.payterm) as payterm,
+  count(*) as open_invoices,
+  sum(oi.balance) filter (where oi.aging_bucket = 'current') as current_amount,
+  sum(oi.balance) filter (where oi.aging_bucket = '1-30') as days_1_30,
+  sum(oi.balance) filter (where oi.aging_bucket = '31-60') as days_31_60,
+  sum(oi.balance) filter (where oi.aging_bucket = '61-90') as days_61_90,
+  sum(oi.balance) filter (where oi.aging_bucket = '90+') as days_over_90,
+  sum(oi.balance) as total_balance,
+  max(oi.days_past_due) as oldest_days_past_due
+from public.ar_open_invoices oi
+group by oi.custno;
+
+grant select on public.ar_aging_summary to authenticated;
@@ -0,0 +1,159 @@
+-- Payment terms become a managed list with a day count and an optional early-payment
+-- discount (e.g. "2/10 NET30": 2% off if paid within 10 days, otherwise due in 30).
+create table if not exists public.payment_term (
+  code text primary key,
+  description text,
+  net_days integer not null default 0 check (net_days >= 0),
+  discount_percent numeric(5, 2) check (discount_percent > 0 and discount_percent < 100),
+  discount_days integer check (discount_days >= 0),
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid,
+  constraint payment_term_discount_check check (
+    (discount_percent is null and discount_days is null)
+    or (discount_percent is not null and discount_days is not null and discount_days <= net_days)
+  )
+);
+
+insert into public.payment_term (code, description, net_days, discount_percent, discount_days)
+values
+  ('COD', 'Cash on delivery', 0, null, null),
+  ('NET15', 'Net 15 days', 15, null, null),
+  ('NET30', 'Net 30 days', 30, null, null),
+  ('NET45', 'Net 45 days', 45, null, null),
+  ('2/10 NET30', '2% discount if paid within 10 days, net 30 days', 30, 2, 10)
+on conflict (code) do nothing;
+
+-- Move the old free-text terms onto the list
+update public.customer set payterm = 'NET30' where payterm = '30D';
+update public.customer set payterm = 'NET45' where payterm = '45D';
+
+-- Keep any other term already in use, taking the day count from its leading digits
+insert into public.payment_term (code, description, net_days)
+select distinct c.payterm, c.payterm, coalesce(substring(c.payterm from '^([0-9]+)')::integer, 0)
+from public.customer c
+where c.payterm is not null
+  and not exists (select 1 from public.payment_term pt where pt.code = c.payterm)
+on conflict (code) do nothing;
+
+alter table public.customer
+  add constraint customer_payterm_fkey foreign key (payterm)
+  references public.payment_term (code) on update cascade;
+
+alter table public.payment_term enable row level security;
+
+create policy "Authenticated users can view payment terms"
+  on public.payment_term for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage payment terms"
+  on public.payment_term for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+grant select, insert, update, delete on public.payment_term to authenticated;
+
+-- Due date, early-payment discount date and overdue flag of each sale, from its customer's terms.
+-- A sale is overdue once its due date has passed and it is not fully paid.
+create or replace view public.sales_summary
+with (security_invoker = true)
+as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  s.created_at,
+  s.created_by,
+  s.modified_at,
+  s.modified_by,
+  s.deleted_at,
+  s.deleted_by,
+  c.custname,
+  c.address as customer_address,
+  c.payterm as customer_payterm,
+  e.firstname as employee_firstname,
+  e.lastname as employee_lastname,
+  p.first_name as modifier_first_name,
+  p.last_name as modifier_last_name,
+  coalesce(totals.total_amount, 0) as total_amount,
+  coalesce(paid.amount_paid, 0) as amount_paid,
+  case
+    when coalesce(paid.amount_paid, 0) > 0
+      and coalesce(paid.amount_paid, 0) >= coalesce(totals.total_amount, 0) then 'Paid'
+    when coalesce(paid.amount_paid, 0) > 0 then 'Partial'
+    else 'Unpaid'
+  end as payment_status,
+  case
+    when s.deleted_at is not null then 'Deleted'
+    when s.deleted_by is not null then 'Restored'
+    when s.modified_at is not null and s.modified_by is not null then 'Edited'
+    else 'Added'
+  end as record_status,
+  terms.due_date,
+  case when pt.discount_days is not null then base.sale_date + pt.discount_days end as discount_date,
+  pt.discount_percent,
+  s.deleted_at is null
+    and coalesce(paid.amount_paid, 0) < coalesce(totals.total_amount, 0)
+    and terms.due_date < current_date as is_overdue
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join public.profiles p on p.id = s.modified_by
+left join public.payment_term pt on pt.code = c.payterm
+cross join lateral (
+  select coalesce(s.salesdate::date, current_date) as sale_date
+) base
+cross join lateral (
+  select base.sale_date + coalesce(pt.net_days, 0) as due_date
+) terms
+left join lateral (
+  select sum(sd.quantity * coalesce(price.unitprice, 0)) as total_amount
+  from public.salesdetail sd
+  left join lateral (
+    select ph.unitprice
+    from public.pricehist ph
+    where ph.prodcode = sd.prodcode
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(s.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true
+  where sd.transno = s.transno
+    and (sd.deleted_at is null or s.deleted_at is not null)
+) totals on true
+left join lateral (
+  select sum(pay.amount) as amount_paid
+  from public.payment pay
+  where pay.transno = s.transno
+    and pay.voided_at is null
+) paid on true;
+
+-- Age open invoices from the due date computed above
+create or replace view public.ar_open_invoices
+with (security_invoker = true)
+as
+select
+  ss.transno,
+  ss.custno,
+  ss.custname,
+  ss.customer_payterm as payterm,
+  ss.salesdate,
+  ss.due_date,
+  ss.total_amount,
+  ss.amount_paid,
+  ss.total_amount - ss.amount_paid as balance,
+  greatest(current_date - ss.due_date, 0) as days_past_due,
+  case
+    when current_date <= ss.due_date then 'current'
+    when current_date - ss.due_date <= 30 then '1-30'
+    when current_date - ss.due_date <= 60 then '31-60'
+    when current_date - ss.due_date <= 90 then '61-90'
+    else '90+'
+  end as aging_bucket
+from public.sales_summary ss
+where ss.deleted_at is null
+  and ss.total_amount - ss.amount_paid > 0;
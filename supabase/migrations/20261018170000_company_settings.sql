@@ -0,0 +1,65 @@
+-- Company details printed at the top of invoices. A single row shared by all users.
+create table if not exists public.app_settings (
+  id boolean primary key default true check (id),
+  company_name text,
+  company_address text,
+  company_phone text,
+  company_email text,
+  company_tax_id text,
+  invoice_footer text,
+  logo_url text,
+  modified_at timestamp with time zone,
+  modified_by uuid
+);
+
+insert into public.app_settings (id, company_name)
+values (true, 'My Company')
+on conflict (id) do nothing;
+
+alter table public.app_settings enable row level security;
+
+create policy "Authenticated users can view app settings"
+  on public.app_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can update app settings"
+  on public.app_settings for update
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+grant select, update on public.app_settings to authenticated;
+
+-- Public bucket for the company logo; only admins may change it
+insert into storage.buckets (id, name, public)
+values ('branding', 'branding', true)
+on conflict (id) do nothing;
+
+create policy "Anyone can view branding files"
+  on storage.objects for select
+  using (bucket_id = 'branding');
+
+create policy "Admins can upload branding files"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'branding'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+create policy "Admins can update branding files"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id = 'branding'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+create policy "Admins can delete branding files"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'branding'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
@@ -0,0 +1,50 @@
+-- Lifetime sales figures per customer, from the priced totals in sales_summary.
+-- Deleted sales are left out.
+create or replace view public.customer_sales_metrics
+with (security_invoker = true)
+as
+select
+  ss.custno,
+  count(*)::integer as order_count,
+  sum(ss.total_amount) as lifetime_value,
+  avg(ss.total_amount) as average_order,
+  sum(ss.amount_paid) as amount_paid,
+  sum(ss.total_amount) - sum(ss.amount_paid) as balance,
+  min(ss.salesdate) as first_purchase,
+  max(ss.salesdate) as last_purchase
+from public.sales_summary ss
+where ss.deleted_at is null
+  and ss.custno is not null
+group by ss.custno;
+
+-- What each customer has bought, per product, priced as of each sale date
+create or replace view public.customer_product_totals
+with (security_invoker = true)
+as
+select
+  s.custno,
+  sd.prodcode,
+  pr.description,
+  pr.unit,
+  sum(sd.quantity)::numeric as total_quantity,
+  sum(sd.quantity * coalesce(price.unitprice, 0)) as total_amount,
+  count(distinct s.transno)::integer as order_count,
+  max(s.salesdate) as last_purchased
+from public.sales s
+join public.salesdetail sd on sd.transno = s.transno and sd.deleted_at is null
+left join public.product pr on pr.prodcode = sd.prodcode
+left join lateral (
+  select ph.unitprice
+  from public.pricehist ph
+  where ph.prodcode = sd.prodcode
+    and ph.deleted_at is null
+    and ph.effdate <= coalesce(s.salesdate::date, current_date)
+  order by ph.effdate desc
+  limit 1
+) price on true
+where s.deleted_at is null
+  and s.custno is not null
+group by s.custno, sd.prodcode, pr.description, pr.unit;
+
+grant select on public.customer_sales_metrics to authenticated;
+grant select on public.customer_product_totals to authenticated;
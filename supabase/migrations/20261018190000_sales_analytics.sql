@@ -0,0 +1,112 @@
+-- Sales figures for the dashboard over a date range, in one round trip.
+-- period groups the trend series by 'day', 'week' or 'month'; every period in the range
+-- is returned, including those without sales, so two ranges can be charted side by side.
+-- Runs as the caller, so row level security on the underlying tables still applies.
+create or replace function public.sales_analytics(from_date date, to_date date, period text default 'day')
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with settings as (
+    select case when period in ('day', 'week', 'month') then period else 'day' end as unit
+  ),
+  period_sales as (
+    select ss.*
+    from public.sales_summary ss
+    where ss.deleted_at is null
+      and ss.salesdate::date between from_date and to_date
+  ),
+  period_lines as (
+    select
+      sd.prodcode,
+      sd.quantity,
+      sd.quantity * coalesce(price.unitprice, 0) as amount
+    from period_sales ps
+    join public.salesdetail sd on sd.transno = ps.transno and sd.deleted_at is null
+    left join lateral (
+      select ph.unitprice
+      from public.pricehist ph
+      where ph.prodcode = sd.prodcode
+        and ph.deleted_at is null
+        and ph.effdate <= ps.salesdate::date
+      order by ph.effdate desc
+      limit 1
+    ) price on true
+  ),
+  buckets as (
+    select generate_series(
+      date_trunc(settings.unit, from_date::timestamp),
+      date_trunc(settings.unit, to_date::timestamp),
+      ('1 ' || settings.unit)::interval
+    )::date as bucket
+    from settings
+  ),
+  series as (
+    select
+      b.bucket,
+      coalesce(sum(ps.total_amount), 0) as revenue,
+      count(ps.transno) as sales_count
+    from buckets b
+    cross join settings
+    left join period_sales ps on date_trunc(settings.unit, ps.salesdate::timestamp)::date = b.bucket
+    group by b.bucket
+  )
+  select jsonb_build_object(
+    'totals', (
+      select jsonb_build_object(
+        'revenue', coalesce(sum(total_amount), 0),
+        'amount_paid', coalesce(sum(amount_paid), 0),
+        'sales_count', count(*)
+      )
+      from period_sales
+    ),
+    'series', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'period', bucket,
+        'revenue', revenue,
+        'sales_count', sales_count
+      ) order by bucket)
+      from series
+    ), '[]'::jsonb),
+    'by_product', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select pl.prodcode, pr.description, sum(pl.quantity) as quantity, sum(pl.amount) as revenue
+        from period_lines pl
+        left join public.product pr on pr.prodcode = pl.prodcode
+        group by pl.prodcode, pr.description
+        order by revenue desc
+        limit 10
+      ) t
+    ), '[]'::jsonb),
+    'by_salesperson', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select
+          ps.empno,
+          nullif(concat_ws(' ', ps.employee_firstname, ps.employee_lastname), '') as name,
+          sum(ps.total_amount) as revenue,
+          count(*) as sales_count
+        from period_sales ps
+        group by ps.empno, ps.employee_firstname, ps.employee_lastname
+        order by revenue desc
+        limit 10
+      ) t
+    ), '[]'::jsonb),
+    'top_customers', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select ps.custno, ps.custname, sum(ps.total_amount) as revenue, count(*) as sales_count
+        from period_sales ps
+        where ps.custno is not null
+        group by ps.custno, ps.custname
+        order by revenue desc
+        limit 5
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.sales_analytics(date, date, text) to authenticated;
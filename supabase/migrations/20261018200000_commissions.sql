@@ -0,0 +1,276 @@
+-- Sales commissions. A plan sets a base rate for a job code or for one employee; an
+-- employee's own plan wins over the plan of their job. Optional tiers replace the base
+-- rate once the employee's paid revenue for the month reaches the tier's threshold.
+create table if not exists public.commission_plan (
+  id uuid primary key default gen_random_uuid(),
+  jobcode text references public.job (jobcode) on delete cascade,
+  empno text references public.employee (empno) on delete cascade,
+  base_rate numeric(5, 2) not null default 0 check (base_rate >= 0 and base_rate <= 100),
+  description text,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid,
+  constraint commission_plan_target_check check ((jobcode is null) <> (empno is null)),
+  constraint commission_plan_jobcode_key unique (jobcode),
+  constraint commission_plan_empno_key unique (empno)
+);
+
+create table if not exists public.commission_tier (
+  id uuid primary key default gen_random_uuid(),
+  plan_id uuid not null references public.commission_plan (id) on delete cascade,
+  min_revenue numeric(12, 2) not null check (min_revenue >= 0),
+  rate numeric(5, 2) not null check (rate >= 0 and rate <= 100),
+  constraint commission_tier_plan_threshold_key unique (plan_id, min_revenue)
+);
+
+-- One row per month. Lines are recalculated freely while the period is open and frozen once approved.
+create table if not exists public.commission_period (
+  id uuid primary key default gen_random_uuid(),
+  period_start date not null unique check (period_start = date_trunc('month', period_start)::date),
+  period_end date not null,
+  status text not null default 'open' check (status in ('open', 'approved')),
+  calculated_at timestamp with time zone,
+  calculated_by uuid,
+  approved_at timestamp with time zone,
+  approved_by uuid
+);
+
+create table if not exists public.commission_line (
+  id uuid primary key default gen_random_uuid(),
+  period_id uuid not null references public.commission_period (id) on delete cascade,
+  empno text not null references public.employee (empno),
+  jobcode text,
+  -- Where the rate came from: 'employee', 'job' or null when no plan applied
+  rate_source text check (rate_source in ('employee', 'job')),
+  sales_count integer not null default 0,
+  paid_revenue numeric(12, 2) not null default 0,
+  rate numeric(5, 2) not null default 0,
+  commission numeric(12, 2) not null default 0,
+  constraint commission_line_period_empno_key unique (period_id, empno)
+);
+
+create index if not exists commission_line_period_idx on public.commission_line (period_id);
+
+-- Approved periods are read-only: their lines cannot change and they cannot be reopened
+create or replace function public.prevent_approved_commission_changes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'commission_period' then
+    if old.status = 'approved' then
+      raise exception 'Commission period % has been approved and is locked.', old.period_start;
+    end if;
+    return coalesce(new, old);
+  end if;
+
+  if exists (
+    select 1 from commission_period p
+    where p.id in (case when tg_op = 'DELETE' then old.period_id else new.period_id end)
+      and p.status = 'approved'
+  ) then
+    raise exception 'This commission period has been approved and is locked.';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger commission_period_locked
+  before update or delete on public.commission_period
+  for each row execute function public.prevent_approved_commission_changes();
+
+create trigger commission_line_locked
+  before insert or update or delete on public.commission_line
+  for each row execute function public.prevent_approved_commission_changes();
+
+alter table public.commission_plan enable row level security;
+alter table public.commission_tier enable row level security;
+alter table public.commission_period enable row level security;
+alter table public.commission_line enable row level security;
+
+create policy "Admins can manage commission plans"
+  on public.commission_plan for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "Admins can manage commission tiers"
+  on public.commission_tier for all
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "Admins can view commission periods"
+  on public.commission_period for select
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "Admins can view commission lines"
+  on public.commission_line for select
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+grant select, insert, update, delete on public.commission_plan to authenticated;
+grant select, insert, update, delete on public.commission_tier to authenticated;
+grant select on public.commission_period to authenticated;
+grant select on public.commission_line to authenticated;
+
+-- When each sale became fully paid: the date of the payment that settled it.
+-- Commission is earned in the month a sale is settled, so each sale is counted exactly once.
+create or replace view public.paid_sales
+with (security_invoker = true)
+as
+select
+  ss.transno,
+  ss.empno,
+  ss.custno,
+  ss.salesdate,
+  ss.total_amount,
+  settled.paid_date
+from public.sales_summary ss
+cross join lateral (
+  select max(pay.paydate)::date as paid_date
+  from public.payment pay
+  where pay.transno = ss.transno
+    and pay.voided_at is null
+) settled
+where ss.deleted_at is null
+  and ss.payment_status = 'Paid'
+  and ss.total_amount > 0;
+
+grant select on public.paid_sales to authenticated;
+
+-- Recalculate the commission lines of the month containing month_start.
+-- Returns {success, message, period_id, total}; an approved month is left untouched.
+create or replace function public.calculate_commissions(month_start date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date := date_trunc('month', month_start)::date;
+  v_end date := (date_trunc('month', month_start) + interval '1 month - 1 day')::date;
+  v_period commission_period%rowtype;
+  v_total numeric;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    return jsonb_build_object('success', false, 'message', 'Only administrators can calculate commissions.');
+  end if;
+
+  insert into commission_period (period_start, period_end)
+  values (v_start, v_end)
+  on conflict (period_start) do nothing;
+
+  select * into v_period from commission_period where period_start = v_start for update;
+
+  if v_period.status = 'approved' then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'This period has been approved and can no longer be recalculated.',
+      'period_id', v_period.id
+    );
+  end if;
+
+  delete from commission_line where period_id = v_period.id;
+
+  insert into commission_line (period_id, empno, jobcode, rate_source, sales_count, paid_revenue, rate, commission)
+  select
+    v_period.id,
+    revenue.empno,
+    job.jobcode,
+    plan.source,
+    revenue.sales_count,
+    revenue.paid_revenue,
+    coalesce(tier.rate, plan.base_rate, 0),
+    round(revenue.paid_revenue * coalesce(tier.rate, plan.base_rate, 0) / 100, 2)
+  from (
+    select ps.empno, count(*)::integer as sales_count, sum(ps.total_amount) as paid_revenue
+    from paid_sales ps
+    where ps.empno is not null
+      and ps.paid_date between v_start and v_end
+    group by ps.empno
+  ) revenue
+  -- The job held at the end of the month
+  left join lateral (
+    select jh.jobcode
+    from jobhistory jh
+    where jh.empno = revenue.empno
+      and jh.effdate <= v_end
+    order by jh.effdate desc
+    limit 1
+  ) job on true
+  left join lateral (
+    select cp.id, cp.base_rate, case when cp.empno is not null then 'employee' else 'job' end as source
+    from commission_plan cp
+    where cp.empno = revenue.empno
+       or (cp.jobcode = job.jobcode and cp.empno is null)
+    order by (cp.empno is not null) desc
+    limit 1
+  ) plan on true
+  left join lateral (
+    select ct.rate
+    from commission_tier ct
+    where ct.plan_id = plan.id
+      and ct.min_revenue <= revenue.paid_revenue
+    order by ct.min_revenue desc
+    limit 1
+  ) tier on true;
+
+  update commission_period
+  set calculated_at = now(), calculated_by = auth.uid()
+  where id = v_period.id;
+
+  select coalesce(sum(commission), 0) into v_total from commission_line where period_id = v_period.id;
+
+  perform public.log_activity('calculate', 'commission_period', v_start::text, jsonb_build_object('total', v_total));
+
+  return jsonb_build_object(
+    'success', true,
+    'message', 'Commissions calculated successfully',
+    'period_id', v_period.id,
+    'total', v_total
+  );
+end;
+$$;
+
+-- Approve a calculated month, locking it against recalculation
+create or replace function public.approve_commission_period(month_start date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date := date_trunc('month', month_start)::date;
+  v_period commission_period%rowtype;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    return jsonb_build_object('success', false, 'message', 'Only administrators can approve commissions.');
+  end if;
+
+  select * into v_period from commission_period where period_start = v_start for update;
+
+  if not found or v_period.calculated_at is null then
+    return jsonb_build_object('success', false, 'message', 'Calculate this period before approving it.');
+  end if;
+
+  if v_period.status = 'approved' then
+    return jsonb_build_object('success', false, 'message', 'This period has already been approved.');
+  end if;
+
+  update commission_period
+  set status = 'approved', approved_at = now(), approved_by = auth.uid()
+  where id = v_period.id;
+
+  perform public.log_activity('approve', 'commission_period', v_start::text, '{}'::jsonb);
+
+  return jsonb_build_object('success', true, 'message', 'Commission period approved', 'period_id', v_period.id);
+end;
+$$;
+
+grant execute on function public.calculate_commissions(date) to authenticated;
+grant execute on function public.approve_commission_period(date) to authenticated;
@@ -0,0 +1,511 @@
+-- Credit memos record goods returned against an existing sale. Each line credits part of a
+-- sold salesdetail line at the price the sale was billed at, and the credit reduces what the
+-- customer owes on that sale. Memos are voided instead of deleted, like payments.
+create table if not exists public.credit_memo (
+  memono text primary key,
+  transno text not null references public.sales (transno),
+  memodate date not null default current_date,
+  reason text,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  voided_at timestamp with time zone,
+  voided_by uuid,
+  void_reason text
+);
+
+create table if not exists public.credit_memo_line (
+  memono text not null references public.credit_memo (memono) on delete cascade,
+  transno text not null,
+  prodcode text not null references public.product (prodcode),
+  quantity numeric not null check (quantity > 0),
+  unitprice numeric(12, 2) not null default 0,
+  primary key (memono, prodcode),
+  foreign key (transno, prodcode) references public.salesdetail (transno, prodcode)
+);
+
+create index if not exists credit_memo_transno_idx on public.credit_memo (transno);
+create index if not exists credit_memo_line_sale_idx on public.credit_memo_line (transno, prodcode);
+
+insert into public.document_sequence (code, name, prefix, padding, next_value)
+values ('credit_memo', 'Credit memos', 'CM', 6, 1)
+on conflict (code) do nothing;
+
+-- Quantity of a sold line already credited by memos that have not been voided
+create or replace function public.credited_quantity(p_transno text, p_prodcode text)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(l.quantity), 0)
+  from credit_memo_line l
+  join credit_memo m on m.memono = l.memono
+  where l.transno = p_transno
+    and l.prodcode = p_prodcode
+    and m.voided_at is null;
+$$;
+
+-- Returned quantity can never exceed the quantity sold, whichever way the lines are written
+create or replace function public.check_credit_memo_quantity()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_sold numeric;
+begin
+  select sd.quantity into v_sold
+  from salesdetail sd
+  where sd.transno = new.transno
+    and sd.prodcode = new.prodcode
+    and sd.deleted_at is null;
+
+  if v_sold is null then
+    raise exception 'Product % is not on sale %.', new.prodcode, new.transno;
+  end if;
+
+  if credited_quantity(new.transno, new.prodcode) > v_sold then
+    raise exception 'Returned quantity of % exceeds the % sold on sale %.', new.prodcode, v_sold, new.transno
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create constraint trigger credit_memo_line_quantity_check
+  after insert or update on public.credit_memo_line
+  for each row execute function public.check_credit_memo_quantity();
+
+-- A sale line cannot be cut below, or removed past, what has already been returned
+create or replace function public.check_salesdetail_credited_quantity()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_credited numeric := credited_quantity(new.transno, new.prodcode);
+begin
+  if v_credited > 0 and (new.deleted_at is not null or new.quantity < v_credited) then
+    raise exception '% of product % have already been returned on a credit memo; the quantity cannot go below that.',
+      v_credited, new.prodcode
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger salesdetail_credited_quantity_check
+  before update on public.salesdetail
+  for each row
+  when (new.quantity is distinct from old.quantity or new.deleted_at is distinct from old.deleted_at)
+  execute function public.check_salesdetail_credited_quantity();
+
+-- A line always credits its memo's own sale, at the price that sale was billed at, whatever
+-- the client sent. Security definer so the price doesn't depend on what the caller may read.
+create or replace function public.set_credit_memo_line_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_salesdate timestamp with time zone;
+begin
+  select m.transno, s.salesdate into new.transno, v_salesdate
+  from credit_memo m
+  left join sales s on s.transno = m.transno
+  where m.memono = new.memono;
+
+  new.unitprice := coalesce((
+    select ph.unitprice
+    from pricehist ph
+    where ph.prodcode = new.prodcode
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(v_salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ), 0);
+
+  return new;
+end;
+$$;
+
+create trigger credit_memo_line_set_price
+  before insert or update on public.credit_memo_line
+  for each row execute function public.set_credit_memo_line_price();
+
+-- A memo stays with its sale, and un-voiding one counts its lines against what was sold again
+create or replace function public.check_credit_memo_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_sold numeric;
+begin
+  if new.transno is distinct from old.transno then
+    raise exception 'A credit memo cannot be moved to another sale.'
+      using errcode = 'check_violation';
+  end if;
+
+  if old.voided_at is not null and new.voided_at is null then
+    for v_line in
+      select l.transno, l.prodcode from credit_memo_line l where l.memono = new.memono
+    loop
+      select sd.quantity into v_sold
+      from salesdetail sd
+      where sd.transno = v_line.transno
+        and sd.prodcode = v_line.prodcode
+        and sd.deleted_at is null;
+
+      if v_sold is null then
+        raise exception 'Product % is no longer on sale %.', v_line.prodcode, v_line.transno
+          using errcode = 'check_violation';
+      end if;
+
+      if credited_quantity(v_line.transno, v_line.prodcode) > v_sold then
+        raise exception 'Returned quantity of % exceeds the % sold on sale %.', v_line.prodcode, v_sold, v_line.transno
+          using errcode = 'check_violation';
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- After the update, so credited_quantity counts the un-voided memo
+create trigger credit_memo_update_check
+  after update on public.credit_memo
+  for each row execute function public.check_credit_memo_update();
+
+alter table public.credit_memo enable row level security;
+alter table public.credit_memo_line enable row level security;
+
+create policy "Authenticated users can view credit memos"
+  on public.credit_memo for select
+  to authenticated
+  using (true);
+
+create policy "Sales users can issue credit memos"
+  on public.credit_memo for insert
+  to authenticated
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and can_add_sales)
+  );
+
+create policy "Sales users can void credit memos"
+  on public.credit_memo for update
+  to authenticated
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and can_delete_sales)
+  );
+
+create policy "Authenticated users can view credit memo lines"
+  on public.credit_memo_line for select
+  to authenticated
+  using (true);
+
+create policy "Sales users can add credit memo lines"
+  on public.credit_memo_line for insert
+  to authenticated
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and can_add_sales)
+  );
+
+grant select, insert, update on public.credit_memo to authenticated;
+grant select, insert on public.credit_memo_line to authenticated;
+
+create or replace function public.document_number_in_use(sequence_code text, number text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case sequence_code
+    when 'sales' then exists (select 1 from sales s where s.transno = number)
+    when 'customer' then exists (select 1 from customer c where c.custno = number)
+    when 'credit_memo' then exists (select 1 from credit_memo m where m.memono = number)
+    else false
+  end;
+$$;
+
+-- Issue a credit memo for returned goods in one transaction. Lines are priced at the price
+-- the sale was billed at. Like save_sale, problems are returned as per-field errors keyed by
+-- form field path (e.g. "lines.1.quantity") and nothing is written unless the memo is valid.
+create or replace function public.create_credit_memo(memo jsonb, lines jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_memono text := nullif(trim(memo->>'memono'), '');
+  v_transno text := nullif(memo->>'transno', '');
+  v_memodate date := coalesce(nullif(memo->>'memodate', '')::date, current_date);
+  v_sale sales%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_prodcode text;
+  v_sold numeric;
+  v_returnable numeric;
+  v_seen text[] := '{}';
+  v_total numeric;
+begin
+  select * into v_sale from sales s where s.transno = v_transno;
+
+  if v_memono is null then
+    v_errors := v_errors || jsonb_build_object('field', 'memono', 'message', 'Credit memo number is required.');
+  elsif exists (select 1 from credit_memo m where m.memono = v_memono) then
+    v_errors := v_errors || jsonb_build_object('field', 'memono', 'message', 'Credit memo number already exists.');
+  end if;
+
+  if v_sale.transno is null or v_sale.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'This sale no longer exists or has been deleted.');
+  elsif v_sale.salesdate is not null and v_memodate < v_sale.salesdate::date then
+    v_errors := v_errors || jsonb_build_object('field', 'memodate', 'message', 'The credit memo cannot be dated before the sale.');
+  end if;
+
+  if jsonb_typeof(lines) is distinct from 'array' or jsonb_array_length(lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'lines', 'message', 'Enter a returned quantity for at least one product.');
+  else
+    for v_line in
+      select l.value, l.ordinality - 1 as idx
+      from jsonb_array_elements(lines) with ordinality as l(value, ordinality)
+    loop
+      v_prodcode := nullif(v_line.value->>'prodcode', '');
+
+      select sd.quantity into v_sold
+      from salesdetail sd
+      where sd.transno = v_transno
+        and sd.prodcode = v_prodcode
+        and sd.deleted_at is null;
+
+      if v_sold is null then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'This product is not on the sale.');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'Product is already on this credit memo.');
+      elsif jsonb_typeof(v_line.value->'quantity') is distinct from 'number'
+        or (v_line.value->>'quantity')::numeric <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'Quantity must be more than 0.');
+      else
+        v_returnable := v_sold - credited_quantity(v_transno, v_prodcode);
+        if (v_line.value->>'quantity')::numeric > v_returnable then
+          v_errors := v_errors || jsonb_build_object(
+            'field', format('lines.%s.quantity', v_line.idx),
+            'message', format('Only %s can still be returned.', v_returnable)
+          );
+        end if;
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'memono', v_memono, 'errors', v_errors);
+  end if;
+
+  insert into credit_memo (memono, transno, memodate, reason, created_at, created_by)
+  values (v_memono, v_transno, v_memodate, nullif(trim(memo->>'reason'), ''), now(), auth.uid());
+
+  insert into credit_memo_line (memono, transno, prodcode, quantity, unitprice)
+  select v_memono, v_transno, l->>'prodcode', (l->>'quantity')::numeric, coalesce(price.unitprice, 0)
+  from jsonb_array_elements(lines) as l
+  left join lateral (
+    select ph.unitprice
+    from pricehist ph
+    where ph.prodcode = l->>'prodcode'
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(v_sale.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true;
+
+  select sum(quantity * unitprice) into v_total from credit_memo_line where memono = v_memono;
+
+  perform public.log_activity(
+    'insert',
+    'credit_memo',
+    v_memono,
+    jsonb_build_object('memo', memo, 'lines', lines, 'total', v_total)
+  );
+
+  return jsonb_build_object('success', true, 'memono', v_memono, 'errors', '[]'::jsonb);
+exception
+  -- Another user took the memo number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'memono', v_memono,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'memono', 'message', 'Credit memo number already exists.'))
+    );
+end;
+$$;
+
+grant execute on function public.credited_quantity(text, text) to authenticated;
+grant execute on function public.create_credit_memo(jsonb, jsonb) to authenticated;
+
+-- Credit memos reduce what is owed on a sale. A sale whose credits cover it without any
+-- payment is 'Credited'; the credited amount is added as the last column.
+create or replace view public.sales_summary
+with (security_invoker = true)
+as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  s.created_at,
+  s.created_by,
+  s.modified_at,
+  s.modified_by,
+  s.deleted_at,
+  s.deleted_by,
+  c.custname,
+  c.address as customer_address,
+  c.payterm as customer_payterm,
+  e.firstname as employee_firstname,
+  e.lastname as employee_lastname,
+  p.first_name as modifier_first_name,
+  p.last_name as modifier_last_name,
+  coalesce(totals.total_amount, 0) as total_amount,
+  coalesce(paid.amount_paid, 0) as amount_paid,
+  case
+    when coalesce(paid.amount_paid, 0) > 0
+      and coalesce(paid.amount_paid, 0) + coalesce(credited.credited_amount, 0) >= coalesce(totals.total_amount, 0) then 'Paid'
+    when coalesce(credited.credited_amount, 0) > 0
+      and coalesce(credited.credited_amount, 0) >= coalesce(totals.total_amount, 0) then 'Credited'
+    when coalesce(paid.amount_paid, 0) > 0 or coalesce(credited.credited_amount, 0) > 0 then 'Partial'
+    else 'Unpaid'
+  end as payment_status,
+  case
+    when s.deleted_at is not null then 'Deleted'
+    when s.deleted_by is not null then 'Restored'
+    when s.modified_at is not null and s.modified_by is not null then 'Edited'
+    else 'Added'
+  end as record_status,
+  terms.due_date,
+  case when pt.discount_days is not null then base.sale_date + pt.discount_days end as discount_date,
+  pt.discount_percent,
+  s.deleted_at is null
+    and coalesce(paid.amount_paid, 0) + coalesce(credited.credited_amount, 0) < coalesce(totals.total_amount, 0)
+    and terms.due_date < current_date as is_overdue,
+  coalesce(credited.credited_amount, 0) as credited_amount
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join public.profiles p on p.id = s.modified_by
+left join public.payment_term pt on pt.code = c.payterm
+cross join lateral (
+  select coalesce(s.salesdate::date, current_date) as sale_date
+) base
+cross join lateral (
+  select base.sale_date + coalesce(pt.net_days, 0) as due_date
+) terms
+left join lateral (
+  select sum(sd.quantity * coalesce(price.unitprice, 0)) as total_amount
+  from public.salesdetail sd
+  left join lateral (
+    select ph.unitprice
+    from public.pricehist ph
+    where ph.prodcode = sd.prodcode
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(s.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true
+  where sd.transno = s.transno
+    and (sd.deleted_at is null or s.deleted_at is not null)
+) totals on true
+left join lateral (
+  select sum(pay.amount) as amount_paid
+  from public.payment pay
+  where pay.transno = s.transno
+    and pay.voided_at is null
+) paid on true
+left join lateral (
+  select sum(l.quantity * l.unitprice) as credited_amount
+  from public.credit_memo m
+  join public.credit_memo_line l on l.memono = m.memono
+  where m.transno = s.transno
+    and m.voided_at is null
+) credited on true;
+
+-- Credits count against the balance. A sale credited after it was paid in full carries a
+-- negative balance (owed back to the customer), which nets against the customer's total.
+create or replace view public.ar_open_invoices
+with (security_invoker = true)
+as
+select
+  ss.transno,
+  ss.custno,
+  ss.custname,
+  ss.customer_payterm as payterm,
+  ss.salesdate,
+  ss.due_date,
+  ss.total_amount,
+  ss.amount_paid,
+  ss.total_amount - ss.amount_paid - ss.credited_amount as balance,
+  case
+    when ss.total_amount - ss.amount_paid - ss.credited_amount < 0 then 0
+    else greatest(current_date - ss.due_date, 0)
+  end as days_past_due,
+  case
+    when ss.total_amount - ss.amount_paid - ss.credited_amount < 0 then 'current'
+    when current_date <= ss.due_date then 'current'
+    when current_date - ss.due_date <= 30 then '1-30'
+    when current_date - ss.due_date <= 60 then '31-60'
+    when current_date - ss.due_date <= 90 then '61-90'
+    else '90+'
+  end as aging_bucket,
+  ss.credited_amount
+from public.sales_summary ss
+where ss.deleted_at is null
+  and ss.total_amount - ss.amount_paid - ss.credited_amount <> 0;
+
+create or replace view public.customer_sales_metrics
+with (security_invoker = true)
+as
+select
+  ss.custno,
+  count(*)::integer as order_count,
+  sum(ss.total_amount) as lifetime_value,
+  avg(ss.total_amount) as average_order,
+  sum(ss.amount_paid) as amount_paid,
+  sum(ss.total_amount) - sum(ss.amount_paid) - sum(ss.credited_amount) as balance,
+  min(ss.salesdate) as first_purchase,
+  max(ss.salesdate) as last_purchase
+from public.sales_summary ss
+where ss.deleted_at is null
+  and ss.custno is not null
+group by ss.custno;
+
+-- Commission is paid on what the customer kept, so returns come off the sale amount
+create or replace view public.paid_sales
+with (security_invoker = true)
+as
+select
+  ss.transno,
+  ss.empno,
+  ss.custno,
+  ss.salesdate,
+  ss.total_amount - ss.credited_amount as total_amount,
+  settled.paid_date
+from public.sales_summary ss
+cross join lateral (
+  select max(pay.paydate)::date as paid_date
+  from public.payment pay
+  where pay.transno = ss.transno
+    and pay.voided_at is null
+) settled
+where ss.deleted_at is null
+  and ss.payment_status = 'Paid'
+  and ss.total_amount - ss.credited_amount > 0;
@@ -0,0 +1,796 @@
+-- Quotations price a deal before it is booked. A quote has the same header and lines as a
+-- sale plus a validity date and a status, and keeps the unit prices in effect on its quote
+-- date. Converting an accepted quote creates the sale with those prices agreed on its lines.
+create table if not exists public.quote (
+  quoteno text primary key,
+  quotedate date not null default current_date,
+  valid_until date not null,
+  custno text references public.customer (custno),
+  empno text references public.employee (empno),
+  status text not null default 'draft' check (status in ('draft', 'sent', 'accepted', 'expired', 'rejected')),
+  transno text references public.sales (transno),
+  converted_at timestamp with time zone,
+  converted_by uuid,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid,
+  constraint quote_valid_until_check check (valid_until >= quotedate)
+);
+
+create table if not exists public.quote_line (
+  quoteno text not null references public.quote (quoteno) on delete cascade,
+  prodcode text not null references public.product (prodcode),
+  quantity numeric not null check (quantity > 0),
+  unitprice numeric(12, 2) not null default 0,
+  primary key (quoteno, prodcode)
+);
+
+create index if not exists quote_custno_idx on public.quote (custno);
+
+-- The price agreed on the quote a sale line came from. Null means the line is priced as
+-- usual, by the price in effect on the sale date.
+alter table public.salesdetail
+  add column if not exists quoted_price numeric(12, 2);
+
+insert into public.document_sequence (code, name, prefix, padding, next_value)
+values ('quote', 'Quotations', 'QT', 6, 1)
+on conflict (code) do nothing;
+
+create or replace function public.document_number_in_use(sequence_code text, number text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case sequence_code
+    when 'sales' then exists (select 1 from sales s where s.transno = number)
+    when 'customer' then exists (select 1 from customer c where c.custno = number)
+    when 'credit_memo' then exists (select 1 from credit_memo m where m.memono = number)
+    when 'quote' then exists (select 1 from quote q where q.quoteno = number)
+    else false
+  end;
+$$;
+
+-- A converted quote is a record of what was agreed and can no longer change
+create or replace function public.prevent_converted_quote_changes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_quoteno text := case when tg_op = 'DELETE' then old.quoteno else new.quoteno end;
+begin
+  if tg_table_name = 'quote' then
+    if old.transno is not null then
+      raise exception 'Quote % has been converted to sale % and is locked.', old.quoteno, old.transno;
+    end if;
+    return coalesce(new, old);
+  end if;
+
+  if exists (select 1 from quote q where q.quoteno = v_quoteno and q.transno is not null) then
+    raise exception 'Quote % has been converted to a sale and is locked.', v_quoteno;
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger quote_converted_lock
+  before update or delete on public.quote
+  for each row execute function public.prevent_converted_quote_changes();
+
+create trigger quote_line_converted_lock
+  before insert or update or delete on public.quote_line
+  for each row execute function public.prevent_converted_quote_changes();
+
+-- A quoted price is the product's price on the quote date and is never taken from the client
+create or replace function public.set_quote_line_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.prodcode = old.prodcode then
+    if new.unitprice is distinct from old.unitprice then
+      raise exception 'The price of a quote line is set from the price list and cannot be changed.'
+        using errcode = 'check_violation';
+    end if;
+    return new;
+  end if;
+
+  new.unitprice := coalesce((
+    select ph.unitprice
+    from quote q
+    join pricehist ph on ph.prodcode = new.prodcode
+    where q.quoteno = new.quoteno
+      and ph.deleted_at is null
+      and ph.effdate <= q.quotedate
+    order by ph.effdate desc
+    limit 1
+  ), 0);
+
+  return new;
+end;
+$$;
+
+create trigger quote_line_set_price
+  before insert or update on public.quote_line
+  for each row execute function public.set_quote_line_price();
+
+alter table public.quote enable row level security;
+alter table public.quote_line enable row level security;
+
+create policy "Authenticated users can view quotes"
+  on public.quote for select
+  to authenticated
+  using (true);
+
+create policy "Sales users can manage quotes"
+  on public.quote for all
+  to authenticated
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and (can_add_sales or can_edit_sales))
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and (can_add_sales or can_edit_sales))
+  );
+
+create policy "Authenticated users can view quote lines"
+  on public.quote_line for select
+  to authenticated
+  using (true);
+
+create policy "Sales users can manage quote lines"
+  on public.quote_line for all
+  to authenticated
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and (can_add_sales or can_edit_sales))
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or exists (select 1 from public.user_permissions where user_id = auth.uid() and (can_add_sales or can_edit_sales))
+  );
+
+grant select, insert, update, delete on public.quote to authenticated;
+grant select, insert, update, delete on public.quote_line to authenticated;
+
+-- Quotes with their totals. A draft or sent quote past its validity date reads as expired.
+create or replace view public.quote_summary
+with (security_invoker = true)
+as
+select
+  q.quoteno,
+  q.quotedate,
+  q.valid_until,
+  q.custno,
+  q.empno,
+  c.custname,
+  e.firstname as employee_firstname,
+  e.lastname as employee_lastname,
+  case
+    when q.status in ('draft', 'sent') and q.valid_until < current_date then 'expired'
+    else q.status
+  end as status,
+  q.transno,
+  q.converted_at,
+  q.created_at,
+  q.modified_at,
+  coalesce(totals.total_amount, 0) as total_amount,
+  coalesce(totals.line_count, 0) as line_count
+from public.quote q
+left join public.customer c on c.custno = q.custno
+left join public.employee e on e.empno = q.empno
+left join lateral (
+  select sum(ql.quantity * ql.unitprice) as total_amount, count(*)::integer as line_count
+  from public.quote_line ql
+  where ql.quoteno = q.quoteno
+) totals on true;
+
+grant select on public.quote_summary to authenticated;
+
+-- Saves a quote header and its lines in one transaction, in the manner of save_sale.
+-- Each line is priced at the price in effect on the quote date and that price is stored,
+-- so later price changes do not alter the quote. Only draft and sent quotes can be saved.
+create or replace function public.save_quote(quote jsonb, lines jsonb, is_new boolean)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_quoteno text := nullif(trim(quote->>'quoteno'), '');
+  v_quotedate date := coalesce(nullif(quote->>'quotedate', '')::date, current_date);
+  v_valid_until date := nullif(quote->>'valid_until', '')::date;
+  v_custno text := nullif(quote->>'custno', '');
+  v_empno text := nullif(quote->>'empno', '');
+  v_current quote%rowtype;
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_prodcode text;
+  v_seen text[] := '{}';
+begin
+  select * into v_current from quote q where q.quoteno = v_quoteno;
+
+  if v_quoteno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Quote number is required.');
+  elsif is_new and v_current.quoteno is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Quote number already exists.');
+  elsif not is_new and v_current.quoteno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'This quote no longer exists.');
+  elsif not is_new and v_current.status not in ('draft', 'sent') then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', format('A quote that is %s can no longer be changed.', v_current.status));
+  end if;
+
+  if v_valid_until is null then
+    v_errors := v_errors || jsonb_build_object('field', 'valid_until', 'message', 'Valid until date is required.');
+  elsif v_valid_until < v_quotedate then
+    v_errors := v_errors || jsonb_build_object('field', 'valid_until', 'message', 'The quote must be valid until at least its quote date.');
+  end if;
+
+  if v_custno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Select the customer the quote is for.');
+  elsif not exists (select 1 from customer c where c.custno = v_custno and c.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer does not exist or has been deleted.');
+  end if;
+
+  if v_empno is not null
+    and not exists (
+      select 1 from employee e
+      where e.empno = v_empno and (e.sepdate is null or e.empno = v_current.empno)
+    ) then
+    v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Salesperson does not exist or has separated.');
+  end if;
+
+  if jsonb_typeof(lines) is distinct from 'array' or jsonb_array_length(lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'items', 'message', 'Add at least one product to the quote.');
+  else
+    for v_line in
+      select l.value, l.ordinality - 1 as idx
+      from jsonb_array_elements(lines) with ordinality as l(value, ordinality)
+    loop
+      v_prodcode := nullif(v_line.value->>'prodcode', '');
+
+      if v_prodcode is null then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Select a product.');
+      elsif not exists (select 1 from product p where p.prodcode = v_prodcode and p.deleted_at is null) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product does not exist or has been deleted.');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product is already on this quote.');
+      else
+        v_seen := v_seen || v_prodcode;
+      end if;
+
+      if jsonb_typeof(v_line.value->'quantity') is distinct from 'number'
+        or (v_line.value->>'quantity')::numeric < 1 then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.quantity', v_line.idx), 'message', 'Quantity must be at least 1.');
+      end if;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'quoteno', v_quoteno, 'errors', v_errors);
+  end if;
+
+  if is_new then
+    insert into quote (quoteno, quotedate, valid_until, custno, empno, created_at, created_by)
+    values (v_quoteno, v_quotedate, v_valid_until, v_custno, v_empno, v_now, v_user);
+  else
+    update quote
+    set quotedate = v_quotedate,
+        valid_until = v_valid_until,
+        custno = v_custno,
+        empno = v_empno,
+        modified_at = v_now,
+        modified_by = v_user
+    where quoteno = v_quoteno;
+
+    delete from quote_line where quoteno = v_quoteno;
+  end if;
+
+  insert into quote_line (quoteno, prodcode, quantity, unitprice)
+  select v_quoteno, l->>'prodcode', (l->>'quantity')::numeric, coalesce(price.unitprice, 0)
+  from jsonb_array_elements(lines) as l
+  left join lateral (
+    select ph.unitprice
+    from pricehist ph
+    where ph.prodcode = l->>'prodcode'
+      and ph.deleted_at is null
+      and ph.effdate <= v_quotedate
+    order by ph.effdate desc
+    limit 1
+  ) price on true;
+
+  perform public.log_activity(
+    case when is_new then 'insert' else 'update' end,
+    'quote',
+    v_quoteno,
+    jsonb_build_object('quote', quote, 'lines', lines)
+  );
+
+  return jsonb_build_object('success', true, 'quoteno', v_quoteno, 'errors', '[]'::jsonb);
+exception
+  -- Another user took the quote number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'quoteno', v_quoteno,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'transno', 'message', 'Quote number already exists.'))
+    );
+end;
+$$;
+
+-- Book a quote as a sale dated today, with a fresh transaction number and the quoted
+-- prices agreed on its lines. The quote is marked accepted and linked to the sale.
+create or replace function public.convert_quote_to_sale(quoteno text)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_quote quote%rowtype;
+  v_transno text;
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+begin
+  select * into v_quote from quote q where q.quoteno = convert_quote_to_sale.quoteno for update;
+
+  if v_quote.quoteno is null then
+    return jsonb_build_object('success', false, 'message', 'This quote no longer exists.');
+  end if;
+
+  if v_quote.transno is not null then
+    return jsonb_build_object('success', false, 'message', format('This quote was already converted to sale %s.', v_quote.transno), 'transno', v_quote.transno);
+  end if;
+
+  if v_quote.status in ('rejected', 'expired') then
+    return jsonb_build_object('success', false, 'message', format('A quote that is %s cannot be converted.', v_quote.status));
+  end if;
+
+  if v_quote.valid_until < current_date then
+    return jsonb_build_object('success', false, 'message', format('This quote expired on %s.', to_char(v_quote.valid_until, 'YYYY-MM-DD')));
+  end if;
+
+  if not exists (select 1 from customer c where c.custno = v_quote.custno and c.deleted_at is null) then
+    return jsonb_build_object('success', false, 'message', 'The customer on this quote no longer exists.');
+  end if;
+
+  if v_quote.empno is not null
+    and not exists (select 1 from employee e where e.empno = v_quote.empno and e.sepdate is null) then
+    return jsonb_build_object('success', false, 'message', 'The salesperson on this quote has separated. Edit the quote before converting it.');
+  end if;
+
+  if exists (
+    select 1 from quote_line ql
+    join product p on p.prodcode = ql.prodcode
+    where ql.quoteno = v_quote.quoteno and p.deleted_at is not null
+  ) then
+    return jsonb_build_object('success', false, 'message', 'A product on this quote has been deleted. Edit the quote before converting it.');
+  end if;
+
+  v_transno := public.next_document_number('sales');
+
+  insert into sales (transno, salesdate, custno, empno, created_at, created_by)
+  values (v_transno, v_now, v_quote.custno, v_quote.empno, v_now, v_user);
+
+  insert into salesdetail (transno, prodcode, quantity, quoted_price)
+  select v_transno, ql.prodcode, ql.quantity, ql.unitprice
+  from quote_line ql
+  where ql.quoteno = v_quote.quoteno;
+
+  update quote
+  set status = 'accepted',
+      transno = v_transno,
+      converted_at = v_now,
+      converted_by = v_user
+  where quote.quoteno = v_quote.quoteno;
+
+  perform public.log_activity(
+    'insert',
+    'sales',
+    v_transno,
+    jsonb_build_object('quoteno', v_quote.quoteno)
+  );
+
+  perform public.log_activity(
+    'convert',
+    'quote',
+    v_quote.quoteno,
+    jsonb_build_object('transno', v_transno)
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', format('Quote %s has been converted to sale %s.', v_quote.quoteno, v_transno),
+    'transno', v_transno
+  );
+end;
+$$;
+
+grant execute on function public.save_quote(jsonb, jsonb, boolean) to authenticated;
+grant execute on function public.convert_quote_to_sale(text) to authenticated;
+
+-- Sale lines converted from a quote are billed at the quoted price instead of the price in
+-- effect on the sale date. Everything that prices sale lines is recreated to honour it.
+create or replace view public.sales_summary
+with (security_invoker = true)
+as
+select
+  s.transno,
+  s.salesdate,
+  s.custno,
+  s.empno,
+  s.created_at,
+  s.created_by,
+  s.modified_at,
+  s.modified_by,
+  s.deleted_at,
+  s.deleted_by,
+  c.custname,
+  c.address as customer_address,
+  c.payterm as customer_payterm,
+  e.firstname as employee_firstname,
+  e.lastname as employee_lastname,
+  p.first_name as modifier_first_name,
+  p.last_name as modifier_last_name,
+  coalesce(totals.total_amount, 0) as total_amount,
+  coalesce(paid.amount_paid, 0) as amount_paid,
+  case
+    when coalesce(paid.amount_paid, 0) > 0
+      and coalesce(paid.amount_paid, 0) + coalesce(credited.credited_amount, 0) >= coalesce(totals.total_amount, 0) then 'Paid'
+    when coalesce(credited.credited_amount, 0) > 0
+      and coalesce(credited.credited_amount, 0) >= coalesce(totals.total_amount, 0) then 'Credited'
+    when coalesce(paid.amount_paid, 0) > 0 or coalesce(credited.credited_amount, 0) > 0 then 'Partial'
+    else 'Unpaid'
+  end as payment_status,
+  case
+    when s.deleted_at is not null then 'Deleted'
+    when s.deleted_by is not null then 'Restored'
+    when s.modified_at is not null and s.modified_by is not null then 'Edited'
+    else 'Added'
+  end as record_status,
+  terms.due_date,
+  case when pt.discount_days is not null then base.sale_date + pt.discount_days end as discount_date,
+  pt.discount_percent,
+  s.deleted_at is null
+    and coalesce(paid.amount_paid, 0) + coalesce(credited.credited_amount, 0) < coalesce(totals.total_amount, 0)
+    and terms.due_date < current_date as is_overdue,
+  coalesce(credited.credited_amount, 0) as credited_amount
+from public.sales s
+left join public.customer c on c.custno = s.custno
+left join public.employee e on e.empno = s.empno
+left join public.profiles p on p.id = s.modified_by
+left join public.payment_term pt on pt.code = c.payterm
+cross join lateral (
+  select coalesce(s.salesdate::date, current_date) as sale_date
+) base
+cross join lateral (
+  select base.sale_date + coalesce(pt.net_days, 0) as due_date
+) terms
+left join lateral (
+  select sum(sd.quantity * coalesce(sd.quoted_price, price.unitprice, 0)) as total_amount
+  from public.salesdetail sd
+  left join lateral (
+    select ph.unitprice
+    from public.pricehist ph
+    where ph.prodcode = sd.prodcode
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(s.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true
+  where sd.transno = s.transno
+    and (sd.deleted_at is null or s.deleted_at is not null)
+) totals on true
+left join lateral (
+  select sum(pay.amount) as amount_paid
+  from public.payment pay
+  where pay.transno = s.transno
+    and pay.voided_at is null
+) paid on true
+left join lateral (
+  select sum(l.quantity * l.unitprice) as credited_amount
+  from public.credit_memo m
+  join public.credit_memo_line l on l.memono = m.memono
+  where m.transno = s.transno
+    and m.voided_at is null
+) credited on true;
+
+create or replace view public.customer_product_totals
+with (security_invoker = true)
+as
+select
+  s.custno,
+  sd.prodcode,
+  pr.description,
+  pr.unit,
+  sum(sd.quantity)::numeric as total_quantity,
+  sum(sd.quantity * coalesce(sd.quoted_price, price.unitprice, 0)) as total_amount,
+  count(distinct s.transno)::integer as order_count,
+  max(s.salesdate) as last_purchased
+from public.sales s
+join public.salesdetail sd on sd.transno = s.transno and sd.deleted_at is null
+left join public.product pr on pr.prodcode = sd.prodcode
+left join lateral (
+  select ph.unitprice
+  from public.pricehist ph
+  where ph.prodcode = sd.prodcode
+    and ph.deleted_at is null
+    and ph.effdate <= coalesce(s.salesdate::date, current_date)
+  order by ph.effdate desc
+  limit 1
+) price on true
+where s.deleted_at is null
+  and s.custno is not null
+group by s.custno, sd.prodcode, pr.description, pr.unit;
+
+create or replace function public.sales_analytics(from_date date, to_date date, period text default 'day')
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with settings as (
+    select case when period in ('day', 'week', 'month') then period else 'day' end as unit
+  ),
+  period_sales as (
+    select ss.*
+    from public.sales_summary ss
+    where ss.deleted_at is null
+      and ss.salesdate::date between from_date and to_date
+  ),
+  period_lines as (
+    select
+      sd.prodcode,
+      sd.quantity,
+      sd.quantity * coalesce(sd.quoted_price, price.unitprice, 0) as amount
+    from period_sales ps
+    join public.salesdetail sd on sd.transno = ps.transno and sd.deleted_at is null
+    left join lateral (
+      select ph.unitprice
+      from public.pricehist ph
+      where ph.prodcode = sd.prodcode
+        and ph.deleted_at is null
+        and ph.effdate <= ps.salesdate::date
+      order by ph.effdate desc
+      limit 1
+    ) price on true
+  ),
+  buckets as (
+    select generate_series(
+      date_trunc(settings.unit, from_date::timestamp),
+      date_trunc(settings.unit, to_date::timestamp),
+      ('1 ' || settings.unit)::interval
+    )::date as bucket
+    from settings
+  ),
+  series as (
+    select
+      b.bucket,
+      coalesce(sum(ps.total_amount), 0) as revenue,
+      count(ps.transno) as sales_count
+    from buckets b
+    cross join settings
+    left join period_sales ps on date_trunc(settings.unit, ps.salesdate::timestamp)::date = b.bucket
+    group by b.bucket
+  )
+  select jsonb_build_object(
+    'totals', (
+      select jsonb_build_object(
+        'revenue', coalesce(sum(total_amount), 0),
+        'amount_paid', coalesce(sum(amount_paid), 0),
+        'sales_count', count(*)
+      )
+      from period_sales
+    ),
+    'series', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'period', bucket,
+        'revenue', revenue,
+        'sales_count', sales_count
+      ) order by bucket)
+      from series
+    ), '[]'::jsonb),
+    'by_product', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select pl.prodcode, pr.description, sum(pl.quantity) as quantity, sum(pl.amount) as revenue
+        from period_lines pl
+        left join public.product pr on pr.prodcode = pl.prodcode
+        group by pl.prodcode, pr.description
+        order by revenue desc
+        limit 10
+      ) t
+    ), '[]'::jsonb),
+    'by_salesperson', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select
+          ps.empno,
+          nullif(concat_ws(' ', ps.employee_firstname, ps.employee_lastname), '') as name,
+          sum(ps.total_amount) as revenue,
+          count(*) as sales_count
+        from period_sales ps
+        group by ps.empno, ps.employee_firstname, ps.employee_lastname
+        order by revenue desc
+        limit 10
+      ) t
+    ), '[]'::jsonb),
+    'top_customers', coalesce((
+      select jsonb_agg(row_to_json(t) order by t.revenue desc)
+      from (
+        select ps.custno, ps.custname, sum(ps.total_amount) as revenue, count(*) as sales_count
+        from period_sales ps
+        where ps.custno is not null
+        group by ps.custno, ps.custname
+        order by revenue desc
+        limit 5
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Issue a credit memo for returned goods in one transaction. Lines are priced at the price
+-- the sale was billed at, which is the quoted price for lines that came from a quote. Like save_sale, problems are returned as per-field errors keyed by
+-- form field path (e.g. "lines.1.quantity") and nothing is written unless the memo is valid.
+create or replace function public.create_credit_memo(memo jsonb, lines jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_memono text := nullif(trim(memo->>'memono'), '');
+  v_transno text := nullif(memo->>'transno', '');
+  v_memodate date := coalesce(nullif(memo->>'memodate', '')::date, current_date);
+  v_sale sales%rowtype;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_prodcode text;
+  v_sold numeric;
+  v_returnable numeric;
+  v_seen text[] := '{}';
+  v_total numeric;
+begin
+  select * into v_sale from sales s where s.transno = v_transno;
+
+  if v_memono is null then
+    v_errors := v_errors || jsonb_build_object('field', 'memono', 'message', 'Credit memo number is required.');
+  elsif exists (select 1 from credit_memo m where m.memono = v_memono) then
+    v_errors := v_errors || jsonb_build_object('field', 'memono', 'message', 'Credit memo number already exists.');
+  end if;
+
+  if v_sale.transno is null or v_sale.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'This sale no longer exists or has been deleted.');
+  elsif v_sale.salesdate is not null and v_memodate < v_sale.salesdate::date then
+    v_errors := v_errors || jsonb_build_object('field', 'memodate', 'message', 'The credit memo cannot be dated before the sale.');
+  end if;
+
+  if jsonb_typeof(lines) is distinct from 'array' or jsonb_array_length(lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'lines', 'message', 'Enter a returned quantity for at least one product.');
+  else
+    for v_line in
+      select l.value, l.ordinality - 1 as idx
+      from jsonb_array_elements(lines) with ordinality as l(value, ordinality)
+    loop
+      v_prodcode := nullif(v_line.value->>'prodcode', '');
+
+      select sd.quantity into v_sold
+      from salesdetail sd
+      where sd.transno = v_transno
+        and sd.prodcode = v_prodcode
+        and sd.deleted_at is null;
+
+      if v_sold is null then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'This product is not on the sale.');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'Product is already on this credit memo.');
+      elsif jsonb_typeof(v_line.value->'quantity') is distinct from 'number'
+        or (v_line.value->>'quantity')::numeric <= 0 then
+        v_errors := v_errors || jsonb_build_object('field', format('lines.%s.quantity', v_line.idx), 'message', 'Quantity must be more than 0.');
+      else
+        v_returnable := v_sold - credited_quantity(v_transno, v_prodcode);
+        if (v_line.value->>'quantity')::numeric > v_returnable then
+          v_errors := v_errors || jsonb_build_object(
+            'field', format('lines.%s.quantity', v_line.idx),
+            'message', format('Only %s can still be returned.', v_returnable)
+          );
+        end if;
+      end if;
+
+      v_seen := v_seen || v_prodcode;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'memono', v_memono, 'errors', v_errors);
+  end if;
+
+  insert into credit_memo (memono, transno, memodate, reason, created_at, created_by)
+  values (v_memono, v_transno, v_memodate, nullif(trim(memo->>'reason'), ''), now(), auth.uid());
+
+  insert into credit_memo_line (memono, transno, prodcode, quantity, unitprice)
+  select v_memono, v_transno, l->>'prodcode', (l->>'quantity')::numeric, coalesce(sd.quoted_price, price.unitprice, 0)
+  from jsonb_array_elements(lines) as l
+  left join salesdetail sd
+    on sd.transno = v_transno
+    and sd.prodcode = l->>'prodcode'
+    and sd.deleted_at is null
+  left join lateral (
+    select ph.unitprice
+    from pricehist ph
+    where ph.prodcode = l->>'prodcode'
+      and ph.deleted_at is null
+      and ph.effdate <= coalesce(v_sale.salesdate::date, current_date)
+    order by ph.effdate desc
+    limit 1
+  ) price on true;
+
+  select sum(quantity * unitprice) into v_total from credit_memo_line where memono = v_memono;
+
+  perform public.log_activity(
+    'insert',
+    'credit_memo',
+    v_memono,
+    jsonb_build_object('memo', memo, 'lines', lines, 'total', v_total)
+  );
+
+  return jsonb_build_object('success', true, 'memono', v_memono, 'errors', '[]'::jsonb);
+exception
+  -- Another user took the memo number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'memono', v_memono,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'memono', 'message', 'Credit memo number already exists.'))
+    );
+end;
+$$;
+
+-- Credit memo lines are priced the same way whichever way they are written
+create or replace function public.set_credit_memo_line_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_salesdate timestamp with time zone;
+begin
+  select m.transno, s.salesdate into new.transno, v_salesdate
+  from credit_memo m
+  left join sales s on s.transno = m.transno
+  where m.memono = new.memono;
+
+  new.unitprice := coalesce(
+    (
+      select sd.quoted_price
+      from salesdetail sd
+      where sd.transno = new.transno
+        and sd.prodcode = new.prodcode
+        and sd.deleted_at is null
+    ),
+    (
+      select ph.unitprice
+      from pricehist ph
+      where ph.prodcode = new.prodcode
+        and ph.deleted_at is null
+        and ph.effdate <= coalesce(v_salesdate::date, current_date)
+      order by ph.effdate desc
+      limit 1
+    ),
+    0
+  );
+
+  return new;
+end;
+$$;
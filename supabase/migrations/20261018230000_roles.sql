@@ -0,0 +1,688 @@
+-- Named roles made of permission keys replace the admin/customer split and the six
+-- user_permissions booleans. A permission is a (resource, action) pair such as
+-- ('payments', 'void'); a user holds every permission of every role assigned to them.
+create table if not exists public.role (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  -- System roles ship with the portal; their permissions cannot be edited
+  is_system boolean not null default false,
+  -- Default roles are given to every new user
+  is_default boolean not null default false,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid
+);
+
+create table if not exists public.role_permission (
+  role_id uuid not null references public.role (id) on delete cascade,
+  resource text not null,
+  action text not null,
+  primary key (role_id, resource, action)
+);
+
+create table if not exists public.user_role (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role_id uuid not null references public.role (id) on delete cascade,
+  assigned_at timestamp with time zone default now(),
+  assigned_by uuid,
+  primary key (user_id, role_id)
+);
+
+create index if not exists user_role_role_id_idx on public.user_role (role_id);
+
+-- Whether the signed-in user holds the permission through any of their roles
+create or replace function public.has_permission(resource text, action text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_role ur
+    join role_permission rp on rp.role_id = ur.role_id
+    where ur.user_id = auth.uid()
+      and rp.resource = has_permission.resource
+      and rp.action = has_permission.action
+  );
+$$;
+
+grant execute on function public.has_permission(text, text) to authenticated;
+
+insert into public.role (name, description, is_system, is_default) values
+  ('Administrator', 'Full access, including users, roles and settings.', true, false),
+  ('Viewer', 'Read-only access to customers, sales, quotes, payments, products and reports.', false, true),
+  ('Sales Clerk', 'Records customers, quotes and sales with their items.', false, false),
+  ('Cashier', 'Records and corrects payments against sales.', false, false),
+  ('Manager', 'Runs day-to-day sales: deletes and restores records, voids payments and credits, maintains products and prices.', false, false),
+  ('Auditor', 'Reads everything, including commissions and the activity log, without changing anything.', false, false)
+on conflict (name) do nothing;
+
+-- Every permission key known to the portal; keep in step with src/components/roles/permissions.ts
+with catalog (resource, action) as (
+  values
+    ('customers', 'view'), ('customers', 'create'), ('customers', 'edit'), ('customers', 'delete'), ('customers', 'restore'),
+    ('sales', 'view'), ('sales', 'create'), ('sales', 'edit'), ('sales', 'delete'), ('sales', 'restore'),
+    ('sale_items', 'create'), ('sale_items', 'edit'), ('sale_items', 'delete'),
+    ('quotes', 'view'), ('quotes', 'create'), ('quotes', 'edit'), ('quotes', 'convert'),
+    ('payments', 'view'), ('payments', 'create'), ('payments', 'edit'), ('payments', 'void'),
+    ('credit_memos', 'create'), ('credit_memos', 'void'),
+    ('products', 'view'), ('products', 'create'), ('products', 'edit'), ('products', 'delete'),
+    ('prices', 'edit'),
+    ('employees', 'view'), ('employees', 'create'), ('employees', 'edit'), ('employees', 'delete'),
+    ('commissions', 'view'), ('commissions', 'manage'), ('commissions', 'approve'),
+    ('reports', 'view'),
+    ('activity_logs', 'view'),
+    ('notifications', 'view'),
+    ('users', 'manage'),
+    ('settings', 'manage')
+),
+grants (role_name, resource, action) as (
+  select 'Administrator', resource, action from catalog
+  union all
+  select 'Viewer', resource, action from catalog
+  where (resource, action) in (
+    ('customers', 'view'), ('sales', 'view'), ('quotes', 'view'), ('payments', 'view'),
+    ('products', 'view'), ('reports', 'view')
+  )
+  union all
+  select 'Sales Clerk', resource, action from catalog
+  where (resource, action) in (
+    ('customers', 'view'), ('customers', 'create'), ('customers', 'edit'),
+    ('sales', 'view'), ('sales', 'create'), ('sales', 'edit'),
+    ('sale_items', 'create'), ('sale_items', 'edit'), ('sale_items', 'delete'),
+    ('quotes', 'view'), ('quotes', 'create'), ('quotes', 'edit'), ('quotes', 'convert'),
+    ('payments', 'view'), ('payments', 'create'),
+    ('credit_memos', 'create'),
+    ('products', 'view'), ('reports', 'view')
+  )
+  union all
+  select 'Cashier', resource, action from catalog
+  where (resource, action) in (
+    ('customers', 'view'), ('sales', 'view'),
+    ('payments', 'view'), ('payments', 'create'), ('payments', 'edit'),
+    ('products', 'view'), ('reports', 'view')
+  )
+  union all
+  select 'Manager', resource, action from catalog
+  where resource in ('customers', 'sales', 'sale_items', 'quotes', 'payments', 'credit_memos', 'products', 'prices', 'reports', 'notifications')
+    or (resource, action) in (('employees', 'view'), ('commissions', 'view'))
+  union all
+  select 'Auditor', resource, action from catalog
+  where action = 'view'
+)
+insert into public.role_permission (role_id, resource, action)
+select r.id, g.resource, g.action
+from grants g
+join public.role r on r.name = g.role_name
+on conflict do nothing;
+
+-- Until every policy checks has_permission, the profiles.role flag and the user_permissions
+-- booleans that existing policies read are kept in step with the roles a user holds.
+create or replace function public.sync_legacy_permissions(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_keys text[];
+begin
+  select coalesce(array_agg(rp.resource || ':' || rp.action), '{}')
+  into v_keys
+  from user_role ur
+  join role_permission rp on rp.role_id = ur.role_id
+  where ur.user_id = p_user_id;
+
+  update profiles
+  set role = case
+    when exists (
+      select 1 from user_role ur
+      join role r on r.id = ur.role_id
+      where ur.user_id = p_user_id and r.name = 'Administrator' and r.is_system
+    ) then 'admin'
+    else 'customer'
+  end
+  where id = p_user_id;
+
+  update user_permissions
+  set can_add_customers = 'customers:create' = any(v_keys),
+      can_edit_customers = 'customers:edit' = any(v_keys),
+      can_delete_customers = 'customers:delete' = any(v_keys),
+      can_add_sales = 'sales:create' = any(v_keys),
+      can_edit_sales = 'sales:edit' = any(v_keys),
+      can_delete_sales = 'sales:delete' = any(v_keys),
+      can_add_salesdetails = 'sale_items:create' = any(v_keys),
+      can_edit_salesdetails = 'sale_items:edit' = any(v_keys),
+      can_delete_salesdetails = 'sale_items:delete' = any(v_keys),
+      updated_at = now()
+  where user_id = p_user_id;
+
+  if not found then
+    insert into user_permissions (
+      user_id, can_add_customers, can_edit_customers, can_delete_customers,
+      can_add_sales, can_edit_sales, can_delete_sales,
+      can_add_salesdetails, can_edit_salesdetails, can_delete_salesdetails
+    )
+    values (
+      p_user_id,
+      'customers:create' = any(v_keys), 'customers:edit' = any(v_keys), 'customers:delete' = any(v_keys),
+      'sales:create' = any(v_keys), 'sales:edit' = any(v_keys), 'sales:delete' = any(v_keys),
+      'sale_items:create' = any(v_keys), 'sale_items:edit' = any(v_keys), 'sale_items:delete' = any(v_keys)
+    );
+  end if;
+end;
+$$;
+
+create or replace function public.sync_legacy_permissions_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  if tg_table_name = 'user_role' then
+    perform public.sync_legacy_permissions(coalesce(new.user_id, old.user_id));
+  else
+    for v_user_id in
+      select ur.user_id from user_role ur where ur.role_id = coalesce(new.role_id, old.role_id)
+    loop
+      perform public.sync_legacy_permissions(v_user_id);
+    end loop;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger user_role_sync_legacy_permissions
+  after insert or update or delete on public.user_role
+  for each row execute function public.sync_legacy_permissions_trigger();
+
+create trigger role_permission_sync_legacy_permissions
+  after insert or update or delete on public.role_permission
+  for each row execute function public.sync_legacy_permissions_trigger();
+
+-- The permissions of a system role are fixed, and at least one user must stay an administrator.
+-- Only requests made by signed-in users are checked, so migrations can still extend them.
+create or replace function public.protect_system_roles()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return coalesce(new, old);
+  end if;
+
+  if tg_table_name = 'role_permission' then
+    if exists (select 1 from role r where r.id = coalesce(new.role_id, old.role_id) and r.is_system) then
+      raise exception 'The permissions of a system role cannot be changed.';
+    end if;
+    return coalesce(new, old);
+  end if;
+
+  if tg_table_name = 'role' then
+    if old.is_system and (tg_op = 'DELETE' or new.name <> old.name or not new.is_system) then
+      raise exception 'System role % cannot be renamed or deleted.', old.name;
+    end if;
+    return coalesce(new, old);
+  end if;
+
+  -- user_role: refuse to remove the last holder of a system role
+  if exists (select 1 from role r where r.id = old.role_id and r.is_system)
+    and not exists (
+      select 1 from user_role ur
+      where ur.role_id = old.role_id and ur.user_id <> old.user_id
+    ) then
+    raise exception 'At least one user must keep the % role.', (select name from role where id = old.role_id);
+  end if;
+
+  return old;
+end;
+$$;
+
+create trigger role_permission_protect_system
+  before insert or update or delete on public.role_permission
+  for each row execute function public.protect_system_roles();
+
+create trigger role_protect_system
+  before update or delete on public.role
+  for each row execute function public.protect_system_roles();
+
+create trigger user_role_protect_system
+  before delete on public.user_role
+  for each row execute function public.protect_system_roles();
+
+-- Users who had individual permission switches get a role per distinct combination of them,
+-- so nobody gains or loses a permission in the move; they can be merged into the named roles
+-- afterwards. This runs before the default roles are handed out, while the switches still
+-- hold what each user was given.
+do $$
+declare
+  v_combination record;
+  v_role_id uuid;
+  v_count integer := 0;
+begin
+  for v_combination in
+    select keys, array_agg(user_id) as user_ids
+    from (
+      select
+        up.user_id,
+        array_remove(array[
+          case when up.can_add_customers then 'customers:create' end,
+          case when up.can_edit_customers then 'customers:edit' end,
+          case when up.can_delete_customers then 'customers:delete' end,
+          case when up.can_add_sales then 'sales:create' end,
+          case when up.can_edit_sales then 'sales:edit' end,
+          case when up.can_delete_sales then 'sales:delete' end,
+          case when up.can_add_salesdetails then 'sale_items:create' end,
+          case when up.can_edit_salesdetails then 'sale_items:edit' end,
+          case when up.can_delete_salesdetails then 'sale_items:delete' end
+        ], null) as keys
+      from public.user_permissions up
+      join public.profiles p on p.id = up.user_id
+      where p.role <> 'admin'
+    ) legacy
+    where cardinality(keys) > 0
+    group by keys
+    order by array_to_string(keys, ',')
+  loop
+    v_count := v_count + 1;
+
+    insert into public.role (name, description)
+    values (
+      'Migrated permissions ' || v_count,
+      'Created from the permission switches users had before roles: ' || array_to_string(v_combination.keys, ', ') || '.'
+    )
+    returning id into v_role_id;
+
+    insert into public.role_permission (role_id, resource, action)
+    select v_role_id, split_part(key, ':', 1), split_part(key, ':', 2)
+    from unnest(v_combination.keys) as key;
+
+    insert into public.user_role (user_id, role_id)
+    select unnest(v_combination.user_ids), v_role_id;
+  end loop;
+end;
+$$;
+
+-- Administrators become Administrators and everyone keeps read access through the default
+-- Viewer role
+insert into public.user_role (user_id, role_id)
+select p.id, r.id
+from public.profiles p
+join public.role r on r.name = case when p.role = 'admin' then 'Administrator' else 'Viewer' end
+on conflict do nothing;
+
+-- New users start with the default roles
+create or replace function public.assign_default_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into user_role (user_id, role_id)
+  select new.id, r.id from role r where r.is_default
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger profiles_assign_default_roles
+  after insert on public.profiles
+  for each row execute function public.assign_default_roles();
+
+alter table public.role enable row level security;
+alter table public.role_permission enable row level security;
+alter table public.user_role enable row level security;
+
+create policy "Authenticated users can view roles"
+  on public.role for select
+  to authenticated
+  using (true);
+
+create policy "User managers can manage roles"
+  on public.role for all
+  to authenticated
+  using (public.has_permission('users', 'manage'))
+  with check (public.has_permission('users', 'manage'));
+
+create policy "Authenticated users can view role permissions"
+  on public.role_permission for select
+  to authenticated
+  using (true);
+
+create policy "User managers can manage role permissions"
+  on public.role_permission for all
+  to authenticated
+  using (public.has_permission('users', 'manage'))
+  with check (public.has_permission('users', 'manage'));
+
+create policy "Users can view their own roles"
+  on public.user_role for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_permission('users', 'manage'));
+
+create policy "User managers can assign roles"
+  on public.user_role for all
+  to authenticated
+  using (public.has_permission('users', 'manage'))
+  with check (public.has_permission('users', 'manage'));
+
+grant select, insert, update, delete on public.role to authenticated;
+grant select, insert, update, delete on public.role_permission to authenticated;
+grant select, insert, update, delete on public.user_role to authenticated;
+
+-- Commissions were limited to administrators; they now check the permissions granted
+-- through roles
+drop policy if exists "Admins can manage commission plans" on public.commission_plan;
+drop policy if exists "Admins can manage commission tiers" on public.commission_tier;
+drop policy if exists "Admins can view commission periods" on public.commission_period;
+drop policy if exists "Admins can view commission lines" on public.commission_line;
+
+create policy "Commission viewers can view commission plans"
+  on public.commission_plan for select
+  to authenticated
+  using (public.has_permission('commissions', 'view'));
+
+create policy "Commission managers can add commission plans"
+  on public.commission_plan for insert
+  to authenticated
+  with check (public.has_permission('commissions', 'manage'));
+
+create policy "Commission managers can update commission plans"
+  on public.commission_plan for update
+  to authenticated
+  using (public.has_permission('commissions', 'manage'))
+  with check (public.has_permission('commissions', 'manage'));
+
+create policy "Commission managers can delete commission plans"
+  on public.commission_plan for delete
+  to authenticated
+  using (public.has_permission('commissions', 'manage'));
+
+create policy "Commission viewers can view commission tiers"
+  on public.commission_tier for select
+  to authenticated
+  using (public.has_permission('commissions', 'view'));
+
+create policy "Commission managers can add commission tiers"
+  on public.commission_tier for insert
+  to authenticated
+  with check (public.has_permission('commissions', 'manage'));
+
+create policy "Commission managers can update commission tiers"
+  on public.commission_tier for update
+  to authenticated
+  using (public.has_permission('commissions', 'manage'))
+  with check (public.has_permission('commissions', 'manage'));
+
+create policy "Commission managers can delete commission tiers"
+  on public.commission_tier for delete
+  to authenticated
+  using (public.has_permission('commissions', 'manage'));
+
+create policy "Commission viewers can view commission periods"
+  on public.commission_period for select
+  to authenticated
+  using (public.has_permission('commissions', 'view'));
+
+create policy "Commission viewers can view commission lines"
+  on public.commission_line for select
+  to authenticated
+  using (public.has_permission('commissions', 'view'));
+
+create or replace function public.calculate_commissions(month_start date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date := date_trunc('month', month_start)::date;
+  v_end date := (date_trunc('month', month_start) + interval '1 month - 1 day')::date;
+  v_period commission_period%rowtype;
+  v_total numeric;
+begin
+  if not public.has_permission('commissions', 'manage') then
+    return jsonb_build_object('success', false, 'message', 'You don''t have permission to calculate commissions.');
+  end if;
+
+  insert into commission_period (period_start, period_end)
+  values (v_start, v_end)
+  on conflict (period_start) do nothing;
+
+  select * into v_period from commission_period where period_start = v_start for update;
+
+  if v_period.status = 'approved' then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'This period has been approved and can no longer be recalculated.',
+      'period_id', v_period.id
+    );
+  end if;
+
+  delete from commission_line where period_id = v_period.id;
+
+  insert into commission_line (period_id, empno, jobcode, rate_source, sales_count, paid_revenue, rate, commission)
+  select
+    v_period.id,
+    revenue.empno,
+    job.jobcode,
+    plan.source,
+    revenue.sales_count,
+    revenue.paid_revenue,
+    coalesce(tier.rate, plan.base_rate, 0),
+    round(revenue.paid_revenue * coalesce(tier.rate, plan.base_rate, 0) / 100, 2)
+  from (
+    select ps.empno, count(*)::integer as sales_count, sum(ps.total_amount) as paid_revenue
+    from paid_sales ps
+    where ps.empno is not null
+      and ps.paid_date between v_start and v_end
+    group by ps.empno
+  ) revenue
+  -- The job held at the end of the month
+  left join lateral (
+    select jh.jobcode
+    from jobhistory jh
+    where jh.empno = revenue.empno
+      and jh.effdate <= v_end
+    order by jh.effdate desc
+    limit 1
+  ) job on true
+  left join lateral (
+    select cp.id, cp.base_rate, case when cp.empno is not null then 'employee' else 'job' end as source
+    from commission_plan cp
+    where cp.empno = revenue.empno
+       or (cp.jobcode = job.jobcode and cp.empno is null)
+    order by (cp.empno is not null) desc
+    limit 1
+  ) plan on true
+  left join lateral (
+    select ct.rate
+    from commission_tier ct
+    where ct.plan_id = plan.id
+      and ct.min_revenue <= revenue.paid_revenue
+    order by ct.min_revenue desc
+    limit 1
+  ) tier on true;
+
+  update commission_period
+  set calculated_at = now(), calculated_by = auth.uid()
+  where id = v_period.id;
+
+  select coalesce(sum(commission), 0) into v_total from commission_line where period_id = v_period.id;
+
+  perform public.log_activity('calculate', 'commission_period', v_start::text, jsonb_build_object('total', v_total));
+
+  return jsonb_build_object(
+    'success', true,
+    'message', 'Commissions calculated successfully',
+    'period_id', v_period.id,
+    'total', v_total
+  );
+end;
+$$;
+
+create or replace function public.approve_commission_period(month_start date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date := date_trunc('month', month_start)::date;
+  v_period commission_period%rowtype;
+begin
+  if not public.has_permission('commissions', 'approve') then
+    return jsonb_build_object('success', false, 'message', 'You don''t have permission to approve commissions.');
+  end if;
+
+  select * into v_period from commission_period where period_start = v_start for update;
+
+  if not found or v_period.calculated_at is null then
+    return jsonb_build_object('success', false, 'message', 'Calculate this period before approving it.');
+  end if;
+
+  if v_period.status = 'approved' then
+    return jsonb_build_object('success', false, 'message', 'This period has already been approved.');
+  end if;
+
+  update commission_period
+  set status = 'approved', approved_at = now(), approved_by = auth.uid()
+  where id = v_period.id;
+
+  perform public.log_activity('approve', 'commission_period', v_start::text, '{}'::jsonb);
+
+  return jsonb_build_object('success', true, 'message', 'Commission period approved', 'period_id', v_period.id);
+end;
+$$;
+
+-- Credit memos and quotes went by the admin flag and the legacy user_permissions sales flags
+drop policy if exists "Sales users can issue credit memos" on public.credit_memo;
+drop policy if exists "Sales users can void credit memos" on public.credit_memo;
+drop policy if exists "Sales users can add credit memo lines" on public.credit_memo_line;
+
+create policy "Credit memo issuers can issue credit memos"
+  on public.credit_memo for insert
+  to authenticated
+  with check (public.has_permission('credit_memos', 'create'));
+
+create policy "Credit memo voiders can void credit memos"
+  on public.credit_memo for update
+  to authenticated
+  using (public.has_permission('credit_memos', 'void'))
+  with check (public.has_permission('credit_memos', 'void'));
+
+create policy "Credit memo issuers can add credit memo lines"
+  on public.credit_memo_line for insert
+  to authenticated
+  with check (public.has_permission('credit_memos', 'create'));
+
+drop policy if exists "Authenticated users can view quotes" on public.quote;
+drop policy if exists "Sales users can manage quotes" on public.quote;
+drop policy if exists "Authenticated users can view quote lines" on public.quote_line;
+drop policy if exists "Sales users can manage quote lines" on public.quote_line;
+
+create policy "Quote viewers can view quotes"
+  on public.quote for select
+  to authenticated
+  using (public.has_permission('quotes', 'view'));
+
+create policy "Quote creators can add quotes"
+  on public.quote for insert
+  to authenticated
+  with check (public.has_permission('quotes', 'create'));
+
+-- Converting a quote marks it accepted and links it to the new sale
+create policy "Quote editors can update quotes"
+  on public.quote for update
+  to authenticated
+  using (public.has_permission('quotes', 'edit') or public.has_permission('quotes', 'convert'))
+  with check (public.has_permission('quotes', 'edit') or public.has_permission('quotes', 'convert'));
+
+create policy "Quote editors can delete quotes"
+  on public.quote for delete
+  to authenticated
+  using (public.has_permission('quotes', 'edit'));
+
+create policy "Quote viewers can view quote lines"
+  on public.quote_line for select
+  to authenticated
+  using (public.has_permission('quotes', 'view'));
+
+-- A new quote's lines are written by whoever may create it
+create policy "Quote writers can add quote lines"
+  on public.quote_line for insert
+  to authenticated
+  with check (public.has_permission('quotes', 'create') or public.has_permission('quotes', 'edit'));
+
+create policy "Quote editors can update quote lines"
+  on public.quote_line for update
+  to authenticated
+  using (public.has_permission('quotes', 'edit'))
+  with check (public.has_permission('quotes', 'edit'));
+
+create policy "Quote editors can delete quote lines"
+  on public.quote_line for delete
+  to authenticated
+  using (public.has_permission('quotes', 'edit'));
+
+-- Numbering, payment terms, company settings and the branding bucket went by the admin flag
+drop policy if exists "Admins can update document sequences" on public.document_sequence;
+drop policy if exists "Admins can view the document number pool" on public.document_number_pool;
+drop policy if exists "Admins can manage payment terms" on public.payment_term;
+drop policy if exists "Admins can update app settings" on public.app_settings;
+drop policy if exists "Admins can upload branding files" on storage.objects;
+drop policy if exists "Admins can update branding files" on storage.objects;
+drop policy if exists "Admins can delete branding files" on storage.objects;
+
+create policy "Settings managers can update document sequences"
+  on public.document_sequence for update
+  to authenticated
+  using (public.has_permission('settings', 'manage'))
+  with check (public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can view the document number pool"
+  on public.document_number_pool for select
+  to authenticated
+  using (public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can manage payment terms"
+  on public.payment_term for all
+  to authenticated
+  using (public.has_permission('settings', 'manage'))
+  with check (public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can update app settings"
+  on public.app_settings for update
+  to authenticated
+  using (public.has_permission('settings', 'manage'))
+  with check (public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can upload branding files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'branding' and public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can update branding files"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'branding' and public.has_permission('settings', 'manage'));
+
+create policy "Settings managers can delete branding files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'branding' and public.has_permission('settings', 'manage'));
+
+-- profiles.role is kept by sync_legacy_permissions; users may only change their name and avatar
+revoke update on public.profiles from authenticated;
+grant update (first_name, last_name, avatar_url, updated_at) on public.profiles to authenticated;
@@ -0,0 +1,203 @@
+-- Customers, sales, sale lines and payments are protected by the same permissions the portal
+-- checks, so a signed-in user calling the API directly can do no more than the UI lets them.
+-- save_sale runs as the caller, so it is covered by these policies too.
+alter table public.customer enable row level security;
+alter table public.sales enable row level security;
+alter table public.salesdetail enable row level security;
+alter table public.payment enable row level security;
+alter table public.user_permissions enable row level security;
+
+-- Replace whatever policies these tables had before with the ones below
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select schemaname, tablename, policyname
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in ('customer', 'sales', 'salesdetail', 'payment', 'user_permissions')
+  loop
+    execute format('drop policy %I on %I.%I', v_policy.policyname, v_policy.schemaname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+-- Records are soft-deleted, restored and voided with an UPDATE, so a policy alone cannot tell
+-- those apart from an edit. This trigger works out which actions an update performs and checks
+-- each of them, so a row cannot be rewritten while it is deleted, restored or voided: argument 0
+-- is the resource edited, argument 1 the resource restored.
+-- Like protect_system_roles, only requests made by signed-in users are checked.
+create or replace function public.check_update_permission()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_old jsonb := to_jsonb(old);
+  v_new jsonb := to_jsonb(new);
+  v_resource text := tg_argv[0];
+  -- Columns that change along with the action that sets them, not as an edit
+  v_audit text[] := array['modified_at', 'modified_by'];
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if (v_old->>'voided_at') is distinct from (v_new->>'voided_at') then
+    v_audit := v_audit || array['voided_at', 'voided_by', 'void_reason'];
+
+    if not public.has_permission(v_resource, 'void') then
+      raise exception 'You do not have permission to void %.', replace(v_resource, '_', ' ')
+        using errcode = 'insufficient_privilege';
+    end if;
+  end if;
+
+  if v_old->>'deleted_at' is null and v_new->>'deleted_at' is not null then
+    v_audit := v_audit || array['deleted_at', 'deleted_by'];
+
+    if not public.has_permission(v_resource, 'delete') then
+      raise exception 'You do not have permission to delete %.', replace(v_resource, '_', ' ')
+        using errcode = 'insufficient_privilege';
+    end if;
+  elsif v_old->>'deleted_at' is not null and v_new->>'deleted_at' is null then
+    v_audit := v_audit || array['deleted_at', 'deleted_by'];
+
+    -- save_sale revives a removed line when its product is added back to the sale
+    if not (
+      public.has_permission(tg_argv[1], 'restore')
+      or (tg_table_name = 'salesdetail' and public.has_permission('sale_items', 'create'))
+    ) then
+      raise exception 'You do not have permission to restore %.', replace(tg_argv[1], '_', ' ')
+        using errcode = 'insufficient_privilege';
+    end if;
+  end if;
+
+  -- Anything else that changed is an edit, e.g. save_sale changing the quantity of a revived line
+  if (v_old - v_audit) is distinct from (v_new - v_audit)
+    and not public.has_permission(v_resource, 'edit') then
+    raise exception 'You do not have permission to edit %.', replace(v_resource, '_', ' ')
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger customer_check_update_permission
+  before update on public.customer
+  for each row execute function public.check_update_permission('customers', 'customers');
+
+create trigger sales_check_update_permission
+  before update on public.sales
+  for each row execute function public.check_update_permission('sales', 'sales');
+
+create trigger salesdetail_check_update_permission
+  before update on public.salesdetail
+  for each row execute function public.check_update_permission('sale_items', 'sales');
+
+create trigger payment_check_update_permission
+  before update on public.payment
+  for each row execute function public.check_update_permission('payments', 'payments');
+
+-- Customers
+create policy "Customer viewers can view customers"
+  on public.customer for select
+  to authenticated
+  using (public.has_permission('customers', 'view'));
+
+create policy "Customer creators can add customers"
+  on public.customer for insert
+  to authenticated
+  with check (public.has_permission('customers', 'create'));
+
+create policy "Customer editors can update customers"
+  on public.customer for update
+  to authenticated
+  using (
+    public.has_permission('customers', 'edit')
+    or public.has_permission('customers', 'delete')
+    or public.has_permission('customers', 'restore')
+  );
+
+create policy "Customer deleters can delete customers"
+  on public.customer for delete
+  to authenticated
+  using (public.has_permission('customers', 'delete'));
+
+-- Sales
+create policy "Sales viewers can view sales"
+  on public.sales for select
+  to authenticated
+  using (public.has_permission('sales', 'view'));
+
+create policy "Sales creators can add sales"
+  on public.sales for insert
+  to authenticated
+  with check (public.has_permission('sales', 'create'));
+
+create policy "Sales editors can update sales"
+  on public.sales for update
+  to authenticated
+  using (
+    public.has_permission('sales', 'edit')
+    or public.has_permission('sales', 'delete')
+    or public.has_permission('sales', 'restore')
+  );
+
+create policy "Sales deleters can delete sales"
+  on public.sales for delete
+  to authenticated
+  using (public.has_permission('sales', 'delete'));
+
+-- Sale lines are visible with the sale and changed with the sale line permissions.
+-- save_sale upserts every line, so adding a line also needs the update policy.
+create policy "Sales viewers can view sale lines"
+  on public.salesdetail for select
+  to authenticated
+  using (public.has_permission('sales', 'view'));
+
+create policy "Sale line creators can add sale lines"
+  on public.salesdetail for insert
+  to authenticated
+  with check (public.has_permission('sale_items', 'create'));
+
+create policy "Sale line editors can update sale lines"
+  on public.salesdetail for update
+  to authenticated
+  using (
+    public.has_permission('sale_items', 'create')
+    or public.has_permission('sale_items', 'edit')
+    or public.has_permission('sale_items', 'delete')
+    or public.has_permission('sales', 'restore')
+  );
+
+create policy "Sale line deleters can delete sale lines"
+  on public.salesdetail for delete
+  to authenticated
+  using (public.has_permission('sale_items', 'delete'));
+
+-- Payments are voided, never deleted, so there is no delete policy
+create policy "Payment viewers can view payments"
+  on public.payment for select
+  to authenticated
+  using (public.has_permission('payments', 'view'));
+
+create policy "Payment creators can record payments"
+  on public.payment for insert
+  to authenticated
+  with check (public.has_permission('payments', 'create'));
+
+create policy "Payment editors can update payments"
+  on public.payment for update
+  to authenticated
+  using (
+    public.has_permission('payments', 'edit')
+    or public.has_permission('payments', 'void')
+  );
+
+-- user_permissions is kept in step with roles by sync_legacy_permissions, so it is read-only
+create policy "Users can view their own legacy permissions"
+  on public.user_permissions for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_permission('users', 'manage'));
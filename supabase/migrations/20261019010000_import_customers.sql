@@ -0,0 +1,109 @@
+-- Add many customers in one transaction, e.g. from an import file. Rows without a customer
+-- number are numbered from the customer series after the numbered rows are in, so a
+-- generated number never clashes with one from the file. Like save_sale, problems come back
+-- as per-field errors keyed by row (e.g. "rows.3.custno") and nothing is written unless
+-- every row is valid.
+create or replace function public.import_customers(customers jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_errors jsonb := '[]'::jsonb;
+  v_custnos jsonb := '[]'::jsonb;
+  v_row record;
+  v_custno text;
+  v_payterm text;
+  v_seen text[] := '{}';
+begin
+  if jsonb_typeof(customers) is distinct from 'array' or jsonb_array_length(customers) = 0 then
+    return jsonb_build_object(
+      'success', false,
+      'custnos', '[]'::jsonb,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'rows', 'message', 'There are no customers to import.'))
+    );
+  end if;
+
+  for v_row in
+    select c.value, c.ordinality - 1 as idx
+    from jsonb_array_elements(customers) with ordinality as c(value, ordinality)
+  loop
+    v_custno := nullif(trim(v_row.value->>'custno'), '');
+    v_payterm := nullif(v_row.value->>'payterm', '');
+
+    if v_custno is not null then
+      if exists (select 1 from customer c where c.custno = v_custno) then
+        v_errors := v_errors || jsonb_build_object('field', format('rows.%s.custno', v_row.idx), 'message', 'Customer number already exists.');
+      elsif v_custno = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('rows.%s.custno', v_row.idx), 'message', 'Customer number appears more than once in the file.');
+      else
+        v_seen := v_seen || v_custno;
+      end if;
+    end if;
+
+    if nullif(trim(v_row.value->>'custname'), '') is null then
+      v_errors := v_errors || jsonb_build_object('field', format('rows.%s.custname', v_row.idx), 'message', 'Customer name is required.');
+    end if;
+
+    if v_payterm is not null and not exists (select 1 from payment_term pt where pt.code = v_payterm) then
+      v_errors := v_errors || jsonb_build_object('field', format('rows.%s.payterm', v_row.idx), 'message', 'Payment term does not exist.');
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'custnos', '[]'::jsonb, 'errors', v_errors);
+  end if;
+
+  insert into customer (custno, custname, address, payterm, created_at, created_by)
+  select trim(c->>'custno'), trim(c->>'custname'), nullif(trim(c->>'address'), ''), nullif(c->>'payterm', ''), v_now, v_user
+  from jsonb_array_elements(customers) as c
+  where nullif(trim(c->>'custno'), '') is not null;
+
+  -- Number the remaining rows in file order
+  for v_row in
+    select c.value
+    from jsonb_array_elements(customers) with ordinality as c(value, ordinality)
+    order by c.ordinality
+  loop
+    v_custno := nullif(trim(v_row.value->>'custno'), '');
+
+    if v_custno is null then
+      v_custno := public.next_document_number('customer');
+
+      insert into customer (custno, custname, address, payterm, created_at, created_by)
+      values (
+        v_custno,
+        trim(v_row.value->>'custname'),
+        nullif(trim(v_row.value->>'address'), ''),
+        nullif(v_row.value->>'payterm', ''),
+        v_now,
+        v_user
+      );
+    end if;
+
+    v_custnos := v_custnos || to_jsonb(v_custno);
+  end loop;
+
+  perform public.log_activity(
+    'import',
+    'customer',
+    format('%s customers', jsonb_array_length(v_custnos)),
+    jsonb_build_object('custnos', v_custnos)
+  );
+
+  return jsonb_build_object('success', true, 'custnos', v_custnos, 'errors', '[]'::jsonb);
+exception
+  -- Another user saved one of the numbers between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'custnos', '[]'::jsonb,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'rows', 'message', 'A customer number was taken while importing. Please try again.'))
+    );
+end;
+$$;
+
+grant execute on function public.import_customers(jsonb) to authenticated;
@@ -0,0 +1,238 @@
+-- Duplicate customers: the same business entered more than once under slightly different
+-- names or addresses. Candidate pairs are scored by trigram similarity of their names and
+-- addresses, and a pair is merged by moving the duplicate's sales to the surviving customer
+-- and soft-deleting the duplicate with a pointer to the survivor.
+create extension if not exists pg_trgm with schema extensions;
+
+alter table public.customer
+  add column if not exists merged_into text references public.customer (custno);
+
+-- Name without case, punctuation or words like "Inc" and "Company" that vary between entries
+create or replace function public.customer_name_key(name text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select nullif(trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(coalesce(name, '')), '[^a-z0-9]+', ' ', 'g'),
+      '\m(the|and|inc|incorporated|corp|corporation|co|company|ltd|limited|llc|enterprises?|trading)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  )), '');
+$$;
+
+-- Address without case or punctuation, with common street words abbreviated the same way
+create or replace function public.customer_address_key(address text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select nullif(trim(regexp_replace(
+    regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+      regexp_replace(lower(coalesce(address, '')), '[^a-z0-9]+', ' ', 'g'),
+      '\mstreet\M', 'st', 'g'),
+      '\mavenue\M', 'ave', 'g'),
+      '\mroad\M', 'rd', 'g'),
+      '\mboulevard\M', 'blvd', 'g'),
+    '\s+', ' ', 'g'
+  )), '');
+$$;
+
+create index if not exists customer_name_key_trgm_idx
+  on public.customer using gin (public.customer_name_key(custname) extensions.gin_trgm_ops)
+  where deleted_at is null;
+
+create index if not exists customer_address_key_trgm_idx
+  on public.customer using gin (public.customer_address_key(address) extensions.gin_trgm_ops)
+  where deleted_at is null;
+
+-- Pairs of active customers that may be the same business, best match first. The score
+-- weighs the name at 70% and the address at 30%; when either address is blank only the
+-- name counts. Pairs need a loose trigram match on name or address to be considered.
+create or replace function public.find_duplicate_customers(min_score numeric default 0.6)
+returns table (
+  custno_a text,
+  custname_a text,
+  address_a text,
+  custno_b text,
+  custname_b text,
+  address_b text,
+  name_score numeric,
+  address_score numeric,
+  score numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with pairs as (
+    select
+      a.custno as custno_a,
+      a.custname as custname_a,
+      a.address as address_a,
+      b.custno as custno_b,
+      b.custname as custname_b,
+      b.address as address_b,
+      coalesce(extensions.similarity(public.customer_name_key(a.custname), public.customer_name_key(b.custname)), 0)::numeric as name_score,
+      extensions.similarity(public.customer_address_key(a.address), public.customer_address_key(b.address))::numeric as address_score
+    from customer a
+    join customer b
+      on b.custno > a.custno
+      and b.deleted_at is null
+      and (
+        public.customer_name_key(b.custname) operator(extensions.%) public.customer_name_key(a.custname)
+        or public.customer_address_key(b.address) operator(extensions.%) public.customer_address_key(a.address)
+      )
+    where a.deleted_at is null
+  ),
+  scored as (
+    select
+      p.*,
+      case
+        when p.address_score is null then p.name_score
+        else p.name_score * 0.7 + p.address_score * 0.3
+      end as score
+    from pairs p
+  )
+  select
+    s.custno_a,
+    s.custname_a,
+    s.address_a,
+    s.custno_b,
+    s.custname_b,
+    s.address_b,
+    round(s.name_score, 2),
+    round(s.address_score, 2),
+    round(s.score, 2)
+  from scored s
+  where s.score >= min_score
+  order by s.score desc, s.custno_a, s.custno_b
+  limit 500;
+$$;
+
+grant execute on function public.find_duplicate_customers(numeric) to authenticated;
+
+-- Merge a duplicate into the surviving customer in one transaction. The survivor takes the
+-- name, address and payment term chosen for each field; every sale of the duplicate, and
+-- every quote not yet converted, moves to the survivor; the duplicate is soft-deleted with
+-- merged_into pointing at the survivor. Runs as the caller, so it needs the customer edit
+-- and delete permissions and the sales edit permission.
+create or replace function public.merge_customers(survivor text, duplicate text, kept jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_survivor customer%rowtype;
+  v_duplicate customer%rowtype;
+  v_custname text := nullif(trim(kept->>'custname'), '');
+  v_address text := nullif(trim(kept->>'address'), '');
+  v_payterm text := nullif(kept->>'payterm', '');
+  v_errors jsonb := '[]'::jsonb;
+  v_transnos jsonb;
+  v_quotenos jsonb;
+begin
+  if survivor = duplicate then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'A customer cannot be merged into itself.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'duplicate', 'message', 'Choose two different customers.'))
+    );
+  end if;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot deadlock
+  perform 1 from customer c where c.custno in (survivor, duplicate) order by c.custno for update;
+
+  select * into v_survivor from customer c where c.custno = survivor;
+  select * into v_duplicate from customer c where c.custno = duplicate;
+
+  if v_survivor.custno is null or v_survivor.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'survivor', 'message', 'This customer no longer exists or has been deleted.');
+  end if;
+
+  if v_duplicate.custno is null or v_duplicate.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'duplicate', 'message', 'This customer no longer exists or has already been merged.');
+  end if;
+
+  if v_custname is null then
+    v_errors := v_errors || jsonb_build_object('field', 'custname', 'message', 'Customer name is required.');
+  end if;
+
+  if v_payterm is not null and not exists (select 1 from payment_term pt where pt.code = v_payterm) then
+    v_errors := v_errors || jsonb_build_object('field', 'payterm', 'message', 'Payment term does not exist.');
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'message', 'The customers could not be merged.', 'errors', v_errors);
+  end if;
+
+  update customer
+  set custname = v_custname,
+      address = v_address,
+      payterm = v_payterm,
+      modified_at = v_now,
+      modified_by = v_user
+  where custno = survivor
+    and (custname, address, payterm) is distinct from (v_custname, v_address, v_payterm);
+
+  with moved as (
+    update sales
+    set custno = survivor,
+        modified_at = v_now,
+        modified_by = v_user
+    where custno = duplicate
+    returning transno
+  )
+  select coalesce(jsonb_agg(transno order by transno), '[]'::jsonb) into v_transnos from moved;
+
+  -- A converted quote is locked and stays a record of who it was made out to
+  with moved as (
+    update quote
+    set custno = survivor,
+        modified_at = v_now,
+        modified_by = v_user
+    where custno = duplicate
+      and transno is null
+    returning quoteno
+  )
+  select coalesce(jsonb_agg(quoteno order by quoteno), '[]'::jsonb) into v_quotenos from moved;
+
+  update customer
+  set deleted_at = v_now,
+      deleted_by = v_user,
+      merged_into = survivor
+  where custno = duplicate;
+
+  perform public.log_activity(
+    'merge',
+    'customer',
+    survivor,
+    jsonb_build_object(
+      'merged', duplicate,
+      'sales', v_transnos,
+      'quotes', v_quotenos,
+      'kept', jsonb_build_object('custname', v_custname, 'address', v_address, 'payterm', v_payterm),
+      'survivor_before', jsonb_build_object('custname', v_survivor.custname, 'address', v_survivor.address, 'payterm', v_survivor.payterm),
+      'duplicate_before', jsonb_build_object('custname', v_duplicate.custname, 'address', v_duplicate.address, 'payterm', v_duplicate.payterm)
+    )
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', format(
+      '%s has been merged into %s. %s sale%s moved.',
+      duplicate, survivor, jsonb_array_length(v_transnos), case when jsonb_array_length(v_transnos) = 1 then '' else 's' end
+    ),
+    'errors', '[]'::jsonb
+  );
+end;
+$$;
+
+grant execute on function public.merge_customers(text, text, jsonb) to authenticated;
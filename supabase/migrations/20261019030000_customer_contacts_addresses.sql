@@ -0,0 +1,418 @@
+-- Customers get structured billing and shipping addresses and any number of contacts, one of
+-- them primary. customer.address stays as the one-line billing address that lists, search,
+-- statements and invoices already show; save_customer keeps it in step.
+create table if not exists public.customer_address (
+  custno text not null references public.customer (custno) on delete cascade,
+  kind text not null check (kind in ('billing', 'shipping')),
+  street text,
+  city text,
+  region text,
+  postal_code text,
+  country text,
+  primary key (custno, kind)
+);
+
+create table if not exists public.customer_contact (
+  id uuid primary key default gen_random_uuid(),
+  custno text not null references public.customer (custno) on delete cascade,
+  name text not null,
+  role text,
+  phone text,
+  email text,
+  is_primary boolean not null default false,
+  created_at timestamp with time zone default now(),
+  created_by uuid,
+  modified_at timestamp with time zone,
+  modified_by uuid
+);
+
+create index if not exists customer_contact_custno_idx on public.customer_contact (custno);
+
+-- At most one primary contact per customer
+create unique index if not exists customer_contact_primary_idx
+  on public.customer_contact (custno)
+  where is_primary;
+
+-- Existing free-text addresses become the street line of the billing address
+insert into public.customer_address (custno, kind, street)
+select c.custno, 'billing', c.address
+from public.customer c
+where nullif(trim(c.address), '') is not null
+on conflict (custno, kind) do nothing;
+
+alter table public.customer_address enable row level security;
+alter table public.customer_contact enable row level security;
+
+create policy "Customer viewers can view customer addresses"
+  on public.customer_address for select
+  to authenticated
+  using (public.has_permission('customers', 'view'));
+
+create policy "Customer editors can manage customer addresses"
+  on public.customer_address for all
+  to authenticated
+  using (public.has_permission('customers', 'create') or public.has_permission('customers', 'edit'))
+  with check (public.has_permission('customers', 'create') or public.has_permission('customers', 'edit'));
+
+create policy "Customer viewers can view customer contacts"
+  on public.customer_contact for select
+  to authenticated
+  using (public.has_permission('customers', 'view'));
+
+create policy "Customer editors can manage customer contacts"
+  on public.customer_contact for all
+  to authenticated
+  using (public.has_permission('customers', 'create') or public.has_permission('customers', 'edit'))
+  with check (public.has_permission('customers', 'create') or public.has_permission('customers', 'edit'));
+
+grant select, insert, update, delete on public.customer_address to authenticated;
+grant select, insert, update, delete on public.customer_contact to authenticated;
+
+-- One line such as "12 Rizal Ave, Manila, Metro Manila 1000, Philippines"
+create or replace function public.format_customer_address(street text, city text, region text, postal_code text, country text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select nullif(concat_ws(', ',
+    nullif(trim(street), ''),
+    nullif(trim(city), ''),
+    nullif(trim(concat_ws(' ', nullif(trim(region), ''), nullif(trim(postal_code), ''))), ''),
+    nullif(trim(country), '')
+  ), '');
+$$;
+
+-- Create or update a customer with its addresses and contacts in one transaction. Addresses
+-- are replaced by the ones given; a missing shipping address means goods ship to the billing
+-- address. Contacts without an id are added, contacts left out are removed, and when none is
+-- marked primary the first one is. Problems come back as per-field errors, e.g.
+-- "contacts.1.email", and nothing is written unless everything is valid.
+create or replace function public.save_customer(customer jsonb, addresses jsonb, contacts jsonb, is_new boolean)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_custno text := nullif(trim(customer->>'custno'), '');
+  v_custname text := nullif(trim(customer->>'custname'), '');
+  v_payterm text := nullif(customer->>'payterm', '');
+  v_errors jsonb := '[]'::jsonb;
+  v_row record;
+  v_billing jsonb;
+  v_primary_count integer;
+  v_contact_id uuid;
+  v_kept_ids uuid[] := '{}';
+begin
+  addresses := coalesce(addresses, '[]'::jsonb);
+  contacts := coalesce(contacts, '[]'::jsonb);
+
+  if v_custno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer number is required.');
+  elsif is_new and exists (select 1 from public.customer c where c.custno = v_custno) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer number already exists.');
+  elsif not is_new and not exists (select 1 from public.customer c where c.custno = v_custno and c.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'This customer no longer exists or has been deleted.');
+  end if;
+
+  if v_custname is null then
+    v_errors := v_errors || jsonb_build_object('field', 'custname', 'message', 'Customer name is required.');
+  elsif length(v_custname) > 20 then
+    v_errors := v_errors || jsonb_build_object('field', 'custname', 'message', 'Customer name must be 20 characters or less.');
+  end if;
+
+  if v_payterm is not null and not exists (select 1 from payment_term pt where pt.code = v_payterm) then
+    v_errors := v_errors || jsonb_build_object('field', 'payterm', 'message', 'Payment term does not exist.');
+  end if;
+
+  for v_row in
+    select a.value, a.ordinality - 1 as idx
+    from jsonb_array_elements(addresses) with ordinality as a(value, ordinality)
+  loop
+    if v_row.value->>'kind' is distinct from 'billing' and v_row.value->>'kind' is distinct from 'shipping' then
+      v_errors := v_errors || jsonb_build_object('field', format('addresses.%s.kind', v_row.idx), 'message', 'Address must be billing or shipping.');
+    end if;
+  end loop;
+
+  select count(*) into v_primary_count
+  from jsonb_array_elements(contacts) as c
+  where (c->>'is_primary')::boolean;
+
+  if v_primary_count > 1 then
+    v_errors := v_errors || jsonb_build_object('field', 'contacts', 'message', 'Only one contact can be primary.');
+  end if;
+
+  for v_row in
+    select c.value, c.ordinality - 1 as idx
+    from jsonb_array_elements(contacts) with ordinality as c(value, ordinality)
+  loop
+    if nullif(trim(v_row.value->>'name'), '') is null then
+      v_errors := v_errors || jsonb_build_object('field', format('contacts.%s.name', v_row.idx), 'message', 'Contact name is required.');
+    end if;
+
+    if nullif(trim(v_row.value->>'email'), '') is not null
+      and trim(v_row.value->>'email') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' then
+      v_errors := v_errors || jsonb_build_object('field', format('contacts.%s.email', v_row.idx), 'message', 'Email address is not valid.');
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'message', 'Please correct the highlighted fields.', 'errors', v_errors);
+  end if;
+
+  select a into v_billing
+  from jsonb_array_elements(addresses) as a
+  where a->>'kind' = 'billing'
+  limit 1;
+
+  if is_new then
+    insert into public.customer (custno, custname, address, payterm, created_at, created_by)
+    values (
+      v_custno,
+      v_custname,
+      public.format_customer_address(v_billing->>'street', v_billing->>'city', v_billing->>'region', v_billing->>'postal_code', v_billing->>'country'),
+      v_payterm,
+      v_now,
+      v_user
+    );
+  else
+    update public.customer c
+    set custname = v_custname,
+        address = public.format_customer_address(v_billing->>'street', v_billing->>'city', v_billing->>'region', v_billing->>'postal_code', v_billing->>'country'),
+        payterm = v_payterm,
+        modified_at = v_now,
+        modified_by = v_user
+    where c.custno = v_custno;
+  end if;
+
+  delete from public.customer_address ca where ca.custno = v_custno;
+
+  insert into public.customer_address (custno, kind, street, city, region, postal_code, country)
+  select
+    v_custno,
+    a->>'kind',
+    nullif(trim(a->>'street'), ''),
+    nullif(trim(a->>'city'), ''),
+    nullif(trim(a->>'region'), ''),
+    nullif(trim(a->>'postal_code'), ''),
+    nullif(trim(a->>'country'), '')
+  from jsonb_array_elements(addresses) as a
+  where public.format_customer_address(a->>'street', a->>'city', a->>'region', a->>'postal_code', a->>'country') is not null;
+
+  -- Clear the primary flag first so moving it between contacts cannot clash with the unique index
+  update public.customer_contact cc set is_primary = false where cc.custno = v_custno and cc.is_primary;
+
+  select coalesce(array_agg((c->>'id')::uuid), '{}') into v_kept_ids
+  from jsonb_array_elements(contacts) as c
+  where nullif(c->>'id', '') is not null;
+
+  delete from public.customer_contact cc
+  where cc.custno = v_custno
+    and cc.id <> all(v_kept_ids);
+
+  for v_row in
+    select c.value, c.ordinality
+    from jsonb_array_elements(contacts) with ordinality as c(value, ordinality)
+    order by c.ordinality
+  loop
+    v_contact_id := nullif(v_row.value->>'id', '')::uuid;
+
+    if v_contact_id is null then
+      insert into public.customer_contact (custno, name, role, phone, email, is_primary, created_at, created_by)
+      values (
+        v_custno,
+        trim(v_row.value->>'name'),
+        nullif(trim(v_row.value->>'role'), ''),
+        nullif(trim(v_row.value->>'phone'), ''),
+        nullif(trim(v_row.value->>'email'), ''),
+        coalesce((v_row.value->>'is_primary')::boolean, false) or (v_primary_count = 0 and v_row.ordinality = 1),
+        v_now,
+        v_user
+      );
+    else
+      update public.customer_contact cc
+      set name = trim(v_row.value->>'name'),
+          role = nullif(trim(v_row.value->>'role'), ''),
+          phone = nullif(trim(v_row.value->>'phone'), ''),
+          email = nullif(trim(v_row.value->>'email'), ''),
+          is_primary = coalesce((v_row.value->>'is_primary')::boolean, false) or (v_primary_count = 0 and v_row.ordinality = 1),
+          modified_at = v_now,
+          modified_by = v_user
+      where cc.id = v_contact_id
+        and cc.custno = v_custno;
+    end if;
+  end loop;
+
+  perform public.log_activity(
+    case when is_new then 'insert' else 'update' end,
+    'customer',
+    v_custno,
+    jsonb_build_object(
+      'custname', v_custname,
+      'payterm', v_payterm,
+      'addresses', addresses,
+      'contacts', jsonb_array_length(contacts)
+    )
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', case when is_new then 'Customer added successfully' else 'Customer updated successfully' end,
+    'errors', '[]'::jsonb
+  );
+exception
+  -- Another user saved the same number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'Customer number already exists.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'custno', 'message', 'Customer number already exists.'))
+    );
+end;
+$$;
+
+grant execute on function public.save_customer(jsonb, jsonb, jsonb, boolean) to authenticated;
+
+-- Merging now also carries the duplicate's contacts over to the survivor, and when the
+-- address is kept from the duplicate (kept.address_from), its structured addresses too
+create or replace function public.merge_customers(survivor text, duplicate text, kept jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_survivor customer%rowtype;
+  v_duplicate customer%rowtype;
+  v_custname text := nullif(trim(kept->>'custname'), '');
+  v_address text := nullif(trim(kept->>'address'), '');
+  v_payterm text := nullif(kept->>'payterm', '');
+  v_errors jsonb := '[]'::jsonb;
+  v_transnos jsonb;
+  v_quotenos jsonb;
+  v_contacts integer;
+begin
+  if survivor = duplicate then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'A customer cannot be merged into itself.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'duplicate', 'message', 'Choose two different customers.'))
+    );
+  end if;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot deadlock
+  perform 1 from customer c where c.custno in (survivor, duplicate) order by c.custno for update;
+
+  select * into v_survivor from customer c where c.custno = survivor;
+  select * into v_duplicate from customer c where c.custno = duplicate;
+
+  if v_survivor.custno is null or v_survivor.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'survivor', 'message', 'This customer no longer exists or has been deleted.');
+  end if;
+
+  if v_duplicate.custno is null or v_duplicate.deleted_at is not null then
+    v_errors := v_errors || jsonb_build_object('field', 'duplicate', 'message', 'This customer no longer exists or has already been merged.');
+  end if;
+
+  if v_custname is null then
+    v_errors := v_errors || jsonb_build_object('field', 'custname', 'message', 'Customer name is required.');
+  end if;
+
+  if v_payterm is not null and not exists (select 1 from payment_term pt where pt.code = v_payterm) then
+    v_errors := v_errors || jsonb_build_object('field', 'payterm', 'message', 'Payment term does not exist.');
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'message', 'The customers could not be merged.', 'errors', v_errors);
+  end if;
+
+  update customer
+  set custname = v_custname,
+      address = v_address,
+      payterm = v_payterm,
+      modified_at = v_now,
+      modified_by = v_user
+  where custno = survivor
+    and (custname, address, payterm) is distinct from (v_custname, v_address, v_payterm);
+
+  if kept->>'address_from' = duplicate then
+    delete from customer_address ca where ca.custno = survivor;
+
+    insert into customer_address (custno, kind, street, city, region, postal_code, country)
+    select survivor, ca.kind, ca.street, ca.city, ca.region, ca.postal_code, ca.country
+    from customer_address ca
+    where ca.custno = duplicate;
+  end if;
+
+  -- The survivor's primary contact stays primary; without one, the duplicate's takes its place
+  with moved as (
+    update customer_contact
+    set custno = survivor,
+        is_primary = customer_contact.is_primary and not exists (
+          select 1 from customer_contact cc where cc.custno = survivor and cc.is_primary
+        ),
+        modified_at = v_now,
+        modified_by = v_user
+    where custno = duplicate
+    returning id
+  )
+  select count(*) into v_contacts from moved;
+
+  with moved as (
+    update sales
+    set custno = survivor,
+        modified_at = v_now,
+        modified_by = v_user
+    where custno = duplicate
+    returning transno
+  )
+  select coalesce(jsonb_agg(transno order by transno), '[]'::jsonb) into v_transnos from moved;
+
+  -- A converted quote is locked and stays a record of who it was made out to
+  with moved as (
+    update quote
+    set custno = survivor,
+        modified_at = v_now,
+        modified_by = v_user
+    where custno = duplicate
+      and transno is null
+    returning quoteno
+  )
+  select coalesce(jsonb_agg(quoteno order by quoteno), '[]'::jsonb) into v_quotenos from moved;
+
+  update customer
+  set deleted_at = v_now,
+      deleted_by = v_user,
+      merged_into = survivor
+  where custno = duplicate;
+
+  perform public.log_activity(
+    'merge',
+    'customer',
+    survivor,
+    jsonb_build_object(
+      'merged', duplicate,
+      'sales', v_transnos,
+      'quotes', v_quotenos,
+      'contacts', v_contacts,
+      'kept', jsonb_build_object('custname', v_custname, 'address', v_address, 'payterm', v_payterm),
+      'survivor_before', jsonb_build_object('custname', v_survivor.custname, 'address', v_survivor.address, 'payterm', v_survivor.payterm),
+      'duplicate_before', jsonb_build_object('custname', v_duplicate.custname, 'address', v_duplicate.address, 'payterm', v_duplicate.payterm)
+    )
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', format(
+      '%s has been merged into %s. %s sale%s moved.',
+      duplicate, survivor, jsonb_array_length(v_transnos), case when jsonb_array_length(v_transnos) = 1 then '' else 's' end
+    ),
+    'errors', '[]'::jsonb
+  );
+end;
+$$;
@@ -0,0 +1,658 @@
+-- Customers can be given a credit limit: the most they may owe across their open sales. A
+-- customer owing its limit or more is on credit hold. A sale that would take a customer over
+-- its limit is refused, however it is written, unless a user allowed to override credit holds
+-- gives a reason, which is kept in sale_credit_override. Administrators are notified when a
+-- customer's balance reaches 80% of its limit.
+alter table public.customer
+  add column if not exists credit_limit numeric(12, 2) check (credit_limit >= 0);
+
+create table if not exists public.sale_credit_override (
+  id uuid primary key default gen_random_uuid(),
+  transno text not null references public.sales (transno) on delete cascade,
+  custno text not null references public.customer (custno),
+  credit_limit numeric(12, 2) not null,
+  -- What the customer owed before the sale was saved, and would owe after it
+  balance numeric(12, 2) not null,
+  new_balance numeric(12, 2) not null,
+  reason text not null,
+  approved_at timestamp with time zone not null default now(),
+  approved_by uuid
+);
+
+create index if not exists sale_credit_override_transno_idx on public.sale_credit_override (transno);
+
+-- Customers whose administrators have been told they are near their limit; cleared once the
+-- balance drops back below 80% so the next crossing is reported again
+create table if not exists public.customer_credit_alert (
+  custno text primary key references public.customer (custno) on delete cascade,
+  alerted_at timestamp with time zone not null default now()
+);
+
+alter table public.sale_credit_override enable row level security;
+alter table public.customer_credit_alert enable row level security;
+
+create policy "Sales viewers can view credit overrides"
+  on public.sale_credit_override for select
+  to authenticated
+  using (public.has_permission('sales', 'view'));
+
+-- Recorded only by enforce_credit_limit, when a sale is saved over its customer's limit
+grant select on public.sale_credit_override to authenticated;
+
+-- Administrators and managers set limits and override holds
+insert into public.role_permission (role_id, resource, action)
+select r.id, p.resource, p.action
+from public.role r
+cross join (values ('customers', 'credit_limit'), ('sales', 'override_credit')) as p (resource, action)
+where r.name in ('Administrator', 'Manager')
+on conflict do nothing;
+
+-- Only users who may set credit limits can change one, whichever way the row is written
+create or replace function public.check_credit_limit_permission()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if new.credit_limit is distinct from (case when tg_op = 'UPDATE' then old.credit_limit end)
+    and not public.has_permission('customers', 'credit_limit') then
+    raise exception 'You do not have permission to set credit limits.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger customer_check_credit_limit_permission
+  before insert or update of credit_limit on public.customer
+  for each row execute function public.check_credit_limit_permission();
+
+-- What a customer owes across its open sales, optionally leaving one sale out
+create or replace function public.customer_balance(p_custno text, p_exclude_transno text default null)
+returns numeric
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(sum(oi.balance), 0)
+  from ar_open_invoices oi
+  where oi.custno = p_custno
+    and oi.transno is distinct from p_exclude_transno;
+$$;
+
+grant execute on function public.customer_balance(text, text) to authenticated;
+
+-- Limit, balance and hold of every customer, for badges and the credit panels
+create or replace view public.customer_credit_status
+with (security_invoker = true)
+as
+select
+  c.custno,
+  c.credit_limit,
+  coalesce(b.balance, 0) as balance,
+  c.credit_limit - coalesce(b.balance, 0) as available_credit,
+  case when c.credit_limit > 0 then round(coalesce(b.balance, 0) / c.credit_limit * 100, 1) end as percent_used,
+  c.credit_limit is not null and coalesce(b.balance, 0) >= c.credit_limit as on_hold
+from public.customer c
+left join (
+  select oi.custno, sum(oi.balance) as balance
+  from public.ar_open_invoices oi
+  group by oi.custno
+) b on b.custno = c.custno;
+
+grant select on public.customer_credit_status to authenticated;
+
+-- Notify administrators the first time a customer's balance reaches 80% of its limit
+create or replace function public.check_credit_alert(p_custno text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_custname text;
+  v_limit numeric;
+  v_balance numeric;
+begin
+  select c.custname, c.credit_limit into v_custname, v_limit
+  from customer c
+  where c.custno = p_custno and c.deleted_at is null;
+
+  if v_limit is not null and v_limit > 0 then
+    v_balance := public.customer_balance(p_custno);
+  end if;
+
+  if v_balance is null or v_balance < v_limit * 0.8 then
+    delete from customer_credit_alert a where a.custno = p_custno;
+    return;
+  end if;
+
+  insert into customer_credit_alert (custno) values (p_custno)
+  on conflict (custno) do nothing;
+
+  -- Already reported since the balance last crossed
+  if not found then
+    return;
+  end if;
+
+  insert into notifications (user_id, title, message)
+  select distinct ur.user_id,
+    'Customer near credit limit',
+    format(
+      '%s (%s) owes $%s, %s%% of its $%s credit limit.',
+      coalesce(v_custname, p_custno),
+      p_custno,
+      to_char(v_balance, 'FM999999999990.00'),
+      round(v_balance / v_limit * 100),
+      to_char(v_limit, 'FM999999999990.00')
+    )
+  from user_role ur
+  join role r on r.id = ur.role_id
+  where r.name = 'Administrator';
+end;
+$$;
+
+revoke execute on function public.check_credit_alert(text) from public;
+
+-- Balances move with sales, lines, payments and credit memos. The checks are deferred to the
+-- end of the transaction so a sale is judged with all of its lines saved.
+create or replace function public.credit_alert_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_custno text;
+begin
+  if tg_table_name = 'customer' or tg_table_name = 'sales' then
+    v_custno := new.custno;
+    -- A sale moved to another customer lowers the old customer's balance
+    if tg_table_name = 'sales' and tg_op = 'UPDATE' and old.custno is distinct from new.custno then
+      perform public.check_credit_alert(old.custno);
+    end if;
+  else
+    select s.custno into v_custno from sales s where s.transno = new.transno;
+  end if;
+
+  if v_custno is not null then
+    perform public.check_credit_alert(v_custno);
+  end if;
+
+  return null;
+end;
+$$;
+
+create constraint trigger customer_credit_alert_check
+  after update of credit_limit on public.customer
+  deferrable initially deferred
+  for each row execute function public.credit_alert_trigger();
+
+create constraint trigger sales_credit_alert_check
+  after insert or update on public.sales
+  deferrable initially deferred
+  for each row execute function public.credit_alert_trigger();
+
+create constraint trigger salesdetail_credit_alert_check
+  after insert or update on public.salesdetail
+  deferrable initially deferred
+  for each row execute function public.credit_alert_trigger();
+
+create constraint trigger payment_credit_alert_check
+  after insert or update on public.payment
+  deferrable initially deferred
+  for each row execute function public.credit_alert_trigger();
+
+create constraint trigger credit_memo_credit_alert_check
+  after insert or update on public.credit_memo
+  deferrable initially deferred
+  for each row execute function public.credit_alert_trigger();
+
+-- Set a customer's credit limit, or clear it when none is given
+create or replace function public.set_customer_credit_limit(custno text, credit_limit numeric default null)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_old_limit numeric;
+begin
+  if not public.has_permission('customers', 'credit_limit') then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'You don''t have permission to set credit limits.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'credit_limit', 'message', 'You don''t have permission to set credit limits.'))
+    );
+  end if;
+
+  select c.credit_limit into v_old_limit
+  from customer c
+  where c.custno = set_customer_credit_limit.custno and c.deleted_at is null
+  for update;
+
+  if not found then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'This customer no longer exists or has been deleted.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'custno', 'message', 'This customer no longer exists or has been deleted.'))
+    );
+  end if;
+
+  if set_customer_credit_limit.credit_limit < 0 then
+    return jsonb_build_object(
+      'success', false,
+      'message', 'Please correct the highlighted fields.',
+      'errors', jsonb_build_array(jsonb_build_object('field', 'credit_limit', 'message', 'Credit limit cannot be negative.'))
+    );
+  end if;
+
+  update customer c
+  set credit_limit = round(set_customer_credit_limit.credit_limit, 2),
+      modified_at = now(),
+      modified_by = auth.uid()
+  where c.custno = set_customer_credit_limit.custno;
+
+  perform public.log_activity(
+    'credit_limit',
+    'customer',
+    set_customer_credit_limit.custno,
+    jsonb_build_object('old_limit', v_old_limit, 'new_limit', set_customer_credit_limit.credit_limit)
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', case
+      when set_customer_credit_limit.credit_limit is null then 'Credit limit removed.'
+      else format('Credit limit set to $%s.', to_char(set_customer_credit_limit.credit_limit, 'FM999999999990.00'))
+    end,
+    'errors', '[]'::jsonb
+  );
+end;
+$$;
+
+grant execute on function public.set_customer_credit_limit(text, numeric) to authenticated;
+
+-- Hold every write that adds to a sale to its customer's credit limit, however the sale is
+-- written. A sale may leave the customer owing more than its limit only when it doesn't add to
+-- what the customer owed before, or when a user who may override credit holds gave a reason,
+-- which is then kept in sale_credit_override. save_sale and convert_quote_to_sale pass the
+-- balance before the sale and the reason in app.credit_check; the setting cannot be set through
+-- the API. Writes made without it are judged against the limit alone.
+-- Deferred so a sale is judged with all of its lines saved; the customer row stays locked until
+-- the transaction ends so two sales for the same customer are judged one after the other.
+-- Like check_update_permission, only requests made by signed-in users are checked.
+create or replace function public.enforce_credit_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transno text := new.transno;
+  v_custno text;
+  v_credit_limit numeric;
+  v_balance numeric;
+  v_new_balance numeric;
+  v_request jsonb := nullif(current_setting('app.credit_check', true), '')::jsonb;
+  v_reason text;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  -- A line whose quantity, price and product stay the same or go down adds nothing
+  if tg_table_name = 'salesdetail' and tg_op = 'UPDATE'
+    and old.deleted_at is null
+    and new.prodcode = old.prodcode
+    and new.quantity <= old.quantity
+    and new.quoted_price is not distinct from old.quoted_price then
+    return null;
+  end if;
+
+  select s.custno into v_custno from sales s where s.transno = v_transno and s.deleted_at is null;
+
+  select c.credit_limit into v_credit_limit
+  from customer c
+  where c.custno = v_custno
+  for update;
+
+  if v_credit_limit is null then
+    return null;
+  end if;
+
+  v_new_balance := public.customer_balance(v_custno);
+
+  if v_new_balance <= v_credit_limit
+    -- Approved while judging another line of the same sale
+    or exists (select 1 from sale_credit_override o where o.transno = v_transno and o.approved_at = now()) then
+    return null;
+  end if;
+
+  if v_request->>'transno' = v_transno then
+    v_balance := (v_request->>'balance')::numeric;
+    v_reason := nullif(trim(v_request->>'override_reason'), '');
+
+    if v_new_balance <= v_balance then
+      return null;
+    end if;
+  else
+    v_balance := public.customer_balance(v_custno, v_transno);
+  end if;
+
+  if v_reason is null then
+    raise exception 'This sale would bring the customer''s balance to $%, over its credit limit of $%.',
+      to_char(v_new_balance, 'FM999999999990.00'),
+      to_char(v_credit_limit, 'FM999999999990.00')
+      using errcode = 'CR001',
+        detail = jsonb_build_object(
+          'field', 'custno',
+          'credit_hold', jsonb_build_object('credit_limit', v_credit_limit, 'balance', v_balance, 'new_balance', v_new_balance)
+        )::text;
+  end if;
+
+  if not public.has_permission('sales', 'override_credit') then
+    raise exception 'You don''t have permission to override a credit hold.'
+      using errcode = 'CR001',
+        detail = jsonb_build_object('field', 'credit_override_reason')::text;
+  end if;
+
+  insert into sale_credit_override (transno, custno, credit_limit, balance, new_balance, reason, approved_at, approved_by)
+  values (v_transno, v_custno, v_credit_limit, v_balance, v_new_balance, v_reason, now(), auth.uid());
+
+  perform public.log_activity(
+    'credit_override',
+    'sales',
+    v_transno,
+    jsonb_build_object(
+      'custno', v_custno,
+      'credit_limit', v_credit_limit,
+      'balance', v_balance,
+      'new_balance', v_new_balance,
+      'reason', v_reason
+    )
+  );
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.enforce_credit_limit() from public;
+
+create constraint trigger sales_credit_limit_check
+  after update of custno on public.sales
+  deferrable initially deferred
+  for each row
+  when (new.custno is distinct from old.custno)
+  execute function public.enforce_credit_limit();
+
+create constraint trigger salesdetail_credit_limit_check
+  after insert or update on public.salesdetail
+  deferrable initially deferred
+  for each row
+  when (new.deleted_at is null)
+  execute function public.enforce_credit_limit();
+
+-- save_sale now reports a sale refused by enforce_credit_limit as a credit hold, and passes it
+-- sale.credit_override_reason to override the hold with
+create or replace function public.save_sale(sale jsonb, lines jsonb, is_new boolean)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transno text := nullif(trim(sale->>'transno'), '');
+  v_salesdate timestamp with time zone := nullif(sale->>'salesdate', '')::timestamp with time zone;
+  v_custno text := nullif(sale->>'custno', '');
+  v_empno text := nullif(sale->>'empno', '');
+  v_override_reason text := nullif(trim(sale->>'credit_override_reason'), '');
+  v_current_empno text;
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_prodcode text;
+  v_seen text[] := '{}';
+  v_detail text;
+begin
+  if v_transno is null then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number is required.');
+  elsif is_new and exists (select 1 from sales s where s.transno = v_transno) then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'Transaction number already exists.');
+  elsif not is_new and not exists (select 1 from sales s where s.transno = v_transno and s.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'transno', 'message', 'This sale no longer exists or has been deleted.');
+  end if;
+
+  if v_custno is not null
+    and not exists (select 1 from customer c where c.custno = v_custno and c.deleted_at is null) then
+    v_errors := v_errors || jsonb_build_object('field', 'custno', 'message', 'Customer does not exist or has been deleted.');
+  end if;
+
+  -- A separated salesperson may stay on a sale they already made
+  if v_empno is not null then
+    select s.empno into v_current_empno from sales s where s.transno = v_transno;
+
+    if not exists (
+      select 1 from employee e
+      where e.empno = v_empno and (e.sepdate is null or e.empno = v_current_empno)
+    ) then
+      v_errors := v_errors || jsonb_build_object('field', 'empno', 'message', 'Salesperson does not exist or has separated.');
+    end if;
+  end if;
+
+  if jsonb_typeof(lines) is distinct from 'array' or jsonb_array_length(lines) = 0 then
+    v_errors := v_errors || jsonb_build_object('field', 'items', 'message', 'Add at least one product to the sale.');
+  else
+    for v_line in
+      select l.value, l.ordinality - 1 as idx
+      from jsonb_array_elements(lines) with ordinality as l(value, ordinality)
+    loop
+      v_prodcode := nullif(v_line.value->>'prodcode', '');
+
+      if v_prodcode is null then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Select a product.');
+      elsif not exists (select 1 from product p where p.prodcode = v_prodcode and p.deleted_at is null) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product does not exist or has been deleted.');
+      elsif v_prodcode = any(v_seen) then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.prodcode', v_line.idx), 'message', 'Product is already on this sale.');
+      else
+        v_seen := v_seen || v_prodcode;
+      end if;
+
+      if jsonb_typeof(v_line.value->'quantity') is distinct from 'number'
+        or (v_line.value->>'quantity')::numeric < 1 then
+        v_errors := v_errors || jsonb_build_object('field', format('items.%s.quantity', v_line.idx), 'message', 'Quantity must be at least 1.');
+      end if;
+    end loop;
+  end if;
+
+  if jsonb_array_length(v_errors) > 0 then
+    return jsonb_build_object('success', false, 'transno', v_transno, 'errors', v_errors);
+  end if;
+
+  perform set_config(
+    'app.credit_check',
+    jsonb_build_object(
+      'transno', v_transno,
+      'balance', public.customer_balance(v_custno),
+      'override_reason', v_override_reason
+    )::text,
+    true
+  );
+
+  if is_new then
+    insert into sales (transno, salesdate, custno, empno, created_at, created_by)
+    values (v_transno, v_salesdate, v_custno, v_empno, v_now, v_user);
+  else
+    update sales
+    set salesdate = v_salesdate,
+        custno = v_custno,
+        empno = v_empno,
+        modified_at = v_now,
+        modified_by = v_user
+    where transno = v_transno;
+  end if;
+
+  insert into salesdetail (transno, prodcode, quantity, deleted_at, deleted_by)
+  select v_transno, l->>'prodcode', (l->>'quantity')::numeric, null, null
+  from jsonb_array_elements(lines) as l
+  on conflict (transno, prodcode) do update
+    set quantity = excluded.quantity,
+        deleted_at = null,
+        deleted_by = null;
+
+  update salesdetail d
+  set deleted_at = v_now,
+      deleted_by = v_user
+  where d.transno = v_transno
+    and d.deleted_at is null
+    and d.prodcode not in (select l->>'prodcode' from jsonb_array_elements(lines) as l);
+
+  perform public.log_activity(
+    case when is_new then 'insert' else 'update' end,
+    'sales',
+    v_transno,
+    jsonb_build_object('sale', sale, 'lines', lines)
+  );
+
+  -- Judge the sale now, so a credit hold can be reported instead of failing the commit
+  set constraints public.sales_credit_limit_check, public.salesdetail_credit_limit_check immediate;
+
+  return jsonb_build_object('success', true, 'transno', v_transno, 'errors', '[]'::jsonb);
+exception
+  when sqlstate 'CR001' then
+    get stacked diagnostics v_detail = pg_exception_detail;
+    return jsonb_build_object(
+      'success', false,
+      'transno', v_transno,
+      'errors', jsonb_build_array(jsonb_build_object('field', v_detail::jsonb->>'field', 'message', sqlerrm)),
+      'credit_hold', v_detail::jsonb->'credit_hold'
+    );
+  -- Another user took the transaction number between the check and the insert
+  when unique_violation then
+    return jsonb_build_object(
+      'success', false,
+      'transno', v_transno,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'transno', 'message', 'Transaction number already exists.'))
+    );
+end;
+$$;
+
+-- Converting a quote books a sale, so it is held to the customer's credit limit the same
+-- way. The override reason is a new argument.
+drop function if exists public.convert_quote_to_sale(text);
+
+create or replace function public.convert_quote_to_sale(quoteno text, credit_override_reason text default null)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_quote quote%rowtype;
+  v_transno text;
+  v_user uuid := auth.uid();
+  v_now timestamp with time zone := now();
+  v_detail text;
+begin
+  select * into v_quote from quote q where q.quoteno = convert_quote_to_sale.quoteno for update;
+
+  if v_quote.quoteno is null then
+    return jsonb_build_object('success', false, 'message', 'This quote no longer exists.');
+  end if;
+
+  if v_quote.transno is not null then
+    return jsonb_build_object('success', false, 'message', format('This quote was already converted to sale %s.', v_quote.transno), 'transno', v_quote.transno);
+  end if;
+
+  if v_quote.status in ('rejected', 'expired') then
+    return jsonb_build_object('success', false, 'message', format('A quote that is %s cannot be converted.', v_quote.status));
+  end if;
+
+  if v_quote.valid_until < current_date then
+    return jsonb_build_object('success', false, 'message', format('This quote expired on %s.', to_char(v_quote.valid_until, 'YYYY-MM-DD')));
+  end if;
+
+  if not exists (select 1 from customer c where c.custno = v_quote.custno and c.deleted_at is null) then
+    return jsonb_build_object('success', false, 'message', 'The customer on this quote no longer exists.');
+  end if;
+
+  if v_quote.empno is not null
+    and not exists (select 1 from employee e where e.empno = v_quote.empno and e.sepdate is null) then
+    return jsonb_build_object('success', false, 'message', 'The salesperson on this quote has separated. Edit the quote before converting it.');
+  end if;
+
+  if exists (
+    select 1 from quote_line ql
+    join product p on p.prodcode = ql.prodcode
+    where ql.quoteno = v_quote.quoteno and p.deleted_at is not null
+  ) then
+    return jsonb_build_object('success', false, 'message', 'A product on this quote has been deleted. Edit the quote before converting it.');
+  end if;
+
+  -- A refused conversion is rolled back with its transaction number
+  begin
+    v_transno := public.next_document_number('sales');
+
+    perform set_config(
+      'app.credit_check',
+      jsonb_build_object(
+        'transno', v_transno,
+        'balance', public.customer_balance(v_quote.custno),
+        'override_reason', convert_quote_to_sale.credit_override_reason
+      )::text,
+      true
+    );
+
+    insert into sales (transno, salesdate, custno, empno, created_at, created_by)
+    values (v_transno, v_now, v_quote.custno, v_quote.empno, v_now, v_user);
+
+    insert into salesdetail (transno, prodcode, quantity, quoted_price)
+    select v_transno, ql.prodcode, ql.quantity, ql.unitprice
+    from quote_line ql
+    where ql.quoteno = v_quote.quoteno;
+
+    set constraints public.sales_credit_limit_check, public.salesdetail_credit_limit_check immediate;
+  exception
+    when sqlstate 'CR001' then
+      get stacked diagnostics v_detail = pg_exception_detail;
+      return jsonb_build_object('success', false, 'message', sqlerrm, 'credit_hold', v_detail::jsonb->'credit_hold');
+  end;
+
+  update quote
+  set status = 'accepted',
+      transno = v_transno,
+      converted_at = v_now,
+      converted_by = v_user
+  where quote.quoteno = v_quote.quoteno;
+
+  perform public.log_activity(
+    'insert',
+    'sales',
+    v_transno,
+    jsonb_build_object('quoteno', v_quote.quoteno)
+  );
+
+  perform public.log_activity(
+    'convert',
+    'quote',
+    v_quote.quoteno,
+    jsonb_build_object('transno', v_transno)
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'message', format('Quote %s has been converted to sale %s.', v_quote.quoteno, v_transno),
+    'transno', v_transno
+  );
+end;
+$$;
+
+grant execute on function public.convert_quote_to_sale(text, text) to authenticated;
@@ -0,0 +1,165 @@
+-- Released numbers could be given back by anyone, for any number, including one another user
+-- had reserved and not yet saved, so the same number could be handed out twice. Each number
+-- handed out is now recorded with the user who reserved it, and only that user (or a user who
+-- manages settings) may release it, and only once.
+create table if not exists public.document_number_reservation (
+  sequence_code text not null references public.document_sequence(code) on delete cascade,
+  number text not null,
+  reserved_at timestamp with time zone not null default now(),
+  reserved_by uuid,
+  primary key (sequence_code, number)
+);
+
+-- Only written by next_document_number and release_document_number
+alter table public.document_number_reservation enable row level security;
+
+-- Reserve the next number of a series, reusing a released number first when the series allows it
+create or replace function public.next_document_number(sequence_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sequence document_sequence%rowtype;
+  v_number text;
+begin
+  select * into v_sequence
+  from document_sequence ds
+  where ds.code = next_document_number.sequence_code
+  for update;
+
+  if not found then
+    raise exception 'Unknown document sequence: %', sequence_code;
+  end if;
+
+  if v_sequence.reuse_cancelled then
+    select p.number into v_number
+    from document_number_pool p
+    where p.sequence_code = v_sequence.code
+      and not document_number_in_use(p.sequence_code, p.number)
+    order by p.number
+    limit 1
+    for update skip locked;
+
+    if v_number is not null then
+      delete from document_number_pool p
+      where p.sequence_code = v_sequence.code and p.number = v_number;
+    end if;
+  end if;
+
+  if v_number is null then
+    -- Skip numbers that were entered by hand or saved before the series existed
+    loop
+      v_number := v_sequence.prefix || lpad(v_sequence.next_value::text, v_sequence.padding, '0');
+      v_sequence.next_value := v_sequence.next_value + 1;
+      exit when not document_number_in_use(v_sequence.code, v_number);
+    end loop;
+
+    update document_sequence
+    set next_value = v_sequence.next_value
+    where code = v_sequence.code;
+  end if;
+
+  insert into document_number_reservation (sequence_code, number, reserved_by)
+  values (v_sequence.code, v_number, auth.uid())
+  on conflict on constraint document_number_reservation_pkey do update
+    set reserved_at = excluded.reserved_at,
+        reserved_by = excluded.reserved_by;
+
+  return v_number;
+end;
+$$;
+
+-- Give back a reserved number that was never saved. Ignored when the series does not reuse
+-- numbers, the number is not one the series has handed out, it was reserved by someone else,
+-- or it ended up being used after all.
+create or replace function public.release_document_number(sequence_code text, number text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sequence document_sequence%rowtype;
+  v_digits text;
+  v_reserved_by uuid;
+begin
+  -- Taken before anything is checked so releasing waits for a number being handed out
+  select * into v_sequence
+  from document_sequence ds
+  where ds.code = release_document_number.sequence_code
+  for update;
+
+  if not found or not v_sequence.reuse_cancelled or number is null then
+    return false;
+  end if;
+
+  v_digits := substring(number from length(v_sequence.prefix) + 1);
+
+  if left(number, length(v_sequence.prefix)) <> v_sequence.prefix or v_digits !~ '^[0-9]{1,18}$' then
+    return false;
+  end if;
+
+  -- Formatted the way next_document_number formats it, and already handed out
+  if v_sequence.prefix || lpad(v_digits::bigint::text, v_sequence.padding, '0') <> number
+    or v_digits::bigint >= v_sequence.next_value then
+    return false;
+  end if;
+
+  select r.reserved_by into v_reserved_by
+  from document_number_reservation r
+  where r.sequence_code = v_sequence.code and r.number = release_document_number.number
+  for update;
+
+  if v_reserved_by is distinct from auth.uid() and not public.has_permission('settings', 'manage') then
+    return false;
+  end if;
+
+  if document_number_in_use(v_sequence.code, number) then
+    return false;
+  end if;
+
+  delete from document_number_reservation r
+  where r.sequence_code = v_sequence.code and r.number = release_document_number.number;
+
+  insert into document_number_pool (sequence_code, number, released_by)
+  values (v_sequence.code, release_document_number.number, auth.uid())
+  on conflict do nothing;
+
+  return true;
+end;
+$$;
+
+-- A reservation ends when its number is saved; the trigger arguments are the series and the
+-- column holding the number
+create or replace function public.clear_document_number_reservation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from document_number_reservation r
+  where r.sequence_code = tg_argv[0]
+    and r.number = to_jsonb(new)->>tg_argv[1];
+
+  return null;
+end;
+$$;
+
+create trigger sales_clear_number_reservation
+  after insert on public.sales
+  for each row execute function public.clear_document_number_reservation('sales', 'transno');
+
+create trigger customer_clear_number_reservation
+  after insert on public.customer
+  for each row execute function public.clear_document_number_reservation('customer', 'custno');
+
+create trigger quote_clear_number_reservation
+  after insert on public.quote
+  for each row execute function public.clear_document_number_reservation('quote', 'quoteno');
+
+create trigger credit_memo_clear_number_reservation
+  after insert on public.credit_memo
+  for each row execute function public.clear_document_number_reservation('credit_memo', 'memono');
@@ -0,0 +1,237 @@
+-- Sample data for local development, loaded by `supabase db reset` after the migrations.
+-- Every key and date is fixed so each reset gives the same portal.
+
+-- Sign-in users, one per everyday role; the password for all of them is "password123",
+-- hashed with a fixed salt
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+select
+  '00000000-0000-0000-0000-000000000000', u.id, 'authenticated', 'authenticated', u.email,
+  extensions.crypt('password123', '$2a$06$SampleDataSaltForSeed.'), '2026-01-05 08:00:00+00',
+  '{"provider": "email", "providers": ["email"]}',
+  jsonb_build_object('first_name', u.first_name, 'last_name', u.last_name),
+  '2026-01-05 08:00:00+00', '2026-01-05 08:00:00+00', '', '', '', ''
+from (values
+  ('10000000-0000-0000-0000-000000000001'::uuid, 'admin@example.com', 'Ada', 'Reyes'),
+  ('10000000-0000-0000-0000-000000000002'::uuid, 'manager@example.com', 'Marco', 'Santos'),
+  ('10000000-0000-0000-0000-000000000003'::uuid, 'clerk@example.com', 'Clara', 'Lim'),
+  ('10000000-0000-0000-0000-000000000004'::uuid, 'cashier@example.com', 'Carlos', 'Tan')
+) as u(id, email, first_name, last_name);
+
+insert into auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+select u.id, u.id, u.id::text, 'email',
+  jsonb_build_object('sub', u.id::text, 'email', u.email, 'email_verified', true),
+  '2026-01-05 08:00:00+00', '2026-01-05 08:00:00+00', '2026-01-05 08:00:00+00'
+from auth.users u
+where u.email like '%@example.com';
+
+-- Sign-up gave each user the default Viewer role; swap it for the role they demonstrate
+delete from public.user_role
+where user_id in (select id from auth.users where email like '%@example.com');
+
+insert into public.user_role (user_id, role_id)
+select u.id, r.id
+from (values
+  ('admin@example.com', 'Administrator'),
+  ('manager@example.com', 'Manager'),
+  ('clerk@example.com', 'Sales Clerk'),
+  ('cashier@example.com', 'Cashier')
+) as a(email, role_name)
+join auth.users u on u.email = a.email
+join public.role r on r.name = a.role_name;
+
+-- Employees
+insert into public.department (deptcode, deptname)
+values
+  ('SLS', 'Sales'),
+  ('ACC', 'Accounting'),
+  ('ADM', 'Administration');
+
+insert into public.job (jobcode, jobdesc)
+values
+  ('SM', 'Sales Manager'),
+  ('SR', 'Sales Representative'),
+  ('CL', 'Clerk'),
+  ('AC', 'Accountant');
+
+insert into public.employee (empno, lastname, firstname, gender, birthdate, hiredate, sepdate)
+values
+  ('E001', 'Garcia', 'Maria', 'F', '1985-03-14', '2019-02-01', null),
+  ('E002', 'Cruz', 'Jose', 'M', '1990-07-22', '2021-06-15', null),
+  ('E003', 'Mendoza', 'Ana', 'F', '1994-11-05', '2022-09-01', null),
+  ('E004', 'Bautista', 'Ramon', 'M', '1988-01-30', '2020-04-13', null),
+  ('E005', 'Villanueva', 'Liza', 'F', '1992-05-18', '2023-01-09', null),
+  ('E006', 'Aquino', 'Paolo', 'M', '1991-09-27', '2021-03-01', '2026-06-30');
+
+insert into public.jobhistory (empno, jobcode, deptcode, effdate, salary)
+values
+  ('E001', 'SR', 'SLS', '2019-02-01', 28000),
+  ('E001', 'SM', 'SLS', '2023-01-01', 52000),
+  ('E002', 'SR', 'SLS', '2021-06-15', 30000),
+  ('E003', 'SR', 'SLS', '2022-09-01', 29000),
+  ('E004', 'AC', 'ACC', '2020-04-13', 38000),
+  ('E005', 'CL', 'ADM', '2023-01-09', 22000),
+  ('E006', 'SR', 'SLS', '2021-03-01', 27000);
+
+-- Customers, using the payment terms created by the migrations
+insert into public.customer (custno, custname, address, payterm, created_at)
+values
+  ('C0001', 'Northwind Trading', '12 Rizal Ave, Manila', 'NET30', '2026-01-05'),
+  ('C0002', 'Bluebird Bookstore', '48 Mabini St, Quezon City', 'COD', '2026-01-05'),
+  ('C0003', 'Summit Office Supply', '7 Ayala Blvd, Makati', '2/10 NET30', '2026-01-12'),
+  ('C0004', 'Harbor Logistics', '101 Port Area, Manila', 'NET45', '2026-02-02'),
+  ('C0005', 'Greenleaf School', '3 Acacia Rd, Pasig', 'NET15', '2026-02-20'),
+  ('C0006', 'Coastal Printing', '55 Roxas Blvd, Pasay', 'NET30', '2026-03-08'),
+  ('C0007', 'Pinecrest Clinic', '9 Pine St, Baguio', 'NET30', '2026-04-01'),
+  ('C0008', 'Lakeside Cafe', '21 Lakeshore Dr, Taguig', 'COD', '2026-05-15'),
+  ('C0009', 'Metro Hardware', '66 EDSA, Mandaluyong', 'NET45', '2026-06-03'),
+  ('C0010', 'Sunrise Bakery', '14 Luna St, San Juan', 'NET15', '2026-07-21');
+
+update public.customer
+set deleted_at = '2026-08-01'
+where custno = 'C0008';
+
+-- Structured addresses behind the one-line customer addresses; Harbor Logistics ships to its
+-- warehouse rather than its office
+insert into public.customer_address (custno, kind, street, city, region, postal_code, country)
+values
+  ('C0001', 'billing', '12 Rizal Ave', 'Manila', null, null, null),
+  ('C0002', 'billing', '48 Mabini St', 'Quezon City', null, null, null),
+  ('C0003', 'billing', '7 Ayala Blvd', 'Makati', null, null, null),
+  ('C0004', 'billing', '101 Port Area', 'Manila', null, null, null),
+  ('C0004', 'shipping', 'Warehouse 4, Pier 15', 'Manila', 'Metro Manila', '1018', 'Philippines'),
+  ('C0005', 'billing', '3 Acacia Rd', 'Pasig', null, null, null),
+  ('C0006', 'billing', '55 Roxas Blvd', 'Pasay', null, null, null),
+  ('C0007', 'billing', '9 Pine St', 'Baguio', null, null, null),
+  ('C0008', 'billing', '21 Lakeshore Dr', 'Taguig', null, null, null),
+  ('C0009', 'billing', '66 EDSA', 'Mandaluyong', null, null, null),
+  ('C0010', 'billing', '14 Luna St', 'San Juan', null, null, null);
+
+insert into public.customer_contact (id, custno, name, role, phone, email, is_primary, created_at)
+values
+  ('00000000-0000-0000-0000-000000000c01', 'C0001', 'Ana Reyes', 'Purchasing', '+63 2 8123 4567', 'ana.reyes@northwind.example', true, '2026-01-05'),
+  ('00000000-0000-0000-0000-000000000c02', 'C0001', 'Paolo Cruz', 'Accounts Payable', '+63 2 8123 4570', 'ap@northwind.example', false, '2026-01-05'),
+  ('00000000-0000-0000-0000-000000000c03', 'C0003', 'Liza Santos', 'Office Manager', '+63 917 555 0103', 'liza@summitoffice.example', true, '2026-01-12'),
+  ('00000000-0000-0000-0000-000000000c04', 'C0004', 'Ramon Dela Cruz', 'Warehouse', '+63 917 555 0104', 'receiving@harbor.example', true, '2026-02-02'),
+  ('00000000-0000-0000-0000-000000000c05', 'C0009', 'Grace Lim', 'Owner', '+63 917 555 0109', 'grace@metrohardware.example', true, '2026-06-03');
+
+-- Products and their prices; some prices went up mid-year
+insert into public.product (prodcode, description, unit, created_at)
+values
+  ('P001', 'Ballpen, black', 'pc', '2026-01-02'),
+  ('P002', 'Bond paper A4', 'ream', '2026-01-02'),
+  ('P003', 'Stapler', 'pc', '2026-01-02'),
+  ('P004', 'Staple wire #35', 'box', '2026-01-02'),
+  ('P005', 'Printer ink, black', 'btl', '2026-01-02'),
+  ('P006', 'Folder, long', 'pack', '2026-01-02'),
+  ('P007', 'Notebook', 'pc', '2026-01-02'),
+  ('P008', 'Correction tape', 'pc', '2026-01-02'),
+  ('P009', 'Calculator', 'pc', '2026-01-02'),
+  ('P010', 'Whiteboard marker', 'box', '2026-01-02');
+
+insert into public.pricehist (prodcode, effdate, unitprice, created_at)
+values
+  ('P001', '2026-01-01', 12.00, '2026-01-02'),
+  ('P001', '2026-07-01', 13.50, '2026-06-20'),
+  ('P002', '2026-01-01', 245.00, '2026-01-02'),
+  ('P002', '2026-07-01', 260.00, '2026-06-20'),
+  ('P003', '2026-01-01', 85.00, '2026-01-02'),
+  ('P004', '2026-01-01', 30.00, '2026-01-02'),
+  ('P005', '2026-01-01', 320.00, '2026-01-02'),
+  ('P005', '2026-07-01', 340.00, '2026-06-20'),
+  ('P006', '2026-01-01', 95.00, '2026-01-02'),
+  ('P007', '2026-01-01', 35.00, '2026-01-02'),
+  ('P008', '2026-01-01', 28.00, '2026-01-02'),
+  ('P009', '2026-01-01', 450.00, '2026-01-02'),
+  ('P010', '2026-01-01', 180.00, '2026-01-02'),
+  ('P010', '2026-07-01', 195.00, '2026-06-20');
+
+-- Sales spread over the year so the dashboard trends and AR aging have something to show
+insert into public.sales (transno, salesdate, custno, empno, created_at)
+values
+  ('TR000001', '2026-01-15', 'C0001', 'E002', '2026-01-15'),
+  ('TR000002', '2026-02-03', 'C0002', 'E003', '2026-02-03'),
+  ('TR000003', '2026-02-24', 'C0003', 'E002', '2026-02-24'),
+  ('TR000004', '2026-03-18', 'C0004', 'E006', '2026-03-18'),
+  ('TR000005', '2026-04-09', 'C0005', 'E003', '2026-04-09'),
+  ('TR000006', '2026-05-12', 'C0001', 'E006', '2026-05-12'),
+  ('TR000007', '2026-06-05', 'C0006', 'E002', '2026-06-05'),
+  ('TR000008', '2026-07-14', 'C0007', 'E003', '2026-07-14'),
+  ('TR000009', '2026-08-06', 'C0009', 'E002', '2026-08-06'),
+  ('TR000010', '2026-09-02', 'C0003', 'E003', '2026-09-02'),
+  ('TR000011', '2026-09-25', 'C0010', 'E002', '2026-09-25'),
+  ('TR000012', '2026-10-08', 'C0004', 'E003', '2026-10-08');
+
+insert into public.salesdetail (transno, prodcode, quantity)
+values
+  ('TR000001', 'P001', 50),
+  ('TR000001', 'P002', 10),
+  ('TR000002', 'P007', 40),
+  ('TR000002', 'P008', 20),
+  ('TR000003', 'P002', 25),
+  ('TR000003', 'P005', 4),
+  ('TR000003', 'P003', 6),
+  ('TR000004', 'P006', 12),
+  ('TR000004', 'P004', 10),
+  ('TR000005', 'P007', 120),
+  ('TR000005', 'P010', 6),
+  ('TR000006', 'P009', 3),
+  ('TR000006', 'P001', 100),
+  ('TR000007', 'P005', 10),
+  ('TR000007', 'P002', 30),
+  ('TR000008', 'P008', 15),
+  ('TR000008', 'P006', 5),
+  ('TR000009', 'P003', 10),
+  ('TR000009', 'P004', 20),
+  ('TR000009', 'P009', 2),
+  ('TR000010', 'P002', 40),
+  ('TR000010', 'P010', 4),
+  ('TR000011', 'P007', 30),
+  ('TR000012', 'P005', 6),
+  ('TR000012', 'P001', 80);
+
+-- Payments as a share of each sale's total: most are settled, some are partly paid, and the
+-- latest sales are still open. One cheque bounced and its payment was voided.
+insert into public.payment (orno, paydate, amount, transno)
+select p.orno, p.paydate, round(ss.total_amount * p.share, 2), p.transno
+from (values
+  ('OR000001', '2026-02-10'::date, 'TR000001', 1.0),
+  ('OR000002', '2026-02-03'::date, 'TR000002', 1.0),
+  ('OR000003', '2026-03-05'::date, 'TR000003', 1.0),
+  ('OR000004', '2026-04-30'::date, 'TR000004', 0.5),
+  ('OR000005', '2026-04-20'::date, 'TR000005', 1.0),
+  ('OR000006', '2026-06-10'::date, 'TR000006', 1.0),
+  ('OR000007', '2026-07-01'::date, 'TR000007', 0.4),
+  ('OR000008', '2026-08-10'::date, 'TR000008', 1.0),
+  ('OR000009', '2026-09-15'::date, 'TR000009', 1.0),
+  ('OR000010', '2026-09-20'::date, 'TR000010', 0.5)
+) as p(orno, paydate, transno, share)
+join public.sales_summary ss on ss.transno = p.transno;
+
+update public.payment
+set voided_at = '2026-09-18',
+    void_reason = 'Cheque returned by the bank'
+where orno = 'OR000009';
+
+-- Credit limits: Coastal Printing owes more than its limit and is on credit hold, and Harbor
+-- Logistics is past 80% of its limit, so the administrator is notified about both
+update public.customer c
+set credit_limit = l.credit_limit
+from (values
+  ('C0001', 10000.00),
+  ('C0004', 4500.00),
+  ('C0006', 6000.00)
+) as l(custno, credit_limit)
+where c.custno = l.custno;
+
+-- New numbers continue after the sample records
+update public.document_sequence set next_value = 13 where code = 'sales';
+update public.document_sequence set next_value = 11 where code = 'customer';
+
+insert into public.notifications (user_id, title, message, created_at)
+select u.id, 'Welcome', 'Sample data is loaded. Sign in as manager, clerk or cashier to see what each role can do.', '2026-01-05 08:00:00+00'
+from auth.users u
+where u.email = 'admin@example.com';
@@ -0,0 +1,341 @@
+-- Row level security on customers, sales, sale lines, payments, quotes, commissions, settings,
+-- profiles and user_permissions.
+-- Run against a local stack with `supabase test db`; everything is rolled back at the end.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(54);
+
+-- One user per seeded role
+insert into auth.users (id, email)
+values
+  ('00000000-0000-0000-0000-0000000000a1', 'viewer@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a2', 'clerk@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a3', 'cashier@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a4', 'manager@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a5', 'auditor@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a6', 'admin@rls.test'),
+  ('00000000-0000-0000-0000-0000000000a7', 'deleter@rls.test');
+
+insert into public.profiles (id, email)
+select id, email from auth.users where email like '%@rls.test'
+on conflict (id) do nothing;
+
+delete from public.user_role
+where user_id in (select id from auth.users where email like '%@rls.test');
+
+insert into public.user_role (user_id, role_id)
+select u.id, r.id
+from (values
+  ('viewer@rls.test', 'Viewer'),
+  ('clerk@rls.test', 'Sales Clerk'),
+  ('cashier@rls.test', 'Cashier'),
+  ('manager@rls.test', 'Manager'),
+  ('auditor@rls.test', 'Auditor'),
+  ('admin@rls.test', 'Administrator')
+) as a(email, role_name)
+join auth.users u on u.email = a.email
+join public.role r on r.name = a.role_name;
+
+-- A role that may delete sales but not edit them
+insert into public.role (name, description, is_system, is_default)
+values ('RLS Deleter', 'Deletes sales without editing them.', false, false);
+
+insert into public.role_permission (role_id, resource, action)
+select r.id, p.resource, p.action
+from public.role r
+cross join (values ('sales', 'view'), ('sales', 'delete')) as p(resource, action)
+where r.name = 'RLS Deleter';
+
+insert into public.user_role (user_id, role_id)
+select u.id, r.id
+from auth.users u
+join public.role r on r.name = 'RLS Deleter'
+where u.email = 'deleter@rls.test';
+
+-- Records to work on
+insert into public.customer (custno, custname) values ('RLS-C1', 'RLS Customer');
+insert into public.customer (custno, custname, deleted_at) values ('RLS-C2', 'RLS Deleted Customer', now());
+insert into public.product (prodcode, description, unit) values ('RLS-P1', 'RLS Product', 'pc');
+insert into public.product (prodcode, description, unit) values ('RLS-P2', 'RLS Other Product', 'pc');
+insert into public.sales (transno, salesdate, custno) values ('RLS-S1', now(), 'RLS-C1');
+insert into public.salesdetail (transno, prodcode, quantity) values ('RLS-S1', 'RLS-P1', 1);
+insert into public.payment (orno, paydate, amount, transno) values ('RLS-OR1', current_date, 10, 'RLS-S1');
+insert into public.quote (quoteno, valid_until, custno) values ('RLS-Q1', current_date + 30, 'RLS-C1');
+insert into public.job (jobcode, jobdesc) values ('RLS-J1', 'RLS Job');
+insert into public.credit_memo (memono, transno) values ('RLS-CM1', 'RLS-S1');
+insert into public.customer (custno, custname, credit_limit) values ('RLS-C4', 'RLS Limited Customer', 5);
+insert into public.product (prodcode, description, unit) values ('RLS-P3', 'RLS Priced Product', 'pc');
+insert into public.pricehist (prodcode, effdate, unitprice) values ('RLS-P3', current_date - 1, 10);
+insert into public.sales (transno, salesdate, custno) values ('RLS-S4', now(), 'RLS-C4');
+insert into public.commission_plan (jobcode, base_rate) values ('RLS-J1', 5);
+
+set local role authenticated;
+
+-- Viewer: reads, never writes
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+select isnt_empty(
+  $$ select 1 from public.customer where custno = 'RLS-C1' $$,
+  'Viewer can view customers'
+);
+select isnt_empty(
+  $$ select 1 from public.payment where orno = 'RLS-OR1' $$,
+  'Viewer can view payments'
+);
+select throws_ok(
+  $$ insert into public.customer (custno, custname) values ('RLS-C9', 'Blocked') $$,
+  '42501', null,
+  'Viewer cannot add customers'
+);
+select is_empty(
+  $$ update public.customer set custname = 'Changed' where custno = 'RLS-C1' returning 1 $$,
+  'Viewer cannot edit customers'
+);
+select throws_ok(
+  $$ insert into public.payment (orno, paydate, amount, transno) values ('RLS-OR9', current_date, 5, 'RLS-S1') $$,
+  '42501', null,
+  'Viewer cannot record payments'
+);
+select is_empty(
+  $$ select 1 from public.user_permissions where user_id <> auth.uid() $$,
+  'Viewer sees only their own legacy permissions'
+);
+select isnt_empty(
+  $$ select 1 from public.quote where quoteno = 'RLS-Q1' $$,
+  'Viewer can view quotes'
+);
+select is_empty(
+  $$ select 1 from public.commission_plan where jobcode = 'RLS-J1' $$,
+  'Viewer cannot view commission plans'
+);
+select lives_ok(
+  $$ update public.profiles set first_name = 'Viewer' where id = auth.uid() $$,
+  'Users can change their own name'
+);
+select throws_ok(
+  $$ update public.profiles set role = 'admin' where id = auth.uid() $$,
+  '42501', null,
+  'Users cannot change their own role'
+);
+
+-- Sales Clerk: customers and sales without deleting, lines in full
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ insert into public.customer (custno, custname) values ('RLS-C3', 'Clerk Customer') $$,
+  'Sales Clerk can add customers'
+);
+select lives_ok(
+  $$ update public.customer set custname = 'Renamed' where custno = 'RLS-C1' $$,
+  'Sales Clerk can edit customers'
+);
+select throws_ok(
+  $$ update public.customer set deleted_at = now() where custno = 'RLS-C1' $$,
+  '42501', null,
+  'Sales Clerk cannot delete customers'
+);
+select lives_ok(
+  $$ insert into public.sales (transno, salesdate, custno) values ('RLS-S2', now(), 'RLS-C1') $$,
+  'Sales Clerk can add sales'
+);
+select lives_ok(
+  $$ insert into public.salesdetail (transno, prodcode, quantity) values ('RLS-S2', 'RLS-P1', 2) $$,
+  'Sales Clerk can add sale lines'
+);
+select lives_ok(
+  $$ update public.salesdetail set deleted_at = now() where transno = 'RLS-S2' and prodcode = 'RLS-P1' $$,
+  'Sales Clerk can remove sale lines'
+);
+select lives_ok(
+  $$ update public.salesdetail set deleted_at = null where transno = 'RLS-S2' and prodcode = 'RLS-P1' $$,
+  'Sales Clerk can add a removed line back'
+);
+select throws_ok(
+  $$ update public.sales set deleted_at = now() where transno = 'RLS-S2' $$,
+  '42501', null,
+  'Sales Clerk cannot delete sales'
+);
+select is_empty(
+  $$ update public.payment set voided_at = now() where orno = 'RLS-OR1' returning 1 $$,
+  'Sales Clerk cannot void payments'
+);
+select lives_ok(
+  $$ update public.quote set status = 'sent' where quoteno = 'RLS-Q1' $$,
+  'Sales Clerk can edit quotes'
+);
+select lives_ok(
+  $$ insert into public.quote_line (quoteno, prodcode, quantity, unitprice) values ('RLS-Q1', 'RLS-P3', 1, 1) $$,
+  'Sales Clerk can add quote lines'
+);
+select results_eq(
+  $$ select unitprice from public.quote_line where quoteno = 'RLS-Q1' and prodcode = 'RLS-P3' $$,
+  $$ values (10::numeric) $$,
+  'Quote lines are priced from the price list'
+);
+select throws_ok(
+  $$ update public.quote_line set unitprice = 1 where quoteno = 'RLS-Q1' and prodcode = 'RLS-P3' $$,
+  '23514', null,
+  'Quote line prices cannot be changed directly'
+);
+select lives_ok(
+  $$ insert into public.credit_memo_line (memono, transno, prodcode, quantity, unitprice) values ('RLS-CM1', 'RLS-S2', 'RLS-P1', 1, 999) $$,
+  'Sales Clerk can add credit memo lines'
+);
+select results_eq(
+  $$ select transno, unitprice from public.credit_memo_line where memono = 'RLS-CM1' $$,
+  $$ values ('RLS-S1'::text, 0::numeric) $$,
+  'Credit memo lines credit the memo''s sale at the price it was billed'
+);
+
+-- The credit limit is checked at commit; judge these writes straight away
+set constraints public.salesdetail_credit_limit_check immediate;
+
+select throws_ok(
+  $$ insert into public.salesdetail (transno, prodcode, quantity) values ('RLS-S4', 'RLS-P3', 1) $$,
+  'CR001', null,
+  'Sale lines added directly are held to the customer''s credit limit'
+);
+select throws_ok(
+  $$ insert into public.sale_credit_override (transno, custno, credit_limit, balance, new_balance, reason) values ('RLS-S4', 'RLS-C4', 5, 0, 10, 'Test') $$,
+  '42501', null,
+  'Credit overrides cannot be recorded directly'
+);
+
+-- Cashier: payments only
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a3", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ insert into public.payment (orno, paydate, amount, transno) values ('RLS-OR2', current_date, 5, 'RLS-S1') $$,
+  'Cashier can record payments'
+);
+select lives_ok(
+  $$ update public.payment set amount = 6 where orno = 'RLS-OR2' $$,
+  'Cashier can edit payments'
+);
+select throws_ok(
+  $$ update public.payment set voided_at = now() where orno = 'RLS-OR2' $$,
+  '42501', null,
+  'Cashier cannot void payments'
+);
+select throws_ok(
+  $$ select public.save_sale('{"transno": "RLS-S3", "custno": "RLS-C1"}', '[{"prodcode": "RLS-P1", "quantity": 1}]', true) $$,
+  '42501', null,
+  'Cashier cannot add sales through save_sale'
+);
+select is_empty(
+  $$ update public.customer set custname = 'Changed' where custno = 'RLS-C1' returning 1 $$,
+  'Cashier cannot edit customers'
+);
+select is_empty(
+  $$ select 1 from public.quote where quoteno = 'RLS-Q1' $$,
+  'Cashier cannot view quotes'
+);
+
+-- Manager: deletes, restores and voids, but cannot manage users
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a4", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ update public.sales set deleted_at = now() where transno = 'RLS-S2' $$,
+  'Manager can delete sales'
+);
+select lives_ok(
+  $$ update public.sales set deleted_at = null where transno = 'RLS-S2' $$,
+  'Manager can restore sales'
+);
+select lives_ok(
+  $$ update public.payment set voided_at = now(), void_reason = 'Test' where orno = 'RLS-OR2' $$,
+  'Manager can void payments'
+);
+select is_empty(
+  $$ select 1 from public.user_permissions where user_id <> auth.uid() $$,
+  'Manager cannot view other users'' legacy permissions'
+);
+select is_empty(
+  $$ update public.app_settings set company_name = 'Changed' returning 1 $$,
+  'Manager cannot change company settings'
+);
+select is(
+  (public.calculate_commissions('2099-01-01')->>'success')::boolean,
+  false,
+  'Manager can view but not calculate commissions'
+);
+
+-- Auditor: sees everything, changes nothing
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a5", "role": "authenticated"}', true);
+
+select isnt_empty(
+  $$ select 1 from public.salesdetail where transno = 'RLS-S1' $$,
+  'Auditor can view sale lines'
+);
+select throws_ok(
+  $$ insert into public.salesdetail (transno, prodcode, quantity) values ('RLS-S1', 'RLS-P2', 1) $$,
+  '42501', null,
+  'Auditor cannot add sale lines'
+);
+select is_empty(
+  $$ update public.sales set salesdate = now() where transno = 'RLS-S1' returning 1 $$,
+  'Auditor cannot edit sales'
+);
+select is_empty(
+  $$ delete from public.customer where custno = 'RLS-C1' returning 1 $$,
+  'Auditor cannot delete customers'
+);
+select isnt_empty(
+  $$ select 1 from public.commission_plan where jobcode = 'RLS-J1' $$,
+  'Auditor can view commission plans'
+);
+select is(
+  (public.calculate_commissions('2099-01-01')->>'success')::boolean,
+  false,
+  'Auditor cannot calculate commissions'
+);
+
+-- Deleter: deleting a sale does not allow changing it in the same update
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a7", "role": "authenticated"}', true);
+
+select throws_ok(
+  $$ update public.sales set deleted_at = now(), custno = 'RLS-C2' where transno = 'RLS-S2' $$,
+  '42501', null,
+  'A user who may only delete sales cannot edit a sale while deleting it'
+);
+select lives_ok(
+  $$ update public.sales set deleted_at = now() where transno = 'RLS-S2' $$,
+  'A user who may only delete sales can delete a sale'
+);
+
+-- Administrator: everything the permission model allows
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a6", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ update public.customer set deleted_at = null where custno = 'RLS-C2' $$,
+  'Administrator can restore customers'
+);
+select lives_ok(
+  $$ insert into public.salesdetail (transno, prodcode, quantity) values ('RLS-S1', 'RLS-P2', 1) $$,
+  'Administrator can add sale lines'
+);
+select lives_ok(
+  $$ update public.app_settings set company_name = 'RLS Company' $$,
+  'Administrator can change company settings'
+);
+select is(
+  (public.calculate_commissions('2099-01-01')->>'success')::boolean,
+  true,
+  'Administrator can calculate commissions'
+);
+select isnt_empty(
+  $$ select 1 from public.user_permissions where user_id <> auth.uid() $$,
+  'Administrator can view every user''s legacy permissions'
+);
+select is_empty(
+  $$ update public.user_permissions set can_add_sales = true returning 1 $$,
+  'Legacy permissions cannot be changed directly, even by an administrator'
+);
+select is_empty(
+  $$ delete from public.payment where orno = 'RLS-OR1' returning 1 $$,
+  'Payments cannot be deleted, even by an administrator'
+);
+
+select * from finish();
+rollback;